@@ -0,0 +1,119 @@
+import React, { useState, useRef } from 'react';
+import { Request, ApprovalStatus } from '../../types.ts';
+import { useAuth } from '../../hooks/useAuth.ts';
+import { useRequests } from '../../hooks/useRequests.ts';
+import SignaturePad, { SignaturePadRef } from '../shared/SignaturePad.tsx';
+import { X, CheckCircle, XCircle, Loader2, AlertTriangle } from 'lucide-react';
+
+export type BulkAction = ApprovalStatus.APPROVED | ApprovalStatus.REJECTED;
+
+interface BulkActionModalProps {
+    requests: Request[];
+    action: BulkAction;
+    // Called with the ids of the requests that went through, so they can be dropped from the selection.
+    onClose: (completedIds: string[]) => void;
+}
+
+// Signs the same decision on several requests with one signature. Each request is submitted on its own,
+// so one failure (e.g. someone else acted first) doesn't hold up the rest.
+const BulkActionModal = ({ requests, action, onClose }: BulkActionModalProps) => {
+    const { currentUser } = useAuth();
+    const { updateRequestStatus } = useRequests();
+    const signaturePadRef = useRef<SignaturePadRef>(null);
+    const [comments, setComments] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [formError, setFormError] = useState<string | null>(null);
+    const [results, setResults] = useState<Record<string, { success: boolean; error: string | null }>>({});
+
+    const isApprove = action === ApprovalStatus.APPROVED;
+    const isDone = requests.every(req => results[req.id]);
+    const completedIds = requests.filter(req => results[req.id]?.success).map(req => req.id);
+
+    const handleSubmit = async () => {
+        if (!currentUser) return;
+        const signature = signaturePadRef.current?.getSignature();
+        if (!signature) {
+            setFormError("Please provide your signature to complete this action.");
+            return;
+        }
+        setFormError(null);
+        setIsSubmitting(true);
+
+        for (const req of requests) {
+            const result = await updateRequestStatus(req.id, currentUser.id, action, comments, signature);
+            setResults(prev => ({ ...prev, [req.id]: result }));
+        }
+        setIsSubmitting(false);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50 p-4">
+            <div className="bg-white rounded-lg shadow-xl p-8 w-full max-w-lg max-h-[90vh] overflow-y-auto">
+                <div className="flex justify-between items-center mb-4">
+                    <h2 className="text-xl font-bold text-gray-800">{isApprove ? 'Approve' : 'Reject'} {requests.length} Request{requests.length === 1 ? '' : 's'}</h2>
+                    <button onClick={() => onClose(completedIds)} disabled={isSubmitting}><X className="text-gray-500"/></button>
+                </div>
+
+                <ul className="border rounded-md divide-y mb-4">
+                    {requests.map(req => {
+                        const result = results[req.id];
+                        return (
+                            <li key={req.id} className="p-3 text-sm">
+                                <div className="flex items-center justify-between">
+                                    <span className="truncate">
+                                        <span className="font-medium text-gray-800">{req.details?.subject || 'No Subject'}</span>
+                                        <span className="ml-2 text-xs text-gray-400">{req.type} &middot; {req.id}</span>
+                                    </span>
+                                    {result?.success && <CheckCircle className="h-5 w-5 text-green-500 flex-shrink-0" />}
+                                    {result && !result.success && <XCircle className="h-5 w-5 text-red-500 flex-shrink-0" />}
+                                    {!result && isSubmitting && <Loader2 className="h-4 w-4 animate-spin text-gray-400 flex-shrink-0" />}
+                                </div>
+                                {result?.error && <p className="text-xs text-red-700 mt-1">{result.error}</p>}
+                            </li>
+                        );
+                    })}
+                </ul>
+
+                {!isDone ? (
+                    <>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Comments (applied to every request)</label>
+                        <textarea
+                            value={comments}
+                            onChange={(e) => setComments(e.target.value)}
+                            placeholder="Add optional comments..."
+                            className="w-full p-2 border rounded-md text-sm mb-4"
+                            rows={2}
+                            disabled={isSubmitting}
+                        />
+                        <SignaturePad ref={signaturePadRef} label="Your Signature" />
+                        {formError && (
+                            <div className="bg-red-50 border border-red-200 text-red-800 p-3 rounded-lg mt-4 flex items-start">
+                                <AlertTriangle className="h-5 w-5 mr-3 flex-shrink-0 mt-0.5" />
+                                <p className="text-sm">{formError}</p>
+                            </div>
+                        )}
+                        <div className="flex justify-end pt-4">
+                            <button
+                                onClick={handleSubmit}
+                                disabled={isSubmitting}
+                                className={`px-6 py-2 text-white font-semibold rounded-lg flex items-center ${isApprove ? 'bg-green-600 hover:bg-green-700 disabled:bg-green-300' : 'bg-red-600 hover:bg-red-700 disabled:bg-red-300'}`}
+                            >
+                                {isSubmitting && <Loader2 className="animate-spin h-4 w-4 mr-2" />}
+                                {isApprove ? 'Approve All' : 'Reject All'}
+                            </button>
+                        </div>
+                    </>
+                ) : (
+                    <div className="flex items-center justify-between pt-2">
+                        <p className="text-sm text-gray-600">{completedIds.length} of {requests.length} {isApprove ? 'approved' : 'rejected'}.</p>
+                        <button onClick={() => onClose(completedIds)} className="px-6 py-2 bg-zankli-orange-600 text-white font-semibold rounded-lg hover:bg-zankli-orange-700">
+                            Done
+                        </button>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default BulkActionModal;
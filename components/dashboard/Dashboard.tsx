@@ -1,32 +1,54 @@
 
 
 import React, { useState, useEffect } from 'react';
-import { LogOut, LayoutDashboard, FilePlus2, ChevronDown, ChevronUp, Droplets, ShoppingCart, CalendarOff, PackagePlus, UserCircle, Bell, Inbox, Building, Menu, Warehouse } from 'lucide-react';
+import { LogOut, LayoutDashboard, FilePlus2, ChevronDown, ChevronUp, UserCircle, Bell, Inbox, Building, Menu, Warehouse, Workflow, CalendarOff, CalendarRange, CalendarDays, FilePen } from 'lucide-react';
 import { useAuth } from '../../hooks/useAuth.ts';
 import { useRequests } from '../../hooks/useRequests.ts';
-import { Request, RequestType, UserRole, ApprovalStatus, Notification } from '../../types.ts';
+import { Request, RequestType, UserRole, ApprovalStatus, Notification, RequestDraft, PdfCommentSummary } from '../../types.ts';
 import RequestList from './RequestList.tsx';
 import RequestForm from '../requests/RequestForm.tsx';
 import ItemRequestInbox from './ItemRequestInbox.tsx';
 import VendorManagement from '../vendors/VendorManagement.tsx';
 import RequestDetailsModal from '../requests/RequestDetailsModal.tsx';
 import StoreManagement from '../store/StoreManagement.tsx';
+import WorkflowTemplateManagement from '../workflows/WorkflowTemplateManagement.tsx';
+import DelegationManagement from '../delegations/DelegationManagement.tsx';
+import LeaveManagement from '../leave/LeaveManagement.tsx';
+import LeaveCalendar from '../leave/LeaveCalendar.tsx';
+import DraftList from '../drafts/DraftList.tsx';
+import { getRequestTypeDefinition, requestTypesCreatableBy } from '../../lib/requestTypes.ts';
+import { actingApproverIds, approverToActFor } from '../../lib/delegations.ts';
+import { isAwaitingDecision } from '../../lib/requestStatus.ts';
+import { newLineItemId } from '../../lib/requestDetails.ts';
+import { useDelegations } from '../../hooks/useDelegations.ts';
+import { useReminders } from '../../hooks/useReminders.ts';
+import { useDrafts } from '../../hooks/useDrafts.ts';
+import { usePagedRequests } from '../../hooks/usePagedRequests.ts';
 
-const IconMap = {
-    [RequestType.DIESEL]: <Droplets className="h-5 w-5 mr-3 text-zankli-orange-500" />,
-    [RequestType.PROCUREMENT]: <ShoppingCart className="h-5 w-5 mr-3 text-zankli-orange-500" />,
-    [RequestType.LEAVE]: <CalendarOff className="h-5 w-5 mr-3 text-zankli-orange-500" />,
-    [RequestType.ITEM]: <PackagePlus className="h-5 w-5 mr-3 text-zankli-orange-500" />,
-    [RequestType.STORE]: <Warehouse className="h-5 w-5 mr-3 text-zankli-orange-500" />,
-};
+// Administrators are notified of requests submitted in this many days that were sent back or closed.
+const NOTIFICATION_WINDOW_DAYS = 30;
+const CLOSED_NOTIFICATION_STATUSES = [ApprovalStatus.SENT_BACK, ApprovalStatus.REJECTED, ApprovalStatus.COMPLETED, ApprovalStatus.CANCELLED];
+
+const isoDateDaysAgo = (days: number): string => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
 
 const Dashboard = () => {
     const { currentUser, logout } = useAuth();
-    const { requests, updateItemRequestStatus, getUserById } = useRequests();
+    const { commentSummaries, updateItemRequestStatus, getUserById, getRequest, onRequestChange } = useRequests();
+    const { delegations } = useDelegations();
+    const { reminders } = useReminders();
+    const { drafts } = useDrafts();
+    // Notifications come from the first page of each query, newest first, rather than from every request.
+    const { items: awaitingRequests } = usePagedRequests(currentUser?.role === UserRole.APPROVER
+        ? { statuses: [ApprovalStatus.PENDING], currentApproverIds: actingApproverIds(delegations, currentUser.id) }
+        : null);
+    const { items: closedRequests } = usePagedRequests(currentUser?.role === UserRole.ADMIN
+        ? { statuses: CLOSED_NOTIFICATION_STATUSES, createdFrom: isoDateDaysAgo(NOTIFICATION_WINDOW_DAYS) }
+        : null);
     const [activeView, setActiveView] = useState('dashboard');
     const [requestType, setRequestType] = useState<RequestType | null>(null);
     const [requestToEdit, setRequestToEdit] = useState<Request | null>(null);
     const [procurementInitialDetails, setProcurementInitialDetails] = useState<{[key: string]: any} | null>(null);
+    const [draftToResume, setDraftToResume] = useState<RequestDraft | null>(null);
     const [isRequestMenuOpen, setIsRequestMenuOpen] = useState(true);
     const [isSidebarOpen, setIsSidebarOpen] = useState(false);
 
@@ -34,18 +56,12 @@ const Dashboard = () => {
     const [notifications, setNotifications] = useState<Notification[]>([]);
     const [isNotificationsOpen, setIsNotificationsOpen] = useState(false);
 
-    useEffect(() => {
-        if (requestInModal) {
-            const updatedRequestInModal = requests.find(r => r.id === requestInModal.id);
-            if (updatedRequestInModal) {
-                if (JSON.stringify(requestInModal) !== JSON.stringify(updatedRequestInModal)) {
-                    setRequestInModal(updatedRequestInModal);
-                }
-            } else {
-                setRequestInModal(null);
-            }
-        }
-    }, [requests, requestInModal]);
+    useEffect(() => onRequestChange(change => {
+        setRequestInModal(shown => {
+            if (!shown || (change.record?.id || change.oldRecord?.id) !== shown.id) return shown;
+            return change.eventType === 'DELETE' ? null : change.record || shown;
+        });
+    }), [onRequestChange]);
 
     useEffect(() => {
         if (!currentUser) return;
@@ -53,59 +69,69 @@ const Dashboard = () => {
         const readNotifIds = JSON.parse(localStorage.getItem(`zmc-read-notifs-${currentUser.id}`) || '[]');
         const generatedNotifs: Notification[] = [];
 
-        requests.forEach(req => {
-            const baseNotifId = `notif-${req.id}-${req.status}`;
-            
-            if (currentUser.role === UserRole.APPROVER && req.status === ApprovalStatus.PENDING && req.approvalQueue && req.approvalQueue.length > req.currentApproverIndex) {
-                const isTheirTurn = req.approvalQueue[req.currentApproverIndex]?.userId === currentUser.id;
-                if (isTheirTurn) {
-                    const notifId = `${baseNotifId}-${currentUser.id}`;
-                    generatedNotifs.push({
-                        id: notifId,
-                        requestId: req.id,
-                        message: `New request awaiting your approval: ${req.id}`,
-                        isRead: readNotifIds.includes(notifId),
-                        createdAt: req.createdAt,
-                    });
-                }
-            }
+        awaitingRequests.forEach(req => {
+            const actingFor = isAwaitingDecision(req) ? approverToActFor(req, delegations, currentUser.id) : null;
+            if (!actingFor) return;
+            const notifId = `notif-${req.id}-${req.status}-${currentUser.id}`;
+            const coveredEmail = actingFor !== currentUser.id ? getUserById(actingFor)?.email || 'a colleague' : null;
+            generatedNotifs.push({
+                id: notifId,
+                requestId: req.id,
+                message: coveredEmail
+                    ? `Request awaiting approval while you cover for ${coveredEmail}: ${req.id}`
+                    : `New request awaiting your approval: ${req.id}`,
+                isRead: readNotifIds.includes(notifId),
+                createdAt: req.createdAt,
+            });
+        });
 
-            if (currentUser.role === UserRole.ADMIN) {
-                if ([ApprovalStatus.SENT_BACK, ApprovalStatus.REJECTED, ApprovalStatus.COMPLETED].includes(req.status)) {
-                    generatedNotifs.push({
-                        id: baseNotifId,
-                        requestId: req.id,
-                        message: `Request ${req.id} has been ${req.status}.`,
-                        isRead: readNotifIds.includes(baseNotifId),
-                        createdAt: req.createdAt,
-                    });
-                }
-                
-                if (req.pdfComments?.length) {
-                    req.pdfComments.forEach(comment => {
-                        if (comment.userId === currentUser.id) return;
+        closedRequests.forEach(req => {
+            const notifId = `notif-${req.id}-${req.status}`;
+            generatedNotifs.push({
+                id: notifId,
+                requestId: req.id,
+                message: `Request ${req.id} has been ${req.status}.`,
+                isRead: readNotifIds.includes(notifId),
+                createdAt: req.createdAt,
+            });
+        });
 
-                        const notifId = `notif-comment-${req.id}-${comment.createdAt}`;
-                        const commenterName = comment.userEmail?.split('@')[0] || getUserById(comment.userId)?.email?.split('@')[0] || 'a user';
-                        const message = `New comment on ${req.id} from ${commenterName}: "${comment.comment?.substring(0, 40) || ''}..."`;
+        // Only the latest comment is known without loading the thread, so notify on that one.
+        if (currentUser.role === UserRole.ADMIN) {
+            Object.values(commentSummaries).forEach((commentSummary: PdfCommentSummary) => {
+                if (commentSummary.lastCommentUserId === currentUser.id) return;
+                const notifId = `notif-comment-${commentSummary.requestId}-${commentSummary.lastCommentAt}`;
+                const commenterName = commentSummary.lastCommentUserEmail?.split('@')[0] || getUserById(commentSummary.lastCommentUserId)?.email?.split('@')[0] || 'a user';
+                const otherComments = commentSummary.count > 1 ? ` (${commentSummary.count} comments)` : '';
+                const message = `New comment on ${commentSummary.requestId} from ${commenterName}: "${commentSummary.lastComment?.substring(0, 40) || ''}..."${otherComments}`;
 
-                        generatedNotifs.push({
-                            id: notifId,
-                            requestId: req.id,
-                            message: message,
-                            isRead: readNotifIds.includes(notifId),
-                            createdAt: comment.createdAt,
-                        });
-                    });
-                }
-            }
+                generatedNotifs.push({
+                    id: notifId,
+                    requestId: commentSummary.requestId,
+                    message: message,
+                    isRead: readNotifIds.includes(notifId),
+                    createdAt: commentSummary.lastCommentAt,
+                });
+            });
+        }
+
+        // Reminders and escalation alerts are stored per recipient, so each one becomes its own notification.
+        reminders.forEach(reminder => {
+            const notifId = `notif-reminder-${reminder.id}`;
+            generatedNotifs.push({
+                id: notifId,
+                requestId: reminder.requestId,
+                message: reminder.message,
+                isRead: readNotifIds.includes(notifId),
+                createdAt: reminder.createdAt,
+            });
         });
         
         setNotifications(generatedNotifs.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()));
         
-    }, [requests, currentUser, getUserById]);
+    }, [awaitingRequests, closedRequests, commentSummaries, currentUser, getUserById, delegations, reminders]);
 
-    const handleNotificationClick = (notification: Notification) => {
+    const handleNotificationClick = async (notification: Notification) => {
         if(!currentUser) return;
         const readNotifIds = JSON.parse(localStorage.getItem(`zmc-read-notifs-${currentUser.id}`) || '[]');
         if (!readNotifIds.includes(notification.id)) {
@@ -114,11 +140,13 @@ const Dashboard = () => {
             setNotifications(prev => prev.map(n => n.id === notification.id ? {...n, isRead: true} : n));
         }
 
-        const requestToView = requests.find(r => r.id === notification.requestId);
+        setIsNotificationsOpen(false);
+        const { request: requestToView, error } = await getRequest(notification.requestId);
         if (requestToView) {
             setRequestInModal(requestToView);
+        } else {
+            alert(`Could not open request ${notification.requestId}: ${error}`);
         }
-        setIsNotificationsOpen(false);
     };
 
 
@@ -127,10 +155,18 @@ const Dashboard = () => {
         setRequestType(type);
         setRequestToEdit(null);
         setProcurementInitialDetails(null);
+        setDraftToResume(null);
         if (window.innerWidth < 1024) {
             setIsSidebarOpen(false);
         }
     };
+
+    const handleResumeDraft = (draft: RequestDraft) => {
+        setDraftToResume(draft);
+        setProcurementInitialDetails(null);
+        setRequestType(draft.requestType);
+        setActiveView('create-request');
+    };
     
     const handleEditRequest = (request: Request) => {
         setRequestToEdit(request);
@@ -144,13 +180,15 @@ const Dashboard = () => {
         const result = await updateItemRequestStatus(itemRequest.id, ApprovalStatus.COMPLETED);
         
         if (result.success) {
+            const itemDetails = itemRequest.type === RequestType.ITEM ? itemRequest.details : null;
             const initialData = {
-                subject: `Procurement for: ${itemRequest.details?.item || 'Item Request'}`,
-                quantity: itemRequest.details?.quantity || 1,
-                justification: itemRequest.details?.justification || '',
+                subject: `Procurement for: ${itemDetails?.item || 'Item Request'}`,
+                items: [{ id: newLineItemId(), description: itemDetails?.item || '', unit: '', quantity: itemDetails?.quantity || 1, unitCost: '' }],
+                justification: itemDetails?.justification || '',
                 department: '',
             };
             setProcurementInitialDetails(initialData);
+            setDraftToResume(null);
             setActiveView('create-request');
             setRequestType(RequestType.PROCUREMENT);
             if (window.innerWidth < 1024) {
@@ -162,7 +200,6 @@ const Dashboard = () => {
     };
 
     const isAdmin = currentUser?.role === UserRole.ADMIN;
-    const isApprover = currentUser?.role === UserRole.APPROVER;
 
     const getPageTitle = () => {
         switch(activeView) {
@@ -172,6 +209,11 @@ const Dashboard = () => {
             case 'item-inbox': return 'Item Request Inbox';
             case 'vendor-management': return 'Vendor Management';
             case 'store-management': return 'Store Management';
+            case 'workflow-management': return 'Approval Workflows';
+            case 'delegations': return 'Out of Office';
+            case 'leave-management': return 'Leave Management';
+            case 'leave-calendar': return 'Leave Calendar';
+            case 'drafts': return 'My Drafts';
             default: return 'Dashboard';
         }
     }
@@ -192,6 +234,13 @@ const Dashboard = () => {
                         <LayoutDashboard className="h-5 w-5 mr-3" />
                         Dashboard
                     </button>
+                    <button onClick={() => handleNavigation('drafts')} className={`w-full flex items-center p-2 rounded-lg transition-colors ${activeView === 'drafts' ? 'bg-zankli-orange-100 text-zankli-orange-800' : 'text-gray-700 hover:bg-zankli-cream-100'}`}>
+                        <FilePen className="h-5 w-5 mr-3" />
+                        My Drafts
+                        {drafts.length > 0 && (
+                            <span className="ml-auto px-2 py-0.5 text-xs font-semibold rounded-full bg-zankli-cream-200 text-gray-700">{drafts.length}</span>
+                        )}
+                    </button>
                     {isAdmin && (
                         <>
                             <button onClick={() => handleNavigation('item-inbox')} className={`w-full flex items-center p-2 rounded-lg transition-colors ${activeView === 'item-inbox' ? 'bg-zankli-orange-100 text-zankli-orange-800' : 'text-gray-700 hover:bg-zankli-cream-100'}`}>
@@ -206,8 +255,28 @@ const Dashboard = () => {
                                 <Building className="h-5 w-5 mr-3" />
                                 Vendor Management
                             </button>
+                            <button onClick={() => handleNavigation('workflow-management')} className={`w-full flex items-center p-2 rounded-lg transition-colors ${activeView === 'workflow-management' ? 'bg-zankli-orange-100 text-zankli-orange-800' : 'text-gray-700 hover:bg-zankli-cream-100'}`}>
+                                <Workflow className="h-5 w-5 mr-3" />
+                                Approval Workflows
+                            </button>
+                            <button onClick={() => handleNavigation('leave-management')} className={`w-full flex items-center p-2 rounded-lg transition-colors ${activeView === 'leave-management' ? 'bg-zankli-orange-100 text-zankli-orange-800' : 'text-gray-700 hover:bg-zankli-cream-100'}`}>
+                                <CalendarRange className="h-5 w-5 mr-3" />
+                                Leave Management
+                            </button>
                         </>
                     )}
+                    {(isAdmin || currentUser?.role === UserRole.APPROVER) && (
+                        <button onClick={() => handleNavigation('delegations')} className={`w-full flex items-center p-2 rounded-lg transition-colors ${activeView === 'delegations' ? 'bg-zankli-orange-100 text-zankli-orange-800' : 'text-gray-700 hover:bg-zankli-cream-100'}`}>
+                            <CalendarOff className="h-5 w-5 mr-3" />
+                            Out of Office
+                        </button>
+                    )}
+                    {(isAdmin || currentUser?.role === UserRole.APPROVER) && (
+                        <button onClick={() => handleNavigation('leave-calendar')} className={`w-full flex items-center p-2 rounded-lg transition-colors ${activeView === 'leave-calendar' ? 'bg-zankli-orange-100 text-zankli-orange-800' : 'text-gray-700 hover:bg-zankli-cream-100'}`}>
+                            <CalendarDays className="h-5 w-5 mr-3" />
+                            Leave Calendar
+                        </button>
+                    )}
 
                     <div>
                         <button onClick={() => setIsRequestMenuOpen(!isRequestMenuOpen)} className="w-full flex items-center justify-between p-2 rounded-lg text-gray-700 hover:bg-zankli-cream-100">
@@ -219,16 +288,12 @@ const Dashboard = () => {
                         </button>
                         {isRequestMenuOpen && (
                             <ul className="pl-6 mt-1">
-                                {Object.values(RequestType).map(type => {
-                                    const canAdminCreate = isAdmin && [RequestType.DIESEL, RequestType.PROCUREMENT, RequestType.LEAVE, RequestType.STORE].includes(type);
-                                    const canApproverCreate = isApprover && type === RequestType.ITEM;
-
-                                    if (!canAdminCreate && !canApproverCreate) return null;
-                                    
+                                {currentUser && requestTypesCreatableBy(currentUser.role).map(type => {
+                                    const TypeIcon = getRequestTypeDefinition(type).icon;
                                     return (
                                     <li key={type} className="mt-1">
                                         <button onClick={() => handleNavigation('create-request', type)} className={`w-full text-left flex items-center p-2 rounded-lg text-sm transition-colors ${activeView === 'create-request' && requestType === type ? 'bg-zankli-orange-100 text-zankli-orange-800' : 'text-gray-600 hover:bg-zankli-cream-100'}`}>
-                                            {IconMap[type]}
+                                            <TypeIcon className="h-5 w-5 mr-3 text-zankli-orange-500" />
                                             {type}
                                         </button>
                                     </li>
@@ -302,11 +367,16 @@ const Dashboard = () => {
                 <div className="p-4 sm:p-6">
                     {activeView === 'dashboard' && <RequestList onEditRequest={handleEditRequest} onViewRequest={setRequestInModal} />}
                     {activeView === 'create-request' && requestType && (
-                        <RequestForm 
-                            requestType={requestType} 
-                            onFormSubmit={() => handleNavigation('dashboard')} 
-                            initialDetails={requestType === RequestType.PROCUREMENT ? procurementInitialDetails : null}
-                        />
+                        // Each new request or resumed draft gets a fresh form, and with it its own draft.
+                        <React.Fragment key={draftToResume?.id || requestType}>
+                            <RequestForm 
+                                requestType={requestType} 
+                                onFormSubmit={() => handleNavigation('dashboard')} 
+                                initialDetails={requestType === RequestType.PROCUREMENT ? procurementInitialDetails : null}
+                                draft={draftToResume}
+                                onDiscardDraft={() => handleNavigation('drafts')}
+                            />
+                        </React.Fragment>
                     )}
                     {activeView === 'edit-request' && requestToEdit && (
                         <RequestForm 
@@ -318,6 +388,11 @@ const Dashboard = () => {
                     {activeView === 'item-inbox' && <ItemRequestInbox onCreateProcurement={handleCreateProcurementFromItemRequest} onViewRequest={setRequestInModal} />}
                     {activeView === 'vendor-management' && <VendorManagement />}
                     {activeView === 'store-management' && <StoreManagement />}
+                    {activeView === 'workflow-management' && <WorkflowTemplateManagement />}
+                    {activeView === 'delegations' && <DelegationManagement />}
+                    {activeView === 'leave-management' && <LeaveManagement />}
+                    {activeView === 'leave-calendar' && <LeaveCalendar />}
+                    {activeView === 'drafts' && <DraftList onResume={handleResumeDraft} />}
                 </div>
             </main>
             {requestInModal && (
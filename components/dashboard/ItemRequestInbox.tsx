@@ -1,7 +1,11 @@
 
 import React, { useState, useMemo } from 'react';
-import { useRequests } from '../../hooks/useRequests.ts';
+import { Loader2 } from 'lucide-react';
+import { usePagedRequests } from '../../hooks/usePagedRequests.ts';
 import { Request, ApprovalStatus, RequestType } from '../../types.ts';
+import { RequestQuery } from '../../lib/data/requestQuery.ts';
+import InfiniteScrollTrigger from '../shared/InfiniteScrollTrigger.tsx';
+import { canCreateProcurementFrom } from '../../lib/requestStatus.ts';
 
 interface ItemRequestInboxProps {
   onCreateProcurement: (request: Request) => void;
@@ -9,16 +13,14 @@ interface ItemRequestInboxProps {
 }
 
 const ItemRequestInbox = ({ onCreateProcurement, onViewRequest }: ItemRequestInboxProps) => {
-  const { requests, updateItemRequestStatus } = useRequests();
   const [activeTab, setActiveTab] = useState(ApprovalStatus.PENDING);
 
-  const itemRequests = useMemo(() => {
-    return requests.filter(req => req.type === RequestType.ITEM);
-  }, [requests]);
+  const itemQuery = useMemo((): RequestQuery => ({
+    types: [RequestType.ITEM],
+    statuses: [activeTab],
+  }), [activeTab]);
 
-  const filteredRequests = useMemo(() => {
-    return itemRequests.filter(req => req.status === activeTab);
-  }, [itemRequests, activeTab]);
+  const { items: filteredRequests, hasMore, loading, loadingMore, error, loadMore } = usePagedRequests(itemQuery);
 
   const tabs = [ApprovalStatus.PENDING, ApprovalStatus.COMPLETED];
 
@@ -44,7 +46,13 @@ const ItemRequestInbox = ({ onCreateProcurement, onViewRequest }: ItemRequestInb
       </div>
 
       <div className="mt-6 space-y-4">
-        {filteredRequests.length > 0 ? filteredRequests.map(req => (
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        {loading ? (
+            <div className="flex justify-center items-center py-10">
+                <Loader2 className="h-6 w-6 animate-spin text-zankli-orange-500" />
+                <p className="ml-3 text-gray-600">Loading item requests...</p>
+            </div>
+        ) : filteredRequests.length > 0 ? filteredRequests.map(req => (
           <div key={req.id} className="bg-zankli-cream-50 p-4 rounded-lg flex items-center justify-between hover:bg-zankli-cream-100 transition-colors">
             <div>
               <p className="font-bold text-gray-800">{req.details?.subject || 'No Subject'}</p>
@@ -52,7 +60,7 @@ const ItemRequestInbox = ({ onCreateProcurement, onViewRequest }: ItemRequestInb
             </div>
             <div className="flex items-center space-x-3">
               <button onClick={() => onViewRequest(req)} className="text-sm text-zankli-orange-600 hover:underline">View Details</button>
-              {req.status === ApprovalStatus.PENDING && (
+              {canCreateProcurementFrom(req) && (
                 <button onClick={() => onCreateProcurement(req)} className="px-3 py-1 text-sm font-medium text-white bg-green-600 rounded-md hover:bg-green-700">
                   Create Procurement
                 </button>
@@ -64,6 +72,7 @@ const ItemRequestInbox = ({ onCreateProcurement, onViewRequest }: ItemRequestInb
                 <p className="text-gray-500">No requests in this category.</p>
             </div>
         )}
+        <InfiniteScrollTrigger hasMore={hasMore} isLoading={loadingMore} onLoadMore={loadMore} />
       </div>
     </div>
   );
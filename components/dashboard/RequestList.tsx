@@ -1,10 +1,40 @@
 
 
-import React, { useState, useMemo, useCallback } from 'react';
+import React, { useState, useMemo, useCallback, useEffect } from 'react';
 import { useRequests } from '../../hooks/useRequests.ts';
 import { useAuth } from '../../hooks/useAuth.ts';
+import { usePagedRequests } from '../../hooks/usePagedRequests.ts';
 import { Request, UserRole, ApprovalStatus, RequestType } from '../../types.ts';
-import { Bell, Droplets, Coins, Hash, User, CalendarDays, PackagePlus, Warehouse, Hourglass, UserCheck, UserX, Send, Search, Loader2, AlertTriangle } from 'lucide-react';
+import { RequestQuery, RequestSort, RequestSortField } from '../../lib/data/requestQuery.ts';
+import InfiniteScrollTrigger from '../shared/InfiniteScrollTrigger.tsx';
+import BulkActionModal, { BulkAction } from './BulkActionModal.tsx';
+import { getRequestTypeDefinition, requestTypesWithoutApprovalQueue, requestTypesWithoutFulfilment } from '../../lib/requestTypes.ts';
+import { currentApprovalStep, currentApproverIds, currentStepRoleOf, describeStepRequirement } from '../../lib/approvalSteps.ts';
+import { ROLES_WITH_STEP_INPUT, WORKFLOW_ROLE_LABELS } from '../../lib/workflows.ts';
+import { describeAdjustedDetails } from '../../lib/adjustments.ts';
+import { approverToActFor, coveredApproverIds, describeSignatory } from '../../lib/delegations.ts';
+import { useDelegations } from '../../hooks/useDelegations.ts';
+import { useReminders } from '../../hooks/useReminders.ts';
+import { currentStepDueAt } from '../../lib/sla.ts';
+import { isAwaitingDecision } from '../../lib/requestStatus.ts';
+import { Bell, Hourglass, UserCheck, UserX, Send, Search, Loader2, AlertTriangle, AlarmClock, Ban, PackageCheck, SlidersHorizontal } from 'lucide-react';
+
+const SORT_OPTIONS: { value: string; label: string }[] = [
+    { value: 'createdAt:desc', label: 'Newest first' },
+    { value: 'createdAt:asc', label: 'Oldest first' },
+    { value: 'requesterName:asc', label: 'Requester (A-Z)' },
+    { value: 'type:asc', label: 'Request type' },
+    { value: 'status:asc', label: 'Status' },
+];
+
+const parseSortOption = (value: string): RequestSort => {
+    const [field, direction] = value.split(':');
+    return { field: field as RequestSortField, ascending: direction === 'asc' };
+};
+
+// Admin tab for approved procurement and diesel requisitions whose fulfilment is still being recorded.
+const TO_FULFIL_TAB = 'To fulfil';
+type RequestListTab = ApprovalStatus | typeof TO_FULFIL_TAB | 'All';
 
 interface RequestListProps {
     onEditRequest: (request: Request) => void;
@@ -12,52 +42,107 @@ interface RequestListProps {
 }
 
 const RequestList = ({ onEditRequest, onViewRequest }: RequestListProps) => {
-  const { requests, loading, error, getUserById } = useRequests();
+  const { loading, error, getUserById } = useRequests();
   const { currentUser } = useAuth();
-  const [activeTab, setActiveTab] = useState<ApprovalStatus | 'All'>(ApprovalStatus.PENDING);
+  const { delegations, actingForIds } = useDelegations();
+  const { sendReminder } = useReminders();
+  const [activeTab, setActiveTab] = useState<RequestListTab>(ApprovalStatus.PENDING);
   const [searchQuery, setSearchQuery] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [typeFilter, setTypeFilter] = useState<RequestType | ''>('');
+  const [createdFrom, setCreatedFrom] = useState('');
+  const [createdTo, setCreatedTo] = useState('');
+  const [sortOption, setSortOption] = useState(SORT_OPTIONS[0].value);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  // The requests are fixed when the dialog opens: signed ones drop out of the Pending list as it runs.
+  const [bulkAction, setBulkAction] = useState<{ action: BulkAction; requests: Request[] } | null>(null);
 
-  const filteredRequests = useMemo(() => {
-    const nonItemRequests = requests.filter(req => req.type !== RequestType.ITEM);
-    
-    const searchedRequests = nonItemRequests.filter(req => {
-        const query = searchQuery.toLowerCase().trim();
-        if (!query) return true;
-        const idMatch = req.id.toLowerCase().includes(query);
-        const subjectMatch = req.details?.subject?.toLowerCase().includes(query) || false;
-        const requesterMatch = req.requesterName?.toLowerCase().includes(query) || false;
-        return idMatch || subjectMatch || requesterMatch;
-    });
+  // Wait for a pause in typing before asking the server to search.
+  useEffect(() => {
+    const handle = setTimeout(() => setDebouncedSearch(searchQuery.trim()), 300);
+    return () => clearTimeout(handle);
+  }, [searchQuery]);
+
+  const listQuery = useMemo((): RequestQuery | null => {
+    if (!currentUser) return null;
+
+    const baseQuery: RequestQuery = {
+        // Types without an approval queue are worked from the admin inbox instead.
+        excludeTypes: requestTypesWithoutApprovalQueue(),
+        types: typeFilter ? [typeFilter] : undefined,
+        createdFrom: createdFrom || undefined,
+        createdTo: createdTo || undefined,
+        search: debouncedSearch || undefined,
+        sort: parseSortOption(sortOption),
+    };
 
-    if (currentUser?.role === UserRole.ADMIN) {
-        if (activeTab === 'All') return searchedRequests;
-        return searchedRequests.filter(req => req.status === activeTab);
+    if (currentUser.role === UserRole.ADMIN) {
+        if (activeTab === TO_FULFIL_TAB) {
+            return { ...baseQuery, statuses: [ApprovalStatus.APPROVED], excludeTypes: [...baseQuery.excludeTypes!, ...requestTypesWithoutFulfilment()] };
+        }
+        return activeTab === 'All' ? baseQuery : { ...baseQuery, statuses: [activeTab] };
     }
-    
-    if (currentUser?.role === UserRole.APPROVER) {
+
+    if (currentUser.role === UserRole.APPROVER) {
         if (activeTab === 'All') {
             // Show all requests they are a part of
-            return searchedRequests.filter(req => 
-                (req.approvalQueue || []).some(a => a.userId === currentUser.id)
-            );
+            return { ...baseQuery, approverId: currentUser.id };
         }
-        
+
         if (activeTab === ApprovalStatus.PENDING) {
-            // Only show requests awaiting THEIR approval
-            return searchedRequests.filter(req => 
-                req.status === ApprovalStatus.PENDING &&
-                req.approvalQueue?.[req.currentApproverIndex]?.userId === currentUser.id
-            );
+            // Only show requests awaiting THEIR approval, or that of a colleague they are covering for
+            return { ...baseQuery, statuses: [ApprovalStatus.PENDING], currentApproverIds: actingForIds };
         }
-        
+
         // For Approved/Rejected tabs, show requests where they took that action
-        return searchedRequests.filter(req => 
-            (req.approvalQueue || []).some(a => a.userId === currentUser.id && a.status === activeTab)
-        );
+        return { ...baseQuery, approverId: currentUser.id, approverStatus: activeTab as ApprovalStatus };
     }
 
-    return []; // No requests for other roles
-  }, [requests, currentUser, activeTab, searchQuery]);
+    return null; // No requests for other roles
+  }, [currentUser, actingForIds, activeTab, typeFilter, createdFrom, createdTo, debouncedSearch, sortOption]);
+
+  const {
+    items: filteredRequests, totalCount, hasMore, loading: pageLoading, loadingMore, error: pageError, loadMore,
+  } = usePagedRequests(listQuery);
+
+  // Approvers can sign several requests at once from their Pending tab.
+  const canBulkAct = currentUser?.role === UserRole.APPROVER && activeTab === ApprovalStatus.PENDING;
+
+  useEffect(() => {
+    setSelectedIds(new Set());
+  }, [listQuery]);
+
+  // The step role a request would be signed in, when that role asks for more than a signature;
+  // such requests have to be opened and signed on their own.
+  const stepRoleNeedingInput = useCallback((request: Request) => {
+      if (!currentUser) return undefined;
+      const actingFor = approverToActFor(request, delegations, currentUser.id);
+      const role = actingFor ? currentStepRoleOf(request, actingFor) : undefined;
+      return role && ROLES_WITH_STEP_INPUT.includes(role) ? role : undefined;
+  }, [currentUser, delegations]);
+
+  const isBulkEligible = useCallback((request: Request) => {
+      if (!currentUser || !canBulkAct) return false;
+      return !!approverToActFor(request, delegations, currentUser.id) && !stepRoleNeedingInput(request);
+  }, [currentUser, canBulkAct, delegations, stepRoleNeedingInput]);
+
+  const eligibleRequests = useMemo(() => filteredRequests.filter(isBulkEligible), [filteredRequests, isBulkEligible]);
+  const selectedRequests = useMemo(() => eligibleRequests.filter(req => selectedIds.has(req.id)), [eligibleRequests, selectedIds]);
+
+  const toggleSelected = (e: React.MouseEvent, requestId: string) => {
+    e.stopPropagation();
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(requestId)) next.delete(requestId);
+      else next.add(requestId);
+      return next;
+    });
+  };
+
+  const handleBulkClose = (completedIds: string[]) => {
+    setBulkAction(null);
+    setSelectedIds(prev => new Set([...prev].filter(id => !completedIds.includes(id))));
+  };
 
   const StatusBadge = useCallback(({ status }: { status: ApprovalStatus }) => {
     const colorClasses = {
@@ -66,6 +151,7 @@ const RequestList = ({ onEditRequest, onViewRequest }: RequestListProps) => {
       [ApprovalStatus.REJECTED]: 'bg-red-100 text-red-800',
       [ApprovalStatus.SENT_BACK]: 'bg-blue-100 text-blue-800',
       [ApprovalStatus.COMPLETED]: 'bg-indigo-100 text-indigo-800',
+      [ApprovalStatus.CANCELLED]: 'bg-gray-200 text-gray-700',
     };
     return (
       <span className={`px-2 py-1 text-xs font-medium rounded-full ${colorClasses[status]}`}>
@@ -74,19 +160,24 @@ const RequestList = ({ onEditRequest, onViewRequest }: RequestListProps) => {
     );
   }, []);
 
-  const handleRemind = (e: React.MouseEvent, req: Request) => {
+  const handleRemind = async (e: React.MouseEvent, req: Request) => {
     e.stopPropagation(); // Prevent modal from opening
-    const currentApprover = req.approvalQueue[req.currentApproverIndex];
-    if (!currentApprover) {
+    const approverIds = currentApproverIds(req);
+    if (approverIds.length === 0) {
         alert('Could not determine the current approver.');
         return;
     }
-    const approverUser = getUserById(currentApprover.userId);
-    alert(`Reminder sent to ${approverUser?.email || 'the current approver'}.`);
+    const result = await sendReminder(req.id);
+    if (!result.success) {
+        alert(result.error);
+        return;
+    }
+    const emails = approverIds.map(id => getUserById(id)?.email).filter(Boolean);
+    alert(`Reminder sent to ${emails.length > 0 ? emails.join(', ') : 'the current approver'}.`);
   };
 
-  const tabs: (ApprovalStatus | 'All')[] = currentUser?.role === UserRole.ADMIN 
-    ? [ApprovalStatus.PENDING, ApprovalStatus.SENT_BACK, ApprovalStatus.APPROVED, ApprovalStatus.REJECTED, 'All']
+  const tabs: RequestListTab[] = currentUser?.role === UserRole.ADMIN 
+    ? [ApprovalStatus.PENDING, ApprovalStatus.SENT_BACK, TO_FULFIL_TAB, ApprovalStatus.APPROVED, ApprovalStatus.COMPLETED, ApprovalStatus.REJECTED, ApprovalStatus.CANCELLED, 'All']
     : [ApprovalStatus.PENDING, ApprovalStatus.APPROVED, ApprovalStatus.REJECTED, 'All'];
 
   const DetailItem = useCallback(({ icon, label, value }: { icon: React.ReactNode, label: string, value: string | number | undefined }) => {
@@ -100,68 +191,86 @@ const RequestList = ({ onEditRequest, onViewRequest }: RequestListProps) => {
       );
   }, []);
 
-  const renderKeyDetails = useCallback((request: Request) => {
-    switch (request.type) {
-        case RequestType.DIESEL:
-            return (
-                <>
-                    <DetailItem icon={<Droplets size={14} />} label="Volume" value={`${request.details?.volume || 0} L`} />
-                    {request.details?.totalCost && <DetailItem icon={<Coins size={14} />} label="Total Cost" value={Number(request.details?.totalCost || 0).toLocaleString('en-NG', { style: 'currency', currency: 'NGN' })} />}
-                </>
-            );
-        case RequestType.PROCUREMENT:
-             return (
-                <>
-                    <DetailItem icon={<Hash size={14} />} label="Quantity" value={request.details?.quantity} />
-                    {request.details?.totalCost && <DetailItem icon={<Coins size={14} />} label="Total Cost" value={Number(request.details?.totalCost || 0).toLocaleString('en-NG', { style: 'currency', currency: 'NGN' })} />}
-                </>
-            );
-        case RequestType.LEAVE:
-            const { applicantName, leaveDays } = request.details || {};
-            return (
-                <>
-                     <DetailItem icon={<User size={14} />} label="Applicant" value={applicantName} />
-                     <DetailItem icon={<CalendarDays size={14} />} label="Duration" value={`${leaveDays} day(s)`} />
-                </>
-            );
-        case RequestType.ITEM:
-            return (
-                 <>
-                    <DetailItem icon={<PackagePlus size={14} />} label="Item" value={request.details?.item} />
-                    <DetailItem icon={<Hash size={14} />} label="Quantity" value={request.details?.quantity} />
-                </>
-            );
-        case RequestType.STORE:
-            const itemCount = request.details?.items?.length || 0;
-            return (
-                <>
-                    <DetailItem icon={<Warehouse size={14} />} label="Items" value={`${itemCount} type(s)`} />
-                    {request.details?.grandTotal && <DetailItem icon={<Coins size={14} />} label="Total Value" value={Number(request.details?.grandTotal || 0).toLocaleString('en-NG', { style: 'currency', currency: 'NGN' })} />}
-                </>
-            );
-        default:
-            return null;
-    }
-  }, [DetailItem]);
+  const renderKeyDetails = useCallback((request: Request) => (
+    <>
+        {getRequestTypeDefinition(request.type).summarise(request.details).map(({ icon: Icon, label, value }) => (
+            <DetailItem key={label} icon={<Icon size={14} />} label={label} value={value} />
+        ))}
+    </>
+  ), [DetailItem]);
+
+  // Values approvers changed when approving, e.g. a reduced diesel volume and the total that follows from it.
+  const renderAdjustments = useCallback((request: Request) => {
+      const changes = describeAdjustedDetails(request, request.approvalQueue);
+      if (changes.length === 0) return null;
+      const summary = changes.map(change => `${change.label}: ${change.from} → ${change.to}`).join('; ');
+      return (
+         <div className="flex items-start text-sm bg-yellow-50 rounded px-1">
+            <span className="text-yellow-700 mr-2 mt-0.5 shrink-0"><SlidersHorizontal size={14} /></span>
+            <span className="font-medium text-yellow-800 w-28 shrink-0">Adjusted</span>
+            <span className="text-yellow-900 truncate" title={summary}>{summary}</span>
+        </div>
+      );
+  }, []);
+
+  const renderOverdueBadge = useCallback((request: Request) => {
+      const dueAt = currentStepDueAt(request);
+      if (!dueAt || dueAt.getTime() >= Date.now()) return null;
+      return (
+          <span className="flex items-center px-2 py-1 text-xs font-medium rounded-full bg-red-100 text-red-800" title={`Due ${dueAt.toLocaleString()}`}>
+              <AlarmClock size={12} className="mr-1" />
+              Overdue
+          </span>
+      );
+  }, []);
+
+  // Flags requests the user can act on only because they are covering for the approver, or are its backup approver.
+  const renderCoverNote = useCallback((request: Request) => {
+      if (!currentUser || currentUser.role !== UserRole.APPROVER) return null;
+      const actingFor = approverToActFor(request, delegations, currentUser.id);
+      if (!actingFor || actingFor === currentUser.id) return null;
+      const email = getUserById(actingFor)?.email || 'a colleague';
+      const isCover = coveredApproverIds(delegations, currentUser.id).includes(actingFor);
+      return <p className="mt-1 text-xs font-semibold text-purple-700">{isCover ? `Covering for ${email}` : `Escalated to you from ${email}`}</p>;
+  }, [currentUser, delegations, getUserById]);
 
   const renderWorkflowStatus = useCallback((request: Request) => {
-      const { status, approvalQueue, currentApproverIndex } = request;
+      const { status, approvalQueue } = request;
+
+      if (status === ApprovalStatus.CANCELLED && request.cancellation) {
+        return (
+           <div className="flex items-start text-sm">
+              <span className="text-gray-400 mr-2 mt-0.5 shrink-0"><Ban size={14} className="text-gray-600" /></span>
+              <span className="font-medium text-gray-500 w-28 shrink-0">Cancelled By</span>
+              <span className="text-gray-800 truncate"><span className="font-semibold">{request.cancellation.byEmail || request.cancellation.byId}</span> &middot; "{request.cancellation.reason}"</span>
+          </div>
+        );
+      }
 
       if (!approvalQueue || approvalQueue.length === 0) {
         return null;
       }
 
       let approverAction = null;
+      let approverEmail: string | undefined;
       let label = '';
       let icon: React.ReactNode = null;
       
       switch(status) {
-          case ApprovalStatus.PENDING:
-              approverAction = approvalQueue[currentApproverIndex];
-              label = 'Next Approver';
+          case ApprovalStatus.PENDING: {
+              // A parallel step lists everyone still to act, with how many approvals it needs.
+              const step = currentApprovalStep(request);
+              if (!step) return null;
+              const requirement = describeStepRequirement(step);
+              approverAction = step.members[0];
+              approverEmail = step.members.filter(a => a.status === ApprovalStatus.PENDING).map(a => a.userEmail).join(', ');
+              if (requirement) approverEmail = `${approverEmail} (${requirement})`;
+              label = step.group ? 'Next Approvers' : 'Next Approver';
               icon = <Hourglass size={14} className="text-yellow-600" />;
               break;
+          }
           case ApprovalStatus.APPROVED:
+          case ApprovalStatus.COMPLETED:
               approverAction = approvalQueue[approvalQueue.length -1];
               label = 'Final Approver';
               icon = <UserCheck size={14} className="text-green-600" />;
@@ -182,7 +291,7 @@ const RequestList = ({ onEditRequest, onViewRequest }: RequestListProps) => {
       
       if (!approverAction) return null;
       
-      const approverEmail = approverAction.userEmail;
+      if (approverEmail === undefined) approverEmail = describeSignatory(approverAction);
 
       return (
          <div className="flex items-start text-sm">
@@ -193,6 +302,19 @@ const RequestList = ({ onEditRequest, onViewRequest }: RequestListProps) => {
       );
   }, []);
 
+  // The latest fulfilment stage recorded on an approved or completed request.
+  const renderFulfilmentStatus = useCallback((request: Request) => {
+      const latest = request.fulfilment?.[request.fulfilment.length - 1];
+      if (!latest) return null;
+      return (
+         <div className="flex items-start text-sm">
+            <span className="text-gray-400 mr-2 mt-0.5 shrink-0"><PackageCheck size={14} className="text-indigo-600" /></span>
+            <span className="font-medium text-gray-500 w-28 shrink-0">{latest.stage}</span>
+            <span className="text-gray-800 truncate">{latest.byEmail || latest.byId} &middot; {new Date(latest.at).toLocaleDateString()}</span>
+        </div>
+      );
+  }, []);
+
   if(loading) {
       return (
           <div className="flex justify-center items-center h-64">
@@ -202,14 +324,14 @@ const RequestList = ({ onEditRequest, onViewRequest }: RequestListProps) => {
       )
   }
 
-  if (error) {
+  if (error || pageError) {
     return (
         <div className="text-center py-10 text-red-700 bg-red-50 p-6 rounded-lg shadow-sm border border-red-200">
             <div className="flex justify-center items-center mb-4">
                 <AlertTriangle className="h-8 w-8 mr-3"/>
                 <h3 className="text-xl font-bold">Failed to Load Requests</h3>
             </div>
-            <p className="text-sm">{error}</p>
+            <p className="text-sm">{error || pageError}</p>
             <p className="text-xs mt-3 text-red-600">This might be due to a network issue or an ad-blocker. Please check your connection and refresh the page.</p>
         </div>
     );
@@ -228,6 +350,17 @@ const RequestList = ({ onEditRequest, onViewRequest }: RequestListProps) => {
                 />
                 <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" size={20} />
             </div>
+            <div className="mt-3 grid grid-cols-2 md:grid-cols-4 gap-3">
+                <select value={typeFilter} onChange={(e) => setTypeFilter(e.target.value as RequestType | '')} className="p-2 border border-gray-300 rounded-lg text-sm bg-white focus:ring-zankli-orange-500 focus:border-zankli-orange-500">
+                    <option value="">All request types</option>
+                    {Object.values(RequestType).filter(type => getRequestTypeDefinition(type).needsApprovalQueue).map(type => <option key={type} value={type}>{type}</option>)}
+                </select>
+                <input type="date" value={createdFrom} max={createdTo || undefined} onChange={(e) => setCreatedFrom(e.target.value)} title="Submitted from" className="p-2 border border-gray-300 rounded-lg text-sm focus:ring-zankli-orange-500 focus:border-zankli-orange-500" />
+                <input type="date" value={createdTo} min={createdFrom || undefined} onChange={(e) => setCreatedTo(e.target.value)} title="Submitted to" className="p-2 border border-gray-300 rounded-lg text-sm focus:ring-zankli-orange-500 focus:border-zankli-orange-500" />
+                <select value={sortOption} onChange={(e) => setSortOption(e.target.value)} className="p-2 border border-gray-300 rounded-lg text-sm bg-white focus:ring-zankli-orange-500 focus:border-zankli-orange-500">
+                    {SORT_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                </select>
+            </div>
         </div>
       <div className="border-b border-gray-200">
         <nav className="-mb-px flex space-x-6 overflow-x-auto" aria-label="Tabs">
@@ -247,17 +380,53 @@ const RequestList = ({ onEditRequest, onViewRequest }: RequestListProps) => {
         </nav>
       </div>
 
+      {canBulkAct && eligibleRequests.length > 0 && (
+        <div className="mt-4 p-3 bg-zankli-cream-100 rounded-lg flex flex-wrap items-center gap-3 text-sm">
+            <label className="flex items-center font-medium text-gray-700">
+                <input
+                    type="checkbox"
+                    checked={selectedRequests.length === eligibleRequests.length}
+                    onChange={(e) => setSelectedIds(e.target.checked ? new Set(eligibleRequests.map(req => req.id)) : new Set())}
+                    className="h-4 w-4 mr-2 text-zankli-orange-600 border-gray-300 rounded"
+                />
+                {selectedRequests.length > 0 ? `${selectedRequests.length} selected` : 'Select all'}
+            </label>
+            {selectedRequests.length > 0 && (
+                <div className="flex items-center gap-2 ml-auto">
+                    <button onClick={() => setSelectedIds(new Set())} className="px-3 py-1.5 text-gray-600 hover:text-gray-800">Clear</button>
+                    <button onClick={() => setBulkAction({ action: ApprovalStatus.REJECTED, requests: selectedRequests })} className="px-3 py-1.5 bg-red-600 text-white font-semibold rounded-lg hover:bg-red-700">Reject selected</button>
+                    <button onClick={() => setBulkAction({ action: ApprovalStatus.APPROVED, requests: selectedRequests })} className="px-3 py-1.5 bg-green-600 text-white font-semibold rounded-lg hover:bg-green-700">Approve selected</button>
+                </div>
+            )}
+        </div>
+      )}
+
       <div className="mt-6 grid grid-cols-1 lg:grid-cols-2 gap-6">
         {filteredRequests.map(req => (
           <div key={req.id} onClick={() => onViewRequest(req)} className="bg-white p-5 rounded-lg shadow-md hover:shadow-xl transition-shadow cursor-pointer flex flex-col justify-between">
             <div className="flex flex-col space-y-3">
                 {/* Header */}
                 <div className="flex justify-between items-start">
-                    <div>
-                        <p className="text-sm font-semibold text-zankli-orange-700">{req.type}</p>
-                        <p className="text-xs text-gray-400 mt-0.5">ID: {req.id}</p>
+                    <div className="flex items-start">
+                        {isBulkEligible(req) && (
+                            <input
+                                type="checkbox"
+                                checked={selectedIds.has(req.id)}
+                                onClick={(e) => toggleSelected(e, req.id)}
+                                onChange={() => {}}
+                                className="h-4 w-4 mt-0.5 mr-3 text-zankli-orange-600 border-gray-300 rounded"
+                                aria-label={`Select ${req.id}`}
+                            />
+                        )}
+                        <div>
+                            <p className="text-sm font-semibold text-zankli-orange-700">{req.type}</p>
+                            <p className="text-xs text-gray-400 mt-0.5">ID: {req.id}</p>
+                        </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        {renderOverdueBadge(req)}
+                        <StatusBadge status={req.status} />
                     </div>
-                    <StatusBadge status={req.status} />
                 </div>
 
                 {/* Main Info */}
@@ -266,21 +435,27 @@ const RequestList = ({ onEditRequest, onViewRequest }: RequestListProps) => {
                     <p className="text-sm text-gray-500">
                         By: <span className="font-medium text-gray-700">{req.requesterName}</span> on {new Date(req.createdAt).toLocaleDateString()}
                     </p>
+                    {renderCoverNote(req)}
+                    {canBulkAct && stepRoleNeedingInput(req) && (
+                        <p className="mt-1 text-xs text-gray-500">Open to sign as {WORKFLOW_ROLE_LABELS[stepRoleNeedingInput(req)!]}; not available for bulk actions.</p>
+                    )}
                 </div>
                 
                 {/* Details & Workflow */}
                 <div className="pt-3 border-t space-y-2">
                     <h4 className="text-xs font-bold uppercase text-gray-400">Details</h4>
                     {renderKeyDetails(req)}
+                    {renderAdjustments(req)}
                     <div className="pt-2">
                         <h4 className="text-xs font-bold uppercase text-gray-400">Status</h4>
                         {renderWorkflowStatus(req)}
+                        {renderFulfilmentStatus(req)}
                     </div>
                 </div>
             </div>
             
             {/* Actions */}
-            {currentUser?.role === UserRole.ADMIN && req.status === ApprovalStatus.PENDING && (
+            {currentUser?.role === UserRole.ADMIN && isAwaitingDecision(req) && (
               <div className="mt-4 pt-3 border-t flex justify-end">
                 <button
                   onClick={(e) => handleRemind(e, req)}
@@ -293,12 +468,25 @@ const RequestList = ({ onEditRequest, onViewRequest }: RequestListProps) => {
             )}
           </div>
         ))}
-        {filteredRequests.length === 0 && (
+        {pageLoading && (
+            <div className="col-span-full flex justify-center items-center py-10">
+                <Loader2 className="h-6 w-6 animate-spin text-zankli-orange-500" />
+                <p className="ml-3 text-gray-600">Loading requests...</p>
+            </div>
+        )}
+        {!pageLoading && filteredRequests.length === 0 && (
             <div className="col-span-full text-center py-10">
                 <p className="text-gray-500">No requests found in this tab.</p>
             </div>
         )}
+        <InfiniteScrollTrigger hasMore={hasMore} isLoading={loadingMore} onLoadMore={loadMore} />
       </div>
+      {!pageLoading && filteredRequests.length > 0 && (
+        <p className="mt-4 text-xs text-gray-400 text-center">Showing {filteredRequests.length} of {totalCount} request(s)</p>
+      )}
+      {bulkAction && (
+        <BulkActionModal requests={bulkAction.requests} action={bulkAction.action} onClose={handleBulkClose} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,205 @@
+import React, { useState, useMemo } from 'react';
+import { Delegation, UserRole } from '../../types.ts';
+import { useAuth } from '../../hooks/useAuth.ts';
+import { useRequests } from '../../hooks/useRequests.ts';
+import { useDelegations } from '../../hooks/useDelegations.ts';
+import { isDelegationActive, todayIsoDate } from '../../lib/delegations.ts';
+import { Plus, X, AlertTriangle, Trash2 } from 'lucide-react';
+
+type DelegationDraft = Omit<Delegation, 'id'>;
+
+const inputClassName = "mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-zankli-orange-500 focus:border-zankli-orange-500 sm:text-sm";
+
+const CreateDelegationModal = ({ isOpen, onClose, onSubmit, draft, setDraft, canChooseDelegator, isSubmitting, error }: {
+    isOpen: boolean;
+    onClose: () => void;
+    onSubmit: (e: React.FormEvent) => void;
+    draft: DelegationDraft;
+    setDraft: (draft: DelegationDraft) => void;
+    canChooseDelegator: boolean;
+    isSubmitting: boolean;
+    error: string | null;
+}) => {
+    const { approvers } = useRequests();
+    if (!isOpen) return null;
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50">
+            <div className="bg-white rounded-lg shadow-xl p-8 w-full max-w-md">
+                <div className="flex justify-between items-center mb-4">
+                    <h2 className="text-xl font-bold text-gray-800">Arrange Cover</h2>
+                    <button onClick={onClose}><X className="text-gray-500"/></button>
+                </div>
+                <form onSubmit={onSubmit} className="space-y-4">
+                    {canChooseDelegator && (
+                        <div>
+                            <label htmlFor="delegatorId" className="block text-sm font-medium text-gray-700">Approver Away</label>
+                            <select id="delegatorId" required value={draft.delegatorId} onChange={(e) => setDraft({ ...draft, delegatorId: e.target.value })} className={inputClassName}>
+                                <option value="">Select an approver</option>
+                                {approvers.map(user => <option key={user.id} value={user.id}>{user.email}</option>)}
+                            </select>
+                        </div>
+                    )}
+                    <div>
+                        <label htmlFor="delegateId" className="block text-sm font-medium text-gray-700">Covered By</label>
+                        <select id="delegateId" required value={draft.delegateId} onChange={(e) => setDraft({ ...draft, delegateId: e.target.value })} className={inputClassName}>
+                            <option value="">Select a colleague</option>
+                            {approvers.filter(user => user.id !== draft.delegatorId).map(user => <option key={user.id} value={user.id}>{user.email}</option>)}
+                        </select>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label htmlFor="startsOn" className="block text-sm font-medium text-gray-700">From</label>
+                            <input id="startsOn" type="date" required value={draft.startsOn} onChange={(e) => setDraft({ ...draft, startsOn: e.target.value })} className={inputClassName} />
+                        </div>
+                        <div>
+                            <label htmlFor="endsOn" className="block text-sm font-medium text-gray-700">Until</label>
+                            <input id="endsOn" type="date" required min={draft.startsOn} value={draft.endsOn} onChange={(e) => setDraft({ ...draft, endsOn: e.target.value })} className={inputClassName} />
+                        </div>
+                    </div>
+                    <div>
+                        <label htmlFor="reason" className="block text-sm font-medium text-gray-700">Reason (optional)</label>
+                        <input id="reason" type="text" value={draft.reason || ''} onChange={(e) => setDraft({ ...draft, reason: e.target.value })} placeholder="e.g. Annual leave" className={inputClassName} />
+                    </div>
+                    {error && (
+                        <div className="bg-red-50 border-l-4 border-red-400 text-red-700 p-3 text-sm">
+                            <p><span className="font-bold">Error:</span> {error}</p>
+                        </div>
+                    )}
+                    <div className="flex justify-end pt-4">
+                        <button
+                            type="submit"
+                            disabled={isSubmitting}
+                            className="px-6 py-2 bg-zankli-orange-600 text-white font-semibold rounded-lg hover:bg-zankli-orange-700 disabled:bg-zankli-orange-300"
+                        >
+                            {isSubmitting ? 'Saving...' : 'Save Cover'}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+// Approvers arrange cover for their own absences; administrators see and manage everyone's.
+const DelegationManagement = () => {
+    const { currentUser } = useAuth();
+    const { getUserById } = useRequests();
+    const { delegations, error: fetchError, saveDelegation, removeDelegation } = useDelegations();
+    const isAdmin = currentUser?.role === UserRole.ADMIN;
+    const [isModalOpen, setIsModalOpen] = useState(false);
+    const [draft, setDraft] = useState<DelegationDraft>({ delegatorId: '', delegateId: '', startsOn: todayIsoDate(), endsOn: todayIsoDate() });
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [submissionError, setSubmissionError] = useState<string | null>(null);
+    const [actionError, setActionError] = useState<string | null>(null);
+
+    const visibleDelegations = useMemo(() => {
+        const today = todayIsoDate();
+        return delegations
+            .filter(d => isAdmin || d.delegatorId === currentUser?.id || d.delegateId === currentUser?.id)
+            .filter(d => d.endsOn >= today)
+            .sort((a, b) => a.startsOn.localeCompare(b.startsOn));
+    }, [delegations, isAdmin, currentUser]);
+
+    const openModal = () => {
+        setSubmissionError(null);
+        setDraft({ delegatorId: isAdmin ? '' : currentUser?.id || '', delegateId: '', startsOn: todayIsoDate(), endsOn: todayIsoDate() });
+        setIsModalOpen(true);
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSubmitting(true);
+        setSubmissionError(null);
+
+        const result = await saveDelegation({ ...draft, reason: draft.reason?.trim() || undefined });
+
+        if (result.success) {
+            setIsModalOpen(false);
+        } else {
+            setSubmissionError(result.error);
+        }
+        setIsSubmitting(false);
+    };
+
+    const handleRemove = async (delegation: Delegation) => {
+        if (!window.confirm('Cancel this cover? Requests will wait for the approver again.')) return;
+        setActionError(null);
+        const result = await removeDelegation(delegation.id);
+        if (!result.success) setActionError(result.error);
+    };
+
+    const canRemove = (delegation: Delegation) => isAdmin || delegation.delegatorId === currentUser?.id;
+
+    return (
+        <div className="bg-white p-6 rounded-lg shadow-md">
+            <div className="flex justify-between items-center mb-6">
+                <div>
+                    <h2 className="text-xl font-bold text-gray-800">Out of Office Cover</h2>
+                    <p className="text-sm text-gray-500">While cover is active, the colleague covering can sign approval steps on the absent approver's behalf.</p>
+                </div>
+                <button onClick={openModal} className="flex items-center px-4 py-2 bg-zankli-orange-600 text-white font-semibold rounded-lg hover:bg-zankli-orange-700">
+                    <Plus size={18} className="mr-1" />
+                    Arrange Cover
+                </button>
+            </div>
+
+            {(fetchError || actionError) && (
+                <div className="bg-red-50 border border-red-200 text-red-800 p-4 rounded-lg mb-4 flex items-center">
+                    <AlertTriangle className="h-5 w-5 mr-3" />
+                    <div>
+                        <p><span className="font-bold">Error:</span> {fetchError ? 'Could not load cover arrangements.' : 'Could not cancel the cover.'}</p>
+                        <p className="text-sm">{fetchError || actionError}</p>
+                    </div>
+                </div>
+            )}
+
+            <div className="overflow-x-auto">
+                <table className="w-full text-sm text-left text-gray-500">
+                    <thead className="text-xs text-gray-700 uppercase bg-zankli-cream-100">
+                        <tr>
+                            <th scope="col" className="px-6 py-3">Approver Away</th>
+                            <th scope="col" className="px-6 py-3">Covered By</th>
+                            <th scope="col" className="px-6 py-3">Dates</th>
+                            <th scope="col" className="px-6 py-3">Reason</th>
+                            <th scope="col" className="px-6 py-3"><span className="sr-only">Actions</span></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {visibleDelegations.map(delegation => (
+                            <tr key={delegation.id} className="bg-white border-b hover:bg-gray-50">
+                                <th scope="row" className="px-6 py-4 font-medium text-gray-900 whitespace-nowrap">{getUserById(delegation.delegatorId)?.email || delegation.delegatorId}</th>
+                                <td className="px-6 py-4">{getUserById(delegation.delegateId)?.email || delegation.delegateId}</td>
+                                <td className="px-6 py-4 whitespace-nowrap">
+                                    {new Date(`${delegation.startsOn}T00:00:00`).toLocaleDateString()} – {new Date(`${delegation.endsOn}T00:00:00`).toLocaleDateString()}
+                                    {isDelegationActive(delegation) && <span className="ml-2 text-xs font-bold text-green-700 bg-green-100 px-2 py-0.5 rounded-full">Active</span>}
+                                </td>
+                                <td className="px-6 py-4">{delegation.reason || '—'}</td>
+                                <td className="px-6 py-4 text-right">
+                                    {canRemove(delegation) && (
+                                        <button onClick={() => handleRemove(delegation)} className="text-red-600 hover:text-red-800" title="Cancel cover">
+                                            <Trash2 size={16} />
+                                        </button>
+                                    )}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                {visibleDelegations.length === 0 && !fetchError && <p className="text-center text-gray-500 py-8">No current or upcoming cover.</p>}
+            </div>
+            <CreateDelegationModal
+                isOpen={isModalOpen}
+                onClose={() => setIsModalOpen(false)}
+                onSubmit={handleSubmit}
+                draft={draft}
+                setDraft={setDraft}
+                canChooseDelegator={isAdmin}
+                isSubmitting={isSubmitting}
+                error={submissionError}
+            />
+        </div>
+    );
+};
+
+export default DelegationManagement;
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { RequestDraft } from '../../types.ts';
+import { useDrafts } from '../../hooks/useDrafts.ts';
+import { getRequestTypeDefinition } from '../../lib/requestTypes.ts';
+import { AlertTriangle, Paperclip, Trash2, Loader2 } from 'lucide-react';
+
+interface DraftListProps {
+    onResume: (draft: RequestDraft) => void;
+}
+
+// The requests the current user started but has not submitted yet.
+const DraftList = ({ onResume }: DraftListProps) => {
+    const { drafts, loading, error: fetchError, keepOnServer, setKeepOnServer, discardDraft } = useDrafts();
+    const [actionError, setActionError] = useState<string | null>(null);
+    const [isSyncing, setIsSyncing] = useState(false);
+
+    const handleDiscard = async (draft: RequestDraft) => {
+        if (!window.confirm('Discard this draft? Everything entered so far will be lost.')) return;
+        setActionError(null);
+        const result = await discardDraft(draft.id);
+        if (!result.success) setActionError(result.error);
+    };
+
+    const handleKeepOnServerChange = async (keep: boolean) => {
+        setActionError(null);
+        setIsSyncing(true);
+        const result = await setKeepOnServer(keep);
+        if (!result.success) setActionError(result.error);
+        setIsSyncing(false);
+    };
+
+    return (
+        <div className="bg-white p-6 rounded-lg shadow-md">
+            <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+                <div>
+                    <h2 className="text-xl font-bold text-gray-800">My Drafts</h2>
+                    <p className="text-sm text-gray-500">Requests are saved here as you fill them in, until they are submitted or discarded.</p>
+                </div>
+                <label className="flex items-center text-sm text-gray-700">
+                    <input type="checkbox" checked={keepOnServer} disabled={isSyncing} onChange={(e) => handleKeepOnServerChange(e.target.checked)} className="h-4 w-4 mr-2 text-zankli-orange-600 rounded" />
+                    Keep my drafts on my account, to carry on from another device
+                    {isSyncing && <Loader2 className="h-4 w-4 ml-2 animate-spin text-zankli-orange-500" />}
+                </label>
+            </div>
+
+            {(fetchError || actionError) && (
+                <div className="bg-red-50 border border-red-200 text-red-800 p-4 rounded-lg mb-4 flex items-center">
+                    <AlertTriangle className="h-5 w-5 mr-3" />
+                    <p className="text-sm">{fetchError || actionError}</p>
+                </div>
+            )}
+
+            {loading ? (
+                <div className="flex justify-center items-center h-32">
+                    <Loader2 className="h-6 w-6 animate-spin text-zankli-orange-500" />
+                </div>
+            ) : (
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm text-left text-gray-500">
+                        <thead className="text-xs text-gray-700 uppercase bg-zankli-cream-100">
+                            <tr>
+                                <th scope="col" className="px-6 py-3">Request</th>
+                                <th scope="col" className="px-6 py-3">Subject</th>
+                                <th scope="col" className="px-6 py-3">Last Saved</th>
+                                <th scope="col" className="px-6 py-3"><span className="sr-only">Actions</span></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {drafts.map(draft => {
+                                const TypeIcon = getRequestTypeDefinition(draft.requestType).icon;
+                                const fileNames = Object.values(draft.pendingFiles);
+                                return (
+                                    <tr key={draft.id} className="bg-white border-b hover:bg-gray-50">
+                                        <th scope="row" className="px-6 py-4 font-medium text-gray-900 whitespace-nowrap">
+                                            <span className="flex items-center"><TypeIcon className="h-4 w-4 mr-2 text-zankli-orange-500" />{draft.requestType}</span>
+                                        </th>
+                                        <td className="px-6 py-4">
+                                            {draft.details.subject || <span className="italic text-gray-400">No subject yet</span>}
+                                            {fileNames.length > 0 && (
+                                                <span className="flex items-center text-xs text-gray-500 mt-1"><Paperclip className="h-3 w-3 mr-1" />{fileNames.join(', ')}</span>
+                                            )}
+                                        </td>
+                                        <td className="px-6 py-4 whitespace-nowrap">{new Date(draft.updatedAt).toLocaleString()}</td>
+                                        <td className="px-6 py-4 text-right whitespace-nowrap">
+                                            <button onClick={() => onResume(draft)} className="px-3 py-1 mr-3 text-sm font-semibold text-zankli-orange-700 bg-zankli-orange-100 rounded-lg hover:bg-zankli-orange-200">
+                                                Continue
+                                            </button>
+                                            <button onClick={() => handleDiscard(draft)} className="text-red-600 hover:text-red-800 align-middle" title="Discard draft">
+                                                <Trash2 size={16} />
+                                            </button>
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                    {drafts.length === 0 && !fetchError && <p className="text-center text-gray-500 py-8">No drafts. Requests you start are saved here automatically.</p>}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default DraftList;
@@ -0,0 +1,192 @@
+import React, { useState, useMemo } from 'react';
+import { ApprovalStatus, LeaveCalendarEntry } from '../../types.ts';
+import { useLeave } from '../../hooks/useLeave.ts';
+import { useLeaveCalendar } from '../../hooks/useLeaveCalendar.ts';
+import { LEAVE_CATEGORY_LABELS, datesBetween, departmentKey, holidayDates, isWeekend, leaveDatesOff, shiftDate } from '../../lib/leave.ts';
+import { todayIsoDate } from '../../lib/delegations.ts';
+import { ChevronLeft, ChevronRight, AlertTriangle, Loader2 } from 'lucide-react';
+
+type CalendarView = 'month' | 'week';
+
+interface DepartmentRow {
+    applicantId: string;
+    applicantName: string;
+    // The leave keeping them away, by date.
+    daysOff: Map<string, LeaveCalendarEntry>;
+}
+
+interface DepartmentCalendar {
+    key: string;
+    name: string;
+    rows: DepartmentRow[];
+}
+
+// The dates shown for the view around `anchor`: its calendar month, or its Monday-to-Sunday week.
+const visibleRange = (view: CalendarView, anchor: string): { from: string; to: string } => {
+    if (view === 'week') {
+        const from = shiftDate(anchor, -((new Date(`${anchor}T00:00:00Z`).getUTCDay() + 6) % 7));
+        return { from, to: shiftDate(from, 6) };
+    }
+    const [year, month] = anchor.split('-').map(Number);
+    const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    return { from: `${anchor.slice(0, 7)}-01`, to: `${anchor.slice(0, 7)}-${String(lastDay).padStart(2, '0')}` };
+};
+
+const moveAnchor = (view: CalendarView, anchor: string, step: number): string => {
+    if (view === 'week') return shiftDate(anchor, step * 7);
+    const [year, month] = anchor.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1 + step, 1)).toISOString().split('T')[0];
+};
+
+const toDepartmentCalendars = (entries: LeaveCalendarEntry[]): DepartmentCalendar[] => {
+    const departments = new Map<string, DepartmentCalendar>();
+    entries.forEach(entry => {
+        const key = departmentKey(entry.department);
+        const department = departments.get(key) || { key, name: entry.department.trim() || 'No department', rows: [] };
+        departments.set(key, department);
+        let row = department.rows.find(r => r.applicantId === entry.applicantId);
+        if (!row) {
+            row = { applicantId: entry.applicantId, applicantName: entry.applicantName, daysOff: new Map() };
+            department.rows.push(row);
+        }
+        // Approved leave wins over a pending request for the same day.
+        leaveDatesOff(entry).forEach(date => {
+            if (row!.daysOff.get(date)?.status !== ApprovalStatus.APPROVED) row!.daysOff.set(date, entry);
+        });
+    });
+    return Array.from(departments.values())
+        .map(department => ({ ...department, rows: department.rows.sort((a, b) => a.applicantName.localeCompare(b.applicantName)) }))
+        // Requests without a department come last.
+        .sort((a, b) => Number(!a.key) - Number(!b.key) || a.name.localeCompare(b.name));
+};
+
+// Pending and approved leave by department, so approvers can see who else is away before deciding on a request.
+// Days on which more staff are off than the department's staffing limit are flagged.
+const LeaveCalendar = () => {
+    const { holidays, maxOnLeaveFor } = useLeave();
+    const [view, setView] = useState<CalendarView>('month');
+    const [anchor, setAnchor] = useState(todayIsoDate());
+    const [departmentFilter, setDepartmentFilter] = useState('');
+
+    const { from, to } = useMemo(() => visibleRange(view, anchor), [view, anchor]);
+    const { entries, loading, error } = useLeaveCalendar(from, to);
+
+    const dates = useMemo(() => datesBetween(from, to), [from, to]);
+    const holidayNames = useMemo(() => new Map(holidays.map(holiday => [holiday.date, holiday.name])), [holidays]);
+    const holidaySet = useMemo(() => new Set(holidayDates(holidays)), [holidays]);
+    const departments = useMemo(() => toDepartmentCalendars(entries), [entries]);
+    const shownDepartments = departments.filter(department => !departmentFilter || department.key === departmentFilter);
+
+    const title = view === 'month'
+        ? new Date(`${from}T00:00:00`).toLocaleDateString(undefined, { month: 'long', year: 'numeric' })
+        : `${new Date(`${from}T00:00:00`).toLocaleDateString()} – ${new Date(`${to}T00:00:00`).toLocaleDateString()}`;
+
+    const isDayOff = (date: string) => isWeekend(date) || holidaySet.has(date);
+
+    return (
+        <div className="bg-white p-6 rounded-lg shadow-md">
+            <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+                <div>
+                    <h2 className="text-xl font-bold text-gray-800">Leave Calendar</h2>
+                    <p className="text-sm text-gray-500">Approved and pending leave by department. Weekends and public holidays are shaded.</p>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                    <select value={departmentFilter} onChange={(e) => setDepartmentFilter(e.target.value)} className="px-3 py-2 border border-gray-300 rounded-md text-sm bg-white">
+                        <option value="">All departments</option>
+                        {departments.map(department => <option key={department.key} value={department.key}>{department.name}</option>)}
+                    </select>
+                    <div className="flex rounded-lg border overflow-hidden text-sm">
+                        {(['month', 'week'] as CalendarView[]).map(option => (
+                            <button key={option} onClick={() => setView(option)} className={`px-3 py-2 capitalize ${view === option ? 'bg-zankli-orange-600 text-white' : 'bg-white text-gray-700 hover:bg-zankli-cream-100'}`}>
+                                {option}
+                            </button>
+                        ))}
+                    </div>
+                    <button onClick={() => setAnchor(moveAnchor(view, anchor, -1))} className="p-2 rounded-lg hover:bg-zankli-cream-100" title="Previous"><ChevronLeft size={18} /></button>
+                    <button onClick={() => setAnchor(todayIsoDate())} className="px-3 py-2 text-sm rounded-lg border hover:bg-zankli-cream-100">Today</button>
+                    <button onClick={() => setAnchor(moveAnchor(view, anchor, 1))} className="p-2 rounded-lg hover:bg-zankli-cream-100" title="Next"><ChevronRight size={18} /></button>
+                </div>
+            </div>
+
+            <h3 className="text-md font-semibold text-gray-800 mb-3">{title}</h3>
+
+            {error && (
+                <div className="bg-red-50 border border-red-200 text-red-800 p-4 rounded-lg mb-4 flex items-center">
+                    <AlertTriangle className="h-5 w-5 mr-3" />
+                    <p className="text-sm">{error}</p>
+                </div>
+            )}
+
+            {loading ? (
+                <div className="flex justify-center items-center h-32">
+                    <Loader2 className="h-6 w-6 animate-spin text-zankli-orange-500" />
+                </div>
+            ) : shownDepartments.length === 0 ? (
+                !error && <p className="text-center text-gray-500 py-8">Nobody is on leave in this period.</p>
+            ) : (
+                <div className="space-y-6">
+                    {shownDepartments.map(department => {
+                        const maxOnLeave = maxOnLeaveFor(department.name);
+                        const offCount = (date: string) => department.rows.filter(row => row.daysOff.has(date)).length;
+                        return (
+                            <div key={department.key}>
+                                <div className="flex items-baseline justify-between mb-2">
+                                    <h4 className="font-semibold text-gray-700">{department.name}</h4>
+                                    {department.key && <span className="text-xs text-gray-500">Up to {maxOnLeave} on leave at once</span>}
+                                </div>
+                                <div className="border rounded-lg overflow-x-auto">
+                                    <table className="w-full text-xs">
+                                        <thead className="bg-gray-50">
+                                            <tr>
+                                                <th className="px-3 py-2 text-left font-medium text-gray-600 min-w-[10rem] sticky left-0 bg-gray-50">Staff Member</th>
+                                                {dates.map(date => (
+                                                    <th key={date} title={holidayNames.get(date)} className={`px-1 py-2 text-center font-medium ${isDayOff(date) ? 'bg-gray-200 text-gray-500' : 'text-gray-600'} ${date === todayIsoDate() ? 'text-zankli-orange-700' : ''}`}>
+                                                        <span className="block">{new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { weekday: 'narrow' })}</span>
+                                                        {Number(date.slice(8))}
+                                                    </th>
+                                                ))}
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {department.rows.map(row => (
+                                                <tr key={row.applicantId} className="border-b">
+                                                    <td className="px-3 py-2 text-gray-900 sticky left-0 bg-white whitespace-nowrap">{row.applicantName}</td>
+                                                    {dates.map(date => {
+                                                        const entry = row.daysOff.get(date);
+                                                        const colour = !entry ? (isDayOff(date) ? 'bg-gray-100' : '')
+                                                            : entry.status === ApprovalStatus.APPROVED ? 'bg-green-400' : 'bg-yellow-300';
+                                                        return <td key={date} className={`h-8 border-l ${colour}`} title={entry ? `${LEAVE_CATEGORY_LABELS[entry.category]} (${entry.status})` : undefined}></td>;
+                                                    })}
+                                                </tr>
+                                            ))}
+                                            {department.key && (
+                                                <tr className="bg-gray-50">
+                                                    <td className="px-3 py-2 font-medium text-gray-600 sticky left-0 bg-gray-50">On leave</td>
+                                                    {dates.map(date => {
+                                                        const count = offCount(date);
+                                                        return (
+                                                            <td key={date} className={`text-center font-semibold border-l ${count > maxOnLeave ? 'bg-red-100 text-red-700' : 'text-gray-500'}`}>
+                                                                {count > 0 ? count : ''}
+                                                            </td>
+                                                        );
+                                                    })}
+                                                </tr>
+                                            )}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            </div>
+                        );
+                    })}
+                    <div className="flex items-center gap-4 text-xs text-gray-600">
+                        <span className="flex items-center"><span className="inline-block w-3 h-3 mr-1 bg-green-400 rounded-sm"></span>Approved</span>
+                        <span className="flex items-center"><span className="inline-block w-3 h-3 mr-1 bg-yellow-300 rounded-sm"></span>Pending</span>
+                        <span className="flex items-center"><span className="inline-block w-3 h-3 mr-1 bg-red-100 border border-red-300 rounded-sm"></span>Above the staffing limit</span>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default LeaveCalendar;
@@ -0,0 +1,347 @@
+import React, { useState, useMemo } from 'react';
+import { LeaveCategory, PublicHoliday, StaffingLimit } from '../../types.ts';
+import { useRequests } from '../../hooks/useRequests.ts';
+import { useLeave } from '../../hooks/useLeave.ts';
+import { LEAVE_CATEGORY_LABELS, LEAVE_LEDGER_KIND_LABELS, LEAVE_OVERLAP_POLICY } from '../../lib/leave.ts';
+import { Plus, X, AlertTriangle, Trash2 } from 'lucide-react';
+
+interface EntryDraft {
+    userId: string;
+    category: LeaveCategory;
+    year: number;
+    days: string;
+    kind: 'entitlement' | 'adjustment';
+    note: string;
+}
+
+const inputClassName = "mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-zankli-orange-500 focus:border-zankli-orange-500 sm:text-sm";
+
+const LEAVE_CATEGORIES = Object.values(LeaveCategory);
+
+const RecordEntryModal = ({ isOpen, onClose, onSubmit, draft, setDraft, isSubmitting, error }: {
+    isOpen: boolean;
+    onClose: () => void;
+    onSubmit: (e: React.FormEvent) => void;
+    draft: EntryDraft;
+    setDraft: (draft: EntryDraft) => void;
+    isSubmitting: boolean;
+    error: string | null;
+}) => {
+    const { users } = useRequests();
+    if (!isOpen) return null;
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50">
+            <div className="bg-white rounded-lg shadow-xl p-8 w-full max-w-md">
+                <div className="flex justify-between items-center mb-4">
+                    <h2 className="text-xl font-bold text-gray-800">Record Leave Days</h2>
+                    <button onClick={onClose}><X className="text-gray-500"/></button>
+                </div>
+                <form onSubmit={onSubmit} className="space-y-4">
+                    <div>
+                        <label htmlFor="userId" className="block text-sm font-medium text-gray-700">Staff Member</label>
+                        <select id="userId" required value={draft.userId} onChange={(e) => setDraft({ ...draft, userId: e.target.value })} className={inputClassName}>
+                            <option value="">Select a staff member</option>
+                            {users.map(user => <option key={user.id} value={user.id}>{user.fullName || user.email}</option>)}
+                        </select>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label htmlFor="category" className="block text-sm font-medium text-gray-700">Category</label>
+                            <select id="category" value={draft.category} onChange={(e) => setDraft({ ...draft, category: e.target.value as LeaveCategory })} className={inputClassName}>
+                                {LEAVE_CATEGORIES.map(category => <option key={category} value={category}>{LEAVE_CATEGORY_LABELS[category]}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label htmlFor="year" className="block text-sm font-medium text-gray-700">Year</label>
+                            <input id="year" type="number" required value={draft.year} onChange={(e) => setDraft({ ...draft, year: Number(e.target.value) })} className={inputClassName} />
+                        </div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label htmlFor="kind" className="block text-sm font-medium text-gray-700">Type</label>
+                            <select id="kind" value={draft.kind} onChange={(e) => setDraft({ ...draft, kind: e.target.value as EntryDraft['kind'] })} className={inputClassName}>
+                                <option value="entitlement">{LEAVE_LEDGER_KIND_LABELS.entitlement}</option>
+                                <option value="adjustment">{LEAVE_LEDGER_KIND_LABELS.adjustment}</option>
+                            </select>
+                        </div>
+                        <div>
+                            <label htmlFor="days" className="block text-sm font-medium text-gray-700">Days</label>
+                            <input id="days" type="number" required step="0.5" value={draft.days} onChange={(e) => setDraft({ ...draft, days: e.target.value })} className={inputClassName} />
+                        </div>
+                    </div>
+                    <p className="text-xs text-gray-500">Use a negative number of days to take days away, e.g. to correct an earlier entry.</p>
+                    <div>
+                        <label htmlFor="note" className="block text-sm font-medium text-gray-700">Note (optional)</label>
+                        <input id="note" type="text" value={draft.note} onChange={(e) => setDraft({ ...draft, note: e.target.value })} placeholder="e.g. Carried over from last year" className={inputClassName} />
+                    </div>
+                    {error && (
+                        <div className="bg-red-50 border-l-4 border-red-400 text-red-700 p-3 text-sm">
+                            <p><span className="font-bold">Error:</span> {error}</p>
+                        </div>
+                    )}
+                    <div className="flex justify-end pt-4">
+                        <button
+                            type="submit"
+                            disabled={isSubmitting}
+                            className="px-6 py-2 bg-zankli-orange-600 text-white font-semibold rounded-lg hover:bg-zankli-orange-700 disabled:bg-zankli-orange-300"
+                        >
+                            {isSubmitting ? 'Saving...' : 'Record'}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+// Administrators keep the leave ledger (yearly entitlements and corrections; approved leave is charged
+// automatically), the public holiday calendar that leave day counts skip, and the departmental staffing limits
+// the leave calendar checks for clashes.
+const LeaveManagement = () => {
+    const { users, getUserById } = useRequests();
+    const { ledger, holidays, staffingLimits, error: fetchError, balanceFor, recordLeaveEntry, saveHoliday, removeHoliday, saveStaffingLimit, removeStaffingLimit } = useLeave();
+    const [year, setYear] = useState(new Date().getFullYear());
+    const [isModalOpen, setIsModalOpen] = useState(false);
+    const [draft, setDraft] = useState<EntryDraft>({ userId: '', category: LeaveCategory.ANNUAL, year, days: '', kind: 'entitlement', note: '' });
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [submissionError, setSubmissionError] = useState<string | null>(null);
+    const [holidayDraft, setHolidayDraft] = useState<Omit<PublicHoliday, 'id'>>({ date: '', name: '' });
+    const [limitDraft, setLimitDraft] = useState<{ department: string; maxOnLeave: string }>({ department: '', maxOnLeave: '' });
+    const [actionError, setActionError] = useState<string | null>(null);
+
+    const yearEntries = useMemo(() =>
+        ledger.filter(entry => entry.year === year).sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+    [ledger, year]);
+
+    const yearHolidays = useMemo(() => holidays.filter(holiday => holiday.date.startsWith(String(year))), [holidays, year]);
+
+    const openModal = () => {
+        setSubmissionError(null);
+        setDraft({ userId: '', category: LeaveCategory.ANNUAL, year, days: '', kind: 'entitlement', note: '' });
+        setIsModalOpen(true);
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const days = Number(draft.days);
+        if (!Number.isFinite(days) || days === 0) {
+            setSubmissionError('Please enter a number of days other than zero.');
+            return;
+        }
+        setIsSubmitting(true);
+        setSubmissionError(null);
+
+        const result = await recordLeaveEntry({
+            userId: draft.userId, category: draft.category, year: draft.year, days, kind: draft.kind, note: draft.note.trim() || undefined,
+        });
+
+        if (result.success) {
+            setIsModalOpen(false);
+        } else {
+            setSubmissionError(result.error);
+        }
+        setIsSubmitting(false);
+    };
+
+    const handleAddHoliday = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setActionError(null);
+        const result = await saveHoliday({ date: holidayDraft.date, name: holidayDraft.name.trim() });
+        if (result.success) {
+            setHolidayDraft({ date: '', name: '' });
+        } else {
+            setActionError(result.error);
+        }
+    };
+
+    const handleRemoveHoliday = async (holiday: PublicHoliday) => {
+        if (!window.confirm(`Remove ${holiday.name} from the holiday calendar? Leave already requested keeps its day count.`)) return;
+        setActionError(null);
+        const result = await removeHoliday(holiday.id);
+        if (!result.success) setActionError(result.error);
+    };
+
+    const handleAddLimit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setActionError(null);
+        const result = await saveStaffingLimit({ department: limitDraft.department.trim(), maxOnLeave: Number(limitDraft.maxOnLeave) });
+        if (result.success) {
+            setLimitDraft({ department: '', maxOnLeave: '' });
+        } else {
+            setActionError(result.error);
+        }
+    };
+
+    const handleRemoveLimit = async (limit: StaffingLimit) => {
+        if (!window.confirm(`Remove the staffing limit for ${limit.department}?`)) return;
+        setActionError(null);
+        const result = await removeStaffingLimit(limit.id);
+        if (!result.success) setActionError(result.error);
+    };
+
+    const userName = (id: string) => {
+        const user = getUserById(id);
+        return user ? user.fullName || user.email : id;
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="bg-white p-6 rounded-lg shadow-md">
+                <div className="flex justify-between items-center mb-6">
+                    <div>
+                        <h2 className="text-xl font-bold text-gray-800">Leave Balances</h2>
+                        <p className="text-sm text-gray-500">Working days left per staff member. Approved leave requests are deducted automatically.</p>
+                    </div>
+                    <div className="flex items-center space-x-3">
+                        <input type="number" value={year} onChange={(e) => setYear(Number(e.target.value))} className="w-24 px-3 py-2 border border-gray-300 rounded-md text-sm" aria-label="Year" />
+                        <button onClick={openModal} className="flex items-center px-4 py-2 bg-zankli-orange-600 text-white font-semibold rounded-lg hover:bg-zankli-orange-700">
+                            <Plus size={18} className="mr-1" />
+                            Record Days
+                        </button>
+                    </div>
+                </div>
+
+                {(fetchError || actionError) && (
+                    <div className="bg-red-50 border border-red-200 text-red-800 p-4 rounded-lg mb-4 flex items-center">
+                        <AlertTriangle className="h-5 w-5 mr-3" />
+                        <div>
+                            <p><span className="font-bold">Error:</span> {fetchError ? 'Could not load leave balances.' : 'Could not save the change.'}</p>
+                            <p className="text-sm">{fetchError || actionError}</p>
+                        </div>
+                    </div>
+                )}
+
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm text-left text-gray-500">
+                        <thead className="text-xs text-gray-700 uppercase bg-zankli-cream-100">
+                            <tr>
+                                <th scope="col" className="px-6 py-3">Staff Member</th>
+                                {LEAVE_CATEGORIES.map(category => <th key={category} scope="col" className="px-6 py-3 text-right">{LEAVE_CATEGORY_LABELS[category]}</th>)}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {users.map(user => (
+                                <tr key={user.id} className="bg-white border-b hover:bg-gray-50">
+                                    <th scope="row" className="px-6 py-4 font-medium text-gray-900 whitespace-nowrap">{user.fullName || user.email}</th>
+                                    {LEAVE_CATEGORIES.map(category => {
+                                        const balance = balanceFor(user.id, category, year);
+                                        return <td key={category} className={`px-6 py-4 text-right ${balance < 0 ? 'text-red-600 font-semibold' : ''}`}>{balance}</td>;
+                                    })}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+
+                <h3 className="text-md font-semibold text-gray-800 mt-8 mb-3">Ledger for {year}</h3>
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm text-left text-gray-500">
+                        <thead className="text-xs text-gray-700 uppercase bg-zankli-cream-100">
+                            <tr>
+                                <th scope="col" className="px-6 py-3">Recorded</th>
+                                <th scope="col" className="px-6 py-3">Staff Member</th>
+                                <th scope="col" className="px-6 py-3">Category</th>
+                                <th scope="col" className="px-6 py-3">Type</th>
+                                <th scope="col" className="px-6 py-3 text-right">Days</th>
+                                <th scope="col" className="px-6 py-3">Note</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {yearEntries.map(entry => (
+                                <tr key={entry.id} className="bg-white border-b hover:bg-gray-50">
+                                    <td className="px-6 py-4 whitespace-nowrap">{new Date(entry.createdAt).toLocaleDateString()}</td>
+                                    <td className="px-6 py-4 font-medium text-gray-900">{userName(entry.userId)}</td>
+                                    <td className="px-6 py-4">{LEAVE_CATEGORY_LABELS[entry.category]}</td>
+                                    <td className="px-6 py-4">{LEAVE_LEDGER_KIND_LABELS[entry.kind]}</td>
+                                    <td className={`px-6 py-4 text-right font-semibold ${entry.days < 0 ? 'text-red-600' : 'text-green-700'}`}>{entry.days > 0 ? `+${entry.days}` : entry.days}</td>
+                                    <td className="px-6 py-4">{entry.note || (entry.requestId ? `Request ${entry.requestId.substring(0, 8)}` : '—')}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    {yearEntries.length === 0 && !fetchError && <p className="text-center text-gray-500 py-8">Nothing recorded for {year}.</p>}
+                </div>
+            </div>
+
+            <div className="bg-white p-6 rounded-lg shadow-md">
+                <h2 className="text-xl font-bold text-gray-800">Public Holidays</h2>
+                <p className="text-sm text-gray-500 mb-6">Holidays that fall on weekdays are not counted as leave days.</p>
+                <form onSubmit={handleAddHoliday} className="flex flex-wrap items-end gap-3 mb-4">
+                    <div>
+                        <label htmlFor="holidayDate" className="block text-sm font-medium text-gray-700">Date</label>
+                        <input id="holidayDate" type="date" required value={holidayDraft.date} onChange={(e) => setHolidayDraft({ ...holidayDraft, date: e.target.value })} className={inputClassName} />
+                    </div>
+                    <div className="flex-grow">
+                        <label htmlFor="holidayName" className="block text-sm font-medium text-gray-700">Name</label>
+                        <input id="holidayName" type="text" required value={holidayDraft.name} onChange={(e) => setHolidayDraft({ ...holidayDraft, name: e.target.value })} placeholder="e.g. Independence Day" className={inputClassName} />
+                    </div>
+                    <button type="submit" className="flex items-center px-4 py-2 bg-zankli-orange-100 text-zankli-orange-800 font-semibold rounded-lg hover:bg-zankli-orange-200">
+                        <Plus size={16} className="mr-1" /> Add Holiday
+                    </button>
+                </form>
+                <ul className="divide-y border rounded-lg">
+                    {yearHolidays.map(holiday => (
+                        <li key={holiday.id} className="flex justify-between items-center px-4 py-3 text-sm">
+                            <span>
+                                <span className="font-medium text-gray-900">{new Date(`${holiday.date}T00:00:00`).toLocaleDateString()}</span>
+                                <span className="ml-3 text-gray-600">{holiday.name}</span>
+                            </span>
+                            <button onClick={() => handleRemoveHoliday(holiday)} className="text-red-600 hover:text-red-800" title="Remove holiday">
+                                <Trash2 size={16} />
+                            </button>
+                        </li>
+                    ))}
+                    {yearHolidays.length === 0 && <li className="text-center text-gray-500 py-6">No public holidays in {year}.</li>}
+                </ul>
+            </div>
+
+            <div className="bg-white p-6 rounded-lg shadow-md">
+                <h2 className="text-xl font-bold text-gray-800">Staffing Limits</h2>
+                <p className="text-sm text-gray-500 mb-6">
+                    How many staff of a department may be on leave on the same day before the leave calendar and leave requests flag a clash.
+                    Departments without a limit allow {LEAVE_OVERLAP_POLICY.defaultMaxOnLeave}.
+                </p>
+                <form onSubmit={handleAddLimit} className="flex flex-wrap items-end gap-3 mb-4">
+                    <div className="flex-grow">
+                        <label htmlFor="limitDepartment" className="block text-sm font-medium text-gray-700">Department</label>
+                        <input id="limitDepartment" type="text" required value={limitDraft.department} onChange={(e) => setLimitDraft({ ...limitDraft, department: e.target.value })} placeholder="e.g. Nursing" className={inputClassName} />
+                    </div>
+                    <div>
+                        <label htmlFor="limitMaxOnLeave" className="block text-sm font-medium text-gray-700">Most on Leave at Once</label>
+                        <input id="limitMaxOnLeave" type="number" required min="1" step="1" value={limitDraft.maxOnLeave} onChange={(e) => setLimitDraft({ ...limitDraft, maxOnLeave: e.target.value })} className={inputClassName} />
+                    </div>
+                    <button type="submit" className="flex items-center px-4 py-2 bg-zankli-orange-100 text-zankli-orange-800 font-semibold rounded-lg hover:bg-zankli-orange-200">
+                        <Plus size={16} className="mr-1" /> Add Limit
+                    </button>
+                </form>
+                <ul className="divide-y border rounded-lg">
+                    {staffingLimits.map(limit => (
+                        <li key={limit.id} className="flex justify-between items-center px-4 py-3 text-sm">
+                            <span>
+                                <span className="font-medium text-gray-900">{limit.department}</span>
+                                <span className="ml-3 text-gray-600">up to {limit.maxOnLeave} on leave at once</span>
+                            </span>
+                            <button onClick={() => handleRemoveLimit(limit)} className="text-red-600 hover:text-red-800" title="Remove limit">
+                                <Trash2 size={16} />
+                            </button>
+                        </li>
+                    ))}
+                    {staffingLimits.length === 0 && <li className="text-center text-gray-500 py-6">No staffing limits set.</li>}
+                </ul>
+            </div>
+
+            <RecordEntryModal
+                isOpen={isModalOpen}
+                onClose={() => setIsModalOpen(false)}
+                onSubmit={handleSubmit}
+                draft={draft}
+                setDraft={setDraft}
+                isSubmitting={isSubmitting}
+                error={submissionError}
+            />
+        </div>
+    );
+};
+
+export default LeaveManagement;
@@ -0,0 +1,40 @@
+import React from 'react';
+import { ApprovalGroup, ApprovalGroupMode } from '../../types.ts';
+import { APPROVAL_GROUP_MODE_LABELS } from '../../lib/approvalSteps.ts';
+
+interface ApprovalGroupControlsProps {
+    group: ApprovalGroup;
+    size: number;
+    onChange: (changes: Partial<Omit<ApprovalGroup, 'id'>>) => void;
+}
+
+// Mode (and quorum size) of one parallel approval step.
+const ApprovalGroupControls = ({ group, size, onChange }: ApprovalGroupControlsProps) => (
+    <div className="flex items-center gap-2 text-xs text-gray-600">
+        <span className="font-semibold uppercase tracking-wide">Parallel step</span>
+        <select
+            value={group.mode}
+            onChange={(e) => onChange({ mode: e.target.value as ApprovalGroupMode })}
+            className="px-1 py-0.5 border border-gray-300 bg-white rounded text-xs focus:outline-none focus:ring-zankli-orange-500 focus:border-zankli-orange-500"
+        >
+            {(Object.keys(APPROVAL_GROUP_MODE_LABELS) as ApprovalGroupMode[]).map(mode => (
+                <option key={mode} value={mode}>{APPROVAL_GROUP_MODE_LABELS[mode]}</option>
+            ))}
+        </select>
+        {group.mode === 'quorum' && (
+            <>
+                <input
+                    type="number"
+                    min={1}
+                    max={size}
+                    value={group.required}
+                    onChange={(e) => onChange({ required: parseInt(e.target.value, 10) || 1 })}
+                    className="w-12 px-1 py-0.5 border border-gray-300 rounded text-xs"
+                />
+                <span>of {size}</span>
+            </>
+        )}
+    </div>
+);
+
+export default ApprovalGroupControls;
@@ -1,79 +1,133 @@
 import React, { useState } from 'react';
-import { User } from '../../types.ts';
-import { ChevronDown, Plus, X } from 'lucide-react';
+import { User, WorkflowRole } from '../../types.ts';
+import { WORKFLOW_ROLE_LABELS } from '../../lib/workflows.ts';
+import { QueuedApprover, groupApprovalSteps, describeStepRequirement, linkWithPrevious, unlinkFromPrevious, updateApprovalGroup, normaliseApprovalGroups } from '../../lib/approvalSteps.ts';
+import ApprovalGroupControls from './ApprovalGroupControls.tsx';
+import { ChevronDown, Plus, X, Link2, Unlink } from 'lucide-react';
 
 interface ApprovalQueueSelectorProps {
     approvers: User[];
-    selectedApprovers: User[];
-    setSelectedApprovers: React.Dispatch<React.SetStateAction<User[]>>;
+    queue: QueuedApprover[];
+    setQueue: React.Dispatch<React.SetStateAction<QueuedApprover[]>>;
+    // Shown under the heading, e.g. which workflow template filled the queue.
+    note?: string;
+    // Fixed by a workflow template that does not allow overrides.
+    locked?: boolean;
 }
 
-const ApprovalQueueSelector = ({ approvers, selectedApprovers, setSelectedApprovers }: ApprovalQueueSelectorProps) => {
+const ApprovalQueueSelector = ({ approvers, queue, setQueue, note, locked = false }: ApprovalQueueSelectorProps) => {
     const [isOpen, setIsOpen] = useState(false);
 
     const availableApprovers = approvers.filter(
-        (approver) => !selectedApprovers.some((selected) => selected.id === approver.id)
+        (approver) => !queue.some(({ user }) => user.id === approver.id)
     );
 
     const addApprover = (approver: User) => {
+        // An approver holding a single role most likely signs in that role; it can be changed below.
+        const stepRole = approver.workflowRoles?.length === 1 ? approver.workflowRoles[0] : undefined;
         // Use functional update to avoid stale state issues
-        setSelectedApprovers(prevSelected => [...prevSelected, approver]);
+        setQueue(prevQueue => [...prevQueue, { user: approver, ...(stepRole ? { stepRole } : {}) }]);
         setIsOpen(false);
     };
 
+    const setStepRole = (index: number, stepRole: WorkflowRole | undefined) => {
+        setQueue(prevQueue => prevQueue.map((entry, i) => (i === index ? { ...entry, stepRole } : entry)));
+    };
+
     const removeApprover = (approverId: string) => {
         // Use functional update to avoid stale state issues
-        setSelectedApprovers(prevSelected => prevSelected.filter((approver) => approver.id !== approverId));
+        setQueue(prevQueue => normaliseApprovalGroups(prevQueue.filter(({ user }) => user.id !== approverId)));
     };
 
+    const steps = groupApprovalSteps(queue);
+
     return (
         <div className="space-y-3">
             <h3 className="text-md font-semibold text-gray-800">Approval Queue</h3>
-            <p className="text-sm text-gray-500">Add approvers in the order they should review the request.</p>
+            <p className="text-sm text-gray-500">
+                {locked ? 'Approvers review the request in this order.' : 'Add approvers in the order they should review the request. Link an approver to the one above to have them review in parallel.'}
+            </p>
+            {note && <p className="text-xs text-zankli-orange-700">{note}</p>}
             
             <div className="p-3 border border-dashed border-gray-300 rounded-lg min-h-[60px] space-y-2">
-                {selectedApprovers.length === 0 && <p className="text-center text-gray-400 text-sm">No approvers selected</p>}
-                {selectedApprovers.map((approver, index) => (
-                    <div key={approver.id} className="flex items-center justify-between bg-zankli-cream-100 p-2 rounded">
-                        <div className="flex items-center">
-                            <span className="text-sm font-bold text-zankli-orange-700 mr-2">{index + 1}</span>
-                            <span className="text-sm text-gray-800">{approver.email}</span>
-                        </div>
-                        <button type="button" onClick={() => removeApprover(approver.id)} className="text-gray-400 hover:text-red-600">
-                            <X size={16} />
-                        </button>
+                {queue.length === 0 && <p className="text-center text-gray-400 text-sm">No approvers selected</p>}
+                {steps.map((step, stepNumber) => (
+                    <div key={step.startIndex} className={step.group ? 'border border-zankli-orange-200 rounded p-2 space-y-2' : ''}>
+                        {step.group && (locked
+                            ? <p className="text-xs font-semibold text-gray-600">{describeStepRequirement(step)}</p>
+                            : <ApprovalGroupControls group={step.group} size={step.members.length} onChange={(changes) => setQueue(prev => updateApprovalGroup(prev, step.group!.id, changes))} />
+                        )}
+                        {step.members.map(({ user, stepRole }, memberIndex) => {
+                            const index = step.startIndex + memberIndex;
+                            return (
+                                <div key={user.id} className="flex items-center justify-between bg-zankli-cream-100 p-2 rounded">
+                                    <div className="flex items-center">
+                                        <span className="text-sm font-bold text-zankli-orange-700 mr-2">{stepNumber + 1}</span>
+                                        <span className="text-sm text-gray-800">{user.email}</span>
+                                        {locked && stepRole && <span className="ml-2 text-xs font-bold text-zankli-orange-700 bg-zankli-orange-100 px-2 py-0.5 rounded-full">{WORKFLOW_ROLE_LABELS[stepRole]}</span>}
+                                    </div>
+                                    {!locked && (
+                                        <div className="flex items-center gap-2">
+                                            <select
+                                                value={stepRole || ''}
+                                                onChange={(e) => setStepRole(index, (e.target.value || undefined) as WorkflowRole | undefined)}
+                                                className="px-2 py-0.5 border border-gray-300 bg-white rounded-md text-xs focus:outline-none focus:ring-zankli-orange-500 focus:border-zankli-orange-500"
+                                                title="The role this approver signs in"
+                                            >
+                                                <option value="">No step role</option>
+                                                {Object.values(WorkflowRole).map(role => <option key={role} value={role}>{WORKFLOW_ROLE_LABELS[role]}</option>)}
+                                            </select>
+                                            {index > 0 && (memberIndex > 0 ? (
+                                                <button type="button" onClick={() => setQueue(prev => unlinkFromPrevious(prev, index))} className="text-zankli-orange-600 hover:text-gray-700" title="Review after the approvers above instead">
+                                                    <Unlink size={16} />
+                                                </button>
+                                            ) : (
+                                                <button type="button" onClick={() => setQueue(prev => linkWithPrevious(prev, index))} className="text-gray-400 hover:text-zankli-orange-600" title="Review in parallel with the step above">
+                                                    <Link2 size={16} />
+                                                </button>
+                                            ))}
+                                            <button type="button" onClick={() => removeApprover(user.id)} className="text-gray-400 hover:text-red-600">
+                                                <X size={16} />
+                                            </button>
+                                        </div>
+                                    )}
+                                </div>
+                            );
+                        })}
                     </div>
                 ))}
             </div>
 
-            <div className="relative">
-                <button
-                    type="button"
-                    onClick={() => setIsOpen(!isOpen)}
-                    className="w-full flex items-center justify-between p-2 text-sm bg-white border border-gray-300 rounded-md"
-                >
-                    <span>Add an approver...</span>
-                    <ChevronDown size={16} className={`transition-transform ${isOpen ? 'rotate-180' : ''}`} />
-                </button>
-                {isOpen && (
-                    <div className="absolute z-10 w-full mt-1 bg-white border border-gray-300 rounded-md shadow-lg max-h-60 overflow-auto">
-                        <ul>
-                            {availableApprovers.map((approver) => (
-                                <li
-                                    key={approver.id}
-                                    onClick={() => addApprover(approver)}
-                                    className="p-2 text-sm text-gray-700 hover:bg-zankli-orange-50 cursor-pointer flex items-center"
-                                >
-                                    <Plus size={14} className="mr-2" />
-                                    {approver.email}
-                                </li>
-                            ))}
-                        </ul>
-                    </div>
-                )}
-            </div>
+            {!locked && (
+                <div className="relative">
+                    <button
+                        type="button"
+                        onClick={() => setIsOpen(!isOpen)}
+                        className="w-full flex items-center justify-between p-2 text-sm bg-white border border-gray-300 rounded-md"
+                    >
+                        <span>Add an approver...</span>
+                        <ChevronDown size={16} className={`transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+                    </button>
+                    {isOpen && (
+                        <div className="absolute z-10 w-full mt-1 bg-white border border-gray-300 rounded-md shadow-lg max-h-60 overflow-auto">
+                            <ul>
+                                {availableApprovers.map((approver) => (
+                                    <li
+                                        key={approver.id}
+                                        onClick={() => addApprover(approver)}
+                                        className="p-2 text-sm text-gray-700 hover:bg-zankli-orange-50 cursor-pointer flex items-center"
+                                    >
+                                        <Plus size={14} className="mr-2" />
+                                        {approver.email}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                </div>
+            )}
         </div>
     );
 };
 
-export default ApprovalQueueSelector;
\ No newline at end of file
+export default ApprovalQueueSelector;
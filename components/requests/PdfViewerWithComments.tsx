@@ -1,9 +1,13 @@
 import React, { useEffect, useRef, useState, useCallback } from 'react';
 import * as pdfjsLib from 'pdfjs-dist';
-import { Request, UserRole, ApprovalStatus } from '../../types.ts';
+import { Request, UserRole } from '../../types.ts';
 import { useRequests } from '../../hooks/useRequests.ts';
 import { useAuth } from '../../hooks/useAuth.ts';
-import { supabase } from '../../lib/supabaseClient.ts';
+import { useRequestComments } from '../../hooks/useRequestComments.ts';
+import { dataAccess } from '../../lib/dataAccess.ts';
+import { approverToActFor } from '../../lib/delegations.ts';
+import { isAwaitingDecision } from '../../lib/requestStatus.ts';
+import { useDelegations } from '../../hooks/useDelegations.ts';
 import { X, Send } from 'lucide-react';
 
 pdfjsLib.GlobalWorkerOptions.workerSrc = `https://aistudiocdn.com/pdfjs-dist@5.4.296/build/pdf.worker.min.mjs`;
@@ -19,6 +23,8 @@ const PdfViewerWithComments = ({ request, onClose }: PdfViewerWithCommentsProps)
     const [newComment, setNewComment] = useState('');
     const { addPdfComment, getUserById } = useRequests();
     const { currentUser } = useAuth();
+    const { delegations } = useDelegations();
+    const { comments, loading: commentsLoading, error: commentsError } = useRequestComments(request.id);
     const commentsEndRef = useRef<HTMLDivElement>(null);
 
     const renderPage = useCallback(async (pageNum: number, pdfDoc: pdfjsLib.PDFDocumentProxy) => {
@@ -46,17 +52,7 @@ const PdfViewerWithComments = ({ request, onClose }: PdfViewerWithCommentsProps)
         const loadPdf = async () => {
             if (!request.fileURL) return;
             try {
-                // Robustly parse the file path from the full Supabase URL.
-                const url = new URL(request.fileURL);
-                const pathSegments = url.pathname.split('/');
-                const bucketIndex = pathSegments.findIndex(segment => segment === 'request_attachments');
-                if (bucketIndex === -1 || bucketIndex + 1 >= pathSegments.length) {
-                    throw new Error('Could not parse file path from URL');
-                }
-                const filePath = pathSegments.slice(bucketIndex + 1).join('/');
-
-                // Use the authenticated Supabase client to download the file, bypassing CORS issues.
-                const { data: blob, error: downloadError } = await supabase.storage.from('request_attachments').download(filePath);
+                const { data: blob, error: downloadError } = await dataAccess.attachments.download(request.fileURL);
 
                 if (downloadError) throw downloadError;
                 if (!blob) throw new Error("PDF download returned null.");
@@ -84,7 +80,7 @@ const PdfViewerWithComments = ({ request, onClose }: PdfViewerWithCommentsProps)
     
     useEffect(() => {
         commentsEndRef.current?.scrollIntoView({ behavior: "smooth" });
-    }, [request.pdfComments]);
+    }, [comments]);
 
     const handleAddComment = async (e: React.FormEvent) => {
         e.preventDefault();
@@ -98,8 +94,8 @@ const PdfViewerWithComments = ({ request, onClose }: PdfViewerWithCommentsProps)
         }
     }
 
-    const canComment = (currentUser?.role === UserRole.ADMIN && request.status === ApprovalStatus.PENDING) ||
-                        (request.status === ApprovalStatus.PENDING && request.approvalQueue[request.currentApproverIndex]?.userId === currentUser?.id);
+    const canComment = (currentUser?.role === UserRole.ADMIN && isAwaitingDecision(request)) ||
+                        (!!currentUser && approverToActFor(request, delegations, currentUser.id) !== null);
 
     return (
         <div className="fixed inset-0 bg-black bg-opacity-80 flex flex-col z-50 p-4 font-sans">
@@ -125,7 +121,7 @@ const PdfViewerWithComments = ({ request, onClose }: PdfViewerWithCommentsProps)
                 <div className="w-96 bg-white flex flex-col flex-shrink-0 rounded-b-lg lg:rounded-b-none lg:rounded-r-lg">
                     <h3 className="text-lg font-bold text-gray-800 p-4 border-b">Comments</h3>
                     <div className="flex-grow overflow-y-auto p-4 space-y-4">
-                        {(request.pdfComments || []).map((comment, index) => {
+                        {comments.map((comment, index) => {
                             const user = getUserById(comment.userId);
                             const userEmail = user ? user.email : comment.userEmail;
                             return (
@@ -146,7 +142,9 @@ const PdfViewerWithComments = ({ request, onClose }: PdfViewerWithCommentsProps)
                             );
                         })}
                         <div ref={commentsEndRef} />
-                        {(!request.pdfComments || request.pdfComments.length === 0) && (
+                        {commentsLoading && <p className="text-sm text-gray-500 text-center py-8">Loading comments...</p>}
+                        {commentsError && <p className="text-sm text-red-600 text-center py-8">{commentsError}</p>}
+                        {!commentsLoading && !commentsError && comments.length === 0 && (
                             <p className="text-sm text-gray-500 text-center py-8">No comments yet.</p>
                         )}
                     </div>
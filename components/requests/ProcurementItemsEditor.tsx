@@ -0,0 +1,119 @@
+import React, { useMemo } from 'react';
+import { useStore } from '../../hooks/useStore.ts';
+import { useVendors } from '../../hooks/useVendors.ts';
+import { RawDetails, toNumber, formatCurrency } from '../../lib/fieldValues.ts';
+import { newLineItemId } from '../../lib/requestDetails.ts';
+import { Plus, X } from 'lucide-react';
+
+interface ProcurementItemsEditorProps {
+    label: string;
+    // Lines as typed; quantities and costs are normalised on submit.
+    items: RawDetails[];
+    onChange: (items: RawDetails[]) => void;
+}
+
+const cellInput = "w-full p-1 border rounded-md text-sm";
+
+// Line-item table for 'procurementItems' request fields. A line may restock a store item, which fills in its
+// description and last unit cost, and may name its own vendor; lines without one are bought from the request's vendor.
+const ProcurementItemsEditor = ({ label, items, onChange }: ProcurementItemsEditorProps) => {
+    const { storeItems, getStoreItemById } = useStore();
+    const { vendors } = useVendors();
+
+    const grandTotal = useMemo(() => items.reduce((total, line) => total + toNumber(line.quantity) * toNumber(line.unitCost), 0), [items]);
+
+    const updateLine = (id: string, changes: RawDetails) => {
+        onChange(items.map(line => (line.id === id ? { ...line, ...changes } : line)));
+    };
+
+    const handleStoreItemChange = (line: RawDetails, storeItemId: string) => {
+        const storeItem = getStoreItemById(storeItemId);
+        updateLine(line.id, {
+            storeItemId: storeItemId || undefined,
+            ...(storeItem && !String(line.description || '').trim() ? { description: storeItem.name } : {}),
+            ...(storeItem && !toNumber(line.unitCost) ? { unitCost: storeItem.unitCost || 0 } : {}),
+        });
+    };
+
+    const handleAddLine = () => {
+        onChange([...items, { id: newLineItemId(), description: '', unit: '', quantity: 1, unitCost: '' }]);
+    };
+
+    const handleRemoveLine = (id: string) => {
+        onChange(items.filter(line => line.id !== id));
+    };
+
+    return (
+        <div className="space-y-4">
+            <h3 className="text-md font-semibold text-gray-800">{label}</h3>
+            <div className="border rounded-lg overflow-x-auto">
+               <table className="w-full text-sm">
+                    <thead className="bg-gray-50">
+                        <tr>
+                            <th className="px-3 py-2 text-left font-medium text-gray-600 min-w-[10rem]">Description</th>
+                            <th className="px-3 py-2 text-left font-medium text-gray-600 w-24">Unit</th>
+                            <th className="px-3 py-2 text-center font-medium text-gray-600 w-20">Quantity</th>
+                            <th className="px-3 py-2 text-right font-medium text-gray-600 w-28">Unit Cost</th>
+                            <th className="px-3 py-2 text-right font-medium text-gray-600">Total</th>
+                            <th className="px-3 py-2 text-left font-medium text-gray-600">Store Item</th>
+                            <th className="px-3 py-2 text-left font-medium text-gray-600">Vendor</th>
+                            <th className="px-3 py-2 text-center font-medium text-gray-600">Action</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {items.length > 0 ? items.map(line => (
+                            <tr key={line.id} className="border-b last:border-0 align-top">
+                                <td className="px-3 py-2">
+                                    <input type="text" value={line.description ?? ''} onChange={(e) => updateLine(line.id, { description: e.target.value })} className={cellInput} placeholder="What is being bought" />
+                                </td>
+                                <td className="px-3 py-2">
+                                    <input type="text" value={line.unit ?? ''} onChange={(e) => updateLine(line.id, { unit: e.target.value })} className={cellInput} placeholder="e.g. box" />
+                                </td>
+                                <td className="px-3 py-2">
+                                    <input type="number" value={line.quantity ?? ''} onChange={(e) => updateLine(line.id, { quantity: e.target.value })} className={`${cellInput} text-center`} min="0" />
+                                </td>
+                                <td className="px-3 py-2">
+                                    <input type="number" value={line.unitCost ?? ''} onChange={(e) => updateLine(line.id, { unitCost: e.target.value })} className={`${cellInput} text-right`} min="0" step="0.01" />
+                                </td>
+                                <td className="px-3 py-2 text-right font-medium whitespace-nowrap">{(toNumber(line.quantity) * toNumber(line.unitCost)).toLocaleString()}</td>
+                                <td className="px-3 py-2">
+                                    <select value={line.storeItemId || ''} onChange={(e) => handleStoreItemChange(line, e.target.value)} className={`${cellInput} bg-white`}>
+                                        <option value="">None</option>
+                                        {storeItems.map(item => <option key={item.id} value={item.id}>{item.name}</option>)}
+                                    </select>
+                                </td>
+                                <td className="px-3 py-2">
+                                    <select value={line.vendorId || ''} onChange={(e) => updateLine(line.id, { vendorId: e.target.value || undefined })} className={`${cellInput} bg-white`}>
+                                        <option value="">Request vendor</option>
+                                        {vendors.map(vendor => <option key={vendor.id} value={vendor.id}>{vendor.name}</option>)}
+                                    </select>
+                                </td>
+                                <td className="px-3 py-2 text-center">
+                                    <button type="button" onClick={() => handleRemoveLine(line.id)} className="text-red-500 hover:text-red-700">
+                                        <X size={16}/>
+                                    </button>
+                                </td>
+                            </tr>
+                        )) : (
+                            <tr><td colSpan={8} className="text-center text-gray-500 py-4">No line items added.</td></tr>
+                        )}
+                    </tbody>
+                    {items.length > 0 && (
+                        <tfoot>
+                            <tr className="font-bold bg-gray-50">
+                                <td colSpan={4} className="px-3 py-2 text-right">Grand Total</td>
+                                <td className="px-3 py-2 text-right text-base whitespace-nowrap">{formatCurrency(grandTotal)}</td>
+                                <td colSpan={3}></td>
+                            </tr>
+                        </tfoot>
+                    )}
+               </table>
+            </div>
+            <button type="button" onClick={handleAddLine} className="flex items-center text-sm px-4 py-2 bg-zankli-orange-100 text-zankli-orange-800 font-semibold rounded-lg hover:bg-zankli-orange-200">
+               <Plus size={16} className="mr-2"/> Add Line
+            </button>
+        </div>
+    );
+};
+
+export default ProcurementItemsEditor;
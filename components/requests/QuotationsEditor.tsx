@@ -0,0 +1,126 @@
+import React from 'react';
+import { Quotation } from '../../types.ts';
+import { useVendors } from '../../hooks/useVendors.ts';
+import { RawDetails, toNumber, toText } from '../../lib/fieldValues.ts';
+import { QUOTATION_POLICY, QuotationFiles, isCheapestQuotation, needsMoreQuotations, newQuotationId } from '../../lib/quotations.ts';
+import { Plus, X, AlertTriangle } from 'lucide-react';
+
+interface QuotationsEditorProps {
+    label: string;
+    // Quotations as typed; amounts are normalised on submit.
+    quotations: RawDetails[];
+    selectedQuotationId: string;
+    selectionJustification: string;
+    grandTotal: number;
+    files: QuotationFiles;
+    onChange: (key: 'quotations' | 'selectedQuotationId' | 'selectionJustification', value: unknown) => void;
+    onFilesChange: (files: QuotationFiles) => void;
+}
+
+const cellInput = "w-full p-1 border rounded-md text-sm";
+
+// Vendor quotations for 'quotations' request fields. One is marked as recommended; recommending one that is not
+// the cheapest asks for a reason.
+const QuotationsEditor = ({ label, quotations, selectedQuotationId, selectionJustification, grandTotal, files, onChange, onFilesChange }: QuotationsEditorProps) => {
+    const { vendors } = useVendors();
+
+    const amounts: Quotation[] = quotations.map(q => ({ id: toText(q.id), vendorId: toText(q.vendorId), amount: toNumber(q.amount), validUntil: toText(q.validUntil) }));
+    const selected = amounts.find(q => q.id === selectedQuotationId);
+    const needsReason = !!selected && selected.amount > 0 && !isCheapestQuotation(selected, amounts.filter(q => q.amount > 0));
+
+    const updateQuotation = (id: string, changes: RawDetails) => {
+        onChange('quotations', quotations.map(q => (q.id === id ? { ...q, ...changes } : q)));
+    };
+
+    const handleFileChange = (id: string, e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (file) onFilesChange({ ...files, [id]: file });
+    };
+
+    const handleAddQuotation = () => {
+        onChange('quotations', [...quotations, { id: newQuotationId(), vendorId: '', amount: '', validUntil: '' }]);
+    };
+
+    const handleRemoveQuotation = (id: string) => {
+        onChange('quotations', quotations.filter(q => q.id !== id));
+        if (id === selectedQuotationId) onChange('selectedQuotationId', '');
+        const { [id]: _removed, ...remainingFiles } = files;
+        onFilesChange(remainingFiles);
+    };
+
+    return (
+        <div className="space-y-4">
+            <h3 className="text-md font-semibold text-gray-800">{label}</h3>
+            {needsMoreQuotations({ quotations: amounts, grandTotal }) && (
+                <div className="bg-yellow-50 border-l-4 border-yellow-400 text-yellow-800 p-3 text-sm flex items-start">
+                    <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+                    <p>Purchases of {QUOTATION_POLICY.fromAmount.toLocaleString()} NGN or more need {QUOTATION_POLICY.minimumQuotations} quotations. Approvers will see that fewer were attached.</p>
+                </div>
+            )}
+            <div className="border rounded-lg overflow-x-auto">
+               <table className="w-full text-sm">
+                    <thead className="bg-gray-50">
+                        <tr>
+                            <th className="px-3 py-2 text-center font-medium text-gray-600">Recommended</th>
+                            <th className="px-3 py-2 text-left font-medium text-gray-600 min-w-[10rem]">Vendor</th>
+                            <th className="px-3 py-2 text-right font-medium text-gray-600 w-32">Amount (NGN)</th>
+                            <th className="px-3 py-2 text-left font-medium text-gray-600">Valid Until</th>
+                            <th className="px-3 py-2 text-left font-medium text-gray-600">Quote Document</th>
+                            <th className="px-3 py-2 text-center font-medium text-gray-600">Action</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {quotations.length > 0 ? quotations.map(q => (
+                            <tr key={q.id} className="border-b last:border-0 align-top">
+                                <td className="px-3 py-2 text-center">
+                                    <input type="radio" name="selectedQuotationId" checked={q.id === selectedQuotationId} onChange={() => onChange('selectedQuotationId', q.id)} className="h-4 w-4 text-zankli-orange-600" />
+                                </td>
+                                <td className="px-3 py-2">
+                                    <select value={q.vendorId || ''} onChange={(e) => updateQuotation(q.id, { vendorId: e.target.value })} className={`${cellInput} bg-white`}>
+                                        <option value="">Select a vendor</option>
+                                        {vendors.map(vendor => <option key={vendor.id} value={vendor.id}>{vendor.name}</option>)}
+                                    </select>
+                                </td>
+                                <td className="px-3 py-2">
+                                    <input type="number" value={q.amount ?? ''} onChange={(e) => updateQuotation(q.id, { amount: e.target.value })} className={`${cellInput} text-right`} min="0" step="0.01" />
+                                </td>
+                                <td className="px-3 py-2">
+                                    <input type="date" value={q.validUntil ?? ''} onChange={(e) => updateQuotation(q.id, { validUntil: e.target.value })} className={cellInput} />
+                                </td>
+                                <td className="px-3 py-2">
+                                    <input type="file" onChange={(e) => handleFileChange(q.id, e)} className="block w-full text-xs text-gray-500 file:mr-2 file:py-1 file:px-2 file:rounded-full file:border-0 file:text-xs file:font-semibold file:bg-zankli-orange-50 file:text-zankli-orange-700" />
+                                    {files[q.id] ? (
+                                        <p className="text-xs text-gray-500 mt-1">Selected: {files[q.id].name}</p>
+                                    ) : q.fileURL && (
+                                        <a href={q.fileURL} target="_blank" rel="noopener noreferrer" className="block text-xs text-zankli-orange-600 hover:underline mt-1">{q.fileName || 'Current quote'}</a>
+                                    )}
+                                </td>
+                                <td className="px-3 py-2 text-center">
+                                    <button type="button" onClick={() => handleRemoveQuotation(q.id)} className="text-red-500 hover:text-red-700">
+                                        <X size={16}/>
+                                    </button>
+                                </td>
+                            </tr>
+                        )) : (
+                            <tr><td colSpan={6} className="text-center text-gray-500 py-4">No quotations added.</td></tr>
+                        )}
+                    </tbody>
+               </table>
+            </div>
+            {needsReason && (
+                <div>
+                    <label htmlFor="selectionJustification" className="block text-sm font-medium text-gray-700">Why is the recommended quotation not the cheapest? *</label>
+                    <textarea
+                        id="selectionJustification" value={selectionJustification} onChange={(e) => onChange('selectionJustification', e.target.value)} rows={2} required
+                        className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-zankli-orange-500 focus:border-zankli-orange-500 sm:text-sm"
+                    />
+                </div>
+            )}
+            <button type="button" onClick={handleAddQuotation} className="flex items-center text-sm px-4 py-2 bg-zankli-orange-100 text-zankli-orange-800 font-semibold rounded-lg hover:bg-zankli-orange-200">
+               <Plus size={16} className="mr-2"/> Add Quotation
+            </button>
+        </div>
+    );
+};
+
+export default QuotationsEditor;
@@ -1,14 +1,37 @@
 import React, { useState, useMemo, useRef, useEffect, useCallback } from 'react';
 import jsPDF from 'jspdf';
 import html2canvas from 'html2canvas';
-import { Request, ApprovalStatus, UserRole, RequestType, StoreRequisitionItem } from '../../types.ts';
+import { Request, RequestType, Approver, ApprovalStatus, UserRole, WorkflowRole, DetailAdjustment, ConsultationMode, ConsultationPosition, LeaveCalendarEntry } from '../../types.ts';
 import { useRequests } from '../../hooks/useRequests.ts';
 import { useAuth } from '../../hooks/useAuth.ts';
 import { useVendors } from '../../hooks/useVendors.ts';
-import { X, CheckCircle, XCircle, Clock, Paperclip, Edit, Send, ShoppingCart, Download, MessageSquare, AlertTriangle, Loader2 } from 'lucide-react';
+import { useStore } from '../../hooks/useStore.ts';
+import { useWorkflows } from '../../hooks/useWorkflows.ts';
+import { X, CheckCircle, XCircle, Clock, Paperclip, Edit, Send, ShoppingCart, Download, MessageSquare, AlertTriangle, Loader2, AlarmClock, Ban, PackageCheck, History, Activity, UserPlus } from 'lucide-react';
 import PdfViewerWithComments from './PdfViewerWithComments.tsx';
 import RequestPDFLayout from './RequestPDFLayout.tsx';
 import SignaturePad, { SignaturePadRef } from '../shared/SignaturePad.tsx';
+import RoutingSummary from './RoutingSummary.tsx';
+import { describeRequestDetails, describeLineItems } from '../../lib/requestDetails.ts';
+import { formatCurrency } from '../../lib/fieldValues.ts';
+import { applyRoutingRules, routingAmount } from '../../lib/routingRules.ts';
+import { adjustableValues, adjustmentKey, applyAdjustments, validateAdjustments, changedDetails, describeAdjustment, describeAdjustedDetails, lineQuantityLabel, lineTotalLabel } from '../../lib/adjustments.ts';
+import { allowedTransitions, canCreateProcurementFrom, canTransition } from '../../lib/requestStatus.ts';
+import { WORKFLOW_ROLE_LABELS } from '../../lib/workflows.ts';
+import { approverToActFor, describeSignatory } from '../../lib/delegations.ts';
+import { useDelegations } from '../../hooks/useDelegations.ts';
+import { applyStepSlas, currentStepDueAt, isRequestOverdue } from '../../lib/sla.ts';
+import { fulfilmentStagesFor, nextFulfilmentStage } from '../../lib/fulfilment.ts';
+import { diffSubmissions, sentBackEntry } from '../../lib/requestRevisions.ts';
+import { useRequestRevisions } from '../../hooks/useRequestRevisions.ts';
+import { useRequestEvents } from '../../hooks/useRequestEvents.ts';
+import { CONSULTATION_MODE_LABELS, CONSULTATION_POSITION_LABELS, reviewerActions } from '../../lib/consultations.ts';
+import { REQUEST_EVENT_LABELS } from '../../lib/requestEvents.ts';
+import { QUOTATION_POLICY, compareQuotations, needsMoreQuotations } from '../../lib/quotations.ts';
+import { LEAVE_CATEGORY_LABELS, findLeaveClashes, isOnLeaveCalendar, leaveCalendarEntry } from '../../lib/leave.ts';
+import { useLeave } from '../../hooks/useLeave.ts';
+import { useLeaveCalendar } from '../../hooks/useLeaveCalendar.ts';
+import { currentApprovalStep, currentStepEntryOf, groupApprovalSteps, describeStepRequirement, toPendingApprovers } from '../../lib/approvalSteps.ts';
 
 interface RequestDetailsModalProps {
     request: Request;
@@ -17,45 +40,151 @@ interface RequestDetailsModalProps {
     onCreateProcurement?: (request: Request) => void;
 }
 
+// Shown in this order, each only when the state machine allows it.
+const APPROVER_ACTIONS: { status: ApprovalStatus; label: string; className: string }[] = [
+    { status: ApprovalStatus.SENT_BACK, label: 'Send Back', className: 'bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300' },
+    { status: ApprovalStatus.REJECTED, label: 'Reject', className: 'bg-red-600 hover:bg-red-700 disabled:bg-red-300' },
+    { status: ApprovalStatus.APPROVED, label: 'Approve', className: 'bg-green-600 hover:bg-green-700 disabled:bg-green-300' },
+];
+
 const RequestDetailsModal = ({ request, onClose, onEdit, onCreateProcurement }: RequestDetailsModalProps) => {
-    const { updateRequestStatus, getUserById, users } = useRequests();
+    const { updateRequestStatus, cancelRequest, consultReviewer, recordFulfilmentStage, logRequestEvent, getUserById, approvers, commentSummaries, loadCommentSummary } = useRequests();
+    const { routingRules, getTemplateForType } = useWorkflows();
+    const { delegations } = useDelegations();
     const { currentUser } = useAuth();
     const { getVendorById } = useVendors();
+    const { getStoreItemById } = useStore();
+    const { maxOnLeaveFor } = useLeave();
     const [comments, setComments] = useState('');
     const [hodComments, setHODComments] = useState('');
     const [internalAuditComments, setInternalAuditComments] = useState('');
     const [finalAmount, setFinalAmount] = useState<string>('');
+    const [isAdjusting, setIsAdjusting] = useState(false);
+    const [adjustedInputs, setAdjustedInputs] = useState<Record<string, string>>({});
     const [isViewingPdf, setIsViewingPdf] = useState(false);
     const signaturePadRef = useRef<SignaturePadRef>(null);
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [actionError, setActionError] = useState<string | null>(null);
     const [isGeneratingPdf, setIsGeneratingPdf] = useState(false);
+    const [isCancelling, setIsCancelling] = useState(false);
+    const [cancellationReason, setCancellationReason] = useState('');
+    const [cancelError, setCancelError] = useState<string | null>(null);
+    const [selectedRevision, setSelectedRevision] = useState<number | null>(null);
+    const [fulfilmentNote, setFulfilmentNote] = useState('');
+    const [fulfilmentError, setFulfilmentError] = useState<string | null>(null);
+    const [isConsulting, setIsConsulting] = useState(false);
+    const [reviewerId, setReviewerId] = useState('');
+    const [consultMode, setConsultMode] = useState<ConsultationMode>('blocking');
+    const [consultPosition, setConsultPosition] = useState<ConsultationPosition>('before');
+    const [consultQuestion, setConsultQuestion] = useState('');
+    const [consultError, setConsultError] = useState<string | null>(null);
     const pdfLayoutRef = useRef<HTMLDivElement>(null);
 
-    const AUDITOR_EMAIL = 'auditorzankli@gmail.com';
-
     const vendor = useMemo(() => request.vendorId ? getVendorById(request.vendorId) : null, [request.vendorId, getVendorById]);
+    const quotationComparison = useMemo(() => (request.type === RequestType.PROCUREMENT ? compareQuotations(request.details) : []), [request]);
+
+    // Colleagues in the same department away during this leave, and the days on which too many of them would be.
+    const leaveEntry = useMemo(() => (
+        request.type === RequestType.LEAVE && isOnLeaveCalendar(request.status) ? leaveCalendarEntry(request.id, request.status, request.details) : null
+    ), [request]);
+    const { entries: leaveCalendar } = useLeaveCalendar(leaveEntry?.startDate || '', leaveEntry?.endDate || '');
+    const leaveOverlap = useMemo(() => {
+        if (!leaveEntry) return null;
+        const maxOnLeave = maxOnLeaveFor(leaveEntry.department);
+        const overlaps = findLeaveClashes(leaveEntry, leaveCalendar, 1);
+        const colleagues = new Map<string, { entry: LeaveCalendarEntry; days: number }>();
+        overlaps.forEach(({ colleagues: off }) => off.forEach(entry => {
+            colleagues.set(entry.applicantId, { entry, days: (colleagues.get(entry.applicantId)?.days || 0) + 1 });
+        }));
+        return {
+            maxOnLeave,
+            clashDays: overlaps.filter(({ colleagues: off }) => off.length + 1 > maxOnLeave).map(({ date }) => date),
+            colleagues: Array.from(colleagues.values()),
+        };
+    }, [leaveEntry, leaveCalendar, maxOnLeaveFor]);
     const isAdmin = currentUser?.role === UserRole.ADMIN;
-    
-    const auditor = users.find(u => u.email === AUDITOR_EMAIL);
-    const AUDITOR_ID = auditor ? auditor.id : null;
+    const canCancel = isAdmin
+        ? canTransition(request, ApprovalStatus.CANCELLED, 'admin')
+        : request.requesterId === currentUser?.id && canTransition(request, ApprovalStatus.CANCELLED, 'requester');
 
+    // The approver whose step the current user would sign: themselves, or a colleague they are covering for.
+    const actingFor = useMemo(() => {
+        if (!currentUser || allowedTransitions(request, 'approver').length === 0) return null;
+        return approverToActFor(request, delegations, currentUser.id);
+    }, [currentUser, request, delegations]);
+    const isCurrentUserApprover = actingFor !== null;
+    // The entry being signed: its step role decides which extra inputs are shown, and advisory reviewers only give their review.
+    const actingEntry = useMemo(() => (actingFor ? currentStepEntryOf(request, actingFor) : undefined), [request, actingFor]);
+    const approverActions = isCurrentUserApprover ? reviewerActions(actingEntry, allowedTransitions(request, 'approver')) : [];
+    const isActingOnBehalf = isCurrentUserApprover && actingFor !== currentUser?.id;
+    const isAdvisoryReview = actingEntry?.consultation?.mode === 'advisory';
+    const isHOD = actingEntry?.stepRole === WorkflowRole.HOD;
+    const isAuditor = actingEntry?.stepRole === WorkflowRole.INTERNAL_AUDIT;
+    const canApprove = approverActions.includes(ApprovalStatus.APPROVED);
 
-    const isCurrentUserApprover = useMemo(() => {
-        if (!currentUser || request.status !== ApprovalStatus.PENDING) return false;
-        if (request.type === RequestType.ITEM) return false;
-        if (!request.approvalQueue || request.approvalQueue.length <= request.currentApproverIndex) return false;
-        const currentApprover = request.approvalQueue[request.currentApproverIndex];
-        return currentApprover?.userId === currentUser.id;
-    }, [currentUser, request]);
+    // Values the approver may change as they approve, and the details (with totals recomputed) their changes lead to.
+    const adjustable = useMemo(() => (canApprove ? adjustableValues(request) : []), [canApprove, request]);
+    const proposedAdjustments = useMemo((): DetailAdjustment[] => (isAdjusting ? adjustable : []).flatMap(value => {
+        const input = adjustedInputs[adjustmentKey(value)];
+        if (input === undefined || !input.trim()) return [];
+        const to = parseFloat(input);
+        return to === value.value ? [] : [{ field: value.field, itemId: value.itemId, from: value.value, to }];
+    }), [isAdjusting, adjustable, adjustedInputs]);
+    const adjustedDetails = useMemo(() => (proposedAdjustments.length > 0 ? applyAdjustments(request, proposedAdjustments) : null), [request, proposedAdjustments]);
+    // Values approvers changed since submission, by detail label, so they can be highlighted.
+    const adjustedOnApproval = useMemo(() => new Map(describeAdjustedDetails(request, request.approvalQueue).map(change => [change.label, change])), [request]);
 
-    const isHOD = useMemo(() => {
-        return request.type === RequestType.LEAVE && isCurrentUserApprover && currentUser?.id === request.details?.selectedHODId;
-    }, [request, currentUser, isCurrentUserApprover]);
-    
-    const isAuditor = useMemo(() => {
-        return isCurrentUserApprover && currentUser?.id === AUDITOR_ID;
-    }, [isCurrentUserApprover, currentUser, AUDITOR_ID]);
+    const { events, loading: eventsLoading } = useRequestEvents(request.id);
+    // Once per request opened; a ref rather than state so that StrictMode's second effect run doesn't log it twice.
+    const loggedViewFor = useRef<string | null>(null);
+    useEffect(() => {
+        if (loggedViewFor.current === request.id) return;
+        loggedViewFor.current = request.id;
+        logRequestEvent(request.id, 'viewed');
+    }, [request.id, logRequestEvent]);
+
+    // For the comment count on the attachment; a failure only leaves the count out.
+    useEffect(() => {
+        if (request.fileURL) loadCommentSummary(request.id);
+    }, [request.id, request.fileURL, loadCommentSummary]);
+
+    // Each resubmission compared with the submission it replaced; the latest one is shown first.
+    const { revisions } = useRequestRevisions(request.id, request.status);
+    const shownRevision = selectedRevision ?? revisions.length + 1;
+    const revisionComparison = useMemo(() => {
+        const before = revisions[shownRevision - 2];
+        if (!before) return null;
+        const after = revisions[shownRevision - 1] ?? request;
+        return { before, sentBack: sentBackEntry(before), changes: diffSubmissions(request.type, before, after, id => getVendorById(id)?.name) };
+    }, [revisions, shownRevision, request, getVendorById]);
+
+    const fulfilmentStages = useMemo(() => fulfilmentStagesFor(request.type, getTemplateForType(request.type)), [request.type, getTemplateForType]);
+    const nextStage = nextFulfilmentStage(request, fulfilmentStages);
+    const showFulfilment = fulfilmentStages.length > 0 && (nextStage !== null || (request.fulfilment?.length ?? 0) > 0);
+
+    const stepDueAt = currentStepDueAt(request);
+    const isOverdue = isRequestOverdue(request);
+
+    // Routing rules are re-run against the final amount the auditor enters, or the new amount an adjustment leads to;
+    // the steps after the current one follow the result.
+    const currentStepEnd = currentApprovalStep(request)?.endIndex ?? request.currentApproverIndex + 1;
+    const auditAmount = isAuditor && finalAmount && !isNaN(parseFloat(finalAmount)) ? parseFloat(finalAmount) : null;
+    const rerouting = useMemo(() => {
+        let amount = auditAmount;
+        if (amount === null && adjustedDetails) {
+            const adjustedAmount = routingAmount(adjustedDetails, request.approvalQueue);
+            if (adjustedAmount !== routingAmount(request, request.approvalQueue)) amount = adjustedAmount;
+        }
+        if (amount === null) return null;
+        const queued = request.approvalQueue.map(a => ({
+            user: getUserById(a.userId) || { id: a.userId, email: a.userEmail || a.userId, role: UserRole.APPROVER },
+            group: a.group,
+            slaHours: a.slaHours,
+            stepRole: a.stepRole,
+            consultation: a.consultation,
+        }));
+        return applyRoutingRules(queued, routingRules, adjustedDetails ?? request, amount, approvers, currentStepEnd);
+    }, [auditAmount, adjustedDetails, request, getUserById, routingRules, approvers, currentStepEnd]);
 
 
     const handleAction = async (status: ApprovalStatus) => {
@@ -76,13 +205,26 @@ const RequestDetailsModal = ({ request, onClose, onEdit, onCreateProcurement }:
             return;
         }
 
-        const parsedFinalAmount = parseFloat(finalAmount);
-        const auditDetails = isAuditor ? {
-            internalAuditComments,
-            finalAmount: !finalAmount || isNaN(parsedFinalAmount) ? undefined : parsedFinalAmount
-        } : undefined;
+        if (status === ApprovalStatus.APPROVED && rerouting && rerouting.unresolved.length > 0) {
+            setActionError(`No approver can take the step required by: ${rerouting.unresolved.map(rule => rule.name).join(', ')}.`);
+            setIsSubmitting(false);
+            return;
+        }
+
+        const adjustmentProblems = status === ApprovalStatus.APPROVED ? validateAdjustments(request, proposedAdjustments) : [];
+        if (adjustmentProblems.length > 0) {
+            setActionError(adjustmentProblems.join(' '));
+            setIsSubmitting(false);
+            return;
+        }
 
-        const result = await updateRequestStatus(request.id, currentUser.id, status, comments, signature, isHOD ? hodComments : undefined, auditDetails);
+        const remainingQueue = rerouting ? applyStepSlas(toPendingApprovers(rerouting.queue.slice(currentStepEnd)), getTemplateForType(request.type)) : undefined;
+        const auditDetails = isAuditor
+            ? { internalAuditComments, finalAmount: auditAmount ?? undefined, remainingQueue }
+            : remainingQueue ? { remainingQueue } : undefined;
+        const adjustments = status === ApprovalStatus.APPROVED && proposedAdjustments.length > 0 ? proposedAdjustments : undefined;
+
+        const result = await updateRequestStatus(request.id, currentUser.id, status, comments, signature, isHOD ? hodComments : undefined, auditDetails, adjustments);
         
         if (result.success) {
             onClose();
@@ -92,6 +234,101 @@ const RequestDetailsModal = ({ request, onClose, onEdit, onCreateProcurement }:
         }
     };
     
+    const handleCancel = async () => {
+        if (!cancellationReason.trim()) {
+            setCancelError("Please give a reason for cancelling this request.");
+            return;
+        }
+        setCancelError(null);
+        setIsSubmitting(true);
+
+        const result = await cancelRequest(request.id, cancellationReason.trim());
+
+        if (result.success) {
+            onClose();
+        } else {
+            setCancelError(result.error);
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleConsult = async () => {
+        if (!reviewerId) {
+            setConsultError("Please choose a reviewer.");
+            return;
+        }
+        if (consultPosition === 'before' && !consultQuestion.trim()) {
+            setConsultError("Please say what you would like the reviewer to look at.");
+            return;
+        }
+        setConsultError(null);
+        setIsSubmitting(true);
+
+        const result = await consultReviewer(request.id, reviewerId, consultMode, consultPosition, consultQuestion);
+
+        if (result.success) {
+            setIsConsulting(false);
+            setReviewerId('');
+            setConsultQuestion('');
+        } else {
+            setConsultError(result.error);
+        }
+        setIsSubmitting(false);
+    };
+
+    const handleRecordFulfilment = async () => {
+        if (!nextStage) return;
+        setFulfilmentError(null);
+        setIsSubmitting(true);
+
+        const result = await recordFulfilmentStage(request.id, nextStage, fulfilmentNote.trim() || undefined);
+
+        if (result.success) {
+            setFulfilmentNote('');
+        } else {
+            setFulfilmentError(result.error);
+        }
+        setIsSubmitting(false);
+    };
+
+    const renderApprover = (approver: Approver, index: number) => {
+        const user = getUserById(approver.userId);
+        return (
+            <li key={index} className="flex items-start">
+                <div className="pt-1"><StatusIcon status={approver.status} /></div>
+                <div className="ml-3">
+                    <p className="text-sm font-medium text-gray-800 flex items-center">{describeSignatory(approver, user?.email)} {approver.stepRole && <span className="ml-2 text-xs font-bold text-zankli-orange-700 bg-zankli-orange-100 px-2 py-0.5 rounded-full">{WORKFLOW_ROLE_LABELS[approver.stepRole]}</span>}{approver.consultation && <span className="ml-2 text-xs font-bold text-blue-700 bg-blue-100 px-2 py-0.5 rounded-full">{CONSULTATION_MODE_LABELS[approver.consultation.mode]}</span>}</p>
+                    <p className="text-xs text-gray-500">{approver.status}</p>
+                    {approver.consultation && (
+                        <p className="text-xs text-blue-800 mt-1">
+                            Added by {approver.consultation.requestedByEmail || getUserById(approver.consultation.requestedById)?.email || 'an approver'} on {new Date(approver.consultation.requestedAt).toLocaleString()}
+                            {approver.consultation.question && <span className="italic">: "{approver.consultation.question}"</span>}
+                        </p>
+                    )}
+                    {approver.comments && <p className="text-xs text-gray-600 mt-1 italic">"{approver.comments}"</p>}
+                    {approver.hodComments && <p className="text-xs font-semibold text-zankli-orange-800 mt-1">HOD Comments: <span className="font-normal italic">"{approver.hodComments}"</span></p>}
+                    {approver.internalAuditComments && <p className="text-xs font-semibold text-purple-800 mt-1">Audit Comments: <span className="font-normal italic">"{approver.internalAuditComments}"</span></p>}
+                    {approver.finalAmount !== undefined && approver.finalAmount !== null && <p className="text-xs font-semibold text-purple-800 mt-1">Final Amount: <span className="font-normal">{approver.finalAmount.toLocaleString('en-NG', { style: 'currency', currency: 'NGN' })}</span></p>}
+                    {approver.adjustments?.map(adjustment => {
+                        const { label, from, to } = describeAdjustment(request, adjustment);
+                        return <p key={adjustmentKey(adjustment)} className="text-xs font-semibold text-yellow-800 mt-1">Adjusted {label}: <span className="font-normal">{from} → {to}</span></p>;
+                    })}
+                    {approver.approvedAt && <p className="text-xs text-gray-400 mt-1">{new Date(approver.approvedAt).toLocaleString()}</p>}
+                    {approver.escalatedAt && (
+                        <p className="text-xs font-semibold text-red-700 mt-1">
+                            Escalated {new Date(approver.escalatedAt).toLocaleString()} to {approver.escalatedToId ? getUserById(approver.escalatedToId)?.email || approver.escalatedToId : 'administrators'}
+                        </p>
+                    )}
+                    {approver.signature && (
+                        <div className="mt-2 p-1 border rounded-md bg-gray-50 inline-block">
+                            <img src={approver.signature} alt="Approver's Signature" className="h-12" />
+                        </div>
+                    )}
+                </div>
+            </li>
+        );
+    };
+
     // This function is now a callback, called by RequestPDFLayout when it's fully rendered.
     const generatePdfFromLayout = useCallback(async () => {
         const elementToCapture = pdfLayoutRef.current;
@@ -157,8 +394,10 @@ const RequestDetailsModal = ({ request, onClose, onEdit, onCreateProcurement }:
     }, [request.id]);
     
     // This function now just sets a state to begin the PDF generation process.
-    const handleDownloadPdf = () => {
+    const handleDownloadPdf = async () => {
         if (!isGeneratingPdf) {
+            // Logged first, so the download shows in the PDF's own audit trail.
+            await logRequestEvent(request.id, 'downloaded');
             setIsGeneratingPdf(true); // This will trigger the rendering of RequestPDFLayout
         }
     };
@@ -201,6 +440,15 @@ const RequestDetailsModal = ({ request, onClose, onEdit, onCreateProcurement }:
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
                         {/* Left Column: Request Details */}
                         <div className="space-y-4">
+                            {request.cancellation && (
+                                <div className="bg-gray-100 border border-gray-300 text-gray-800 p-3 rounded-md flex items-start">
+                                    <Ban className="h-5 w-5 mr-3 flex-shrink-0 mt-0.5 text-gray-500" />
+                                    <div className="text-sm">
+                                        <p className="font-semibold">Cancelled by {request.cancellation.byEmail || getUserById(request.cancellation.byId)?.email || request.cancellation.byId} on {new Date(request.cancellation.at).toLocaleString()}</p>
+                                        <p className="italic">"{request.cancellation.reason}"</p>
+                                    </div>
+                                </div>
+                            )}
                              <div>
                                 <h3 className="font-semibold text-gray-700">Subject</h3>
                                 <p className="text-gray-600">{request.details?.subject || 'No Subject'}</p>
@@ -231,55 +479,178 @@ const RequestDetailsModal = ({ request, onClose, onEdit, onCreateProcurement }:
 
                             <div className="space-y-2 pt-2 border-t">
                                 <h3 className="font-semibold text-gray-700">Details</h3>
-                                {Object.entries(request.details || {}).filter(([key]) => !['subject', 'selectedHODId', 'items', 'grandTotal'].includes(key)).map(([key, value]) => {
-                                    const isCurrency = ['unitCost', 'totalCost', 'costPerLiter', 'finalAmount'].includes(key) && typeof value === 'number';
-                                    const displayValue = isCurrency
-                                        ? Number(value).toLocaleString('en-NG', { style: 'currency', currency: 'NGN' })
-                                        : String(value);
-
-                                    return (
-                                        <div key={key} className="flex text-sm">
-                                            <span className="font-medium text-gray-500 capitalize w-36">{key.replace(/([A-Z])/g, ' $1')}:</span>
-                                            <span className="text-gray-800">{displayValue}</span>
-                                        </div>
-                                    );
-                                })}
+                                {adjustedOnApproval.size > 0 && <p className="text-xs text-yellow-800">Highlighted values were adjusted during approval; the submitted value is struck through.</p>}
+                                {describeRequestDetails(request).map(({ label, value }) => (
+                                    <div key={label} className="flex text-sm">
+                                        <span className="font-medium text-gray-500 w-36">{label}:</span>
+                                        {adjustedOnApproval.has(label) ? (
+                                            <span className="text-gray-800 bg-yellow-50 px-1 rounded" title="Adjusted during approval">
+                                                {value} <span className="text-xs text-yellow-800 line-through ml-1">{adjustedOnApproval.get(label)!.from}</span>
+                                            </span>
+                                        ) : (
+                                            <span className="text-gray-800">{value}</span>
+                                        )}
+                                    </div>
+                                ))}
                             </div>
                             
-                             {request.type === RequestType.STORE && request.details?.items && (
-                                <div className="pt-4 mt-4 border-t">
-                                    <h3 className="font-semibold text-gray-700 mb-2">Requested Items</h3>
+                             {describeLineItems(request).map(table => {
+                                const showUnit = table.items.some(item => item.unit);
+                                const showVendor = table.items.some(item => item.vendorId);
+                                return (
+                                <div key={table.label} className="pt-4 mt-4 border-t">
+                                    <h3 className="font-semibold text-gray-700 mb-2">{table.label}</h3>
                                     <div className="border rounded-lg overflow-hidden">
                                         <table className="w-full text-sm">
                                             <thead className="bg-gray-50">
                                                 <tr>
                                                     <th className="px-3 py-2 text-left font-medium text-gray-600">Item</th>
+                                                    {showUnit && <th className="px-3 py-2 text-left font-medium text-gray-600">Unit</th>}
                                                     <th className="px-3 py-2 text-center font-medium text-gray-600">Qty</th>
                                                     <th className="px-3 py-2 text-right font-medium text-gray-600">Unit Cost</th>
                                                     <th className="px-3 py-2 text-right font-medium text-gray-600">Total Cost</th>
+                                                    {showVendor && <th className="px-3 py-2 text-left font-medium text-gray-600">Vendor</th>}
                                                 </tr>
                                             </thead>
                                             <tbody>
-                                                {(request.details?.items as StoreRequisitionItem[] || []).map(item => (
-                                                    <tr key={item.itemId} className="border-b last:border-0">
-                                                        <td className="px-3 py-2">{item.itemName}</td>
-                                                        <td className="px-3 py-2 text-center">{item.quantity}</td>
+                                                {table.items.map(item => (
+                                                    <tr key={item.id} className="border-b last:border-0">
+                                                        <td className="px-3 py-2">
+                                                            {item.name}
+                                                            {item.storeItemId && (
+                                                                <span className="block text-xs text-gray-500">Restocks {getStoreItemById(item.storeItemId)?.name || 'a store item'}</span>
+                                                            )}
+                                                        </td>
+                                                        {showUnit && <td className="px-3 py-2">{item.unit}</td>}
+                                                        <td className={`px-3 py-2 text-center ${adjustedOnApproval.has(lineQuantityLabel(item)) ? 'bg-yellow-50' : ''}`}>
+                                                            {item.quantity}
+                                                            {adjustedOnApproval.has(lineQuantityLabel(item)) && <span className="text-xs text-yellow-800 line-through ml-1">{adjustedOnApproval.get(lineQuantityLabel(item))!.from}</span>}
+                                                        </td>
                                                         <td className="px-3 py-2 text-right">{(item.unitCost || 0).toLocaleString()}</td>
                                                         <td className="px-3 py-2 text-right font-medium">{(item.totalCost || 0).toLocaleString()}</td>
+                                                        {showVendor && <td className="px-3 py-2">{item.vendorId ? getVendorById(item.vendorId)?.name || item.vendorId : vendor?.name || ''}</td>}
                                                     </tr>
                                                 ))}
                                             </tbody>
                                             <tfoot>
                                                 <tr className="font-bold bg-gray-50">
-                                                    <td colSpan={3} className="px-3 py-2 text-right">Grand Total</td>
+                                                    <td colSpan={showUnit ? 4 : 3} className="px-3 py-2 text-right">Grand Total</td>
                                                     <td className="px-3 py-2 text-right text-base">
-                                                        {(request.details?.grandTotal || 0).toLocaleString('en-NG', { style: 'currency', currency: 'NGN' })}
+                                                        {formatCurrency(table.total)}
+                                                        {adjustedOnApproval.has(lineTotalLabel(table.label)) && <span className="block text-xs font-normal text-yellow-800 line-through">{adjustedOnApproval.get(lineTotalLabel(table.label))!.from}</span>}
                                                     </td>
+                                                    {showVendor && <td></td>}
                                                 </tr>
                                             </tfoot>
                                         </table>
                                     </div>
                                 </div>
+                                );
+                            })}
+
+                            {request.type === RequestType.PROCUREMENT && (request.details.quotations.length > 0 || needsMoreQuotations(request.details)) && (
+                                <div className="pt-4 mt-4 border-t space-y-2">
+                                    <h3 className="font-semibold text-gray-700">Quotation Comparison</h3>
+                                    {needsMoreQuotations(request.details) && (
+                                        <div className="bg-yellow-50 border-l-4 border-yellow-400 text-yellow-800 p-3 text-sm flex items-start">
+                                            <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+                                            <p>Only {request.details.quotations.length} of the {QUOTATION_POLICY.minimumQuotations} quotations required for purchases of {formatCurrency(QUOTATION_POLICY.fromAmount)} or more were attached.</p>
+                                        </div>
+                                    )}
+                                    {request.details.quotations.length > 0 && (
+                                        <div className="border rounded-lg overflow-x-auto">
+                                            <table className="w-full text-sm">
+                                                <thead className="bg-gray-50">
+                                                    <tr>
+                                                        <th className="px-3 py-2"></th>
+                                                        {quotationComparison.map(({ quotation, isCheapest, isRecommended }) => (
+                                                            <th key={quotation.id} className={`px-3 py-2 text-left font-medium ${isRecommended ? 'bg-zankli-orange-50 text-zankli-orange-800' : 'text-gray-600'}`}>
+                                                                {getVendorById(quotation.vendorId)?.name || quotation.vendorId}
+                                                                <span className="flex flex-wrap gap-1 mt-1">
+                                                                    {isRecommended && <span className="text-xs px-2 py-0.5 rounded-full bg-zankli-orange-100 text-zankli-orange-800">Recommended</span>}
+                                                                    {isCheapest && <span className="text-xs px-2 py-0.5 rounded-full bg-green-100 text-green-800">Cheapest</span>}
+                                                                </span>
+                                                            </th>
+                                                        ))}
+                                                    </tr>
+                                                </thead>
+                                                <tbody>
+                                                    <tr className="border-b">
+                                                        <td className="px-3 py-2 font-medium text-gray-600">Amount</td>
+                                                        {quotationComparison.map(({ quotation, isRecommended }) => <td key={quotation.id} className={`px-3 py-2 font-medium ${isRecommended ? 'bg-zankli-orange-50' : ''}`}>{formatCurrency(quotation.amount)}</td>)}
+                                                    </tr>
+                                                    <tr className="border-b">
+                                                        <td className="px-3 py-2 font-medium text-gray-600">Above Cheapest</td>
+                                                        {quotationComparison.map(({ quotation, aboveCheapest, isRecommended }) => <td key={quotation.id} className={`px-3 py-2 ${isRecommended ? 'bg-zankli-orange-50' : ''}`}>{aboveCheapest > 0 ? `+${formatCurrency(aboveCheapest)}` : '-'}</td>)}
+                                                    </tr>
+                                                    <tr className="border-b">
+                                                        <td className="px-3 py-2 font-medium text-gray-600">Valid Until</td>
+                                                        {quotationComparison.map(({ quotation, isExpired, isRecommended }) => (
+                                                            <td key={quotation.id} className={`px-3 py-2 ${isRecommended ? 'bg-zankli-orange-50' : ''}`}>
+                                                                {quotation.validUntil}
+                                                                {isExpired && <span className="ml-1 text-xs px-2 py-0.5 rounded-full bg-red-100 text-red-800">Expired</span>}
+                                                            </td>
+                                                        ))}
+                                                    </tr>
+                                                    <tr>
+                                                        <td className="px-3 py-2 font-medium text-gray-600">Quote</td>
+                                                        {quotationComparison.map(({ quotation, isRecommended }) => (
+                                                            <td key={quotation.id} className={`px-3 py-2 ${isRecommended ? 'bg-zankli-orange-50' : ''}`}>
+                                                                {quotation.fileURL
+                                                                    ? <a href={quotation.fileURL} target="_blank" rel="noopener noreferrer" className="text-zankli-orange-600 hover:underline">{quotation.fileName || 'View quote'}</a>
+                                                                    : <span className="text-gray-400">Not attached</span>}
+                                                            </td>
+                                                        ))}
+                                                    </tr>
+                                                </tbody>
+                                            </table>
+                                        </div>
+                                    )}
+                                    {request.details.selectionJustification && !quotationComparison.find(c => c.isRecommended)?.isCheapest && (
+                                        <p className="text-sm text-gray-700"><span className="font-medium">Why not the cheapest:</span> {request.details.selectionJustification}</p>
+                                    )}
+                                </div>
+                            )}
+
+                            {leaveEntry && leaveOverlap && leaveOverlap.colleagues.length > 0 && (
+                                <div className="pt-4 mt-4 border-t space-y-2">
+                                    <h3 className="font-semibold text-gray-700">Also Away from {leaveEntry.department}</h3>
+                                    {leaveOverlap.clashDays.length > 0 && (
+                                        <div className="bg-yellow-50 border-l-4 border-yellow-400 text-yellow-800 p-3 text-sm flex items-start">
+                                            <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+                                            <p>
+                                                On {leaveOverlap.clashDays.length} working day(s) more than {leaveOverlap.maxOnLeave} member(s) of {leaveEntry.department} would be on leave
+                                                ({leaveOverlap.clashDays.map(date => new Date(`${date}T00:00:00`).toLocaleDateString()).join(', ')}).
+                                            </p>
+                                        </div>
+                                    )}
+                                    <div className="border rounded-lg overflow-x-auto">
+                                        <table className="w-full text-sm">
+                                            <thead className="bg-gray-50">
+                                                <tr>
+                                                    <th className="px-3 py-2 text-left font-medium text-gray-600">Staff Member</th>
+                                                    <th className="px-3 py-2 text-left font-medium text-gray-600">Leave</th>
+                                                    <th className="px-3 py-2 text-left font-medium text-gray-600">Dates</th>
+                                                    <th className="px-3 py-2 text-center font-medium text-gray-600">Days in Common</th>
+                                                    <th className="px-3 py-2 text-left font-medium text-gray-600">Status</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody>
+                                                {leaveOverlap.colleagues.map(({ entry, days }) => (
+                                                    <tr key={entry.requestId} className="border-b last:border-0">
+                                                        <td className="px-3 py-2">{entry.applicantName}</td>
+                                                        <td className="px-3 py-2">{LEAVE_CATEGORY_LABELS[entry.category]}</td>
+                                                        <td className="px-3 py-2 whitespace-nowrap">{new Date(`${entry.startDate}T00:00:00`).toLocaleDateString()} – {new Date(`${entry.endDate}T00:00:00`).toLocaleDateString()}</td>
+                                                        <td className="px-3 py-2 text-center">{days}</td>
+                                                        <td className="px-3 py-2">
+                                                            <span className={`text-xs px-2 py-0.5 rounded-full ${entry.status === ApprovalStatus.APPROVED ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'}`}>{entry.status}</span>
+                                                        </td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    </div>
+                                </div>
                             )}
 
                             {request.fileURL && (
@@ -292,45 +663,139 @@ const RequestDetailsModal = ({ request, onClose, onEdit, onCreateProcurement }:
                                         </div>
                                         <button onClick={() => setIsViewingPdf(true)} className="flex items-center text-sm text-zankli-orange-600 hover:text-zankli-orange-800">
                                             <MessageSquare className="h-4 w-4 mr-1"/> View Document & Comments
+                                            {commentSummaries[request.id] && <span className="ml-1.5 px-1.5 py-0.5 text-xs font-semibold rounded-full bg-zankli-orange-100 text-zankli-orange-700">{commentSummaries[request.id].count}</span>}
                                         </button>
                                      </div>
                                 </div>
                             )}
 
+                            {revisionComparison && (
+                                <div className="space-y-2 pt-4 border-t">
+                                    <div className="flex items-center justify-between">
+                                        <h3 className="font-semibold text-gray-700 flex items-center"><History className="h-4 w-4 mr-2 text-gray-400" />Revisions</h3>
+                                        <select
+                                            value={shownRevision}
+                                            onChange={(e) => setSelectedRevision(Number(e.target.value))}
+                                            className="p-1 border border-gray-300 rounded-md text-sm bg-white"
+                                        >
+                                            {revisions.map(revision => (
+                                                <option key={revision.revision + 1} value={revision.revision + 1}>
+                                                    Revision {revision.revision + 1}{revision.revision === revisions.length ? ' (current)' : ''} &middot; {new Date(revision.supersededAt).toLocaleDateString()}
+                                                </option>
+                                            )).reverse()}
+                                        </select>
+                                    </div>
+                                    {revisionComparison.sentBack && (
+                                        <p className="bg-blue-50 border border-blue-200 text-blue-800 text-sm p-3 rounded-md">
+                                            Sent back by <span className="font-semibold">{describeSignatory(revisionComparison.sentBack, getUserById(revisionComparison.sentBack.userId)?.email)}</span>
+                                            {revisionComparison.sentBack.approvedAt && ` on ${new Date(revisionComparison.sentBack.approvedAt).toLocaleString()}`}
+                                            {revisionComparison.sentBack.comments && <span className="block italic mt-1">"{revisionComparison.sentBack.comments}"</span>}
+                                        </p>
+                                    )}
+                                    {revisionComparison.changes.length > 0 ? (
+                                        <div className="border rounded-lg overflow-hidden">
+                                            <table className="w-full text-sm">
+                                                <thead className="bg-gray-50">
+                                                    <tr>
+                                                        <th className="px-3 py-2 text-left font-medium text-gray-600">Field</th>
+                                                        <th className="px-3 py-2 text-left font-medium text-gray-600">Revision {shownRevision - 1}</th>
+                                                        <th className="px-3 py-2 text-left font-medium text-gray-600">Revision {shownRevision}</th>
+                                                    </tr>
+                                                </thead>
+                                                <tbody>
+                                                    {revisionComparison.changes.map(change => (
+                                                        <tr key={change.label} className="border-b last:border-0 align-top">
+                                                            <td className="px-3 py-2 font-medium text-gray-500">{change.label}</td>
+                                                            <td className="px-3 py-2 text-red-700 line-through">{change.before || '—'}</td>
+                                                            <td className="px-3 py-2 text-green-700">{change.after || '—'}</td>
+                                                        </tr>
+                                                    ))}
+                                                </tbody>
+                                            </table>
+                                        </div>
+                                    ) : (
+                                        <p className="text-sm text-gray-500">Resubmitted without changes.</p>
+                                    )}
+                                    {revisionComparison.before.fileURL && revisionComparison.before.fileURL !== (revisions[shownRevision - 1] ?? request).fileURL && (
+                                        <p className="text-xs text-gray-500 flex items-center">
+                                            <Paperclip className="h-3 w-3 mr-1" />
+                                            Previous attachment: <a href={revisionComparison.before.fileURL} target="_blank" rel="noopener noreferrer" className="ml-1 text-zankli-orange-600 hover:underline">{revisionComparison.before.fileName}</a>
+                                        </p>
+                                    )}
+                                </div>
+                            )}
+
                         </div>
 
                         {/* Right Column: Approval Status */}
                         <div>
                             <h3 className="font-semibold text-gray-700 mb-2">Approval Queue</h3>
+                            {stepDueAt && (
+                                <p className={`text-xs font-semibold mb-3 flex items-center ${isOverdue ? 'text-red-700' : 'text-gray-500'}`}>
+                                    <AlarmClock className="h-4 w-4 mr-1" />
+                                    {isOverdue ? 'Overdue since' : 'Current step due'} {stepDueAt.toLocaleString()}
+                                </p>
+                            )}
                             {request.approvalQueue && request.approvalQueue.length > 0 ? (
                             <ul className="space-y-4">
-                                {request.approvalQueue.map((approver, index) => {
-                                    const user = getUserById(approver.userId);
-                                    const isDesignatedHOD = request.type === RequestType.LEAVE && request.details?.selectedHODId === approver.userId;
+                                {groupApprovalSteps(request.approvalQueue).map(step => {
+                                    const requirement = describeStepRequirement(step);
+                                    const entries = step.members.map((approver, offset) => renderApprover(approver, step.startIndex + offset));
+                                    if (!requirement) return <React.Fragment key={`step-${step.startIndex}`}>{entries}</React.Fragment>;
                                     return (
-                                        <li key={index} className="flex items-start">
-                                            <div className="pt-1"><StatusIcon status={approver.status} /></div>
-                                            <div className="ml-3">
-                                                <p className="text-sm font-medium text-gray-800 flex items-center">{user?.email} {isDesignatedHOD && <span className="ml-2 text-xs font-bold text-zankli-orange-700 bg-zankli-orange-100 px-2 py-0.5 rounded-full">HOD</span>}</p>
-                                                <p className="text-xs text-gray-500">{approver.status}</p>
-                                                {approver.comments && <p className="text-xs text-gray-600 mt-1 italic">"{approver.comments}"</p>}
-                                                {approver.hodComments && <p className="text-xs font-semibold text-zankli-orange-800 mt-1">HOD Comments: <span className="font-normal italic">"{approver.hodComments}"</span></p>}
-                                                {approver.internalAuditComments && <p className="text-xs font-semibold text-purple-800 mt-1">Audit Comments: <span className="font-normal italic">"{approver.internalAuditComments}"</span></p>}
-                                                {approver.finalAmount !== undefined && approver.finalAmount !== null && <p className="text-xs font-semibold text-purple-800 mt-1">Final Amount: <span className="font-normal">{approver.finalAmount.toLocaleString('en-NG', { style: 'currency', currency: 'NGN' })}</span></p>}
-                                                {approver.approvedAt && <p className="text-xs text-gray-400 mt-1">{new Date(approver.approvedAt).toLocaleString()}</p>}
-                                                {approver.signature && (
-                                                    <div className="mt-2 p-1 border rounded-md bg-gray-50 inline-block">
-                                                        <img src={approver.signature} alt="Approver's Signature" className="h-12" />
-                                                    </div>
-                                                )}
-                                            </div>
+                                        <li key={`step-${step.startIndex}`} className="border border-dashed border-gray-300 rounded-md p-3">
+                                            <p className="text-xs font-semibold text-gray-500 uppercase mb-3">Parallel step &middot; {requirement}</p>
+                                            <ul className="space-y-4">{entries}</ul>
                                         </li>
                                     );
                                 })}
                             </ul>
                             ) : <p className="text-sm text-gray-500">No approval queue for this request type.</p> }
+
+                            {showFulfilment && (
+                                <div className="mt-6 pt-4 border-t">
+                                    <h3 className="font-semibold text-gray-700 mb-2">Fulfilment</h3>
+                                    <ul className="space-y-3">
+                                        {fulfilmentStages.map(stage => {
+                                            const record = request.fulfilment?.find(r => r.stage === stage);
+                                            return (
+                                                <li key={stage} className="flex items-start">
+                                                    <div className="pt-0.5">{record ? <PackageCheck className="h-5 w-5 text-indigo-600" /> : <Clock className="h-5 w-5 text-gray-300" />}</div>
+                                                    <div className="ml-3">
+                                                        <p className={`text-sm font-medium ${record ? 'text-gray-800' : 'text-gray-400'}`}>{stage}</p>
+                                                        {record && <p className="text-xs text-gray-500">{record.byEmail || getUserById(record.byId)?.email || record.byId} &middot; {new Date(record.at).toLocaleString()}</p>}
+                                                        {record?.note && <p className="text-xs text-gray-600 mt-1 italic">"{record.note}"</p>}
+                                                    </div>
+                                                </li>
+                                            );
+                                        })}
+                                    </ul>
+                                </div>
+                            )}
                         </div>
                     </div>
+
+                    <div className="mt-6 pt-4 border-t">
+                        <h3 className="font-semibold text-gray-700 mb-3 flex items-center"><Activity className="h-4 w-4 mr-2 text-gray-400" />Activity</h3>
+                        {eventsLoading ? (
+                            <p className="text-sm text-gray-500 flex items-center"><Loader2 className="h-4 w-4 mr-2 animate-spin" />Loading activity...</p>
+                        ) : events.length > 0 ? (
+                            <ol className="relative border-l border-gray-200 ml-2 space-y-3">
+                                {events.map(event => (
+                                    <li key={event.id} className="ml-4">
+                                        <div className="absolute w-2 h-2 bg-gray-300 rounded-full -left-1 mt-1.5"></div>
+                                        <p className="text-sm text-gray-800">
+                                            <span className="font-medium">{event.actorEmail || (event.actorId && getUserById(event.actorId)?.email) || 'Someone'}</span> &middot; {REQUEST_EVENT_LABELS[event.kind]}
+                                            <span className="ml-2 text-xs text-gray-400">{new Date(event.at).toLocaleString()}</span>
+                                        </p>
+                                        {event.detail && <p className="text-xs text-gray-600 italic">"{event.detail}"</p>}
+                                    </li>
+                                ))}
+                            </ol>
+                        ) : (
+                            <p className="text-sm text-gray-500">No activity recorded yet.</p>
+                        )}
+                    </div>
                 </div>
                 
                  <div className="p-4 border-t bg-gray-50 rounded-b-lg flex justify-start">
@@ -345,9 +810,21 @@ const RequestDetailsModal = ({ request, onClose, onEdit, onCreateProcurement }:
                 </div>
 
 
-                {isCurrentUserApprover && request.status === ApprovalStatus.PENDING && (
+                {approverActions.length > 0 && (
                     <div className="p-6 border-t bg-gray-50 rounded-b-lg">
                         <h3 className="font-semibold text-gray-700 mb-2">Take Action</h3>
+                        {isActingOnBehalf && (
+                            <p className="bg-purple-50 border border-purple-200 text-purple-800 text-sm p-3 rounded-md mb-4">
+                                You are covering for <span className="font-semibold">{getUserById(actingFor!)?.email || 'a colleague'}</span>. Your signature will be recorded on their behalf.
+                            </p>
+                        )}
+                        {actingEntry?.consultation && (
+                            <p className="bg-blue-50 border border-blue-200 text-blue-800 text-sm p-3 rounded-md mb-4">
+                                <span className="font-semibold">{actingEntry.consultation.requestedByEmail || getUserById(actingEntry.consultation.requestedById)?.email || 'An approver'}</span> asked for your {CONSULTATION_MODE_LABELS[actingEntry.consultation.mode].toLowerCase()}
+                                {actingEntry.consultation.question ? <>: <span className="italic">"{actingEntry.consultation.question}"</span></> : '.'}
+                                {isAdvisoryReview && <span className="block mt-1 text-xs">Your review is recorded with the request; it does not hold up or reject it.</span>}
+                            </p>
+                        )}
                         {actionError && (
                             <div className="bg-red-50 border border-red-200 text-red-800 p-3 rounded-lg mb-4 flex items-start">
                                 <AlertTriangle className="h-5 w-5 mr-3 flex-shrink-0 mt-0.5" />
@@ -380,10 +857,49 @@ const RequestDetailsModal = ({ request, onClose, onEdit, onCreateProcurement }:
                                             placeholder="Enter final approved amount"
                                             className="w-full p-2 border rounded-md text-sm border-purple-300 focus:ring-purple-500 focus:border-purple-500"
                                         />
+                                        {rerouting && auditAmount !== null && <RoutingSummary routing={rerouting} />}
                                     </div>
                                 </div>
                             </div>
                         )}
+                        {adjustable.length > 0 && (
+                            <div className="bg-yellow-50 border border-yellow-200 p-3 rounded-md mb-4">
+                                <div className="flex justify-between items-center">
+                                    <h4 className="font-bold text-yellow-800">Approve with Adjustments</h4>
+                                    <button
+                                        onClick={() => { setIsAdjusting(!isAdjusting); setAdjustedInputs({}); }}
+                                        className="text-sm font-medium text-yellow-800 hover:text-yellow-900 underline"
+                                    >
+                                        {isAdjusting ? 'Discard adjustments' : 'Adjust values'}
+                                    </button>
+                                </div>
+                                {isAdjusting && (
+                                    <>
+                                        <p className="text-xs text-yellow-800 mt-1">Change what you are approving instead of sending the request back. Totals are recomputed and the submitted values stay on record.</p>
+                                        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mt-3">
+                                            {adjustable.map(value => (
+                                                <div key={adjustmentKey(value)}>
+                                                    <label className="block text-sm font-medium text-gray-700 mb-1">{value.label}</label>
+                                                    <input
+                                                        type="number"
+                                                        min="0"
+                                                        value={adjustedInputs[adjustmentKey(value)] ?? String(value.value)}
+                                                        onChange={(e) => setAdjustedInputs(prev => ({ ...prev, [adjustmentKey(value)]: e.target.value }))}
+                                                        className="w-full p-2 border rounded-md text-sm border-yellow-300 focus:ring-yellow-500 focus:border-yellow-500"
+                                                    />
+                                                </div>
+                                            ))}
+                                        </div>
+                                        {adjustedDetails && (
+                                            <p className="text-sm text-yellow-900 mt-3">
+                                                {changedDetails(request, adjustedDetails).map(({ label, from, to }) => `${label}: ${from} → ${to}`).join('; ')}
+                                            </p>
+                                        )}
+                                        {rerouting && auditAmount === null && <RoutingSummary routing={rerouting} />}
+                                    </>
+                                )}
+                            </div>
+                        )}
                         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                            <div>
                                 {isHOD && (
@@ -413,32 +929,173 @@ const RequestDetailsModal = ({ request, onClose, onEdit, onCreateProcurement }:
                         </div>
 
                         <div className="mt-3 flex justify-end space-x-3">
-                             <button
-                                onClick={() => handleAction(ApprovalStatus.SENT_BACK)}
-                                disabled={isSubmitting}
-                                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-blue-300 flex items-center justify-center min-w-[110px]"
-                            >
-                                {isSubmitting ? <Loader2 className="animate-spin h-5 w-5" /> : 'Send Back'}
-                            </button>
-                            <button
-                                onClick={() => handleAction(ApprovalStatus.REJECTED)}
-                                disabled={isSubmitting}
-                                className="px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 disabled:bg-red-300 flex items-center justify-center min-w-[110px]"
-                            >
-                                {isSubmitting ? <Loader2 className="animate-spin h-5 w-5" /> : 'Reject'}
-                            </button>
+                            {APPROVER_ACTIONS.filter(action => approverActions.includes(action.status)).map(action => (
+                                <button
+                                    key={action.status}
+                                    onClick={() => handleAction(action.status)}
+                                    disabled={isSubmitting}
+                                    className={`px-4 py-2 text-sm font-medium text-white rounded-md flex items-center justify-center min-w-[110px] ${action.className}`}
+                                >
+                                    {isSubmitting ? <Loader2 className="animate-spin h-5 w-5" /> : isAdvisoryReview && action.status === ApprovalStatus.APPROVED ? 'Submit Review' : action.label}
+                                </button>
+                            ))}
+                        </div>
+
+                        <div className="mt-4 pt-4 border-t">
+                            <div className="flex justify-between items-center">
+                                <p className="text-sm text-gray-600">Need a colleague such as a pharmacist or engineer to look at this first?</p>
+                                <button
+                                    onClick={() => { setIsConsulting(!isConsulting); setConsultError(null); }}
+                                    className="text-sm font-medium text-blue-700 hover:text-blue-900 flex items-center"
+                                >
+                                    <UserPlus className="h-4 w-4 mr-1" />
+                                    {isConsulting ? 'Cancel' : 'Add a Reviewer'}
+                                </button>
+                            </div>
+                            {isConsulting && (
+                                <div className="mt-3 space-y-3">
+                                    {consultError && (
+                                        <div className="bg-red-50 border border-red-200 text-red-800 p-3 rounded-lg flex items-start">
+                                            <AlertTriangle className="h-5 w-5 mr-3 flex-shrink-0 mt-0.5" />
+                                            <p className="text-sm">{consultError}</p>
+                                        </div>
+                                    )}
+                                    <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                                        <div>
+                                            <label className="block text-sm font-medium text-gray-700 mb-1">Reviewer</label>
+                                            <select value={reviewerId} onChange={(e) => setReviewerId(e.target.value)} className="w-full p-2 border rounded-md text-sm bg-white">
+                                                <option value="">Choose a reviewer...</option>
+                                                {approvers.filter(user => user.id !== currentUser?.id && user.id !== actingFor).map(user => (
+                                                    <option key={user.id} value={user.id}>{user.email}</option>
+                                                ))}
+                                            </select>
+                                        </div>
+                                        <div>
+                                            <label className="block text-sm font-medium text-gray-700 mb-1">Review</label>
+                                            <select value={consultMode} onChange={(e) => setConsultMode(e.target.value as ConsultationMode)} className="w-full p-2 border rounded-md text-sm bg-white">
+                                                {(Object.keys(CONSULTATION_MODE_LABELS) as ConsultationMode[]).map(mode => <option key={mode} value={mode}>{CONSULTATION_MODE_LABELS[mode]}</option>)}
+                                            </select>
+                                        </div>
+                                        <div>
+                                            <label className="block text-sm font-medium text-gray-700 mb-1">When</label>
+                                            <select value={consultPosition} onChange={(e) => setConsultPosition(e.target.value as ConsultationPosition)} className="w-full p-2 border rounded-md text-sm bg-white">
+                                                {(Object.keys(CONSULTATION_POSITION_LABELS) as ConsultationPosition[]).map(position => <option key={position} value={position}>{CONSULTATION_POSITION_LABELS[position]}</option>)}
+                                            </select>
+                                        </div>
+                                    </div>
+                                    <p className="text-xs text-gray-500">
+                                        {consultMode === 'blocking' ? 'A blocking reviewer signs like any approver and can reject or send the request back.' : 'An advisory reviewer gives their review but cannot reject or send the request back.'}
+                                    </p>
+                                    <textarea
+                                        value={consultQuestion}
+                                        onChange={(e) => setConsultQuestion(e.target.value)}
+                                        placeholder={consultPosition === 'before' ? 'What would you like them to look at?' : 'What would you like them to look at? (optional)'}
+                                        className="w-full p-2 border rounded-md text-sm"
+                                        rows={2}
+                                    />
+                                    <div className="flex justify-end">
+                                        <button
+                                            onClick={handleConsult}
+                                            disabled={isSubmitting}
+                                            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-blue-300 flex items-center"
+                                        >
+                                            {isSubmitting && <Loader2 className="animate-spin h-4 w-4 mr-2" />}
+                                            Add Reviewer
+                                        </button>
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+                    </div>
+                )}
+                
+                {isAdmin && nextStage && (
+                    <div className="p-6 border-t bg-gray-50 rounded-b-lg">
+                        <h3 className="font-semibold text-gray-700 mb-2">Record Fulfilment</h3>
+                        {fulfilmentError && (
+                            <div className="bg-red-50 border border-red-200 text-red-800 p-3 rounded-lg mb-4 flex items-start">
+                                <AlertTriangle className="h-5 w-5 mr-3 flex-shrink-0 mt-0.5" />
+                                <div>
+                                    <p className="font-bold">Could not record the stage</p>
+                                    <p className="text-sm">{fulfilmentError}</p>
+                                </div>
+                            </div>
+                        )}
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Note</label>
+                        <input
+                            type="text"
+                            value={fulfilmentNote}
+                            onChange={(e) => setFulfilmentNote(e.target.value)}
+                            placeholder="Optional, e.g. PO number or invoice reference"
+                            className="w-full p-2 border rounded-md text-sm"
+                        />
+                        <div className="mt-3 flex justify-end">
                             <button
-                                onClick={() => handleAction(ApprovalStatus.APPROVED)}
+                                onClick={handleRecordFulfilment}
                                 disabled={isSubmitting}
-                                className="px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-md hover:bg-green-700 disabled:bg-green-300 flex items-center justify-center min-w-[110px]"
+                                className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 flex items-center justify-center min-w-[110px]"
                             >
-                                {isSubmitting ? <Loader2 className="animate-spin h-5 w-5" /> : 'Approve'}
+                                {isSubmitting ? <Loader2 className="animate-spin h-5 w-5" /> : <><PackageCheck className="h-4 w-4 mr-2" />Mark {nextStage}</>}
                             </button>
                         </div>
                     </div>
                 )}
-                
-                {isAdmin && request.status === ApprovalStatus.SENT_BACK && onEdit && (
+
+                {canCancel && (
+                    <div className="p-6 border-t bg-gray-50 rounded-b-lg">
+                        {!isCancelling ? (
+                            <div className="flex justify-end">
+                                <button
+                                    onClick={() => setIsCancelling(true)}
+                                    className="px-6 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-100 flex items-center"
+                                >
+                                    <Ban className="h-4 w-4 mr-2" />
+                                    {isAdmin ? 'Cancel Request' : 'Withdraw Request'}
+                                </button>
+                            </div>
+                        ) : (
+                            <div>
+                                <h3 className="font-semibold text-gray-700 mb-2">{isAdmin ? 'Cancel Request' : 'Withdraw Request'}</h3>
+                                <p className="text-sm text-gray-500 mb-2">The request leaves the approvers' queues and cannot be picked up again.</p>
+                                {cancelError && (
+                                    <div className="bg-red-50 border border-red-200 text-red-800 p-3 rounded-lg mb-4 flex items-start">
+                                        <AlertTriangle className="h-5 w-5 mr-3 flex-shrink-0 mt-0.5" />
+                                        <div>
+                                            <p className="font-bold">Could not cancel the request</p>
+                                            <p className="text-sm">{cancelError}</p>
+                                        </div>
+                                    </div>
+                                )}
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+                                <textarea
+                                    value={cancellationReason}
+                                    onChange={(e) => setCancellationReason(e.target.value)}
+                                    placeholder="Why is this request being cancelled?"
+                                    className="w-full p-2 border rounded-md text-sm"
+                                    rows={2}
+                                />
+                                <div className="mt-3 flex justify-end space-x-3">
+                                    <button
+                                        onClick={() => { setIsCancelling(false); setCancelError(null); }}
+                                        disabled={isSubmitting}
+                                        className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-100"
+                                    >
+                                        Keep Request
+                                    </button>
+                                    <button
+                                        onClick={handleCancel}
+                                        disabled={isSubmitting}
+                                        className="px-4 py-2 text-sm font-medium text-white bg-gray-700 rounded-md hover:bg-gray-800 flex items-center justify-center min-w-[110px]"
+                                    >
+                                        {isSubmitting ? <Loader2 className="animate-spin h-5 w-5" /> : 'Confirm Cancellation'}
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                {isAdmin && canTransition(request, ApprovalStatus.PENDING, 'admin') && onEdit && (
                     <div className="p-6 border-t bg-gray-50 rounded-b-lg flex justify-end">
                         <button
                             onClick={() => onEdit(request)}
@@ -450,7 +1107,7 @@ const RequestDetailsModal = ({ request, onClose, onEdit, onCreateProcurement }:
                     </div>
                 )}
 
-                {isAdmin && request.type === RequestType.ITEM && request.status === ApprovalStatus.PENDING && onCreateProcurement && (
+                {isAdmin && canCreateProcurementFrom(request) && onCreateProcurement && (
                     <div className="p-6 border-t bg-gray-50 rounded-b-lg flex justify-end">
                          <button
                             onClick={() => onCreateProcurement(request)}
@@ -1,47 +1,81 @@
 import React, { useState, useRef, useEffect, useMemo } from 'react';
-import { RequestType, User, Request, ApprovalStatus, StoreRequisitionItem, StoreItem } from '../../types.ts';
+import { RequestType, Request, ApprovalStatus, StoreRequisitionItem, RequestDraft } from '../../types.ts';
 import { useAuth } from '../../hooks/useAuth.ts';
 import { useRequests } from '../../hooks/useRequests.ts';
 import { useVendors } from '../../hooks/useVendors.ts';
-import { useStore } from '../../hooks/useStore.ts';
+import { useWorkflows } from '../../hooks/useWorkflows.ts';
+import { useLeave } from '../../hooks/useLeave.ts';
+import { useDrafts } from '../../hooks/useDrafts.ts';
 import ApprovalQueueSelector from './ApprovalQueueSelector.tsx';
-import { Info, Plus, X, Search, Loader2, AlertTriangle } from 'lucide-react';
+import StoreItemsEditor from './StoreItemsEditor.tsx';
+import ProcurementItemsEditor from './ProcurementItemsEditor.tsx';
+import QuotationsEditor from './QuotationsEditor.tsx';
+import RoutingSummary from './RoutingSummary.tsx';
+import { Info, Loader2, AlertTriangle } from 'lucide-react';
 import SignaturePad, { SignaturePadRef } from '../shared/SignaturePad.tsx';
 import { InputField, TextAreaField, SelectField } from '../shared/FormFields.tsx';
+import { normaliseRequestDetails, validateRequestDetails, readDetailField, isLineItemField, formatDetailField } from '../../lib/requestDetails.ts';
+import { getRequestTypeDefinition, RequestFieldDefinition } from '../../lib/requestTypes.ts';
+import { RawDetails, toNumber, toText } from '../../lib/fieldValues.ts';
+import { resolveWorkflowSteps, describeWorkflowStep, WORKFLOW_ROLE_LABELS } from '../../lib/workflows.ts';
+import { applyRoutingRules, routingAmount } from '../../lib/routingRules.ts';
+import { QueuedApprover, normaliseApprovalGroups, toPendingApprovers } from '../../lib/approvalSteps.ts';
+import { applyStepSlas } from '../../lib/sla.ts';
+import { QuotationFiles } from '../../lib/quotations.ts';
+import { holidayDates, leaveYear } from '../../lib/leave.ts';
+import { DRAFT_AUTOSAVE_DELAY_MS, newDraftId, toDraftQueue } from '../../lib/drafts.ts';
+import { ATTACHMENT_SLOT, DraftFiles } from '../../lib/draftFiles.ts';
 
 interface RequestFormProps {
     requestType: RequestType;
     onFormSubmit: () => void;
     requestToEdit?: Request | null;
-    initialDetails?: { [key: string]: any } | null;
+    initialDetails?: RawDetails | null;
+    // A saved draft to carry on with.
+    draft?: RequestDraft | null;
+    onDiscardDraft?: () => void;
 }
 
-const RequestForm = ({ requestType, onFormSubmit, requestToEdit, initialDetails }: RequestFormProps) => {
-    const [details, setDetails] = useState<{ [key: string]: any }>({ 
+const RequestForm = ({ requestType, onFormSubmit, requestToEdit, initialDetails, draft, onDiscardDraft }: RequestFormProps) => {
+    const definition = getRequestTypeDefinition(requestType);
+    // Raw input values keyed by field; they are normalised into typed details on submit.
+    const [details, setDetails] = useState<RawDetails>({ 
         subject: '',
         dateOfRequisition: new Date().toISOString().split('T')[0],
      });
     const [requesterName, setRequesterName] = useState('');
-    const [approvalQueue, setApprovalQueue] = useState<User[]>([]);
-    const [selectedHODId, setSelectedHODId] = useState<string>('');
+    const [approvalQueue, setApprovalQueue] = useState<QueuedApprover[]>([]);
     const [vendorId, setVendorId] = useState<string>('');
     const [file, setFile] = useState<File | null>(null);
+    const [quotationFiles, setQuotationFiles] = useState<QuotationFiles>({});
     const signaturePadRef = useRef<SignaturePadRef>(null);
-    const [leaveDays, setLeaveDays] = useState<number | null>(null);
-    const [dateError, setDateError] = useState('');
-    
-    // Store Requisition state
-    const [selectedStoreItems, setSelectedStoreItems] = useState<{[itemId: string]: number}>({}); // { itemId: quantity }
-    const [isAddItemModalOpen, setIsAddItemModalOpen] = useState(false);
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [submissionError, setSubmissionError] = useState<string | null>(null);
+    // The request type whose workflow template last filled the queue, so later edits are not overwritten.
+    const appliedTemplateFor = useRef<RequestType | null>(null);
+    // New requests are saved as a draft once something is entered; a resumed draft keeps its id.
+    const [draftId] = useState(() => draft?.id || newDraftId());
+    const [isDirty, setIsDirty] = useState(false);
+    const [draftStatus, setDraftStatus] = useState<{ savedAt: string | null; error: string | null }>({ savedAt: draft?.updatedAt || null, error: null });
+    // Files picked for the draft in another browser, which have to be attached again.
+    const [missingFiles, setMissingFiles] = useState<string[]>([]);
+    const restoredDraft = useRef<string | null>(null);
+    const pendingDraftSave = useRef<(() => Promise<void>) | null>(null);
+    // Set once the request is submitted or the draft discarded, so no autosave brings the draft back.
+    const isFinished = useRef(false);
 
     const isEditMode = !!requestToEdit;
 
     const { currentUser } = useAuth();
-    const { addRequest, updateRequest, approvers, getUserById, loading: usersLoading } = useRequests();
+    const { addRequest, updateRequest, users, approvers, getUserById, loading: usersLoading } = useRequests();
     const { vendors } = useVendors();
-    const { storeItems, getStoreItemById } = useStore();
+    const { getTemplateForType, routingRules, loading: workflowsLoading } = useWorkflows();
+    const { holidays, balanceFor, loading: leaveLoading } = useLeave();
+    const { saveDraft, discardDraft, loadDraftFiles } = useDrafts();
+
+    const template = definition.needsApprovalQueue ? getTemplateForType(requestType) : undefined;
+    const queueLocked = !!template && !template.allowOverride;
+    const templateQueue = useMemo(() => (template ? resolveWorkflowSteps(template.steps, approvers) : null), [template, approvers]);
 
     const sentBackComment = useMemo(() => {
         if (isEditMode && requestToEdit?.status === ApprovalStatus.SENT_BACK) {
@@ -50,18 +84,31 @@ const RequestForm = ({ requestType, onFormSubmit, requestToEdit, initialDetails
         }
         return null;
     }, [isEditMode, requestToEdit]);
-    
-    const grandTotal = useMemo(() => {
-        if (requestType !== RequestType.STORE) return 0;
-        return Object.entries(selectedStoreItems).reduce((total, [itemId, quantity]) => {
-            const item = getStoreItemById(itemId);
-            const numQuantity = Number(quantity);
-            if (item && numQuantity > 0) {
-                return total + ((item.unitCost || 0) * numQuantity);
-            }
-            return total;
-        }, 0);
-    }, [selectedStoreItems, getStoreItemById, requestType]);
+
+    // The raw values plus those the portal fills in: the public holiday calendar and the applicant's leave balance.
+    const filledDetails = useMemo(() => {
+        const filled: RawDetails = { ...details };
+        definition.fields.forEach(field => {
+            if (field.kind === 'holidays') filled[field.key] = holidayDates(holidays);
+        });
+        definition.fields.forEach(field => {
+            if (field.kind !== 'leaveBalance') return;
+            const { applicantId, category, startDate } = definition.normalise(filled) as RawDetails;
+            filled[field.key] = applicantId ? balanceFor(applicantId, category, leaveYear({ startDate })) : 0;
+        });
+        return filled;
+    }, [definition, details, holidays, balanceFor]);
+
+    // Computed fields (totals, leave days) are derived from the raw values as they are typed.
+    const computedDetails = useMemo(() => definition.normalise(filledDetails), [definition, filledDetails]);
+
+    // Routing rules add or skip steps on top of the chosen queue; the routed queue is what gets submitted.
+    const routing = useMemo(() => {
+        if (!definition.needsApprovalQueue) return null;
+        const typed = normaliseRequestDetails(requestType, filledDetails);
+        return applyRoutingRules(approvalQueue, routingRules, typed, routingAmount(typed), approvers);
+    }, [definition, requestType, filledDetails, approvalQueue, routingRules, approvers]);
+    const routedQueue: QueuedApprover[] = routing ? routing.queue : approvalQueue;
 
     useEffect(() => {
         // Prevent setting state until users are loaded, especially in edit mode
@@ -70,139 +117,161 @@ const RequestForm = ({ requestType, onFormSubmit, requestToEdit, initialDetails
         if (isEditMode && requestToEdit) {
             setDetails(requestToEdit.details || {});
             setRequesterName(requestToEdit.requesterName);
-            const selectedUsers = (requestToEdit.approvalQueue || []).map(a => getUserById(a.userId)).filter((u): u is User => !!u);
-            setApprovalQueue(selectedUsers);
-            setSelectedHODId(requestToEdit.details?.selectedHODId || '');
+            const queued = (requestToEdit.approvalQueue || []).flatMap((a): QueuedApprover[] => {
+                const user = getUserById(a.userId);
+                return user ? [{ user, group: a.group, slaHours: a.slaHours, stepRole: a.stepRole }] : [];
+            });
+            setApprovalQueue(normaliseApprovalGroups(queued));
             setVendorId(requestToEdit.vendorId || '');
-            if (requestToEdit.type === RequestType.STORE && requestToEdit.details?.items) {
-                 const initialStoreItems: {[itemId: string]: number} = {};
-                (requestToEdit.details?.items as StoreRequisitionItem[]).forEach(item => {
-                    initialStoreItems[item.itemId] = item.quantity;
-                });
-                setSelectedStoreItems(initialStoreItems);
+        } else if (draft) {
+            if (restoredDraft.current === draft.id) return;
+            restoredDraft.current = draft.id;
+            setDetails(draft.details);
+            setRequesterName(draft.requesterName);
+            const queued = draft.approvalQueue.flatMap((a): QueuedApprover[] => {
+                const user = getUserById(a.userId);
+                return user ? [{ user, group: a.group, slaHours: a.slaHours, stepRole: a.stepRole }] : [];
+            });
+            // A queue chosen in the draft stands in for the workflow template's.
+            if (queued.length > 0) {
+                appliedTemplateFor.current = requestType;
+                setApprovalQueue(normaliseApprovalGroups(queued));
             }
+            setVendorId(draft.vendorId || '');
         } else if (initialDetails) {
             setDetails(prev => ({ ...prev, ...initialDetails }));
         }
-    }, [isEditMode, requestToEdit, initialDetails, getUserById, usersLoading]);
+    }, [isEditMode, requestToEdit, draft, requestType, initialDetails, getUserById, usersLoading]);
 
     useEffect(() => {
-        if (requestType === RequestType.LEAVE) {
-            const { startDate, endDate } = details;
-            if (startDate && endDate) {
-                const start = new Date(startDate);
-                const end = new Date(endDate);
-                if (end < start) {
-                    setDateError('End date cannot be before start date.');
-                    setLeaveDays(null);
-                } else {
-                    setDateError('');
-                    const diffTime = end.getTime() - start.getTime();
-                    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24)) + 1; // Inclusive
-                    setLeaveDays(diffDays);
-                }
-            } else {
-                setLeaveDays(null);
-            }
-        }
-    }, [details.startDate, details.endDate, requestType]);
+        if (!draft) return;
+        let cancelled = false;
+        loadDraftFiles(draft.id).then(({ [ATTACHMENT_SLOT]: attachment, ...quotations }) => {
+            if (cancelled) return;
+            setFile(attachment || null);
+            setQuotationFiles(quotations);
+            setMissingFiles(Object.entries(draft.pendingFiles).filter(([slot]) => !(slot === ATTACHMENT_SLOT ? attachment : quotations[slot])).map(([, name]) => name));
+        });
+        return () => { cancelled = true; };
+    }, [draft, loadDraftFiles]);
 
+    // Autosave: the draft is saved a moment after the last change.
     useEffect(() => {
-        if (requestType === RequestType.DIESEL) {
-            const volume = Number(details.volume);
-            const costPerLiter = Number(details.costPerLiter);
-            if (volume > 0 && costPerLiter > 0) {
-                const total = volume * costPerLiter;
-                setDetails(d => ({...d, totalCost: total.toFixed(2) }));
-            } else {
-                 setDetails(d => ({...d, totalCost: '0.00' }));
-            }
-        }
-    }, [details.volume, details.costPerLiter, requestType]);
+        if (isEditMode || !isDirty) return;
+        const files: DraftFiles = { ...quotationFiles, ...(file ? { [ATTACHMENT_SLOT]: file } : {}) };
+        const save = async () => {
+            pendingDraftSave.current = null;
+            if (isFinished.current) return;
+            const result = await saveDraft({ id: draftId, requestType, details, requesterName, approvalQueue: toDraftQueue(approvalQueue), vendorId: vendorId || undefined }, files);
+            setDraftStatus({ savedAt: new Date().toISOString(), error: result.error });
+        };
+        pendingDraftSave.current = save;
+        const timer = setTimeout(save, DRAFT_AUTOSAVE_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [isEditMode, isDirty, draftId, requestType, details, requesterName, approvalQueue, vendorId, file, quotationFiles, saveDraft]);
 
+    // Leaving the form, e.g. through the sidebar, saves changes the autosave had not got to yet.
+    useEffect(() => () => { pendingDraftSave.current?.(); }, []);
+
+    // New requests start from the type's workflow template; a template that disallows overrides
+    // also replaces the queue of a request being edited.
     useEffect(() => {
-        if (requestType === RequestType.PROCUREMENT) {
-            const quantity = Number(details.quantity);
-            const unitCost = Number(details.unitCost);
-            if (quantity > 0 && unitCost > 0) {
-                const total = quantity * unitCost;
-                setDetails(d => ({...d, totalCost: total.toFixed(2) }));
-            } else {
-                 setDetails(d => ({...d, totalCost: '0.00' }));
-            }
+        if (usersLoading || workflowsLoading || !templateQueue) return;
+        if (queueLocked || (!isEditMode && appliedTemplateFor.current !== requestType)) {
+            appliedTemplateFor.current = requestType;
+            setApprovalQueue(templateQueue.queue);
         }
-    }, [details.quantity, details.unitCost, requestType]);
+    }, [usersLoading, workflowsLoading, templateQueue, queueLocked, isEditMode, requestType]);
 
     const handleDetailChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
         setDetails({ ...details, [e.target.name]: e.target.value });
+        setIsDirty(true);
+    };
+
+    const setDetailValue = (key: string, value: unknown) => {
+        setDetails(prev => ({ ...prev, [key]: value }));
+        setIsDirty(true);
+    };
+
+    const editApprovalQueue: React.Dispatch<React.SetStateAction<QueuedApprover[]>> = (queue) => {
+        setApprovalQueue(queue);
+        setIsDirty(true);
+    };
+
+    const editQuotationFiles = (files: QuotationFiles) => {
+        setQuotationFiles(files);
+        setIsDirty(true);
+    };
+
+    const setStaffValue = (field: RequestFieldDefinition<any>, userId: string) => {
+        const user = getUserById(userId);
+        setDetails(prev => ({
+            ...prev,
+            [field.key]: userId,
+            ...(field.nameField && user ? { [field.nameField]: user.fullName || user.email } : {}),
+        }));
+        setIsDirty(true);
+    };
+
+    // Recommending a quotation also makes its vendor the request's vendor.
+    const setQuotationValue = (key: string, value: unknown) => {
+        setDetailValue(key, value);
+        if (key === 'selectedQuotationId') {
+            const quotation = ((details.quotations || []) as RawDetails[]).find(q => q.id === value);
+            if (quotation?.vendorId) setVendorId(quotation.vendorId);
+        }
     };
 
     const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         if (e.target.files) {
             setFile(e.target.files[0]);
+            setIsDirty(true);
         }
     };
-    
-    const handleStoreItemQuantityChange = (itemId: string, quantity: string) => {
-        const numQuantity = parseInt(quantity, 10);
-        if (isNaN(numQuantity) || numQuantity < 0) {
-             setSelectedStoreItems(prev => ({ ...prev, [itemId]: 0 }));
-        } else {
-            setSelectedStoreItems(prev => ({ ...prev, [itemId]: numQuantity }));
-        }
-    }
 
-    const handleAddStoreItems = (itemIds: string[]) => {
-        const newSelections = {...selectedStoreItems};
-        itemIds.forEach(id => {
-            if (!newSelections.hasOwnProperty(id)) {
-                 newSelections[id] = 1; // Default to 1
-            }
-        });
-        setSelectedStoreItems(newSelections);
-        setIsAddItemModalOpen(false);
+    const handleDiscardDraft = async () => {
+        if (!window.confirm('Discard this draft? Everything entered so far will be lost.')) return;
+        isFinished.current = true;
+        await discardDraft(draftId);
+        onDiscardDraft?.();
     };
-
-    const handleRemoveStoreItem = (itemId: string) => {
-        const newSelections = {...selectedStoreItems};
-        delete newSelections[itemId];
-        setSelectedStoreItems(newSelections);
-    }
     
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         if (!currentUser) return;
         setSubmissionError(null);
         setIsSubmitting(true);
-
-        if (dateError) {
-            setSubmissionError(dateError);
-            setIsSubmitting(false);
-            return;
-        }
         
         const signature = signaturePadRef.current?.getSignature();
 
-        if (requestType !== RequestType.ITEM && approvalQueue.length === 0) {
-            setSubmissionError("Please select at least one approver.");
+        if (queueLocked && templateQueue && templateQueue.unresolved.length > 0) {
+            setSubmissionError("The workflow template for this request type has steps with no approver assigned. Please ask an administrator to update it.");
             setIsSubmitting(false);
             return;
         }
-        
-        if (requestType === RequestType.STORE && Object.keys(selectedStoreItems).length === 0) {
-            setSubmissionError("Please select at least one item and specify a quantity.");
+
+        if (definition.needsApprovalQueue && routedQueue.length === 0) {
+            setSubmissionError("Please select at least one approver.");
             setIsSubmitting(false);
             return;
         }
 
-        if (requestType === RequestType.LEAVE && !selectedHODId) {
-            setSubmissionError("Please select a Head of Department from the approval queue.");
+        if (routing && routing.unresolved.length > 0) {
+            setSubmissionError(`No approver can take the step required by: ${routing.unresolved.map(rule => rule.name).join(', ')}. Please ask an administrator to assign it.`);
             setIsSubmitting(false);
             return;
         }
-        
-        if (requestType === RequestType.LEAVE && !details.daysRemaining) {
-            setSubmissionError("Please enter the remaining leave days.");
+
+        const typedDetails = normaliseRequestDetails(requestType, filledDetails);
+
+        const detailProblems = validateRequestDetails(typedDetails);
+        (definition.requiredStepRoles || []).forEach(role => {
+            if (!routedQueue.some(({ stepRole }) => stepRole === role)) {
+                detailProblems.push(`The approval queue needs a ${WORKFLOW_ROLE_LABELS[role]} step.`);
+            }
+        });
+        if (detailProblems.length > 0) {
+            setSubmissionError(detailProblems.join(' '));
             setIsSubmitting(false);
             return;
         }
@@ -213,45 +282,27 @@ const RequestForm = ({ requestType, onFormSubmit, requestToEdit, initialDetails
             return;
         }
 
-        const requestDetails: { [key: string]: any } = {
-            ...details,
-            ...(requestType === RequestType.LEAVE && { selectedHODId, leaveDays }),
-        };
-
-        if (requestType === RequestType.STORE) {
-            const itemsForRequest = Object.entries(selectedStoreItems)
-                .map(([itemId, quantity]) => {
-                    const item = getStoreItemById(itemId);
-                    const numQuantity = Number(quantity);
-                    if (!item || numQuantity <= 0) return null;
-                    return {
-                        itemId: item.id, itemName: item.name, quantity: numQuantity,
-                        unitCost: item.unitCost, totalCost: (item.unitCost || 0) * numQuantity,
-                    };
-                })
-                .filter((i): i is NonNullable<typeof i> => i !== null);
-
-            requestDetails.items = itemsForRequest;
-            requestDetails.grandTotal = grandTotal;
-        }
-
         let result;
         if (isEditMode && requestToEdit) {
             const updatedRequest: Request = {
-                ...requestToEdit, requesterName, details: requestDetails,
-                approvalQueue: approvalQueue.map(u => ({ userId: u.id, userEmail: u.email, status: ApprovalStatus.PENDING })),
-                requesterSignature: signature, vendorId: [RequestType.DIESEL, RequestType.PROCUREMENT].includes(requestType) ? vendorId : undefined,
+                ...requestToEdit, requesterName, ...typedDetails,
+                approvalQueue: applyStepSlas(toPendingApprovers(routedQueue), template),
+                requesterSignature: signature, vendorId: definition.needsVendor ? vendorId : undefined,
             };
-            result = await updateRequest(updatedRequest, file);
+            result = await updateRequest(updatedRequest, file, quotationFiles);
         } else {
             result = await addRequest({
-                requesterId: currentUser.id, requesterName, type: requestType, details: requestDetails,
-                approvalQueue: requestType === RequestType.ITEM ? [] : approvalQueue.map(u => ({ userId: u.id, userEmail: u.email, status: ApprovalStatus.PENDING })),
-                requesterSignature: signature, vendorId: [RequestType.DIESEL, RequestType.PROCUREMENT].includes(requestType) ? vendorId : undefined,
-            }, file);
+                requesterId: currentUser.id, requesterName, ...typedDetails,
+                approvalQueue: definition.needsApprovalQueue ? applyStepSlas(toPendingApprovers(routedQueue), template) : [],
+                requesterSignature: signature, vendorId: definition.needsVendor ? vendorId : undefined,
+            }, file, quotationFiles);
         }
 
         if (result.success) {
+            if (!isEditMode) {
+                isFinished.current = true;
+                await discardDraft(draftId);
+            }
             onFormSubmit();
         } else {
             setSubmissionError(result.error);
@@ -259,7 +310,46 @@ const RequestForm = ({ requestType, onFormSubmit, requestToEdit, initialDetails
         }
     };
 
-    if (usersLoading) {
+    const renderField = (field: RequestFieldDefinition<any>) => {
+        const label = field.formLabel || (field.kind === 'currency' ? `${field.label} (NGN)` : field.label);
+
+        if (field.kind === 'holidays') {
+            return <InputField label={label} name={field.key} type="text" value={formatDetailField(field, readDetailField(computedDetails, field.key))} onChange={() => {}} readOnly />;
+        }
+
+        if (field.computed) {
+            const computedValue = toNumber(readDetailField(computedDetails, field.key));
+            const displayValue = field.kind === 'currency' ? computedValue.toFixed(2)
+                : field.kind === 'leaveBalance' ? (readDetailField(computedDetails, 'applicantId') ? `${computedValue} day(s)` : '...')
+                : (computedValue > 0 ? String(computedValue) : '...');
+            return <InputField label={label} name={field.key} type="text" value={displayValue} onChange={() => {}} readOnly />;
+        }
+
+        const value = details[field.key] ?? '';
+        switch (field.kind) {
+            case 'textarea':
+                return <TextAreaField label={label} name={field.key} value={value} onChange={handleDetailChange} required={field.required} />;
+            case 'number':
+            case 'currency':
+                return <InputField label={label} name={field.key} type="number" value={value} onChange={handleDetailChange} required={field.required} />;
+            case 'date':
+                return <InputField label={label} name={field.key} type="date" value={value} onChange={handleDetailChange} required={field.required} />;
+            case 'select':
+                // Unset selects show the value the definition defaults them to.
+                return <SelectField label={label} value={value || toText(readDetailField(computedDetails, field.key))} onChange={(e) => setDetailValue(field.key, e.target.value)} options={field.options || []} required={field.required} />;
+            case 'staff':
+                return (
+                    <SelectField
+                        label={label} value={value} onChange={(e) => setStaffValue(field, e.target.value)} required={field.required} placeholder="Select a staff member"
+                        options={users.map(u => ({ value: u.id, label: u.fullName || u.email }))}
+                    />
+                );
+            default:
+                return <InputField label={label} name={field.key} value={value} onChange={handleDetailChange} required={field.required} />;
+        }
+    };
+
+    if (usersLoading || workflowsLoading || leaveLoading) {
         return (
             <div className="flex justify-center items-center h-64">
                 <Loader2 className="h-8 w-8 animate-spin text-zankli-orange-500" />
@@ -268,20 +358,15 @@ const RequestForm = ({ requestType, onFormSubmit, requestToEdit, initialDetails
         )
     }
     
-    const showApprovalQueue = requestType !== RequestType.ITEM;
-    const showVendorSelector = [RequestType.DIESEL, RequestType.PROCUREMENT].includes(requestType);
-    const showFileUpload = ![RequestType.DIESEL, RequestType.ITEM, RequestType.STORE].includes(requestType);
+    const showApprovalQueue = definition.needsApprovalQueue;
+    const showVendorSelector = definition.needsVendor;
+    const showFileUpload = definition.allowsAttachment;
+    const inputFields = definition.fields.filter(field => !isLineItemField(field) && field.kind !== 'quotations');
+    const lineItemFields = definition.fields.filter(isLineItemField);
+    const quotationFields = definition.fields.filter(field => field.kind === 'quotations');
 
     return (
         <div className="max-w-4xl mx-auto bg-white p-6 md:p-8 rounded-xl shadow-lg">
-            {isAddItemModalOpen && (
-                <AddItemModal
-                    onClose={() => setIsAddItemModalOpen(false)}
-                    onAdd={handleAddStoreItems}
-                    allItems={storeItems}
-                    alreadySelectedIds={Object.keys(selectedStoreItems)}
-                />
-            )}
             <h2 className="text-2xl font-bold text-gray-800 mb-6 border-b pb-4">{isEditMode ? `Edit ${requestType}` : `New ${requestType}`}</h2>
             {isEditMode && sentBackComment && (
                 <div className="bg-blue-100 border-l-4 border-blue-500 text-blue-700 p-4 mb-6" role="alert">
@@ -294,133 +379,67 @@ const RequestForm = ({ requestType, onFormSubmit, requestToEdit, initialDetails
                     </div>
                 </div>
             )}
+            {missingFiles.length > 0 && (
+                <div className="bg-yellow-50 border-l-4 border-yellow-400 text-yellow-800 p-3 mb-6 text-sm flex items-start">
+                    <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+                    <p>Files picked for this draft in another browser need attaching again: {missingFiles.join(', ')}.</p>
+                </div>
+            )}
             <form onSubmit={handleSubmit} className="space-y-6">
                  {/* Common fields */}
                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                     <InputField label="Subject" name="subject" value={details.subject || ''} onChange={handleDetailChange} required />
                     <InputField label="Date of Requisition" name="dateOfRequisition" type="date" value={details.dateOfRequisition || ''} onChange={handleDetailChange} required />
-                    <InputField label="Requester Name" name="requesterName" value={requesterName} onChange={(e) => setRequesterName(e.target.value)} required />
+                    <InputField label="Requester Name" name="requesterName" value={requesterName} onChange={(e) => { setRequesterName(e.target.value); setIsDirty(true); }} required />
                  </div>
                  <hr />
 
-                {/* Request specific fields */}
-                {requestType === RequestType.DIESEL && (
+                {/* Request specific fields, from the request type definition */}
+                {inputFields.length > 0 && (
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                        <InputField label="Volume (in Liters)" name="volume" type="number" value={details.volume || ''} onChange={handleDetailChange} required />
-                        <InputField label="Diesel Remaining (in Liters)" name="dieselRemaining" type="number" value={details.dieselRemaining || ''} onChange={handleDetailChange} required />
-                        <InputField label="Cost per Liter (NGN)" name="costPerLiter" type="number" value={details.costPerLiter || ''} onChange={handleDetailChange} required />
-                        <InputField label="Total Cost (NGN)" name="totalCost" type="text" value={details.totalCost || '0.00'} onChange={() => {}} readOnly />
-                        <TextAreaField label="Reason" name="reason" value={details.reason || ''} onChange={handleDetailChange} required />
-                    </div>
-                )}
-                {requestType === RequestType.PROCUREMENT && (
-                    <div className="space-y-6">
-                        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                            <InputField label="Department" name="department" value={details.department || ''} onChange={handleDetailChange} required />
-                            <InputField label="Quantity" name="quantity" type="number" value={details.quantity || ''} onChange={handleDetailChange} required />
-                        </div>
-                        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                            <InputField label="Unit Cost (NGN)" name="unitCost" type="number" value={details.unitCost || ''} onChange={handleDetailChange} required />
-                            <InputField label="Total Cost (NGN)" name="totalCost" type="text" value={details.totalCost || '0.00'} onChange={() => {}} readOnly />
-                        </div>
-                        <TextAreaField label="Justification" name="justification" value={details.justification || ''} onChange={handleDetailChange} required />
-                    </div>
-                )}
-                 {requestType === RequestType.LEAVE && (
-                    <div className="space-y-6">
-                        <InputField label="Applicant Name" name="applicantName" value={details.applicantName || ''} onChange={handleDetailChange} required />
-                        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                            <InputField label="Start Date" name="startDate" type="date" value={details.startDate || ''} onChange={handleDetailChange} required />
-                            <InputField label="End Date" name="endDate" type="date" value={details.endDate || ''} onChange={handleDetailChange} required />
-                        </div>
-                         {dateError && <p className="text-sm text-red-500">{dateError}</p>}
-                         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                            <InputField label="Number of Leave Days" name="leaveDays" type="text" value={leaveDays !== null ? String(leaveDays) : '...'} readOnly onChange={() => {}} />
-                            <InputField label="Days Remaining for Leave" name="daysRemaining" type="number" value={details.daysRemaining || ''} onChange={handleDetailChange} required />
-                        </div>
-                        <TextAreaField label="Reason" name="reason" value={details.reason || ''} onChange={handleDetailChange} required />
-                    </div>
-                )}
-                {requestType === RequestType.ITEM && (
-                     <div className="space-y-6">
-                        <InputField label="Item Name" name="item" value={details.item || ''} onChange={handleDetailChange} required />
-                        <InputField label="Quantity" name="quantity" type="number" value={details.quantity || ''} onChange={handleDetailChange} required />
-                        <TextAreaField label="Justification" name="justification" value={details.justification || ''} onChange={handleDetailChange} required />
+                        {inputFields.map(field => <React.Fragment key={field.key}>{renderField(field)}</React.Fragment>)}
                     </div>
                 )}
 
-                 {requestType === RequestType.STORE && (
-                    <div className="space-y-4">
-                        <h3 className="text-md font-semibold text-gray-800">Selected Items</h3>
-                        <div className="border rounded-lg overflow-hidden">
-                           <table className="w-full text-sm">
-                                <thead className="bg-gray-50">
-                                    <tr>
-                                        <th className="px-3 py-2 text-left font-medium text-gray-600">Item</th>
-                                        <th className="px-3 py-2 text-center font-medium text-gray-600">In Stock</th>
-                                        <th className="px-3 py-2 text-right font-medium text-gray-600">Unit Cost</th>
-                                        <th className="px-3 py-2 text-center font-medium text-gray-600 w-28">Quantity</th>
-                                        <th className="px-3 py-2 text-right font-medium text-gray-600">Total</th>
-                                        <th className="px-3 py-2 text-center font-medium text-gray-600">Action</th>
-                                    </tr>
-                                </thead>
-                                <tbody>
-                                    {Object.keys(selectedStoreItems).length > 0 ? Object.entries(selectedStoreItems).map(([itemId, quantity]) => {
-                                        const item = getStoreItemById(itemId);
-                                        if (!item) return null;
-                                        const total = (Number(quantity) || 0) * (item.unitCost || 0);
-                                        return (
-                                            <tr key={item.id} className="border-b last:border-0">
-                                                <td className="px-3 py-2">{item.name}</td>
-                                                <td className="px-3 py-2 text-center">{item.quantityInStock}</td>
-                                                <td className="px-3 py-2 text-right">{(item.unitCost || 0).toLocaleString()}</td>
-                                                <td className="px-3 py-2 text-center">
-                                                    <input 
-                                                        type="number" 
-                                                        value={quantity} 
-                                                        onChange={(e) => handleStoreItemQuantityChange(itemId, e.target.value)}
-                                                        className="w-20 text-center p-1 border rounded-md"
-                                                        min="0"
-                                                        max={item.quantityInStock}
-                                                    />
-                                                </td>
-                                                <td className="px-3 py-2 text-right font-medium">{total.toLocaleString()}</td>
-                                                <td className="px-3 py-2 text-center">
-                                                    <button type="button" onClick={() => handleRemoveStoreItem(itemId)} className="text-red-500 hover:text-red-700">
-                                                        <X size={16}/>
-                                                    </button>
-                                                </td>
-                                            </tr>
-                                        )
-                                    }) : (
-                                        <tr><td colSpan={6} className="text-center text-gray-500 py-4">No items selected.</td></tr>
-                                    )}
-                                </tbody>
-                                {Object.keys(selectedStoreItems).length > 0 && (
-                                    <tfoot>
-                                        <tr className="font-bold bg-gray-50">
-                                            <td colSpan={4} className="px-3 py-2 text-right">Grand Total</td>
-                                            <td className="px-3 py-2 text-right text-base">
-                                                {grandTotal.toLocaleString('en-NG', { style: 'currency', currency: 'NGN' })}
-                                            </td>
-                                            <td></td>
-                                        </tr>
-                                    </tfoot>
-                                )}
-                           </table>
-                        </div>
-                        <button type="button" onClick={() => setIsAddItemModalOpen(true)} className="flex items-center text-sm px-4 py-2 bg-zankli-orange-100 text-zankli-orange-800 font-semibold rounded-lg hover:bg-zankli-orange-200">
-                           <Plus size={16} className="mr-2"/> Add Items from Store
-                        </button>
+                {lineItemFields.map(field => (
+                    <React.Fragment key={field.key}>
+                        {field.kind === 'procurementItems' ? (
+                            <ProcurementItemsEditor
+                                label={field.formLabel || field.label}
+                                items={(details[field.key] as RawDetails[]) || []}
+                                onChange={(items) => setDetailValue(field.key, items)}
+                            />
+                        ) : (
+                            <StoreItemsEditor
+                                label={field.formLabel || field.label}
+                                items={(details[field.key] as StoreRequisitionItem[]) || []}
+                                onChange={(items) => setDetailValue(field.key, items)}
+                            />
+                        )}
+                    </React.Fragment>
+                ))}
+                
+                {quotationFields.map(field => (
+                    <div key={field.key} className="pt-4 border-t">
+                        <QuotationsEditor
+                            label={field.formLabel || field.label}
+                            quotations={(details[field.key] as RawDetails[]) || []}
+                            selectedQuotationId={details.selectedQuotationId || ''}
+                            selectionJustification={details.selectionJustification || ''}
+                            grandTotal={toNumber(readDetailField(computedDetails, 'grandTotal'))}
+                            files={quotationFiles}
+                            onChange={setQuotationValue}
+                            onFilesChange={editQuotationFiles}
+                        />
                     </div>
-                )}
+                ))}
                 
                  {showVendorSelector && (
                     <div className="pt-4 border-t">
                         <SelectField 
                             label="Select Vendor" 
                             value={vendorId} 
-                            onChange={(e) => setVendorId(e.target.value)} 
+                            onChange={(e) => { setVendorId(e.target.value); setIsDirty(true); }} 
                             options={vendors.map(v => ({ value: v.id, label: v.name }))}
                             required
                         />
@@ -429,17 +448,18 @@ const RequestForm = ({ requestType, onFormSubmit, requestToEdit, initialDetails
 
                 {showApprovalQueue && (
                     <div className="pt-4 border-t">
-                        <ApprovalQueueSelector approvers={approvers} selectedApprovers={approvalQueue} setSelectedApprovers={setApprovalQueue} />
-                        {requestType === RequestType.LEAVE && (
-                            <div className="mt-4">
-                                <SelectField 
-                                    label="Select Head of Department" 
-                                    value={selectedHODId}
-                                    onChange={(e) => setSelectedHODId(e.target.value)}
-                                    options={approvalQueue.map(u => ({value: u.id, label: u.email}))}
-                                    required
-                                    placeholder="Select from approval queue"
-                                />
+                        <ApprovalQueueSelector
+                            approvers={approvers}
+                            queue={approvalQueue}
+                            setQueue={editApprovalQueue}
+                            locked={queueLocked}
+                            note={template && `Pre-filled from the ${requestType} workflow template.${queueLocked ? ' The template does not allow changes.' : ''}`}
+                        />
+                        {routing && <RoutingSummary routing={routing} />}
+                        {templateQueue && templateQueue.unresolved.length > 0 && (
+                            <div className="mt-2 bg-yellow-50 border-l-4 border-yellow-400 text-yellow-800 p-3 text-sm flex items-start">
+                                <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+                                <p>No approver could be found for: {templateQueue.unresolved.map(step => describeWorkflowStep(step, getUserById)).join(', ')}.</p>
                             </div>
                         )}
                     </div>
@@ -468,7 +488,17 @@ const RequestForm = ({ requestType, onFormSubmit, requestToEdit, initialDetails
                     </div>
                 )}
 
-                <div className="flex justify-end pt-6">
+                <div className="flex flex-wrap justify-end items-center gap-4 pt-6">
+                    {!isEditMode && draftStatus.savedAt && (
+                        <>
+                            <p className={`text-sm mr-auto ${draftStatus.error ? 'text-yellow-700' : 'text-gray-500'}`}>
+                                {draftStatus.error || `Draft saved at ${new Date(draftStatus.savedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`}
+                            </p>
+                            <button type="button" onClick={handleDiscardDraft} disabled={isSubmitting} className="px-4 py-3 text-sm font-semibold text-red-600 hover:text-red-800">
+                                Discard Draft
+                            </button>
+                        </>
+                    )}
                     <button type="submit" disabled={isSubmitting} className="px-8 py-3 bg-zankli-orange-600 text-white font-semibold rounded-lg hover:bg-zankli-orange-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-zankli-orange-500 disabled:bg-zankli-orange-300 flex items-center justify-center min-w-[150px]">
                         {isSubmitting ? (
                             <>
@@ -483,81 +513,4 @@ const RequestForm = ({ requestType, onFormSubmit, requestToEdit, initialDetails
     );
 };
 
-const AddItemModal = ({ onClose, onAdd, allItems, alreadySelectedIds }: { onClose: () => void, onAdd: (itemIds: string[]) => void, allItems: StoreItem[], alreadySelectedIds: string[] }) => {
-    const [searchTerm, setSearchTerm] = useState('');
-    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
-    
-    const filteredItems = useMemo(() => {
-        return allItems.filter(item => 
-            !alreadySelectedIds.includes(item.id) &&
-            item.name.toLowerCase().includes(searchTerm.toLowerCase())
-        );
-    }, [allItems, searchTerm, alreadySelectedIds]);
-
-    const handleSelect = (itemId: string) => {
-        setSelectedIds(prev => {
-            const newSet = new Set(prev);
-            if (newSet.has(itemId)) {
-                newSet.delete(itemId);
-            } else {
-                newSet.add(itemId);
-            }
-            return newSet;
-        });
-    };
-
-    const handleAddClick = () => {
-        onAdd(Array.from(selectedIds));
-    };
-
-    return (
-        <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50 p-4">
-            <div className="bg-white rounded-lg shadow-xl p-6 w-full max-w-2xl max-h-[80vh] flex flex-col">
-                <div className="flex justify-between items-center mb-4">
-                    <h2 className="text-xl font-bold text-gray-800">Add Items from Store</h2>
-                    <button onClick={onClose}><X className="text-gray-500"/></button>
-                </div>
-                <div className="relative mb-4">
-                    <input 
-                        type="text" 
-                        placeholder="Search for items..." 
-                        value={searchTerm} 
-                        onChange={(e) => setSearchTerm(e.target.value)}
-                        className="w-full p-2 pl-10 border rounded-md"
-                    />
-                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" size={18} />
-                </div>
-                <div className="flex-grow overflow-y-auto border rounded-lg">
-                     <table className="w-full text-sm">
-                        <thead className="bg-gray-50 sticky top-0">
-                            <tr>
-                                <th className="p-2 text-center w-10"></th>
-                                <th className="p-2 text-left">Item</th>
-                                <th className="p-2 text-left">Purpose</th>
-                                <th className="p-2 text-center">In Stock</th>
-                            </tr>
-                        </thead>
-                        <tbody>
-                            {filteredItems.map(item => (
-                                <tr key={item.id} className={`cursor-pointer hover:bg-zankli-orange-50 ${selectedIds.has(item.id) ? 'bg-zankli-orange-100' : ''}`} onClick={() => handleSelect(item.id)}>
-                                    <td className="p-2 text-center"><input type="checkbox" checked={selectedIds.has(item.id)} readOnly className="form-checkbox h-4 w-4 text-zankli-orange-600"/></td>
-                                    <td className="p-2 font-medium">{item.name}</td>
-                                    <td className="p-2 text-gray-600">{item.purpose}</td>
-                                    <td className="p-2 text-center">{item.quantityInStock}</td>
-                                </tr>
-                            ))}
-                        </tbody>
-                     </table>
-                     {filteredItems.length === 0 && <p className="text-center p-8 text-gray-500">No available items match your search.</p>}
-                </div>
-                 <div className="flex justify-end pt-4">
-                    <button onClick={handleAddClick} disabled={selectedIds.size === 0} className="px-6 py-2 bg-zankli-orange-600 text-white font-semibold rounded-lg hover:bg-zankli-orange-700 disabled:bg-gray-400">
-                        Add {selectedIds.size > 0 ? `(${selectedIds.size})` : ''} Selected Items
-                    </button>
-                </div>
-            </div>
-        </div>
-    );
-};
-
-export default RequestForm;
\ No newline at end of file
+export default RequestForm;
@@ -1,9 +1,22 @@
 
 import React, { forwardRef, useEffect, useRef, useState, memo, useCallback } from 'react';
 import * as pdfjsLib from 'pdfjs-dist';
-import { Request, ApprovalStatus, StoreRequisitionItem, PdfComment } from '../../types.ts';
+import { Request, RequestType, Approver, ApprovalStatus } from '../../types.ts';
 import { useRequests } from '../../hooks/useRequests.ts';
-import { supabase } from '../../lib/supabaseClient.ts';
+import { useVendors } from '../../hooks/useVendors.ts';
+import { useStore } from '../../hooks/useStore.ts';
+import { useRequestComments } from '../../hooks/useRequestComments.ts';
+import { useRequestEvents } from '../../hooks/useRequestEvents.ts';
+import { dataAccess } from '../../lib/dataAccess.ts';
+import { describeRequestDetails, describeLineItems } from '../../lib/requestDetails.ts';
+import { formatCurrency } from '../../lib/fieldValues.ts';
+import { groupApprovalSteps, describeStepRequirement } from '../../lib/approvalSteps.ts';
+import { describeSignatory } from '../../lib/delegations.ts';
+import { WORKFLOW_ROLE_LABELS } from '../../lib/workflows.ts';
+import { REQUEST_EVENT_LABELS } from '../../lib/requestEvents.ts';
+import { CONSULTATION_MODE_LABELS } from '../../lib/consultations.ts';
+import { QUOTATION_POLICY, compareQuotations, needsMoreQuotations } from '../../lib/quotations.ts';
+import { adjustmentKey, describeAdjustment, describeAdjustedDetails } from '../../lib/adjustments.ts';
 
 pdfjsLib.GlobalWorkerOptions.workerSrc = `https://aistudiocdn.com/pdfjs-dist@5.4.296/build/pdf.worker.min.mjs`;
 
@@ -53,7 +66,12 @@ const RequestPDFLayout = forwardRef<HTMLDivElement, RequestPDFLayoutProps>(({ re
     const [pdf, setPdf] = useState<pdfjsLib.PDFDocumentProxy | null>(null);
     const [pagesRenderedCount, setPagesRenderedCount] = useState(0);
     const { getUserById } = useRequests();
+    const { getVendorById } = useVendors();
+    const { getStoreItemById } = useStore();
+    const { comments, loading: commentsLoading } = useRequestComments(request.id);
+    const { events, loading: eventsLoading } = useRequestEvents(request.id);
     const isReadyCalled = useRef(false);
+    const vendorName = (id?: string) => (id ? getVendorById(id)?.name || id : '');
 
     const handlePageRendered = useCallback(() => {
         setPagesRenderedCount(prev => prev + 1);
@@ -63,17 +81,7 @@ const RequestPDFLayout = forwardRef<HTMLDivElement, RequestPDFLayoutProps>(({ re
         const loadPdf = async () => {
             if (!request.fileURL) return;
             try {
-                // Robustly parse the file path from the full Supabase URL.
-                const url = new URL(request.fileURL);
-                const pathSegments = url.pathname.split('/');
-                const bucketIndex = pathSegments.findIndex(segment => segment === 'request_attachments');
-                if (bucketIndex === -1 || bucketIndex + 1 >= pathSegments.length) {
-                    throw new Error('Could not parse file path from URL');
-                }
-                const filePath = pathSegments.slice(bucketIndex + 1).join('/');
-
-                // Use the authenticated Supabase client to download the file, bypassing CORS issues.
-                const { data: blob, error: downloadError } = await supabase.storage.from('request_attachments').download(filePath);
+                const { data: blob, error: downloadError } = await dataAccess.attachments.download(request.fileURL);
 
                 if (downloadError) throw downloadError;
                 if (!blob) throw new Error("PDF download returned null.");
@@ -96,7 +104,7 @@ const RequestPDFLayout = forwardRef<HTMLDivElement, RequestPDFLayoutProps>(({ re
         // The PDF is considered ready if it doesn't exist, or if all its pages have been rendered.
         const isPdfReady = !pdf || (pagesRenderedCount > 0 && pagesRenderedCount === pdf.numPages);
         
-        if (isPdfReady) {
+        if (isPdfReady && !commentsLoading && !eventsLoading) {
             // Use requestAnimationFrame to ensure the browser has painted the latest updates,
             // including all signature images, before we signal readiness for PDF generation.
             const handle = requestAnimationFrame(() => {
@@ -108,7 +116,7 @@ const RequestPDFLayout = forwardRef<HTMLDivElement, RequestPDFLayoutProps>(({ re
             // Cleanup function to cancel the animation frame if the component unmounts
             return () => cancelAnimationFrame(handle);
         }
-    }, [pdf, pagesRenderedCount, onReady]);
+    }, [pdf, pagesRenderedCount, commentsLoading, eventsLoading, onReady]);
     
     const StatusBadge = ({ status }: { status: ApprovalStatus }) => {
         const colors = {
@@ -117,6 +125,7 @@ const RequestPDFLayout = forwardRef<HTMLDivElement, RequestPDFLayoutProps>(({ re
           [ApprovalStatus.REJECTED]: { bg: '#FEE2E2', text: '#991B1B' },
           [ApprovalStatus.SENT_BACK]: { bg: '#DBEAFE', text: '#1E40AF' },
           [ApprovalStatus.COMPLETED]: { bg: '#E0E7FF', text: '#3730A3' },
+          [ApprovalStatus.CANCELLED]: { bg: '#E5E7EB', text: '#374151' },
         };
         const style = {
             padding: '4px 12px',
@@ -129,6 +138,9 @@ const RequestPDFLayout = forwardRef<HTMLDivElement, RequestPDFLayoutProps>(({ re
         return <span style={style}>{status}</span>;
     };
 
+    const adjustedValues = describeAdjustedDetails(request, request.approvalQueue);
+    const quotationComparison = request.type === RequestType.PROCUREMENT ? compareQuotations(request.details) : [];
+
     return (
         <div ref={ref} style={{ width: '210mm', backgroundColor: 'white', color: '#1f2937', fontFamily: 'sans-serif' }}>
             <div style={{ padding: '24px' }}>
@@ -150,51 +162,132 @@ const RequestPDFLayout = forwardRef<HTMLDivElement, RequestPDFLayoutProps>(({ re
                          <DetailItem label="Submitted On" value={new Date(request.createdAt).toLocaleString()} />
                      </div>
                      <div style={{ marginTop: '16px' }}>
-                        {Object.entries(request.details || {}).filter(([key]) => !['subject', 'items', 'grandTotal'].includes(key)).map(([key, value]) => {
-                            const isCurrency = ['unitCost', 'totalCost', 'costPerLiter', 'finalAmount'].includes(key);
-                            const displayValue = isCurrency && value
-                                ? Number(value).toLocaleString('en-NG', { style: 'currency', currency: 'NGN' })
-                                : String(value);
-
-                            return (
-                                <DetailItem key={key} label={key.replace(/([A-Z])/g, ' $1')} value={displayValue} />
-                            );
-                        })}
+                        {describeRequestDetails(request).map(({ label, value }) => (
+                            <DetailItem key={label} label={label} value={value} />
+                        ))}
                      </div>
                 </section>
                 
-                 {request.type === 'Store Requisition' && (
-                    <section style={{ marginBottom: '24px' }}>
-                        <h3 style={{ fontSize: '18px', fontWeight: 'bold', borderBottom: '1px solid #e5e7eb', paddingBottom: '8px', marginBottom: '12px' }}>Requested Items</h3>
+                 {describeLineItems(request).map(table => {
+                    const showUnit = table.items.some(item => item.unit);
+                    const showVendor = table.items.some(item => item.vendorId);
+                    return (
+                    <section key={table.label} style={{ marginBottom: '24px' }}>
+                        <h3 style={{ fontSize: '18px', fontWeight: 'bold', borderBottom: '1px solid #e5e7eb', paddingBottom: '8px', marginBottom: '12px' }}>{table.label}</h3>
                         <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '14px' }}>
                             <thead style={{ backgroundColor: '#f9fafb' }}>
                                 <tr>
                                     <th style={{ padding: '8px', textAlign: 'left', border: '1px solid #e5e7eb' }}>Item</th>
+                                    {showUnit && <th style={{ padding: '8px', textAlign: 'left', border: '1px solid #e5e7eb' }}>Unit</th>}
                                     <th style={{ padding: '8px', textAlign: 'center', border: '1px solid #e5e7eb' }}>Qty</th>
                                     <th style={{ padding: '8px', textAlign: 'right', border: '1px solid #e5e7eb' }}>Unit Cost</th>
                                     <th style={{ padding: '8px', textAlign: 'right', border: '1px solid #e5e7eb' }}>Total</th>
+                                    {showVendor && <th style={{ padding: '8px', textAlign: 'left', border: '1px solid #e5e7eb' }}>Vendor</th>}
                                 </tr>
                             </thead>
                             <tbody>
-                                {(request.details?.items as StoreRequisitionItem[] || []).map(item => (
-                                    <tr key={item.itemId}>
-                                        <td style={{ padding: '8px', border: '1px solid #e5e7eb' }}>{item.itemName}</td>
+                                {table.items.map(item => (
+                                    <tr key={item.id}>
+                                        <td style={{ padding: '8px', border: '1px solid #e5e7eb' }}>
+                                            {item.name}
+                                            {item.storeItemId && <span style={{ display: 'block', fontSize: '12px', color: '#6b7280' }}>Restocks {getStoreItemById(item.storeItemId)?.name || 'a store item'}</span>}
+                                        </td>
+                                        {showUnit && <td style={{ padding: '8px', border: '1px solid #e5e7eb' }}>{item.unit}</td>}
                                         <td style={{ padding: '8px', textAlign: 'center', border: '1px solid #e5e7eb' }}>{item.quantity}</td>
                                         <td style={{ padding: '8px', textAlign: 'right', border: '1px solid #e5e7eb' }}>{(item.unitCost || 0).toLocaleString()}</td>
                                         <td style={{ padding: '8px', textAlign: 'right', border: '1px solid #e5e7eb' }}>{(item.totalCost || 0).toLocaleString()}</td>
+                                        {showVendor && <td style={{ padding: '8px', border: '1px solid #e5e7eb' }}>{vendorName(item.vendorId || request.vendorId)}</td>}
                                     </tr>
                                 ))}
                             </tbody>
                             <tfoot>
                                 <tr style={{ fontWeight: 'bold' }}>
-                                    <td colSpan={3} style={{ padding: '8px', textAlign: 'right', border: '1px solid #e5e7eb' }}>Grand Total</td>
-                                    <td style={{ padding: '8px', textAlign: 'right', border: '1px solid #e5e7eb' }}>{(request.details?.grandTotal || 0).toLocaleString('en-NG', { style: 'currency', currency: 'NGN' })}</td>
+                                    <td colSpan={showUnit ? 4 : 3} style={{ padding: '8px', textAlign: 'right', border: '1px solid #e5e7eb' }}>Grand Total</td>
+                                    <td style={{ padding: '8px', textAlign: 'right', border: '1px solid #e5e7eb' }}>{formatCurrency(table.total)}</td>
+                                    {showVendor && <td style={{ border: '1px solid #e5e7eb' }}></td>}
                                 </tr>
                             </tfoot>
                         </table>
                     </section>
+                    );
+                })}
+
+                {/* Quotation Comparison */}
+                {request.type === RequestType.PROCUREMENT && (quotationComparison.length > 0 || needsMoreQuotations(request.details)) && (
+                    <section style={{ marginBottom: '24px', breakInside: 'avoid' }}>
+                        <h3 style={{ fontSize: '18px', fontWeight: 'bold', borderBottom: '1px solid #e5e7eb', paddingBottom: '8px', marginBottom: '12px' }}>Quotation Comparison</h3>
+                        {quotationComparison.length > 0 && (
+                        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '14px' }}>
+                            <thead style={{ backgroundColor: '#f9fafb' }}>
+                                <tr>
+                                    <th style={{ padding: '8px', border: '1px solid #e5e7eb' }}></th>
+                                    {quotationComparison.map(({ quotation, isCheapest, isRecommended }) => (
+                                        <th key={quotation.id} style={{ padding: '8px', textAlign: 'left', border: '1px solid #e5e7eb', backgroundColor: isRecommended ? '#fff7ed' : undefined }}>
+                                            {vendorName(quotation.vendorId)}
+                                            {(isRecommended || isCheapest) && (
+                                                <span style={{ display: 'block', fontSize: '12px', fontWeight: 'normal', color: '#6b7280' }}>
+                                                    {[isRecommended && 'Recommended', isCheapest && 'Cheapest'].filter(Boolean).join(' · ')}
+                                                </span>
+                                            )}
+                                        </th>
+                                    ))}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                <tr>
+                                    <td style={{ padding: '8px', fontWeight: 600, border: '1px solid #e5e7eb' }}>Amount</td>
+                                    {quotationComparison.map(({ quotation }) => <td key={quotation.id} style={{ padding: '8px', border: '1px solid #e5e7eb' }}>{formatCurrency(quotation.amount)}</td>)}
+                                </tr>
+                                <tr>
+                                    <td style={{ padding: '8px', fontWeight: 600, border: '1px solid #e5e7eb' }}>Above Cheapest</td>
+                                    {quotationComparison.map(({ quotation, aboveCheapest }) => <td key={quotation.id} style={{ padding: '8px', border: '1px solid #e5e7eb' }}>{aboveCheapest > 0 ? `+${formatCurrency(aboveCheapest)}` : '-'}</td>)}
+                                </tr>
+                                <tr>
+                                    <td style={{ padding: '8px', fontWeight: 600, border: '1px solid #e5e7eb' }}>Valid Until</td>
+                                    {quotationComparison.map(({ quotation, isExpired }) => <td key={quotation.id} style={{ padding: '8px', border: '1px solid #e5e7eb' }}>{quotation.validUntil}{isExpired ? ' (expired)' : ''}</td>)}
+                                </tr>
+                                <tr>
+                                    <td style={{ padding: '8px', fontWeight: 600, border: '1px solid #e5e7eb' }}>Quote</td>
+                                    {quotationComparison.map(({ quotation }) => <td key={quotation.id} style={{ padding: '8px', border: '1px solid #e5e7eb' }}>{quotation.fileName || 'Not attached'}</td>)}
+                                </tr>
+                            </tbody>
+                        </table>
+                        )}
+                        {request.details.selectionJustification && !quotationComparison.find(c => c.isRecommended)?.isCheapest && (
+                            <p style={{ fontSize: '14px', marginTop: '8px' }}><strong>Why not the cheapest:</strong> {request.details.selectionJustification}</p>
+                        )}
+                        {needsMoreQuotations(request.details) && (
+                            <p style={{ fontSize: '14px', marginTop: '8px', color: '#92400e' }}>
+                                Only {request.details.quotations.length} of the {QUOTATION_POLICY.minimumQuotations} quotations required for purchases of {formatCurrency(QUOTATION_POLICY.fromAmount)} or more were attached.
+                            </p>
+                        )}
+                    </section>
                 )}
 
+                {/* Adjusted During Approval */}
+                {adjustedValues.length > 0 && (
+                    <section style={{ marginBottom: '24px', breakInside: 'avoid' }}>
+                        <h3 style={{ fontSize: '18px', fontWeight: 'bold', borderBottom: '1px solid #e5e7eb', paddingBottom: '8px', marginBottom: '12px' }}>Adjusted During Approval</h3>
+                        <table style={{ width: '100%', fontSize: '14px', borderCollapse: 'collapse' }}>
+                            <thead>
+                                <tr style={{ backgroundColor: '#f9fafb' }}>
+                                    <th style={{ padding: '6px 8px', textAlign: 'left', fontWeight: 600 }}>Field</th>
+                                    <th style={{ padding: '6px 8px', textAlign: 'left', fontWeight: 600 }}>Submitted</th>
+                                    <th style={{ padding: '6px 8px', textAlign: 'left', fontWeight: 600 }}>Approved</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {adjustedValues.map(change => (
+                                    <tr key={change.label} style={{ borderBottom: '1px solid #e5e7eb' }}>
+                                        <td style={{ padding: '6px 8px', fontWeight: 600 }}>{change.label}</td>
+                                        <td style={{ padding: '6px 8px', textDecoration: 'line-through', color: '#6b7280' }}>{change.from}</td>
+                                        <td style={{ padding: '6px 8px', fontWeight: 600, color: '#854d0e', backgroundColor: '#fefce8' }}>{change.to}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </section>
+                )}
 
                 {/* Approval Workflow */}
                 <section style={{ marginBottom: '24px', breakInside: 'avoid' }}>
@@ -211,42 +304,92 @@ const RequestPDFLayout = forwardRef<HTMLDivElement, RequestPDFLayoutProps>(({ re
                             )}
                         </div>
 
-                        {(request.approvalQueue || []).map((approver, index) => {
-                             const user = getUserById(approver.userId);
-                             const statusColors = {
-                                [ApprovalStatus.PENDING]: '#FBBF24',
-                                [ApprovalStatus.APPROVED]: '#34D399',
-                                [ApprovalStatus.REJECTED]: '#F87171',
-                                [ApprovalStatus.SENT_BACK]: '#60A5FA',
-                             };
+                        {groupApprovalSteps<Approver>(request.approvalQueue || []).map((step, stepIndex) => {
+                            const requirement = describeStepRequirement(step);
                             return (
-                                <div key={index} style={{ position: 'relative', marginBottom: '24px' }}>
-                                    <div style={{ position: 'absolute', left: '-26px', top: '0', width: '16px', height: '16px', borderRadius: '50%', backgroundColor: statusColors[approver.status] || '#d1d5db', border: '2px solid white' }}></div>
-                                    <p style={{ fontWeight: '600' }}>{index + 1}. {user?.email}</p>
-                                    <p style={{ fontSize: '12px', fontWeight: 'bold', color: '#6b7280' }}>Status: {approver.status}</p>
-                                    {approver.approvedAt && <p style={{ fontSize: '12px', color: '#6b7280' }}>{new Date(approver.approvedAt).toLocaleString()}</p>}
-                                    
-                                    {approver.comments && <p style={{ fontStyle: 'italic', backgroundColor: '#f3f4f6', padding: '8px', borderRadius: '4px', marginTop: '4px' }}>"{approver.comments}"</p>}
-                                    {approver.hodComments && <p style={{ fontStyle: 'italic', color: '#c8410c', backgroundColor: '#fff4ec', padding: '8px', borderRadius: '4px', marginTop: '4px' }}>HOD: "{approver.hodComments}"</p>}
-                                    {approver.internalAuditComments && <p style={{ fontStyle: 'italic', color: '#5b21b6', backgroundColor: '#f5f3ff', padding: '8px', borderRadius: '4px', marginTop: '4px' }}>Audit: "{approver.internalAuditComments}"</p>}
-                                    {approver.finalAmount !== undefined && approver.finalAmount !== null && <p style={{ fontWeight: 'bold', color: '#5b21b6', backgroundColor: '#f5f3ff', padding: '8px', borderRadius: '4px', marginTop: '4px' }}>Final Amount: {approver.finalAmount.toLocaleString('en-NG', { style: 'currency', currency: 'NGN' })}</p>}
-                                    
-                                    {approver.signature && (
-                                        <div style={{ marginTop: '8px', padding: '4px', border: '1px solid #e5e7eb', borderRadius: '4px', backgroundColor: '#f9fafb', display: 'inline-block' }}>
-                                            <img src={approver.signature} alt="Signature" style={{ height: '48px' }} />
-                                        </div>
-                                    )}
-                                </div>
+                                <React.Fragment key={`step-${step.startIndex}`}>
+                                    {requirement && <p style={{ fontSize: '12px', fontWeight: 'bold', color: '#6b7280', textTransform: 'uppercase', marginBottom: '8px' }}>Step {stepIndex + 1} (in parallel): {requirement}</p>}
+                                    {step.members.map((approver, offset) => {
+                                        const index = step.startIndex + offset;
+                                        const user = getUserById(approver.userId);
+                                        const statusColors = {
+                                            [ApprovalStatus.PENDING]: '#FBBF24',
+                                            [ApprovalStatus.APPROVED]: '#34D399',
+                                            [ApprovalStatus.REJECTED]: '#F87171',
+                                            [ApprovalStatus.SENT_BACK]: '#60A5FA',
+                                        };
+                                        return (
+                                            <div key={index} style={{ position: 'relative', marginBottom: '24px' }}>
+                                                <div style={{ position: 'absolute', left: '-26px', top: '0', width: '16px', height: '16px', borderRadius: '50%', backgroundColor: statusColors[approver.status] || '#d1d5db', border: '2px solid white' }}></div>
+                                                <p style={{ fontWeight: '600' }}>{step.group ? `${stepIndex + 1}${String.fromCharCode(97 + offset)}` : stepIndex + 1}. {describeSignatory(approver, user?.email)}{approver.stepRole && ` (${WORKFLOW_ROLE_LABELS[approver.stepRole]})`}{approver.consultation && ` (${CONSULTATION_MODE_LABELS[approver.consultation.mode]})`}</p>
+                                                {approver.consultation && <p style={{ fontSize: '12px', color: '#1e40af' }}>Added by {approver.consultation.requestedByEmail || getUserById(approver.consultation.requestedById)?.email || 'an approver'} on {new Date(approver.consultation.requestedAt).toLocaleString()}{approver.consultation.question && `: "${approver.consultation.question}"`}</p>}
+                                                <p style={{ fontSize: '12px', fontWeight: 'bold', color: '#6b7280' }}>Status: {approver.status}</p>
+                                                {approver.approvedAt && <p style={{ fontSize: '12px', color: '#6b7280' }}>{new Date(approver.approvedAt).toLocaleString()}</p>}
+                                                {approver.escalatedAt && <p style={{ fontSize: '12px', fontWeight: 'bold', color: '#b91c1c' }}>Escalated {new Date(approver.escalatedAt).toLocaleString()} to {approver.escalatedToId ? getUserById(approver.escalatedToId)?.email || approver.escalatedToId : 'administrators'}</p>}
+
+                                                {approver.comments && <p style={{ fontStyle: 'italic', backgroundColor: '#f3f4f6', padding: '8px', borderRadius: '4px', marginTop: '4px' }}>"{approver.comments}"</p>}
+                                                {approver.hodComments && <p style={{ fontStyle: 'italic', color: '#c8410c', backgroundColor: '#fff4ec', padding: '8px', borderRadius: '4px', marginTop: '4px' }}>HOD: "{approver.hodComments}"</p>}
+                                                {approver.internalAuditComments && <p style={{ fontStyle: 'italic', color: '#5b21b6', backgroundColor: '#f5f3ff', padding: '8px', borderRadius: '4px', marginTop: '4px' }}>Audit: "{approver.internalAuditComments}"</p>}
+                                                {approver.finalAmount !== undefined && approver.finalAmount !== null && <p style={{ fontWeight: 'bold', color: '#5b21b6', backgroundColor: '#f5f3ff', padding: '8px', borderRadius: '4px', marginTop: '4px' }}>Final Amount: {approver.finalAmount.toLocaleString('en-NG', { style: 'currency', currency: 'NGN' })}</p>}
+                                                {approver.adjustments?.map(adjustment => {
+                                                    const { label, from, to } = describeAdjustment(request, adjustment);
+                                                    return <p key={adjustmentKey(adjustment)} style={{ fontWeight: 'bold', color: '#854d0e', backgroundColor: '#fefce8', padding: '8px', borderRadius: '4px', marginTop: '4px' }}>Adjusted {label}: {from} → {to}</p>;
+                                                })}
+
+                                                {approver.signature && (
+                                                    <div style={{ marginTop: '8px', padding: '4px', border: '1px solid #e5e7eb', borderRadius: '4px', backgroundColor: '#f9fafb', display: 'inline-block' }}>
+                                                        <img src={approver.signature} alt="Signature" style={{ height: '48px' }} />
+                                                    </div>
+                                                )}
+                                            </div>
+                                        );
+                                    })}
+                                </React.Fragment>
                             );
                         })}
+                        {request.cancellation && (
+                            <div style={{ position: 'relative', marginBottom: '24px' }}>
+                                <div style={{ position: 'absolute', left: '-26px', top: '0', width: '16px', height: '16px', borderRadius: '50%', backgroundColor: '#6B7280', border: '2px solid white' }}></div>
+                                <p style={{ fontWeight: '600' }}>Request Cancelled</p>
+                                <p style={{ fontSize: '12px', color: '#6b7280' }}>by {request.cancellation.byEmail || getUserById(request.cancellation.byId)?.email || request.cancellation.byId} on {new Date(request.cancellation.at).toLocaleString()}</p>
+                                <p style={{ fontStyle: 'italic', backgroundColor: '#f3f4f6', padding: '8px', borderRadius: '4px', marginTop: '4px' }}>"{request.cancellation.reason}"</p>
+                            </div>
+                        )}
                     </div>
                 </section>
                 
+                {/* Fulfilment */}
+                {request.fulfilment && request.fulfilment.length > 0 && (
+                    <section style={{ marginBottom: '24px', breakInside: 'avoid' }}>
+                        <h3 style={{ fontSize: '18px', fontWeight: 'bold', borderBottom: '1px solid #e5e7eb', paddingBottom: '8px', marginBottom: '12px' }}>Fulfilment</h3>
+                        <table style={{ width: '100%', fontSize: '14px', borderCollapse: 'collapse' }}>
+                            <thead>
+                                <tr style={{ backgroundColor: '#f9fafb' }}>
+                                    <th style={{ padding: '6px 8px', textAlign: 'left', fontWeight: 600 }}>Stage</th>
+                                    <th style={{ padding: '6px 8px', textAlign: 'left', fontWeight: 600 }}>Recorded By</th>
+                                    <th style={{ padding: '6px 8px', textAlign: 'left', fontWeight: 600 }}>Date</th>
+                                    <th style={{ padding: '6px 8px', textAlign: 'left', fontWeight: 600 }}>Note</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {request.fulfilment.map(record => (
+                                    <tr key={record.stage} style={{ borderBottom: '1px solid #e5e7eb' }}>
+                                        <td style={{ padding: '6px 8px', fontWeight: 600 }}>{record.stage}</td>
+                                        <td style={{ padding: '6px 8px' }}>{record.byEmail || getUserById(record.byId)?.email || record.byId}</td>
+                                        <td style={{ padding: '6px 8px' }}>{new Date(record.at).toLocaleString()}</td>
+                                        <td style={{ padding: '6px 8px', fontStyle: 'italic' }}>{record.note || ''}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </section>
+                )}
+
                 {/* Document Comments */}
-                {request.pdfComments && request.pdfComments.length > 0 && (
+                {comments.length > 0 && (
                     <section style={{ marginBottom: '24px', breakInside: 'avoid' }}>
                         <h3 style={{ fontSize: '18px', fontWeight: 'bold', borderBottom: '1px solid #e5e7eb', paddingBottom: '8px', marginBottom: '12px' }}>Document Comments</h3>
-                        {request.pdfComments.map((comment, index) => {
+                        {comments.map((comment, index) => {
                              const user = getUserById(comment.userId);
                              const userEmail = user ? user.email : comment.userEmail;
                             return (
@@ -273,6 +416,33 @@ const RequestPDFLayout = forwardRef<HTMLDivElement, RequestPDFLayoutProps>(({ re
                     </section>
                 )}
 
+                {/* Audit Trail */}
+                {events.length > 0 && (
+                    <section style={{ breakBefore: 'page' }}>
+                        <h3 style={{ fontSize: '18px', fontWeight: 'bold', borderBottom: '1px solid #e5e7eb', paddingBottom: '8px', marginBottom: '12px' }}>Appendix: Audit Trail</h3>
+                        <table style={{ width: '100%', fontSize: '12px', borderCollapse: 'collapse' }}>
+                            <thead>
+                                <tr style={{ backgroundColor: '#f9fafb' }}>
+                                    <th style={{ padding: '6px 8px', textAlign: 'left', fontWeight: 600 }}>When</th>
+                                    <th style={{ padding: '6px 8px', textAlign: 'left', fontWeight: 600 }}>Who</th>
+                                    <th style={{ padding: '6px 8px', textAlign: 'left', fontWeight: 600 }}>Activity</th>
+                                    <th style={{ padding: '6px 8px', textAlign: 'left', fontWeight: 600 }}>Detail</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {events.map(event => (
+                                    <tr key={event.id} style={{ borderBottom: '1px solid #e5e7eb' }}>
+                                        <td style={{ padding: '6px 8px', whiteSpace: 'nowrap' }}>{new Date(event.at).toLocaleString()}</td>
+                                        <td style={{ padding: '6px 8px' }}>{event.actorEmail || (event.actorId && getUserById(event.actorId)?.email) || event.actorId || ''}</td>
+                                        <td style={{ padding: '6px 8px' }}>{REQUEST_EVENT_LABELS[event.kind]}</td>
+                                        <td style={{ padding: '6px 8px', fontStyle: 'italic' }}>{event.detail || ''}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </section>
+                )}
+
             </div>
         </div>
     );
@@ -0,0 +1,37 @@
+import React from 'react';
+import { RoutedQueue } from '../../lib/routingRules.ts';
+import { describeWorkflowStep } from '../../lib/workflows.ts';
+import { useRequests } from '../../hooks/useRequests.ts';
+import { AlertTriangle, MinusCircle, PlusCircle } from 'lucide-react';
+
+// Lists the approval steps routing rules added or skipped, and required steps nobody can take.
+const RoutingSummary = ({ routing }: { routing: RoutedQueue }) => {
+    const { getUserById } = useRequests();
+    if (routing.added.length === 0 && routing.skipped.length === 0 && routing.unresolved.length === 0) return null;
+
+    return (
+        <div className="mt-3 p-3 bg-zankli-cream-100 rounded-lg text-sm space-y-1">
+            <p className="font-semibold text-gray-700">Routing rules</p>
+            {routing.added.map(({ rule, user }) => (
+                <p key={`added-${rule.id}`} className="flex items-center text-green-800">
+                    <PlusCircle size={14} className="mr-2 flex-shrink-0" />
+                    {user.email} added: {rule.name}
+                </p>
+            ))}
+            {routing.skipped.map(({ rule, user }) => (
+                <p key={`skipped-${rule.id}-${user.id}`} className="flex items-center text-gray-600">
+                    <MinusCircle size={14} className="mr-2 flex-shrink-0" />
+                    {user.email} skipped: {rule.name}
+                </p>
+            ))}
+            {routing.unresolved.map(rule => (
+                <p key={`unresolved-${rule.id}`} className="flex items-center text-red-700">
+                    <AlertTriangle size={14} className="mr-2 flex-shrink-0" />
+                    {rule.name}: no approver found for {describeWorkflowStep(rule.step, getUserById)}
+                </p>
+            ))}
+        </div>
+    );
+};
+
+export default RoutingSummary;
@@ -0,0 +1,192 @@
+import React, { useState, useMemo } from 'react';
+import { StoreItem, StoreRequisitionItem } from '../../types.ts';
+import { useStore } from '../../hooks/useStore.ts';
+import { Plus, X, Search } from 'lucide-react';
+
+interface StoreItemsEditorProps {
+    label: string;
+    items: StoreRequisitionItem[];
+    onChange: (items: StoreRequisitionItem[]) => void;
+}
+
+// Line-item table for 'storeItems' request fields. Lines capture the store item's unit cost when added.
+const StoreItemsEditor = ({ label, items, onChange }: StoreItemsEditorProps) => {
+    const [isAddItemModalOpen, setIsAddItemModalOpen] = useState(false);
+    const { storeItems, getStoreItemById } = useStore();
+
+    const grandTotal = useMemo(() => items.reduce((total, line) => total + (line.quantity || 0) * (line.unitCost || 0), 0), [items]);
+
+    const handleQuantityChange = (itemId: string, quantity: string) => {
+        const numQuantity = parseInt(quantity, 10);
+        const nextQuantity = isNaN(numQuantity) || numQuantity < 0 ? 0 : numQuantity;
+        onChange(items.map(line => line.itemId === itemId
+            ? { ...line, quantity: nextQuantity, totalCost: nextQuantity * (line.unitCost || 0) }
+            : line));
+    };
+
+    const handleAddItems = (itemIds: string[]) => {
+        const newLines = itemIds
+            .filter(id => !items.some(line => line.itemId === id))
+            .map(id => getStoreItemById(id))
+            .filter((item): item is StoreItem => !!item)
+            .map(item => ({ itemId: item.id, itemName: item.name, quantity: 1, unitCost: item.unitCost || 0, totalCost: item.unitCost || 0 })); // Default to 1
+        onChange([...items, ...newLines]);
+        setIsAddItemModalOpen(false);
+    };
+
+    const handleRemoveItem = (itemId: string) => {
+        onChange(items.filter(line => line.itemId !== itemId));
+    };
+
+    return (
+        <div className="space-y-4">
+            {isAddItemModalOpen && (
+                <AddItemModal
+                    onClose={() => setIsAddItemModalOpen(false)}
+                    onAdd={handleAddItems}
+                    allItems={storeItems}
+                    alreadySelectedIds={items.map(line => line.itemId)}
+                />
+            )}
+            <h3 className="text-md font-semibold text-gray-800">{label}</h3>
+            <div className="border rounded-lg overflow-hidden">
+               <table className="w-full text-sm">
+                    <thead className="bg-gray-50">
+                        <tr>
+                            <th className="px-3 py-2 text-left font-medium text-gray-600">Item</th>
+                            <th className="px-3 py-2 text-center font-medium text-gray-600">In Stock</th>
+                            <th className="px-3 py-2 text-right font-medium text-gray-600">Unit Cost</th>
+                            <th className="px-3 py-2 text-center font-medium text-gray-600 w-28">Quantity</th>
+                            <th className="px-3 py-2 text-right font-medium text-gray-600">Total</th>
+                            <th className="px-3 py-2 text-center font-medium text-gray-600">Action</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {items.length > 0 ? items.map(line => {
+                            const storeItem = getStoreItemById(line.itemId);
+                            const total = (Number(line.quantity) || 0) * (line.unitCost || 0);
+                            return (
+                                <tr key={line.itemId} className="border-b last:border-0">
+                                    <td className="px-3 py-2">{line.itemName}</td>
+                                    <td className="px-3 py-2 text-center">{storeItem ? storeItem.quantityInStock : '-'}</td>
+                                    <td className="px-3 py-2 text-right">{(line.unitCost || 0).toLocaleString()}</td>
+                                    <td className="px-3 py-2 text-center">
+                                        <input 
+                                            type="number" 
+                                            value={line.quantity} 
+                                            onChange={(e) => handleQuantityChange(line.itemId, e.target.value)}
+                                            className="w-20 text-center p-1 border rounded-md"
+                                            min="0"
+                                            max={storeItem?.quantityInStock}
+                                        />
+                                    </td>
+                                    <td className="px-3 py-2 text-right font-medium">{total.toLocaleString()}</td>
+                                    <td className="px-3 py-2 text-center">
+                                        <button type="button" onClick={() => handleRemoveItem(line.itemId)} className="text-red-500 hover:text-red-700">
+                                            <X size={16}/>
+                                        </button>
+                                    </td>
+                                </tr>
+                            )
+                        }) : (
+                            <tr><td colSpan={6} className="text-center text-gray-500 py-4">No items selected.</td></tr>
+                        )}
+                    </tbody>
+                    {items.length > 0 && (
+                        <tfoot>
+                            <tr className="font-bold bg-gray-50">
+                                <td colSpan={4} className="px-3 py-2 text-right">Grand Total</td>
+                                <td className="px-3 py-2 text-right text-base">
+                                    {grandTotal.toLocaleString('en-NG', { style: 'currency', currency: 'NGN' })}
+                                </td>
+                                <td></td>
+                            </tr>
+                        </tfoot>
+                    )}
+               </table>
+            </div>
+            <button type="button" onClick={() => setIsAddItemModalOpen(true)} className="flex items-center text-sm px-4 py-2 bg-zankli-orange-100 text-zankli-orange-800 font-semibold rounded-lg hover:bg-zankli-orange-200">
+               <Plus size={16} className="mr-2"/> Add Items from Store
+            </button>
+        </div>
+    );
+};
+
+const AddItemModal = ({ onClose, onAdd, allItems, alreadySelectedIds }: { onClose: () => void, onAdd: (itemIds: string[]) => void, allItems: StoreItem[], alreadySelectedIds: string[] }) => {
+    const [searchTerm, setSearchTerm] = useState('');
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+    
+    const filteredItems = useMemo(() => {
+        return allItems.filter(item => 
+            !alreadySelectedIds.includes(item.id) &&
+            item.name.toLowerCase().includes(searchTerm.toLowerCase())
+        );
+    }, [allItems, searchTerm, alreadySelectedIds]);
+
+    const handleSelect = (itemId: string) => {
+        setSelectedIds(prev => {
+            const newSet = new Set(prev);
+            if (newSet.has(itemId)) {
+                newSet.delete(itemId);
+            } else {
+                newSet.add(itemId);
+            }
+            return newSet;
+        });
+    };
+
+    const handleAddClick = () => {
+        onAdd(Array.from(selectedIds));
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50 p-4">
+            <div className="bg-white rounded-lg shadow-xl p-6 w-full max-w-2xl max-h-[80vh] flex flex-col">
+                <div className="flex justify-between items-center mb-4">
+                    <h2 className="text-xl font-bold text-gray-800">Add Items from Store</h2>
+                    <button onClick={onClose}><X className="text-gray-500"/></button>
+                </div>
+                <div className="relative mb-4">
+                    <input 
+                        type="text" 
+                        placeholder="Search for items..." 
+                        value={searchTerm} 
+                        onChange={(e) => setSearchTerm(e.target.value)}
+                        className="w-full p-2 pl-10 border rounded-md"
+                    />
+                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" size={18} />
+                </div>
+                <div className="flex-grow overflow-y-auto border rounded-lg">
+                     <table className="w-full text-sm">
+                        <thead className="bg-gray-50 sticky top-0">
+                            <tr>
+                                <th className="p-2 text-center w-10"></th>
+                                <th className="p-2 text-left">Item</th>
+                                <th className="p-2 text-left">Purpose</th>
+                                <th className="p-2 text-center">In Stock</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {filteredItems.map(item => (
+                                <tr key={item.id} className={`cursor-pointer hover:bg-zankli-orange-50 ${selectedIds.has(item.id) ? 'bg-zankli-orange-100' : ''}`} onClick={() => handleSelect(item.id)}>
+                                    <td className="p-2 text-center"><input type="checkbox" checked={selectedIds.has(item.id)} readOnly className="form-checkbox h-4 w-4 text-zankli-orange-600"/></td>
+                                    <td className="p-2 font-medium">{item.name}</td>
+                                    <td className="p-2 text-gray-600">{item.purpose}</td>
+                                    <td className="p-2 text-center">{item.quantityInStock}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                     </table>
+                     {filteredItems.length === 0 && <p className="text-center p-8 text-gray-500">No available items match your search.</p>}
+                </div>
+                 <div className="flex justify-end pt-4">
+                    <button onClick={handleAddClick} disabled={selectedIds.size === 0} className="px-6 py-2 bg-zankli-orange-600 text-white font-semibold rounded-lg hover:bg-zankli-orange-700 disabled:bg-gray-400">
+                        Add {selectedIds.size > 0 ? `(${selectedIds.size})` : ''} Selected Items
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default StoreItemsEditor;
@@ -0,0 +1,43 @@
+import React, { useEffect, useRef } from 'react';
+import { Loader2 } from 'lucide-react';
+
+interface InfiniteScrollTriggerProps {
+    hasMore: boolean;
+    isLoading: boolean;
+    onLoadMore: () => void;
+}
+
+// Placed after the last item of a paged list; asks for the next page once it scrolls into view.
+const InfiniteScrollTrigger = ({ hasMore, isLoading, onLoadMore }: InfiniteScrollTriggerProps) => {
+    const sentinelRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        const sentinel = sentinelRef.current;
+        if (!sentinel || !hasMore || isLoading) return;
+
+        const observer = new IntersectionObserver(entries => {
+            if (entries.some(entry => entry.isIntersecting)) onLoadMore();
+        }, { rootMargin: '200px' });
+        observer.observe(sentinel);
+        return () => observer.disconnect();
+    }, [hasMore, isLoading, onLoadMore]);
+
+    if (!hasMore && !isLoading) return null;
+
+    return (
+        <div ref={sentinelRef} className="col-span-full flex justify-center items-center py-6">
+            {isLoading ? (
+                <>
+                    <Loader2 className="h-5 w-5 animate-spin text-zankli-orange-500" />
+                    <p className="ml-3 text-sm text-gray-500">Loading more requests...</p>
+                </>
+            ) : (
+                <button type="button" onClick={onLoadMore} className="text-sm text-zankli-orange-600 hover:underline">
+                    Load more
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default InfiniteScrollTrigger;
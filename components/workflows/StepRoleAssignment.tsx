@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { useRequests } from '../../hooks/useRequests.ts';
+import { User, WorkflowRole } from '../../types.ts';
+import { WORKFLOW_ROLE_LABELS } from '../../lib/workflows.ts';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+
+// Which approvers hold which step roles. Role-bound template steps and routing rules resolve to these users,
+// and the role a step is taken in decides the approver's extra inputs (HOD comments, audit amount).
+const StepRoleAssignment = () => {
+    const { approvers, setUserWorkflowRoles } = useRequests();
+    const [savingUserId, setSavingUserId] = useState<string | null>(null);
+    const [actionError, setActionError] = useState<string | null>(null);
+
+    const toggleRole = async (user: User, role: WorkflowRole, checked: boolean) => {
+        const current = user.workflowRoles || [];
+        const roles = checked ? [...current, role] : current.filter(r => r !== role);
+        setSavingUserId(user.id);
+        setActionError(null);
+        const result = await setUserWorkflowRoles(user.id, roles);
+        if (!result.success) setActionError(result.error);
+        setSavingUserId(null);
+    };
+
+    return (
+        <div className="bg-white p-6 rounded-lg shadow-md">
+            <div className="mb-6">
+                <h2 className="text-xl font-bold text-gray-800">Step Roles</h2>
+                <p className="text-sm text-gray-500">Workflow steps bound to a role go to the approver holding it. Heads of Department get an HOD comments box and Internal Audit sets the final amount.</p>
+            </div>
+
+            {actionError && (
+                <div className="bg-red-50 border border-red-200 text-red-800 p-4 rounded-lg mb-4 flex items-center">
+                    <AlertTriangle className="h-5 w-5 mr-3" />
+                    <div>
+                        <p><span className="font-bold">Error:</span> Could not update the step roles.</p>
+                        <p className="text-sm">{actionError}</p>
+                    </div>
+                </div>
+            )}
+
+            <div className="overflow-x-auto">
+                <table className="w-full text-sm text-left text-gray-500">
+                    <thead className="text-xs text-gray-700 uppercase bg-zankli-cream-100">
+                        <tr>
+                            <th scope="col" className="px-6 py-3">Approver</th>
+                            {Object.values(WorkflowRole).map(role => <th key={role} scope="col" className="px-6 py-3 text-center">{WORKFLOW_ROLE_LABELS[role]}</th>)}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {approvers.map(user => (
+                            <tr key={user.id} className="bg-white border-b hover:bg-gray-50">
+                                <th scope="row" className="px-6 py-4 font-medium text-gray-900 whitespace-nowrap">
+                                    <span className="flex items-center">
+                                        {user.email}
+                                        {savingUserId === user.id && <Loader2 className="h-4 w-4 ml-2 animate-spin text-gray-400" />}
+                                    </span>
+                                </th>
+                                {Object.values(WorkflowRole).map(role => (
+                                    <td key={role} className="px-6 py-4 text-center">
+                                        <input
+                                            type="checkbox"
+                                            checked={!!user.workflowRoles?.includes(role)}
+                                            disabled={savingUserId !== null}
+                                            onChange={(e) => toggleRole(user, role, e.target.checked)}
+                                            className="h-4 w-4 text-zankli-orange-600 border-gray-300 rounded"
+                                            aria-label={`${user.email}: ${WORKFLOW_ROLE_LABELS[role]}`}
+                                        />
+                                    </td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                {approvers.length === 0 && <p className="text-center text-gray-500 py-8">No approvers yet.</p>}
+            </div>
+        </div>
+    );
+};
+
+export default StepRoleAssignment;
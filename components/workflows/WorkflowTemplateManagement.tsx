@@ -0,0 +1,566 @@
+import React, { useState } from 'react';
+import { useWorkflows } from '../../hooks/useWorkflows.ts';
+import { useRequests } from '../../hooks/useRequests.ts';
+import { FulfilmentStage, RequestType, RoutingRule, User, WorkflowRole, WorkflowStep, WorkflowTemplate, WorkflowTemplateStep } from '../../types.ts';
+import { REQUEST_TYPES } from '../../lib/requestTypes.ts';
+import { OPTIONAL_FULFILMENT_STAGES, fulfilmentStagesFor, hasFulfilment } from '../../lib/fulfilment.ts';
+import { WORKFLOW_ROLE_LABELS, describeWorkflowStep } from '../../lib/workflows.ts';
+import { formatCurrency, toNumber } from '../../lib/fieldValues.ts';
+import { groupApprovalSteps, describeStepRequirement, linkWithPrevious, unlinkFromPrevious, updateApprovalGroup, normaliseApprovalGroups } from '../../lib/approvalSteps.ts';
+import ApprovalGroupControls from '../requests/ApprovalGroupControls.tsx';
+import StepRoleAssignment from './StepRoleAssignment.tsx';
+import { Plus, X, AlertTriangle, ArrowUp, ArrowDown, Trash2, Lock, Link2, Unlink } from 'lucide-react';
+
+type TemplateDraft = Omit<WorkflowTemplate, 'id' | 'updatedAt'>;
+
+// Amount bounds are edited as text so they can be left blank.
+type RuleDraft = Omit<RoutingRule, 'id' | 'amountOver' | 'amountUpTo'> & { id?: string; amountOver: string; amountUpTo: string };
+
+// Steps are edited through a single <select>, so each one is encoded as "role:<role>" or "user:<id>".
+const encodeStep = (step: WorkflowStep) => (step.kind === 'role' ? `role:${step.role}` : `user:${step.userId}`);
+
+const decodeStep = (value: string): WorkflowStep => {
+    const [kind, ...rest] = value.split(':');
+    const id = rest.join(':');
+    return kind === 'role' ? { kind: 'role', role: id as WorkflowRole } : { kind: 'user', userId: id };
+};
+
+const StepSelect = ({ step, approvers, onChange, className = '' }: { step: WorkflowStep; approvers: User[]; onChange: (step: WorkflowStep) => void; className?: string }) => (
+    <select
+        value={encodeStep(step)}
+        onChange={(e) => onChange(decodeStep(e.target.value))}
+        className={`px-2 py-1 border border-gray-300 bg-white rounded-md text-sm focus:outline-none focus:ring-zankli-orange-500 focus:border-zankli-orange-500 ${className}`}
+    >
+        <optgroup label="Roles">
+            {Object.values(WorkflowRole).map(role => <option key={role} value={`role:${role}`}>{WORKFLOW_ROLE_LABELS[role]}</option>)}
+        </optgroup>
+        <optgroup label="Users">
+            {approvers.map(u => <option key={u.id} value={`user:${u.id}`}>{u.email}</option>)}
+        </optgroup>
+    </select>
+);
+
+// SLA hours are edited as numbers; a blank or zero input means no SLA.
+const parseSlaHours = (value: string): number | undefined => {
+    const hours = toNumber(value);
+    return hours > 0 ? hours : undefined;
+};
+
+const smallInputClassName = 'px-2 py-1 border border-gray-300 bg-white rounded-md text-sm focus:outline-none focus:ring-zankli-orange-500 focus:border-zankli-orange-500';
+
+const TemplateEditorModal = ({ draft, setDraft, approvers, onClose, onSubmit, isSubmitting, error }: {
+    draft: TemplateDraft | null;
+    setDraft: React.Dispatch<React.SetStateAction<TemplateDraft | null>>;
+    approvers: User[];
+    onClose: () => void;
+    onSubmit: (e: React.FormEvent) => void;
+    isSubmitting: boolean;
+    error: string | null;
+}) => {
+    if (!draft) return null;
+
+    const updateSteps = (update: (steps: WorkflowTemplateStep[]) => WorkflowTemplateStep[]) => {
+        setDraft(prev => (prev ? { ...prev, steps: normaliseApprovalGroups(update(prev.steps)) } : prev));
+    };
+
+    const moveStep = (index: number, offset: number) => updateSteps(steps => {
+        const target = index + offset;
+        if (target < 0 || target >= steps.length) return steps;
+        const next = [...steps];
+        [next[index], next[target]] = [next[target], next[index]];
+        return next;
+    });
+
+    const toggleFulfilmentStage = (stage: FulfilmentStage, checked: boolean) => setDraft(prev => {
+        if (!prev) return prev;
+        const current = fulfilmentStagesFor(prev.requestType, prev).filter(s => s !== FulfilmentStage.COMPLETED);
+        return { ...prev, fulfilmentStages: checked ? [...current, stage] : current.filter(s => s !== stage) };
+    });
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50">
+            <div className="bg-white rounded-lg shadow-xl p-8 w-full max-w-lg max-h-[90vh] overflow-y-auto">
+                <div className="flex justify-between items-center mb-4">
+                    <h2 className="text-xl font-bold text-gray-800">{draft.requestType} Workflow</h2>
+                    <button onClick={onClose}><X className="text-gray-500"/></button>
+                </div>
+                <form onSubmit={onSubmit} className="space-y-4">
+                    <p className="text-sm text-gray-500">Steps run in this order. Bind a step to a role to route it to whoever holds that role, and link it to the step above to run both in parallel.</p>
+                    <div className="space-y-2">
+                        {draft.steps.length === 0 && <p className="text-center text-gray-400 text-sm py-4">No steps yet</p>}
+                        {groupApprovalSteps(draft.steps).map((approvalStep, stepNumber) => (
+                            <div key={approvalStep.startIndex} className={approvalStep.group ? 'border border-zankli-orange-200 rounded p-2 space-y-2' : ''}>
+                                {approvalStep.group && (
+                                    <ApprovalGroupControls
+                                        group={approvalStep.group}
+                                        size={approvalStep.members.length}
+                                        onChange={(changes) => updateSteps(steps => updateApprovalGroup(steps, approvalStep.group!.id, changes))}
+                                    />
+                                )}
+                                {approvalStep.members.map((step, memberIndex) => {
+                                    const index = approvalStep.startIndex + memberIndex;
+                                    return (
+                                        <div key={index} className="flex items-center gap-2 bg-zankli-cream-100 p-2 rounded">
+                                            <span className="text-sm font-bold text-zankli-orange-700 w-5">{stepNumber + 1}</span>
+                                            <StepSelect
+                                                step={step}
+                                                approvers={approvers}
+                                                onChange={(next) => updateSteps(steps => steps.map((s, i) => (i === index ? { ...next, group: s.group, slaHours: s.slaHours } : s)))}
+                                                className="flex-grow"
+                                            />
+                                            <input
+                                                type="number"
+                                                min="1"
+                                                value={step.slaHours ?? ''}
+                                                onChange={(e) => updateSteps(steps => steps.map((s, i) => (i === index ? { ...s, slaHours: parseSlaHours(e.target.value) } : s)))}
+                                                placeholder={draft.slaHours ? `${draft.slaHours}h` : 'SLA h'}
+                                                title="Hours this step may stay pending before it is escalated"
+                                                className={`${smallInputClassName} w-20`}
+                                            />
+                                            {index > 0 && (memberIndex > 0 ? (
+                                                <button type="button" onClick={() => updateSteps(steps => unlinkFromPrevious(steps, index))} className="text-zankli-orange-600 hover:text-gray-700" title="Run after the step above instead"><Unlink size={16} /></button>
+                                            ) : (
+                                                <button type="button" onClick={() => updateSteps(steps => linkWithPrevious(steps, index))} className="text-gray-400 hover:text-zankli-orange-600" title="Run in parallel with the step above"><Link2 size={16} /></button>
+                                            ))}
+                                            <button type="button" onClick={() => moveStep(index, -1)} disabled={index === 0} className="text-gray-500 hover:text-gray-800 disabled:text-gray-300"><ArrowUp size={16} /></button>
+                                            <button type="button" onClick={() => moveStep(index, 1)} disabled={index === draft.steps.length - 1} className="text-gray-500 hover:text-gray-800 disabled:text-gray-300"><ArrowDown size={16} /></button>
+                                            <button type="button" onClick={() => updateSteps(steps => steps.filter((_, i) => i !== index))} className="text-gray-400 hover:text-red-600"><X size={16} /></button>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        ))}
+                    </div>
+                    <button
+                        type="button"
+                        onClick={() => updateSteps(steps => [...steps, { kind: 'role', role: WorkflowRole.HOD }])}
+                        className="flex items-center text-sm font-semibold text-zankli-orange-700 hover:text-zankli-orange-800"
+                    >
+                        <Plus size={16} className="mr-1" />
+                        Add Step
+                    </button>
+                    <label className="flex items-center text-sm text-gray-700">
+                        <input
+                            type="checkbox"
+                            checked={draft.allowOverride}
+                            onChange={(e) => setDraft(prev => (prev ? { ...prev, allowOverride: e.target.checked } : prev))}
+                            className="mr-2 h-4 w-4 text-zankli-orange-600 border-gray-300 rounded"
+                        />
+                        Allow requesters to change the approvers on individual requests
+                    </label>
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label htmlFor="templateSlaHours" className="block text-sm font-medium text-gray-700">Default SLA per step (hours)</label>
+                            <input
+                                id="templateSlaHours"
+                                type="number"
+                                min="1"
+                                value={draft.slaHours ?? ''}
+                                onChange={(e) => setDraft(prev => (prev ? { ...prev, slaHours: parseSlaHours(e.target.value) } : prev))}
+                                placeholder="No SLA"
+                                className={`${smallInputClassName} mt-1 w-full`}
+                            />
+                        </div>
+                        <div>
+                            <label htmlFor="templateEscalateTo" className="block text-sm font-medium text-gray-700">Escalate overdue steps to</label>
+                            <select
+                                id="templateEscalateTo"
+                                value={draft.escalateTo ? encodeStep(draft.escalateTo) : ''}
+                                onChange={(e) => setDraft(prev => (prev ? { ...prev, escalateTo: e.target.value ? decodeStep(e.target.value) : undefined } : prev))}
+                                className={`${smallInputClassName} mt-1 w-full`}
+                            >
+                                <option value="">Administrators</option>
+                                <optgroup label="Roles">
+                                    {Object.values(WorkflowRole).map(role => <option key={role} value={`role:${role}`}>{WORKFLOW_ROLE_LABELS[role]}</option>)}
+                                </optgroup>
+                                <optgroup label="Users">
+                                    {approvers.map(u => <option key={u.id} value={`user:${u.id}`}>{u.email}</option>)}
+                                </optgroup>
+                            </select>
+                        </div>
+                    </div>
+                    <p className="text-xs text-gray-500">A step pending longer than its SLA is marked overdue and handed to the backup approver, who can then sign on the original approver's behalf. Administrators are alerted when there is no backup.</p>
+                    {hasFulfilment(draft.requestType) && (
+                        <div>
+                            <p className="block text-sm font-medium text-gray-700">Fulfilment stages after approval</p>
+                            <div className="mt-2 flex flex-wrap gap-x-4 gap-y-2">
+                                {OPTIONAL_FULFILMENT_STAGES.map(stage => (
+                                    <label key={stage} className="flex items-center text-sm text-gray-700">
+                                        <input
+                                            type="checkbox"
+                                            checked={fulfilmentStagesFor(draft.requestType, draft).includes(stage)}
+                                            onChange={(e) => toggleFulfilmentStage(stage, e.target.checked)}
+                                            className="mr-2 h-4 w-4 text-zankli-orange-600 border-gray-300 rounded"
+                                        />
+                                        {stage}
+                                    </label>
+                                ))}
+                            </div>
+                            <p className="mt-1 text-xs text-gray-500">Approved requests are listed under "To fulfil" until these stages, then Completed, are recorded.</p>
+                        </div>
+                    )}
+                    {error && (
+                        <div className="bg-red-50 border-l-4 border-red-400 text-red-700 p-3 text-sm">
+                            <p><span className="font-bold">Error:</span> {error}</p>
+                        </div>
+                    )}
+                    <div className="flex justify-end pt-4">
+                        <button
+                            type="submit"
+                            disabled={isSubmitting}
+                            className="px-6 py-2 bg-zankli-orange-600 text-white font-semibold rounded-lg hover:bg-zankli-orange-700 disabled:bg-zankli-orange-300"
+                        >
+                            {isSubmitting ? 'Saving...' : 'Save Workflow'}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+const describeRuleCondition = (rule: RoutingRule): string => {
+    const parts = [rule.requestTypes.length > 0 ? rule.requestTypes.join(', ') : 'All request types'];
+    if (rule.department) parts.push(`department ${rule.department}`);
+    if (rule.amountOver !== undefined) parts.push(`over ${formatCurrency(rule.amountOver)}`);
+    if (rule.amountUpTo !== undefined) parts.push(`up to ${formatCurrency(rule.amountUpTo)}`);
+    return parts.join(' · ');
+};
+
+const RuleEditorModal = ({ draft, setDraft, approvers, onClose, onSubmit, isSubmitting, error }: {
+    draft: RuleDraft | null;
+    setDraft: React.Dispatch<React.SetStateAction<RuleDraft | null>>;
+    approvers: User[];
+    onClose: () => void;
+    onSubmit: (e: React.FormEvent) => void;
+    isSubmitting: boolean;
+    error: string | null;
+}) => {
+    if (!draft) return null;
+
+    const update = (changes: Partial<RuleDraft>) => setDraft(prev => (prev ? { ...prev, ...changes } : prev));
+    const workflowTypes = Object.values(REQUEST_TYPES).filter(definition => definition.needsApprovalQueue).map(definition => definition.type);
+    const inputClassName = 'mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-zankli-orange-500 focus:border-zankli-orange-500 sm:text-sm';
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50">
+            <div className="bg-white rounded-lg shadow-xl p-8 w-full max-w-lg max-h-[90vh] overflow-y-auto">
+                <div className="flex justify-between items-center mb-4">
+                    <h2 className="text-xl font-bold text-gray-800">{draft.id ? 'Edit Routing Rule' : 'New Routing Rule'}</h2>
+                    <button onClick={onClose}><X className="text-gray-500"/></button>
+                </div>
+                <form onSubmit={onSubmit} className="space-y-4">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700">Name *</label>
+                        <input value={draft.name} onChange={(e) => update({ name: e.target.value })} required className={inputClassName} />
+                    </div>
+                    <div>
+                        <p className="block text-sm font-medium text-gray-700">Request Types</p>
+                        <p className="text-xs text-gray-500 mb-1">Leave all unticked to apply the rule to every type.</p>
+                        {workflowTypes.map(type => (
+                            <label key={type} className="flex items-center text-sm text-gray-700">
+                                <input
+                                    type="checkbox"
+                                    checked={draft.requestTypes.includes(type)}
+                                    onChange={(e) => update({ requestTypes: e.target.checked ? [...draft.requestTypes, type] : draft.requestTypes.filter(t => t !== type) })}
+                                    className="mr-2 h-4 w-4 text-zankli-orange-600 border-gray-300 rounded"
+                                />
+                                {type}
+                            </label>
+                        ))}
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700">Department</label>
+                        <input value={draft.department || ''} onChange={(e) => update({ department: e.target.value })} placeholder="Any department" className={inputClassName} />
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700">Amount Over (NGN)</label>
+                            <input type="number" value={draft.amountOver} onChange={(e) => update({ amountOver: e.target.value })} className={inputClassName} />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700">Amount Up To (NGN)</label>
+                            <input type="number" value={draft.amountUpTo} onChange={(e) => update({ amountUpTo: e.target.value })} className={inputClassName} />
+                        </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <select
+                            value={draft.action}
+                            onChange={(e) => update({ action: e.target.value as RoutingRule['action'] })}
+                            className="px-2 py-1 border border-gray-300 bg-white rounded-md text-sm focus:outline-none focus:ring-zankli-orange-500 focus:border-zankli-orange-500"
+                        >
+                            <option value="require">Require</option>
+                            <option value="skip">Skip</option>
+                        </select>
+                        <StepSelect step={draft.step} approvers={approvers} onChange={(step) => update({ step })} className="flex-grow" />
+                    </div>
+                    <label className="flex items-center text-sm text-gray-700">
+                        <input
+                            type="checkbox"
+                            checked={draft.active}
+                            onChange={(e) => update({ active: e.target.checked })}
+                            className="mr-2 h-4 w-4 text-zankli-orange-600 border-gray-300 rounded"
+                        />
+                        Active
+                    </label>
+                    {error && (
+                        <div className="bg-red-50 border-l-4 border-red-400 text-red-700 p-3 text-sm">
+                            <p><span className="font-bold">Error:</span> {error}</p>
+                        </div>
+                    )}
+                    <div className="flex justify-end pt-4">
+                        <button
+                            type="submit"
+                            disabled={isSubmitting}
+                            className="px-6 py-2 bg-zankli-orange-600 text-white font-semibold rounded-lg hover:bg-zankli-orange-700 disabled:bg-zankli-orange-300"
+                        >
+                            {isSubmitting ? 'Saving...' : 'Save Rule'}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+const WorkflowTemplateManagement = () => {
+    const { getTemplateForType, saveTemplate, removeTemplate, routingRules, saveRoutingRule, removeRoutingRule, error: fetchError } = useWorkflows();
+    const { approvers, getUserById } = useRequests();
+    const [draft, setDraft] = useState<TemplateDraft | null>(null);
+    const [ruleDraft, setRuleDraft] = useState<RuleDraft | null>(null);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [submissionError, setSubmissionError] = useState<string | null>(null);
+
+    const workflowTypes = Object.values(REQUEST_TYPES).filter(definition => definition.needsApprovalQueue).map(definition => definition.type);
+
+    const openEditor = (requestType: RequestType) => {
+        const template = getTemplateForType(requestType);
+        setSubmissionError(null);
+        setDraft({
+            requestType,
+            steps: template ? [...template.steps] : [],
+            allowOverride: template ? template.allowOverride : true,
+            slaHours: template?.slaHours,
+            escalateTo: template?.escalateTo,
+            fulfilmentStages: template?.fulfilmentStages,
+        });
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!draft) return;
+        if (draft.steps.length === 0) {
+            setSubmissionError('Add at least one step, or remove the template instead.');
+            return;
+        }
+        setIsSubmitting(true);
+        setSubmissionError(null);
+
+        const result = await saveTemplate(draft);
+
+        if (result.success) {
+            setDraft(null);
+        } else {
+            setSubmissionError(result.error);
+        }
+        setIsSubmitting(false);
+    };
+
+    const handleRemove = async (requestType: RequestType) => {
+        if (!window.confirm(`Remove the ${requestType} workflow? New requests will start with an empty approval queue.`)) return;
+        const result = await removeTemplate(requestType);
+        if (!result.success) {
+            alert(result.error);
+        }
+    };
+
+    const openRuleEditor = (rule?: RoutingRule) => {
+        setSubmissionError(null);
+        setRuleDraft(rule ? {
+            ...rule,
+            amountOver: rule.amountOver !== undefined ? String(rule.amountOver) : '',
+            amountUpTo: rule.amountUpTo !== undefined ? String(rule.amountUpTo) : '',
+        } : {
+            name: '', requestTypes: [], department: '', amountOver: '', amountUpTo: '',
+            action: 'require', step: { kind: 'role', role: WorkflowRole.MEDICAL_DIRECTOR }, active: true,
+        });
+    };
+
+    const handleRuleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!ruleDraft) return;
+        const { amountOver, amountUpTo, ...rest } = ruleDraft;
+        const rule = {
+            ...rest,
+            name: rest.name.trim(),
+            department: rest.department?.trim() || undefined,
+            amountOver: amountOver.trim() ? toNumber(amountOver) : undefined,
+            amountUpTo: amountUpTo.trim() ? toNumber(amountUpTo) : undefined,
+        };
+        if (rule.amountOver !== undefined && rule.amountUpTo !== undefined && rule.amountUpTo <= rule.amountOver) {
+            setSubmissionError('"Amount up to" must be greater than "amount over".');
+            return;
+        }
+        setIsSubmitting(true);
+        setSubmissionError(null);
+
+        const result = await saveRoutingRule(rule);
+
+        if (result.success) {
+            setRuleDraft(null);
+        } else {
+            setSubmissionError(result.error);
+        }
+        setIsSubmitting(false);
+    };
+
+    const handleRuleRemove = async (rule: RoutingRule) => {
+        if (!window.confirm(`Remove the routing rule "${rule.name}"?`)) return;
+        const result = await removeRoutingRule(rule.id);
+        if (!result.success) {
+            alert(result.error);
+        }
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="bg-white p-6 rounded-lg shadow-md">
+                <div className="mb-6">
+                    <h2 className="text-xl font-bold text-gray-800">Approval Workflows</h2>
+                    <p className="text-sm text-gray-500">The approval queue each request type starts with.</p>
+                </div>
+
+                {fetchError && (
+                    <div className="bg-red-50 border border-red-200 text-red-800 p-4 rounded-lg mb-4 flex items-center">
+                        <AlertTriangle className="h-5 w-5 mr-3" />
+                        <div>
+                            <p><span className="font-bold">Error:</span> Could not load workflow templates.</p>
+                            <p className="text-sm">{fetchError}</p>
+                        </div>
+                    </div>
+                )}
+
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm text-left text-gray-500">
+                        <thead className="text-xs text-gray-700 uppercase bg-zankli-cream-100">
+                            <tr>
+                                <th scope="col" className="px-6 py-3">Request Type</th>
+                                <th scope="col" className="px-6 py-3">Steps</th>
+                                <th scope="col" className="px-6 py-3">Overrides</th>
+                                <th scope="col" className="px-6 py-3">SLA</th>
+                                <th scope="col" className="px-6 py-3"><span className="sr-only">Actions</span></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {workflowTypes.map(type => {
+                                const template = getTemplateForType(type);
+                                return (
+                                    <tr key={type} className="bg-white border-b hover:bg-gray-50">
+                                        <th scope="row" className="px-6 py-4 font-medium text-gray-900 whitespace-nowrap">{type}</th>
+                                        <td className="px-6 py-4">
+                                            {template ? (
+                                                <ol className="space-y-1">
+                                                    {groupApprovalSteps<WorkflowTemplateStep>(template.steps).map((approvalStep, index) => (
+                                                        <li key={approvalStep.startIndex}>
+                                                            <span className="font-semibold text-zankli-orange-700 mr-1">{index + 1}.</span>
+                                                            {approvalStep.members.map(step => describeWorkflowStep(step, getUserById)).join(' + ')}
+                                                            {approvalStep.group && <span className="ml-1 text-xs text-gray-400">({describeStepRequirement(approvalStep)})</span>}
+                                                        </li>
+                                                    ))}
+                                                </ol>
+                                            ) : (
+                                                <span className="text-gray-400">No template; approvers are chosen per request.</span>
+                                            )}
+                                        </td>
+                                        <td className="px-6 py-4 whitespace-nowrap">
+                                            {template && (template.allowOverride ? 'Allowed' : <span className="flex items-center text-gray-700"><Lock size={14} className="mr-1" />Locked</span>)}
+                                        </td>
+                                        <td className="px-6 py-4 whitespace-nowrap">
+                                            {template?.slaHours && `${template.slaHours}h, then ${template.escalateTo ? describeWorkflowStep(template.escalateTo, getUserById) : 'administrators'}`}
+                                        </td>
+                                        <td className="px-6 py-4 text-right whitespace-nowrap">
+                                            <button onClick={() => openEditor(type)} className="font-semibold text-zankli-orange-700 hover:text-zankli-orange-800">
+                                                {template ? 'Edit' : 'Create'}
+                                            </button>
+                                            {template && (
+                                                <button onClick={() => handleRemove(type)} className="ml-4 text-gray-400 hover:text-red-600 align-middle" title="Remove template">
+                                                    <Trash2 size={16} />
+                                                </button>
+                                            )}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+                <TemplateEditorModal
+                    draft={draft}
+                    setDraft={setDraft}
+                    approvers={approvers}
+                    onClose={() => setDraft(null)}
+                    onSubmit={handleSubmit}
+                    isSubmitting={isSubmitting}
+                    error={submissionError}
+                />
+            </div>
+
+            <div className="bg-white p-6 rounded-lg shadow-md">
+                <div className="flex justify-between items-center mb-6">
+                    <div>
+                        <h2 className="text-xl font-bold text-gray-800">Routing Rules</h2>
+                        <p className="text-sm text-gray-500">Add or skip steps by amount, department and type. Rules are checked on submission and again when Internal Audit sets a final amount.</p>
+                    </div>
+                    <button onClick={() => openRuleEditor()} className="flex items-center px-4 py-2 bg-zankli-orange-600 text-white font-semibold rounded-lg hover:bg-zankli-orange-700 whitespace-nowrap">
+                        <Plus size={18} className="mr-1" />
+                        Add Rule
+                    </button>
+                </div>
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm text-left text-gray-500">
+                        <thead className="text-xs text-gray-700 uppercase bg-zankli-cream-100">
+                            <tr>
+                                <th scope="col" className="px-6 py-3">Rule</th>
+                                <th scope="col" className="px-6 py-3">When</th>
+                                <th scope="col" className="px-6 py-3">Then</th>
+                                <th scope="col" className="px-6 py-3"><span className="sr-only">Actions</span></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {routingRules.map(rule => (
+                                <tr key={rule.id} className={`bg-white border-b hover:bg-gray-50 ${rule.active ? '' : 'opacity-60'}`}>
+                                    <th scope="row" className="px-6 py-4 font-medium text-gray-900">
+                                        {rule.name}
+                                        {!rule.active && <span className="ml-2 text-xs font-normal text-gray-500">(inactive)</span>}
+                                    </th>
+                                    <td className="px-6 py-4">{describeRuleCondition(rule)}</td>
+                                    <td className="px-6 py-4 whitespace-nowrap">{rule.action === 'require' ? 'Require' : 'Skip'} {describeWorkflowStep(rule.step, getUserById)}</td>
+                                    <td className="px-6 py-4 text-right whitespace-nowrap">
+                                        <button onClick={() => openRuleEditor(rule)} className="font-semibold text-zankli-orange-700 hover:text-zankli-orange-800">Edit</button>
+                                        <button onClick={() => handleRuleRemove(rule)} className="ml-4 text-gray-400 hover:text-red-600 align-middle" title="Remove rule">
+                                            <Trash2 size={16} />
+                                        </button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    {routingRules.length === 0 && !fetchError && <p className="text-center text-gray-500 py-8">No routing rules.</p>}
+                </div>
+                <RuleEditorModal
+                    draft={ruleDraft}
+                    setDraft={setRuleDraft}
+                    approvers={approvers}
+                    onClose={() => setRuleDraft(null)}
+                    onSubmit={handleRuleSubmit}
+                    isSubmitting={isSubmitting}
+                    error={submissionError}
+                />
+            </div>
+
+            <StepRoleAssignment />
+        </div>
+    );
+};
+
+export default WorkflowTemplateManagement;
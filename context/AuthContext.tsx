@@ -1,12 +1,12 @@
 import React, { createContext, useState, useEffect, ReactNode, useMemo, useCallback } from 'react';
 import { User } from '../types.ts';
-import { supabase } from '../lib/supabaseClient.ts';
-import { AuthChangeEvent, Session } from '@supabase/supabase-js';
+import { dataAccess } from '../lib/dataAccess.ts';
+import { AuthSession } from '../lib/data/types.ts';
 import { Loader2 } from 'lucide-react';
 
 interface AuthContextType {
   currentUser: User | null;
-  session: Session | null;
+  session: AuthSession | null;
   login: (email: string, password: string) => Promise<{ error: string | null }>;
   logout: () => Promise<void>;
   isInitializing: boolean;
@@ -21,33 +21,29 @@ interface AuthProviderProps {
 
 export const AuthProvider = ({ children }: AuthProviderProps) => {
   const [currentUser, setCurrentUser] = useState<User | null>(null);
-  const [session, setSession] = useState<Session | null>(null);
+  const [session, setSession] = useState<AuthSession | null>(null);
   const [isInitializing, setIsInitializing] = useState(true);
   const [isAuthenticating, setIsAuthenticating] = useState(false);
 
   useEffect(() => {
     // This effect handles auth state changes and is the single source of truth.
-    const { data: { subscription } } = supabase.auth.onAuthStateChange(
-      async (_event: AuthChangeEvent, session: Session | null) => {
+    const unsubscribe = dataAccess.auth.onAuthStateChange(
+      async (session: AuthSession | null) => {
         setSession(session);
 
         if (session?.user) {
-          const { data: profile, error } = await supabase
-            .from('profiles')
-            .select('role, full_name')
-            .eq('id', session.user.id)
-            .single();
+          const { data: profile, error } = await dataAccess.profiles.getById(session.user.id);
 
           if (profile) {
             setCurrentUser({
               id: session.user.id,
-              email: session.user.email!,
+              email: session.user.email,
               role: profile.role,
-              fullName: profile.full_name,
+              fullName: profile.fullName,
             });
           } else {
             console.error("User authenticated but profile missing. Forcing logout.", error);
-            await supabase.auth.signOut();
+            await dataAccess.auth.signOut();
             setCurrentUser(null);
           }
         } else {
@@ -61,13 +57,13 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
     );
 
     return () => {
-      subscription?.unsubscribe();
+      unsubscribe();
     };
   }, []);
 
   const login = useCallback(async (email: string, password: string) => {
     setIsAuthenticating(true);
-    const { error } = await supabase.auth.signInWithPassword({ email, password });
+    const { error } = await dataAccess.auth.signInWithPassword(email, password);
     if (error) {
       // If the API call itself fails, immediately stop the authenticating state.
       setIsAuthenticating(false); 
@@ -78,7 +74,7 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
 
   const logout = useCallback(async () => {
     setIsAuthenticating(true);
-    const { error } = await supabase.auth.signOut();
+    const { error } = await dataAccess.auth.signOut();
     if (error) {
       console.error("Error logging out:", error.message);
       // If sign out fails, stop the authenticating state to prevent UI from being stuck.
@@ -0,0 +1,112 @@
+import React, { createContext, useState, ReactNode, useCallback, useEffect, useMemo } from 'react';
+import { Delegation } from '../types.ts';
+import { dataAccess } from '../lib/dataAccess.ts';
+import { useAuth } from '../hooks/useAuth.ts';
+import { actingApproverIds } from '../lib/delegations.ts';
+
+interface DelegationContextType {
+  delegations: Delegation[];
+  loading: boolean;
+  error: string | null;
+  // The signed-in user followed by the approvers they are covering for today.
+  actingForIds: string[];
+  saveDelegation: (delegation: Omit<Delegation, 'id'> & { id?: string }) => Promise<{ success: boolean; error: string | null }>;
+  removeDelegation: (id: string) => Promise<{ success: boolean; error: string | null }>;
+}
+
+export const DelegationContext = createContext<DelegationContextType | undefined>(undefined);
+
+interface DelegationProviderProps {
+  children?: ReactNode;
+}
+
+const describeNetworkError = (e: any) => {
+  if (e.message === 'Failed to fetch' && typeof navigator !== 'undefined' && !navigator.onLine) {
+    return "You appear to be offline. Please check your internet connection.";
+  }
+  return `A network error occurred. Please check your connection. Details: ${e.message}`;
+};
+
+export const DelegationProvider = ({ children }: DelegationProviderProps) => {
+  const [delegations, setDelegations] = useState<Delegation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { currentUser } = useAuth();
+
+  const fetchDelegations = useCallback(async () => {
+    setError(null);
+    try {
+        const { data, error: fetchError } = await dataAccess.delegations.list();
+        if (fetchError) {
+            const errorMessage = `Database error fetching approver cover: ${fetchError.message}`;
+            console.error(errorMessage, fetchError);
+            setError(errorMessage);
+        } else {
+            setDelegations(data || []);
+        }
+    } catch (e: any) {
+        const errorMessage = `Could not load approver cover. ${describeNetworkError(e)}`;
+        console.error(errorMessage, e);
+        setError(errorMessage);
+    } finally {
+        setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (currentUser) {
+        setLoading(true);
+        fetchDelegations();
+    } else {
+        setDelegations([]);
+        setLoading(false);
+    }
+  }, [currentUser, fetchDelegations]);
+
+  const saveDelegation = useCallback(async (delegation: Omit<Delegation, 'id'> & { id?: string }): Promise<{ success: boolean; error: string | null }> => {
+    try {
+        const { data, error: saveError } = await dataAccess.delegations.save(delegation);
+        if (saveError || !data) {
+            console.error('Failed to save cover:', saveError);
+            return { success: false, error: `Failed to save cover: ${saveError?.message || 'no cover returned'}` };
+        }
+        setDelegations(prev => (prev.some(d => d.id === data.id) ? prev.map(d => (d.id === data.id ? data : d)) : [...prev, data]));
+        return { success: true, error: null };
+    } catch (e: any) {
+        console.error('Network/unknown error saving cover:', e);
+        return { success: false, error: describeNetworkError(e) };
+    }
+  }, []);
+
+  const removeDelegation = useCallback(async (id: string): Promise<{ success: boolean; error: string | null }> => {
+    try {
+        const { error: removeError } = await dataAccess.delegations.remove(id);
+        if (removeError) {
+            console.error('Failed to cancel cover:', removeError);
+            return { success: false, error: `Failed to cancel cover: ${removeError.message}` };
+        }
+        setDelegations(prev => prev.filter(d => d.id !== id));
+        return { success: true, error: null };
+    } catch (e: any) {
+        console.error('Network/unknown error cancelling cover:', e);
+        return { success: false, error: describeNetworkError(e) };
+    }
+  }, []);
+
+  const actingForIds = useMemo(() => (currentUser ? actingApproverIds(delegations, currentUser.id) : []), [delegations, currentUser]);
+
+  const value = useMemo(() => ({
+    delegations,
+    loading,
+    error,
+    actingForIds,
+    saveDelegation,
+    removeDelegation,
+  }), [delegations, loading, error, actingForIds, saveDelegation, removeDelegation]);
+
+  return (
+    <DelegationContext.Provider value={value}>
+      {children}
+    </DelegationContext.Provider>
+  );
+};
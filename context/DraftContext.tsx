@@ -0,0 +1,187 @@
+import React, { createContext, useState, ReactNode, useCallback, useEffect, useMemo, useRef } from 'react';
+import { RequestDraft } from '../types.ts';
+import { dataAccess } from '../lib/dataAccess.ts';
+import { useAuth } from '../hooks/useAuth.ts';
+import { DraftFiles, deleteDraftFiles, readDraftFiles, storeDraftFiles } from '../lib/draftFiles.ts';
+import { mergeDrafts, pendingFileNames, readKeepDraftsOnServer, readLocalDrafts, sortDrafts, writeKeepDraftsOnServer, writeLocalDrafts } from '../lib/drafts.ts';
+
+type DraftInput = Omit<RequestDraft, 'ownerId' | 'updatedAt' | 'pendingFiles'>;
+
+interface DraftContextType {
+  // Newest first.
+  drafts: RequestDraft[];
+  loading: boolean;
+  error: string | null;
+  keepOnServer: boolean;
+  setKeepOnServer: (keep: boolean) => Promise<{ success: boolean; error: string | null }>;
+  saveDraft: (draft: DraftInput, files: DraftFiles) => Promise<{ success: boolean; error: string | null }>;
+  discardDraft: (id: string) => Promise<{ success: boolean; error: string | null }>;
+  loadDraftFiles: (id: string) => Promise<DraftFiles>;
+}
+
+export const DraftContext = createContext<DraftContextType | undefined>(undefined);
+
+interface DraftProviderProps {
+  children?: ReactNode;
+}
+
+const describeNetworkError = (e: any) => {
+  if (e.message === 'Failed to fetch' && typeof navigator !== 'undefined' && !navigator.onLine) {
+    return "You appear to be offline. Please check your internet connection.";
+  }
+  return `A network error occurred. Please check your connection. Details: ${e.message}`;
+};
+
+// Drafts are always saved in this browser. Users who choose to keep them on their account also get them
+// saved through dataAccess.drafts, so they can be resumed elsewhere; their files stay behind either way.
+export const DraftProvider = ({ children }: DraftProviderProps) => {
+  const [drafts, setDrafts] = useState<RequestDraft[]>([]);
+  const [keepOnServer, setKeepOnServerState] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { currentUser } = useAuth();
+  // The files last written for each draft, so autosaves that only change typed values don't rewrite them.
+  const storedFiles = useRef(new Map<string, DraftFiles>());
+
+  const updateDrafts = useCallback((userId: string, update: (prev: RequestDraft[]) => RequestDraft[]) => {
+    setDrafts(prev => {
+        const next = sortDrafts(update(prev));
+        writeLocalDrafts(userId, next);
+        return next;
+    });
+  }, []);
+
+  const fetchServerDrafts = useCallback(async (userId: string) => {
+    setError(null);
+    try {
+        const { data, error: fetchError } = await dataAccess.drafts.listMine();
+        if (fetchError) throw new Error(`Database error fetching drafts: ${fetchError.message}`);
+        updateDrafts(userId, prev => mergeDrafts(prev, data || []));
+    } catch (e: any) {
+        const errorMessage = e.message?.startsWith('Database error') ? e.message : `Could not load the drafts kept on your account. ${describeNetworkError(e)}`;
+        console.error(errorMessage, e);
+        setError(errorMessage);
+    }
+  }, [updateDrafts]);
+
+  useEffect(() => {
+    storedFiles.current.clear();
+    if (!currentUser) {
+        setDrafts([]);
+        setKeepOnServerState(false);
+        setLoading(false);
+        return;
+    }
+    const keep = readKeepDraftsOnServer(currentUser.id);
+    setDrafts(sortDrafts(readLocalDrafts(currentUser.id)));
+    setKeepOnServerState(keep);
+    if (!keep) {
+        setLoading(false);
+        return;
+    }
+    setLoading(true);
+    fetchServerDrafts(currentUser.id).finally(() => setLoading(false));
+  }, [currentUser, fetchServerDrafts]);
+
+  const saveDraft = useCallback(async (input: DraftInput, files: DraftFiles): Promise<{ success: boolean; error: string | null }> => {
+    if (!currentUser) return { success: false, error: "User not authenticated" };
+    const draft: RequestDraft = { ...input, ownerId: currentUser.id, pendingFiles: pendingFileNames(files), updatedAt: new Date().toISOString() };
+    updateDrafts(currentUser.id, prev => [...prev.filter(d => d.id !== draft.id), draft]);
+
+    const previousFiles = storedFiles.current.get(draft.id);
+    const filesChanged = !previousFiles
+        || Object.keys(previousFiles).length !== Object.keys(files).length
+        || Object.entries(files).some(([slot, file]) => previousFiles[slot] !== file);
+    try {
+        if (filesChanged) {
+            await storeDraftFiles(draft.id, files);
+            storedFiles.current.set(draft.id, files);
+        }
+    } catch (e: any) {
+        console.error('Failed to keep the files picked for a draft:', e);
+        return { success: false, error: `The draft was saved, but its files could not be kept: ${e?.message || 'storage is unavailable'}` };
+    }
+
+    if (!keepOnServer) return { success: true, error: null };
+    try {
+        const { error: saveError } = await dataAccess.drafts.save(draft);
+        if (saveError) {
+            console.error('Failed to save draft to the account:', saveError);
+            return { success: false, error: `Saved in this browser only: ${saveError.message}` };
+        }
+        return { success: true, error: null };
+    } catch (e: any) {
+        console.error('Network/unknown error saving draft:', e);
+        return { success: false, error: `Saved in this browser only. ${describeNetworkError(e)}` };
+    }
+  }, [currentUser, keepOnServer, updateDrafts]);
+
+  const discardDraft = useCallback(async (id: string): Promise<{ success: boolean; error: string | null }> => {
+    if (!currentUser) return { success: false, error: "User not authenticated" };
+    updateDrafts(currentUser.id, prev => prev.filter(d => d.id !== id));
+    storedFiles.current.delete(id);
+    try {
+        await deleteDraftFiles(id);
+        if (keepOnServer) {
+            const { error: removeError } = await dataAccess.drafts.remove(id);
+            if (removeError) {
+                console.error('Failed to remove draft from the account:', removeError);
+                return { success: false, error: `Failed to remove the draft from your account: ${removeError.message}` };
+            }
+        }
+        return { success: true, error: null };
+    } catch (e: any) {
+        console.error('Network/unknown error discarding draft:', e);
+        return { success: false, error: describeNetworkError(e) };
+    }
+  }, [currentUser, keepOnServer, updateDrafts]);
+
+  // Turning it on copies the drafts in this browser to the account and brings in those saved elsewhere.
+  const setKeepOnServer = useCallback(async (keep: boolean): Promise<{ success: boolean; error: string | null }> => {
+    if (!currentUser) return { success: false, error: "User not authenticated" };
+    writeKeepDraftsOnServer(currentUser.id, keep);
+    setKeepOnServerState(keep);
+    if (!keep) return { success: true, error: null };
+    try {
+        const results = await Promise.all(drafts.map(draft => dataAccess.drafts.save(draft)));
+        const failed = results.find(result => result.error);
+        if (failed?.error) {
+            console.error('Failed to copy drafts to the account:', failed.error);
+            return { success: false, error: `Some drafts could not be saved to your account: ${failed.error.message}` };
+        }
+        await fetchServerDrafts(currentUser.id);
+        return { success: true, error: null };
+    } catch (e: any) {
+        console.error('Network/unknown error copying drafts:', e);
+        return { success: false, error: describeNetworkError(e) };
+    }
+  }, [currentUser, drafts, fetchServerDrafts]);
+
+  const loadDraftFiles = useCallback(async (id: string): Promise<DraftFiles> => {
+    try {
+        const files = await readDraftFiles(id);
+        storedFiles.current.set(id, files);
+        return files;
+    } catch (e: any) {
+        console.error('Could not read the files picked for a draft:', e);
+        return {};
+    }
+  }, []);
+
+  const value = useMemo(() => ({
+    drafts,
+    loading,
+    error,
+    keepOnServer,
+    setKeepOnServer,
+    saveDraft,
+    discardDraft,
+    loadDraftFiles,
+  }), [drafts, loading, error, keepOnServer, setKeepOnServer, saveDraft, discardDraft, loadDraftFiles]);
+
+  return (
+    <DraftContext.Provider value={value}>
+      {children}
+    </DraftContext.Provider>
+  );
+};
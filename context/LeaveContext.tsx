@@ -0,0 +1,209 @@
+import React, { createContext, useState, ReactNode, useCallback, useEffect, useMemo } from 'react';
+import { ApprovalStatus, LeaveCalendarEntry, LeaveCategory, LeaveLedgerEntry, PublicHoliday, RequestType, StaffingLimit } from '../types.ts';
+import { dataAccess } from '../lib/dataAccess.ts';
+import { LeaveLedgerRepository } from '../lib/data/types.ts';
+import { useAuth } from '../hooks/useAuth.ts';
+import { useRequests } from '../hooks/useRequests.ts';
+import { leaveBalance, staffingLimitFor } from '../lib/leave.ts';
+
+type NewLeaveEntry = Parameters<LeaveLedgerRepository['record']>[0];
+
+interface LeaveContextType {
+  ledger: LeaveLedgerEntry[];
+  holidays: PublicHoliday[];
+  staffingLimits: StaffingLimit[];
+  loading: boolean;
+  error: string | null;
+  balanceFor: (userId: string, category: LeaveCategory, year: number) => number;
+  recordLeaveEntry: (entry: NewLeaveEntry) => Promise<{ success: boolean; error: string | null }>;
+  saveHoliday: (holiday: Omit<PublicHoliday, 'id'> & { id?: string }) => Promise<{ success: boolean; error: string | null }>;
+  removeHoliday: (id: string) => Promise<{ success: boolean; error: string | null }>;
+  maxOnLeaveFor: (department: string) => number;
+  saveStaffingLimit: (limit: Omit<StaffingLimit, 'id'> & { id?: string }) => Promise<{ success: boolean; error: string | null }>;
+  removeStaffingLimit: (id: string) => Promise<{ success: boolean; error: string | null }>;
+  // Fetched on demand for the dates on screen; not kept in the context.
+  listLeaveCalendar: (from: string, to: string) => Promise<{ entries: LeaveCalendarEntry[]; error: string | null }>;
+}
+
+export const LeaveContext = createContext<LeaveContextType | undefined>(undefined);
+
+interface LeaveProviderProps {
+  children?: ReactNode;
+}
+
+const describeNetworkError = (e: any) => {
+  if (e.message === 'Failed to fetch' && typeof navigator !== 'undefined' && !navigator.onLine) {
+    return "You appear to be offline. Please check your internet connection.";
+  }
+  return `A network error occurred. Please check your connection. Details: ${e.message}`;
+};
+
+export const LeaveProvider = ({ children }: LeaveProviderProps) => {
+  const [ledger, setLedger] = useState<LeaveLedgerEntry[]>([]);
+  const [holidays, setHolidays] = useState<PublicHoliday[]>([]);
+  const [staffingLimits, setStaffingLimits] = useState<StaffingLimit[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { currentUser } = useAuth();
+  const { onRequestChange } = useRequests();
+
+  const fetchLedger = useCallback(async () => {
+    const { data, error: fetchError } = await dataAccess.leaveLedger.list();
+    if (fetchError) throw new Error(`Database error fetching leave balances: ${fetchError.message}`);
+    setLedger(data || []);
+  }, []);
+
+  const fetchLeaveData = useCallback(async () => {
+    setError(null);
+    try {
+        const [holidaysResponse, limitsResponse] = await Promise.all([dataAccess.publicHolidays.list(), dataAccess.staffingLimits.list()]);
+        if (holidaysResponse.error) throw new Error(`Database error fetching public holidays: ${holidaysResponse.error.message}`);
+        if (limitsResponse.error) throw new Error(`Database error fetching staffing limits: ${limitsResponse.error.message}`);
+        setHolidays(holidaysResponse.data || []);
+        setStaffingLimits(limitsResponse.data || []);
+        await fetchLedger();
+    } catch (e: any) {
+        const errorMessage = e.message?.startsWith('Database error') ? e.message : `Could not load leave balances. ${describeNetworkError(e)}`;
+        console.error(errorMessage, e);
+        setError(errorMessage);
+    } finally {
+        setLoading(false);
+    }
+  }, [fetchLedger]);
+
+  useEffect(() => {
+    if (currentUser) {
+        setLoading(true);
+        fetchLeaveData();
+    } else {
+        setLedger([]);
+        setHolidays([]);
+        setStaffingLimits([]);
+        setLoading(false);
+    }
+  }, [currentUser, fetchLeaveData]);
+
+  // Approving a leave request charges the applicant's balance on the server.
+  useEffect(() => {
+    if (!currentUser) return;
+    return onRequestChange(({ record }) => {
+        if (record?.type === RequestType.LEAVE && record.status === ApprovalStatus.APPROVED) {
+            fetchLedger().catch(e => console.error('Could not refresh leave balances:', e));
+        }
+    });
+  }, [currentUser, onRequestChange, fetchLedger]);
+
+  const balanceFor = useCallback((userId: string, category: LeaveCategory, year: number) => leaveBalance(ledger, userId, category, year), [ledger]);
+
+  const recordLeaveEntry = useCallback(async (entry: NewLeaveEntry): Promise<{ success: boolean; error: string | null }> => {
+    try {
+        const { data, error: recordError } = await dataAccess.leaveLedger.record(entry);
+        if (recordError || !data) {
+            console.error('Failed to record leave entry:', recordError);
+            return { success: false, error: `Failed to record leave: ${recordError?.message || 'no entry returned'}` };
+        }
+        setLedger(prev => [...prev, data]);
+        return { success: true, error: null };
+    } catch (e: any) {
+        console.error('Network/unknown error recording leave:', e);
+        return { success: false, error: describeNetworkError(e) };
+    }
+  }, []);
+
+  const saveHoliday = useCallback(async (holiday: Omit<PublicHoliday, 'id'> & { id?: string }): Promise<{ success: boolean; error: string | null }> => {
+    try {
+        const { data, error: saveError } = await dataAccess.publicHolidays.save(holiday);
+        if (saveError || !data) {
+            console.error('Failed to save public holiday:', saveError);
+            const message = saveError?.code === '23505' ? `There is already a public holiday on ${holiday.date}.` : `Failed to save public holiday: ${saveError?.message || 'no holiday returned'}`;
+            return { success: false, error: message };
+        }
+        setHolidays(prev => (prev.some(h => h.id === data.id) ? prev.map(h => (h.id === data.id ? data : h)) : [...prev, data]).sort((a, b) => a.date.localeCompare(b.date)));
+        return { success: true, error: null };
+    } catch (e: any) {
+        console.error('Network/unknown error saving public holiday:', e);
+        return { success: false, error: describeNetworkError(e) };
+    }
+  }, []);
+
+  const removeHoliday = useCallback(async (id: string): Promise<{ success: boolean; error: string | null }> => {
+    try {
+        const { error: removeError } = await dataAccess.publicHolidays.remove(id);
+        if (removeError) {
+            console.error('Failed to remove public holiday:', removeError);
+            return { success: false, error: `Failed to remove public holiday: ${removeError.message}` };
+        }
+        setHolidays(prev => prev.filter(h => h.id !== id));
+        return { success: true, error: null };
+    } catch (e: any) {
+        console.error('Network/unknown error removing public holiday:', e);
+        return { success: false, error: describeNetworkError(e) };
+    }
+  }, []);
+
+  const maxOnLeaveFor = useCallback((department: string) => staffingLimitFor(staffingLimits, department), [staffingLimits]);
+
+  const saveStaffingLimit = useCallback(async (limit: Omit<StaffingLimit, 'id'> & { id?: string }): Promise<{ success: boolean; error: string | null }> => {
+    try {
+        const { data, error: saveError } = await dataAccess.staffingLimits.save(limit);
+        if (saveError || !data) {
+            console.error('Failed to save staffing limit:', saveError);
+            const message = saveError?.code === '23505' ? `There is already a staffing limit for ${limit.department.trim()}.` : `Failed to save staffing limit: ${saveError?.message || 'no limit returned'}`;
+            return { success: false, error: message };
+        }
+        setStaffingLimits(prev => (prev.some(l => l.id === data.id) ? prev.map(l => (l.id === data.id ? data : l)) : [...prev, data]).sort((a, b) => a.department.localeCompare(b.department)));
+        return { success: true, error: null };
+    } catch (e: any) {
+        console.error('Network/unknown error saving staffing limit:', e);
+        return { success: false, error: describeNetworkError(e) };
+    }
+  }, []);
+
+  const removeStaffingLimit = useCallback(async (id: string): Promise<{ success: boolean; error: string | null }> => {
+    try {
+        const { error: removeError } = await dataAccess.staffingLimits.remove(id);
+        if (removeError) {
+            console.error('Failed to remove staffing limit:', removeError);
+            return { success: false, error: `Failed to remove staffing limit: ${removeError.message}` };
+        }
+        setStaffingLimits(prev => prev.filter(l => l.id !== id));
+        return { success: true, error: null };
+    } catch (e: any) {
+        console.error('Network/unknown error removing staffing limit:', e);
+        return { success: false, error: describeNetworkError(e) };
+    }
+  }, []);
+
+  const listLeaveCalendar = useCallback(async (from: string, to: string): Promise<{ entries: LeaveCalendarEntry[]; error: string | null }> => {
+    try {
+        const { data, error: listError } = await dataAccess.leaveCalendar.list(from, to);
+        if (listError || !data) return { entries: [], error: `Could not load the leave calendar: ${listError?.message || 'no entries returned'}` };
+        return { entries: data, error: null };
+    } catch (e: any) {
+        console.error('Network/unknown error loading the leave calendar:', e);
+        return { entries: [], error: describeNetworkError(e) };
+    }
+  }, []);
+
+  const value = useMemo(() => ({
+    ledger,
+    holidays,
+    staffingLimits,
+    loading,
+    error,
+    balanceFor,
+    recordLeaveEntry,
+    saveHoliday,
+    removeHoliday,
+    maxOnLeaveFor,
+    saveStaffingLimit,
+    removeStaffingLimit,
+    listLeaveCalendar,
+  }), [ledger, holidays, staffingLimits, loading, error, balanceFor, recordLeaveEntry, saveHoliday, removeHoliday, maxOnLeaveFor, saveStaffingLimit, removeStaffingLimit, listLeaveCalendar]);
+
+  return (
+    <LeaveContext.Provider value={value}>
+      {children}
+    </LeaveContext.Provider>
+  );
+};
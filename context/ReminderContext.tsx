@@ -0,0 +1,89 @@
+import React, { createContext, useState, ReactNode, useCallback, useEffect, useMemo } from 'react';
+import { RequestReminder } from '../types.ts';
+import { dataAccess } from '../lib/dataAccess.ts';
+import { useAuth } from '../hooks/useAuth.ts';
+
+interface ReminderContextType {
+  // Reminders and escalation alerts addressed to the signed-in user, newest first.
+  reminders: RequestReminder[];
+  error: string | null;
+  sendReminder: (requestId: string) => Promise<{ success: boolean; error: string | null }>;
+}
+
+export const ReminderContext = createContext<ReminderContextType | undefined>(undefined);
+
+interface ReminderProviderProps {
+  children?: ReactNode;
+}
+
+const describeNetworkError = (e: any) => {
+  if (e.message === 'Failed to fetch' && typeof navigator !== 'undefined' && !navigator.onLine) {
+    return "You appear to be offline. Please check your internet connection.";
+  }
+  return `A network error occurred. Please check your connection. Details: ${e.message}`;
+};
+
+export const ReminderProvider = ({ children }: ReminderProviderProps) => {
+  const [reminders, setReminders] = useState<RequestReminder[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const { currentUser } = useAuth();
+
+  const fetchReminders = useCallback(async () => {
+    setError(null);
+    try {
+        const { data, error: fetchError } = await dataAccess.reminders.list();
+        if (fetchError) {
+            const errorMessage = `Database error fetching reminders: ${fetchError.message}`;
+            console.error(errorMessage, fetchError);
+            setError(errorMessage);
+        } else {
+            setReminders(data || []);
+        }
+    } catch (e: any) {
+        const errorMessage = `Could not load reminders. ${describeNetworkError(e)}`;
+        console.error(errorMessage, e);
+        setError(errorMessage);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!currentUser) {
+        setReminders([]);
+        return;
+    }
+    fetchReminders();
+
+    const unsubscribe = dataAccess.reminders.subscribe(change => {
+        const reminder = change.record;
+        if (change.eventType !== 'INSERT' || !reminder || reminder.recipientId !== currentUser.id) return;
+        setReminders(prev => (prev.some(r => r.id === reminder.id) ? prev : [reminder, ...prev]));
+    });
+    return unsubscribe;
+  }, [currentUser, fetchReminders]);
+
+  const sendReminder = useCallback(async (requestId: string): Promise<{ success: boolean; error: string | null }> => {
+    try {
+        const { error: sendError } = await dataAccess.reminders.send(requestId);
+        if (sendError) {
+            console.error('Failed to send reminder:', sendError);
+            return { success: false, error: `Failed to send reminder: ${sendError.message}` };
+        }
+        return { success: true, error: null };
+    } catch (e: any) {
+        console.error('Network/unknown error sending reminder:', e);
+        return { success: false, error: describeNetworkError(e) };
+    }
+  }, []);
+
+  const value = useMemo(() => ({
+    reminders,
+    error,
+    sendReminder,
+  }), [reminders, error, sendReminder]);
+
+  return (
+    <ReminderContext.Provider value={value}>
+      {children}
+    </ReminderContext.Provider>
+  );
+};
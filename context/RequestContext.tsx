@@ -1,23 +1,55 @@
 
 
-import React, { createContext, useState, ReactNode, useCallback, useEffect, useMemo } from 'react';
-import { Request, ApprovalStatus, PdfComment, RequestType, Approver, User, UserRole } from '../types.ts';
-import { supabase } from '../lib/supabaseClient.ts';
+import React, { createContext, useState, ReactNode, useCallback, useEffect, useMemo, useRef } from 'react';
+import { Request, ApprovalStatus, FulfilmentStage, RequestRevision, RequestEvent, ClientRequestEventKind, PdfComment, PdfCommentSummary, RequestType, Approver, User, UserRole, WorkflowRole, DistributiveOmit, DetailAdjustment, RequestDetails, ConsultationMode, ConsultationPosition } from '../types.ts';
+import { dataAccess } from '../lib/dataAccess.ts';
+import { DataResult, RowChange, Unsubscribe } from '../lib/data/types.ts';
+import { RequestQuery, RequestPage } from '../lib/data/requestQuery.ts';
 import { useAuth } from '../hooks/useAuth.ts';
+import { normaliseRequest, normaliseRequestDetails } from '../lib/requestDetails.ts';
+import { toSubmittedQueue } from '../lib/approvalSteps.ts';
+import { QuotationFiles } from '../lib/quotations.ts';
 
+// Requests are never loaded in bulk: lists page through `queryRequests` (see usePagedRequests) and follow
+// `onRequestChange`; a single request is read with `getRequest`.
 interface RequestContextType {
-  requests: Request[];
   users: User[];
   approvers: User[];
   loading: boolean;
   error: string | null;
-  addRequest: (request: Omit<Request, 'id' | 'createdAt' | 'status' | 'currentApproverIndex' | 'pdfComments'>, file: File | null) => Promise<{ success: boolean; error: string | null }>;
-  updateRequest: (request: Request, file: File | null) => Promise<{ success: boolean; error: string | null }>;
-  updateRequestStatus: (requestId: string, approverId: string, status: ApprovalStatus, comments: string, signature: string, hodComments?: string, auditDetails?: { internalAuditComments?: string; finalAmount?: number }) => Promise<{ success: boolean; error: string | null }>;
+  // Administrators start with the requests commented on lately (for their notifications); any other request's
+  // summary is there once `loadCommentSummary` fetched it or a new comment on it arrived.
+  commentSummaries: Record<string, PdfCommentSummary>;
+  loadCommentSummary: (requestId: string) => Promise<{ success: boolean; error: string | null }>;
+  // Only holds the requests whose comments have been loaded with `loadComments`.
+  commentsByRequest: Record<string, PdfComment[]>;
+  loadComments: (requestId: string) => Promise<{ success: boolean; error: string | null }>;
+  // Activity logs fetched with `loadEvents`. The backend logs every change made here; a loaded log is fetched again
+  // after one, and entries this session records are appended as they are written.
+  eventsByRequest: Record<string, RequestEvent[]>;
+  loadEvents: (requestId: string) => Promise<{ success: boolean; error: string | null }>;
+  // Viewing or downloading a request, the only activity the portal logs itself. Never fails the caller.
+  logRequestEvent: (requestId: string, kind: ClientRequestEventKind, detail?: string) => Promise<void>;
+  addRequest: (request: DistributiveOmit<Request, 'id' | 'createdAt' | 'status' | 'currentApproverIndex'>, file: File | null, quotationFiles?: QuotationFiles) => Promise<{ success: boolean; error: string | null }>;
+  updateRequest: (request: Request, file: File | null, quotationFiles?: QuotationFiles) => Promise<{ success: boolean; error: string | null }>;
+  updateRequestStatus: (requestId: string, approverId: string, status: ApprovalStatus, comments: string, signature: string, hodComments?: string, auditDetails?: { internalAuditComments?: string; finalAmount?: number; remainingQueue?: Approver[] }, adjustments?: DetailAdjustment[]) => Promise<{ success: boolean; error: string | null }>;
   updateItemRequestStatus: (requestId: string, status: ApprovalStatus) => Promise<{ success: boolean; error: string | null }>;
+  // Withdraws a pending or sent back request; only its requester or an administrator may.
+  cancelRequest: (requestId: string, reason: string) => Promise<{ success: boolean; error: string | null }>;
+  consultReviewer: (requestId: string, reviewerId: string, mode: ConsultationMode, position: ConsultationPosition, question: string) => Promise<{ success: boolean; error: string | null }>;
+  // Admin only: records the next fulfilment stage of an approved procurement or diesel requisition.
+  recordFulfilmentStage: (requestId: string, stage: FulfilmentStage, note?: string) => Promise<{ success: boolean; error: string | null }>;
   addPdfComment: (requestId: string, userId: string, userEmail: string, comment: string) => Promise<{ success: boolean; error: string | null }>;
   getUserById: (id: string) => User | undefined;
+  // Admin only: which step roles an approver can be routed and sign in.
+  setUserWorkflowRoles: (userId: string, roles: WorkflowRole[]) => Promise<{ success: boolean; error: string | null }>;
   refreshData: () => void;
+  queryRequests: (query: RequestQuery, cursor?: string | null) => Promise<{ page: RequestPage | null; error: string | null }>;
+  getRequest: (requestId: string) => Promise<{ request: Request | null; error: string | null }>;
+  // Earlier submissions of a request, oldest first; empty until it has been resubmitted.
+  listRevisions: (requestId: string) => Promise<{ revisions: RequestRevision[]; error: string | null }>;
+  // Notified of every request change, whether from realtime or our own mutations.
+  onRequestChange: (listener: (change: RowChange<Request>) => void) => Unsubscribe;
 }
 
 export const RequestContext = createContext<RequestContextType | undefined>(undefined);
@@ -27,7 +59,7 @@ interface RequestProviderProps {
 }
 
 const parseSupabaseError = (error: any, context: string): string => {
-    console.error(`Supabase error in ${context}:`, error);
+    console.error(`Database error in ${context}:`, error);
     if (error.message.includes('security violation') || error.message.includes('permission denied')) {
         return `Permission Denied: You do not have the required permissions to perform this action. Please contact an administrator. (Context: ${context})`;
     }
@@ -42,13 +74,45 @@ const parseNetworkError = (error: any, context: string): string => {
     return `A network error occurred. Please check your internet connection or browser extensions. (Context: ${context}, Details: ${error.message})`;
 }
 
+// Every row entering the context passes through here: details are validated and normalised for the
+// request's type, and approver emails are filled in from the loaded profiles (falling back to the email
+// stored on the queue entry).
+const formatRequest = (req: Request, userMap: Map<string, User>): Request => ({
+    ...normaliseRequest(req),
+    approvalQueue: (req.approvalQueue || []).map(approver => {
+        const user = userMap.get(approver.userId);
+        return {
+            ...approver,
+            userEmail: user?.email || approver.userEmail || `Unknown User (${(approver.userId || 'no-id').substring(0, 8)})`,
+        };
+    }),
+});
+
+// Summaries loaded at sign-in: requests commented on in this many days, the latest this many.
+const RECENT_COMMENT_DAYS = 30;
+const RECENT_COMMENT_SUMMARY_LIMIT = 50;
+
+const byCreatedAtAsc = (a: { createdAt: string }, b: { createdAt: string }) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+
 export const RequestProvider = ({ children }: RequestProviderProps) => {
-  const [requests, setRequests] = useState<Request[]>([]);
   const [users, setUsers] = useState<User[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [commentSummaries, setCommentSummaries] = useState<Record<string, PdfCommentSummary>>({});
+  const [commentsByRequest, setCommentsByRequest] = useState<Record<string, PdfComment[]>>({});
+  const [eventsByRequest, setEventsByRequest] = useState<Record<string, RequestEvent[]>>({});
   const { currentUser } = useAuth();
   const [refreshTrigger, setRefreshTrigger] = useState(0);
+  // Realtime handlers outlive individual renders, so they read the latest profiles through a ref.
+  const userMapRef = useRef(new Map<string, User>());
+  const requestChangeListeners = useRef(new Set<(change: RowChange<Request>) => void>());
+  // Comments already reflected in `commentSummaries`, so our own insert and its realtime echo count once.
+  const countedCommentIds = useRef(new Set<number>());
+  const loadedCommentRequestIds = useRef(new Set<string>());
+  // Requests whose comment summary is known (including having none), so a new comment can be counted on top.
+  const summarisedRequestIds = useRef(new Set<string>());
+  // Requests whose activity log has been loaded, so it is fetched again after a change.
+  const loadedEventRequestIds = useRef(new Set<string>());
 
   const approvers = useMemo(() => users.filter(u => u.role === UserRole.APPROVER), [users]);
   const getUserById = useCallback((id: string) => users.find(u => u.id === id), [users]);
@@ -60,81 +124,45 @@ export const RequestProvider = ({ children }: RequestProviderProps) => {
         if (!currentUser) {
             setLoading(false);
             setUsers([]);
-            setRequests([]);
+            setCommentSummaries({});
+            setCommentsByRequest({});
+            setEventsByRequest({});
+            loadedCommentRequestIds.current.clear();
+            countedCommentIds.current.clear();
+            summarisedRequestIds.current.clear();
+            loadedEventRequestIds.current.clear();
             return;
         }
         setLoading(true);
         setError(null);
+        setCommentsByRequest({});
+        setEventsByRequest({});
+        loadedCommentRequestIds.current.clear();
+        countedCommentIds.current.clear();
+        summarisedRequestIds.current.clear();
+        loadedEventRequestIds.current.clear();
 
         try {
-            const [usersResponse, requestsResponse, commentsResponse] = await Promise.all([
-                supabase.from('profiles').select('id, email, role, full_name'),
-                supabase.from('requests').select('*').order('created_at', { ascending: false }),
-                supabase.from('pdf_comments').select('*')
+            const since = new Date(Date.now() - RECENT_COMMENT_DAYS * 24 * 60 * 60 * 1000).toISOString();
+            const [usersResponse, summariesResponse] = await Promise.all([
+                dataAccess.profiles.list(),
+                currentUser.role === UserRole.ADMIN
+                    ? dataAccess.comments.listSummaries({ since, limit: RECENT_COMMENT_SUMMARY_LIMIT })
+                    : Promise.resolve({ data: [], error: null }),
             ]);
 
             if (usersResponse.error) throw usersResponse.error;
-            if (requestsResponse.error) throw requestsResponse.error;
-            if (commentsResponse.error) throw commentsResponse.error;
-
-            const formattedUsers = (usersResponse.data || []).map(p => ({
-                id: p.id,
-                email: p.email,
-                role: p.role,
-                fullName: p.full_name
-            })) as User[];
+            if (summariesResponse.error) throw summariesResponse.error;
+
+            const formattedUsers = usersResponse.data || [];
             setUsers(formattedUsers);
 
             const userMap = new Map<string, User>(formattedUsers.map(u => [u.id, u]));
+            userMapRef.current = userMap;
 
-            const commentsByRequestId = (commentsResponse.data || []).reduce((acc, c) => {
-                const comment: PdfComment = {
-                    id: c.id, requestId: c.request_id, userId: c.user_id,
-                    userEmail: c.user_email, comment: c.comment, createdAt: c.created_at
-                };
-                (acc[c.request_id] = acc[c.request_id] || []).push(comment);
-                return acc;
-            }, {} as Record<string, PdfComment[]>);
-
-            const formattedRequests = (requestsResponse.data || []).map((req): Request => {
-                const robustApprovalQueue = (req.approval_queue || []).map((approverInDb: any) => {
-                    const userId = approverInDb.user_id || approverInDb.userId;
-                    const user = userMap.get(userId);
-                    const baseApproverData = {
-                        userId: userId, status: approverInDb.status, comments: approverInDb.comments,
-                        approvedAt: approverInDb.approved_at, signature: approverInDb.signature,
-                        hodComments: approverInDb.hod_comments, internalAuditComments: approverInDb.internal_audit_comments,
-                        finalAmount: approverInDb.final_amount,
-                    };
-
-                    if (user) {
-                        return { ...baseApproverData, userEmail: user.email };
-                    } else {
-                         return {
-                            ...baseApproverData,
-                            userEmail: approverInDb.user_email || `Unknown User (${(userId || 'no-id').substring(0, 8)})`,
-                        };
-                    }
-                });
-
-                return {
-                    id: req.id,
-                    requesterId: req.requester_id,
-                    requesterName: req.requester_name,
-                    type: req.type,
-                    details: req.details,
-                    status: req.status,
-                    approvalQueue: robustApprovalQueue,
-                    currentApproverIndex: req.current_approver_index,
-                    createdAt: req.created_at,
-                    fileName: req.file_name,
-                    fileURL: req.file_url,
-                    pdfComments: commentsByRequestId[req.id] || [],
-                    requesterSignature: req.requester_signature,
-                    vendorId: req.vendor_id,
-                };
-            });
-            setRequests(formattedRequests);
+            const summaries: PdfCommentSummary[] = summariesResponse.data || [];
+            summaries.forEach(summary => summarisedRequestIds.current.add(summary.requestId));
+            setCommentSummaries(Object.fromEntries(summaries.map(summary => [summary.requestId, summary])));
         } catch (e: any) {
             let detailedMessage = `Details: ${e.message}`;
             if (e.message === 'Failed to fetch' && typeof navigator !== 'undefined' && !navigator.onLine) {
@@ -143,8 +171,8 @@ export const RequestProvider = ({ children }: RequestProviderProps) => {
             const errorMessage = `A network or unexpected error occurred while fetching data. This can be caused by network connectivity issues or ad-blockers. ${detailedMessage}`;
             console.error(errorMessage, e);
             setError(errorMessage);
-            setRequests([]);
             setUsers([]);
+            setCommentSummaries({});
         } finally {
             setLoading(false);
         }
@@ -153,7 +181,190 @@ export const RequestProvider = ({ children }: RequestProviderProps) => {
     fetchData();
   }, [currentUser, refreshTrigger]);
 
-  const addRequest = useCallback(async (newRequestData: Omit<Request, 'id' | 'createdAt' | 'status' | 'currentApproverIndex' | 'pdfComments'>, file: File | null): Promise<{ success: boolean; error: string | null }> => {
+  const loadCommentSummary = useCallback(async (requestId: string): Promise<{ success: boolean; error: string | null }> => {
+    if (summarisedRequestIds.current.has(requestId)) return { success: true, error: null };
+
+    try {
+        const { data, error } = await dataAccess.comments.listSummaries({ requestIds: [requestId] });
+        if (error) return { success: false, error: parseSupabaseError(error, 'load comment count') };
+
+        summarisedRequestIds.current.add(requestId);
+        const summary = (data || [])[0];
+        if (summary) setCommentSummaries(prev => ({ ...prev, [requestId]: summary }));
+        return { success: true, error: null };
+    } catch (e: any) {
+        return { success: false, error: parseNetworkError(e, 'load comment count') };
+    }
+  }, []);
+
+  // `isNew` marks a freshly inserted comment, which also bumps the request's comment summary (or, when that was
+  // never loaded, fetches it with the new comment counted).
+  const upsertComment = useCallback((comment: PdfComment, isNew: boolean) => {
+    setCommentsByRequest(prev => {
+        const loaded = prev[comment.requestId];
+        if (!loaded) return prev;
+        const others = loaded.filter(c => c.id !== comment.id);
+        return { ...prev, [comment.requestId]: [...others, comment].sort(byCreatedAtAsc) };
+    });
+
+    if (!isNew || comment.id === undefined || countedCommentIds.current.has(comment.id)) return;
+    countedCommentIds.current.add(comment.id);
+    if (!summarisedRequestIds.current.has(comment.requestId)) {
+        loadCommentSummary(comment.requestId);
+        return;
+    }
+    setCommentSummaries(prev => ({
+        ...prev,
+        [comment.requestId]: {
+            requestId: comment.requestId,
+            count: (prev[comment.requestId]?.count || 0) + 1,
+            lastCommentAt: comment.createdAt,
+            lastCommentUserId: comment.userId,
+            lastCommentUserEmail: comment.userEmail,
+            lastComment: comment.comment,
+        },
+    }));
+  }, [loadCommentSummary]);
+
+  const removeComment = useCallback((removed: Partial<PdfComment>) => {
+    setCommentsByRequest(prev => {
+        const requestId = removed.requestId || Object.keys(prev).find(id => prev[id].some(c => c.id === removed.id));
+        if (!requestId || !prev[requestId]) return prev;
+        return { ...prev, [requestId]: prev[requestId].filter(c => c.id !== removed.id) };
+    });
+
+    const requestId = removed.requestId;
+    if (!requestId) return;
+    setCommentSummaries(prev => {
+        const summary = prev[requestId];
+        if (!summary) return prev;
+        if (summary.count <= 1) {
+            const next = { ...prev };
+            delete next[requestId];
+            return next;
+        }
+        return { ...prev, [requestId]: { ...summary, count: summary.count - 1 } };
+    });
+  }, []);
+
+  const loadComments = useCallback(async (requestId: string): Promise<{ success: boolean; error: string | null }> => {
+    if (loadedCommentRequestIds.current.has(requestId)) return { success: true, error: null };
+
+    try {
+        const { data, error } = await dataAccess.comments.listForRequest(requestId);
+        if (error) return { success: false, error: parseSupabaseError(error, 'load PDF comments') };
+
+        const comments = data || [];
+        loadedCommentRequestIds.current.add(requestId);
+        comments.forEach(comment => { if (comment.id !== undefined) countedCommentIds.current.add(comment.id); });
+        // A comment may have arrived over realtime while the list was loading; keep whichever rows we have.
+        setCommentsByRequest(prev => {
+            const arrived = (prev[requestId] || []).filter(c => !comments.some(loaded => loaded.id === c.id));
+            return { ...prev, [requestId]: [...comments, ...arrived].sort(byCreatedAtAsc) };
+        });
+        return { success: true, error: null };
+    } catch (e: any) {
+        return { success: false, error: parseNetworkError(e, 'load PDF comments') };
+    }
+  }, []);
+
+  const applyRequestChange = useCallback((change: RowChange<Request>) => {
+    const forwarded = change.record ? { ...change, record: formatRequest(change.record, userMapRef.current) } : change;
+    requestChangeListeners.current.forEach(listener => listener(forwarded));
+  }, []);
+
+  const onRequestChange = useCallback((listener: (change: RowChange<Request>) => void): Unsubscribe => {
+    requestChangeListeners.current.add(listener);
+    return () => { requestChangeListeners.current.delete(listener); };
+  }, []);
+
+  // Re-reads a single request after one of our own mutations so the change shows up even before
+  // (or without) the realtime event for it.
+  const syncRequest = useCallback(async (requestId: string) => {
+    const { data, error: fetchError } = await dataAccess.requests.getById(requestId);
+    if (data) {
+        applyRequestChange({ eventType: 'UPDATE', record: data, oldRecord: { id: requestId } });
+    } else if (fetchError) {
+        console.error(`Could not reload request ${requestId}:`, fetchError);
+    }
+  }, [applyRequestChange]);
+
+  useEffect(() => {
+    if (!currentUser) return;
+
+    const unsubscribeRequests = dataAccess.requests.subscribe(applyRequestChange);
+    const unsubscribeComments = dataAccess.comments.subscribe(change => {
+        if (change.eventType === 'DELETE') {
+            if (change.oldRecord?.id !== undefined) removeComment(change.oldRecord);
+        } else if (change.record) {
+            upsertComment(change.record, change.eventType === 'INSERT');
+        }
+    });
+
+    return () => {
+        unsubscribeRequests();
+        unsubscribeComments();
+    };
+  }, [currentUser, applyRequestChange, upsertComment, removeComment]);
+
+  // Fetched every time, since other users' activity is not streamed.
+  const loadEvents = useCallback(async (requestId: string): Promise<{ success: boolean; error: string | null }> => {
+    try {
+        const { data, error } = await dataAccess.events.listForRequest(requestId);
+        if (error) return { success: false, error: parseSupabaseError(error, 'load activity') };
+
+        // An entry this session recorded while the log was loading may not be in it yet; keep whichever rows we have.
+        const events = data || [];
+        loadedEventRequestIds.current.add(requestId);
+        setEventsByRequest(prev => {
+            const recorded = (prev[requestId] || []).filter(e => !events.some(loaded => loaded.id === e.id));
+            return { ...prev, [requestId]: [...events, ...recorded].sort((a, b) => a.at.localeCompare(b.at)) };
+        });
+        return { success: true, error: null };
+    } catch (e: any) {
+        return { success: false, error: parseNetworkError(e, 'load activity') };
+    }
+  }, []);
+
+  // The entries the backend wrote for a change show up in a log that is already on screen; a failure only leaves it stale.
+  const reloadLoadedEvents = useCallback(async (requestId: string): Promise<void> => {
+    if (!loadedEventRequestIds.current.has(requestId)) return;
+    const { error } = await loadEvents(requestId);
+    if (error) console.error(`Could not reload the activity of request ${requestId}:`, error);
+  }, [loadEvents]);
+
+  // A view or download that could not be logged is reported on the console, never to the user.
+  const logRequestEvent = useCallback(async (requestId: string, kind: ClientRequestEventKind, detail?: string): Promise<void> => {
+    try {
+        const { data: recorded, error } = await dataAccess.events.record({ requestId, kind, detail: detail || undefined });
+        if (error || !recorded) {
+            console.error(`Could not record the ${kind} event for request ${requestId}:`, error);
+            return;
+        }
+        setEventsByRequest(prev => ({ ...prev, [requestId]: [...(prev[requestId] || []), recorded] }));
+    } catch (e: any) {
+        console.error(`Could not record the ${kind} event for request ${requestId}:`, e);
+    }
+  }, []);
+
+  // Uploads the quote documents picked in the form and records them on their quotations.
+  const attachQuotationFiles = useCallback(async (ownerId: string, details: RequestDetails, files: QuotationFiles): Promise<DataResult<RequestDetails>> => {
+    if (Object.keys(files).length === 0 || !('quotations' in details)) return { data: details, error: null };
+    const quotations = [];
+    for (const quotation of details.quotations) {
+        const file = files[quotation.id];
+        if (!file) {
+            quotations.push(quotation);
+            continue;
+        }
+        const { data: uploaded, error } = await dataAccess.attachments.upload(ownerId, file);
+        if (error || !uploaded) return { data: null, error: error || { message: 'No file details were returned.' } };
+        quotations.push({ ...quotation, ...uploaded });
+    }
+    return { data: { ...details, quotations }, error: null };
+  }, []);
+
+  const addRequest = useCallback(async (newRequestData: DistributiveOmit<Request, 'id' | 'createdAt' | 'status' | 'currentApproverIndex'>, file: File | null, quotationFiles: QuotationFiles = {}): Promise<{ success: boolean; error: string | null }> => {
     if (!currentUser) return { success: false, error: "User not authenticated" };
     
     try {
@@ -161,44 +372,35 @@ export const RequestProvider = ({ children }: RequestProviderProps) => {
         let fileName = '';
 
         if (file) {
-            const filePath = `${currentUser.id}/${Date.now()}_${file.name}`;
-            const { error: uploadError } = await supabase.storage
-                .from('request_attachments')
-                .upload(filePath, file);
-
-            if (uploadError) return { success: false, error: parseSupabaseError(uploadError, 'file upload') };
-
-            const { data: urlData } = supabase.storage
-                .from('request_attachments')
-                .getPublicUrl(filePath);
-            fileURL = urlData.publicUrl;
-            fileName = file.name;
+            const { data: uploaded, error: uploadError } = await dataAccess.attachments.upload(currentUser.id, file);
+            if (uploadError || !uploaded) return { success: false, error: parseSupabaseError(uploadError || { message: 'No file details were returned.' }, 'file upload') };
+            fileURL = uploaded.fileURL;
+            fileName = uploaded.fileName;
         }
 
-        const approvalQueueForDb = newRequestData.approvalQueue.map(approver => {
-            const user = getUserById(approver.userId);
-            return { user_id: approver.userId, user_email: approver.userEmail || user?.email, status: approver.status };
-        });
+        const { data: details, error: quotationUploadError } = await attachQuotationFiles(currentUser.id, newRequestData.details, quotationFiles);
+        if (quotationUploadError || !details) return { success: false, error: parseSupabaseError(quotationUploadError || { message: 'No file details were returned.' }, 'quotation upload') };
 
-        const requestForDb = {
-            requester_id: newRequestData.requesterId, requester_name: newRequestData.requesterName, type: newRequestData.type,
-            details: newRequestData.details, status: ApprovalStatus.PENDING, approval_queue: approvalQueueForDb,
-            current_approver_index: 0, file_url: fileURL, file_name: fileName,
-            requester_signature: newRequestData.requesterSignature, vendor_id: newRequestData.vendorId,
-        };
+        const approvalQueue = toSubmittedQueue(newRequestData.approvalQueue, id => getUserById(id)?.email);
 
-        const { error } = await supabase.from('requests').insert([requestForDb]);
+        const { data: created, error } = await dataAccess.requests.create({
+            requesterId: newRequestData.requesterId, requesterName: newRequestData.requesterName,
+            ...normaliseRequestDetails(newRequestData.type, details), approvalQueue, fileURL, fileName,
+            requesterSignature: newRequestData.requesterSignature, vendorId: newRequestData.vendorId,
+        });
 
         if (error) return { success: false, error: parseSupabaseError(error, 'add request') };
 
-        refreshData();
+        if (created) {
+            applyRequestChange({ eventType: 'INSERT', record: created, oldRecord: null });
+        }
         return { success: true, error: null };
     } catch (e: any) {
         return { success: false, error: parseNetworkError(e, 'add request') };
     }
-  }, [currentUser, getUserById, refreshData]);
+  }, [currentUser, getUserById, applyRequestChange, attachQuotationFiles]);
 
-  const updateRequest = useCallback(async (updatedRequestData: Request, file: File | null): Promise<{ success: boolean; error: string | null }> => {
+  const updateRequest = useCallback(async (updatedRequestData: Request, file: File | null, quotationFiles: QuotationFiles = {}): Promise<{ success: boolean; error: string | null }> => {
     if (!currentUser) return { success: false, error: "User not authenticated" };
     
     try {
@@ -206,94 +408,177 @@ export const RequestProvider = ({ children }: RequestProviderProps) => {
         let fileName = updatedRequestData.fileName || '';
 
         if (file) {
-            const filePath = `${currentUser.id}/${Date.now()}_${file.name}`;
-            const { error: uploadError } = await supabase.storage
-                .from('request_attachments')
-                .upload(filePath, file);
-
-            if (uploadError) return { success: false, error: parseSupabaseError(uploadError, 'file upload on update') };
-
-            const { data: urlData } = supabase.storage
-                .from('request_attachments')
-                .getPublicUrl(filePath);
-            fileURL = urlData.publicUrl;
-            fileName = file.name;
+            const { data: uploaded, error: uploadError } = await dataAccess.attachments.upload(currentUser.id, file);
+            if (uploadError || !uploaded) return { success: false, error: parseSupabaseError(uploadError || { message: 'No file details were returned.' }, 'file upload on update') };
+            fileURL = uploaded.fileURL;
+            fileName = uploaded.fileName;
         }
+
+        const { data: details, error: quotationUploadError } = await attachQuotationFiles(currentUser.id, updatedRequestData.details, quotationFiles);
+        if (quotationUploadError || !details) return { success: false, error: parseSupabaseError(quotationUploadError || { message: 'No file details were returned.' }, 'quotation upload on update') };
         
-        const approvalQueueForDb = updatedRequestData.approvalQueue.map(approver => {
-            const user = getUserById(approver.userId);
-            return { user_id: approver.userId, user_email: user?.email || approver.userEmail, status: ApprovalStatus.PENDING };
-        });
+        const approvalQueue = toSubmittedQueue(updatedRequestData.approvalQueue, id => getUserById(id)?.email);
 
-        const { error } = await supabase.rpc('resubmit_request_as_admin', {
-            p_request_id: updatedRequestData.id, p_requester_name: updatedRequestData.requesterName,
-            p_details: updatedRequestData.details, p_approval_queue: approvalQueueForDb,
-            p_vendor_id: updatedRequestData.vendorId || null, p_file_url: fileURL || null, p_file_name: fileName || null,
-            p_requester_signature: updatedRequestData.requesterSignature
+        const { error } = await dataAccess.requests.resubmitAsAdmin({
+            requestId: updatedRequestData.id, requesterName: updatedRequestData.requesterName,
+            details: normaliseRequestDetails(updatedRequestData.type, details).details, approvalQueue,
+            vendorId: updatedRequestData.vendorId || null, fileURL: fileURL || null, fileName: fileName || null,
+            requesterSignature: updatedRequestData.requesterSignature
         });
         
         if (error) return { success: false, error: parseSupabaseError(error, 'update request') };
         
-        refreshData();
+        await syncRequest(updatedRequestData.id);
+        await reloadLoadedEvents(updatedRequestData.id);
         return { success: true, error: null };
     } catch (e: any) {
         return { success: false, error: parseNetworkError(e, 'update request') };
     }
-  }, [currentUser, getUserById, refreshData]);
+  }, [currentUser, getUserById, syncRequest, reloadLoadedEvents, attachQuotationFiles]);
 
-  const updateRequestStatus = useCallback(async (requestId: string, approverId: string, action: ApprovalStatus, comments: string, signature: string, hodComments?: string, auditDetails?: { internalAuditComments?: string; finalAmount?: number }): Promise<{ success: boolean; error: string | null }> => {
+  const updateRequestStatus = useCallback(async (requestId: string, approverId: string, action: ApprovalStatus, comments: string, signature: string, hodComments?: string, auditDetails?: { internalAuditComments?: string; finalAmount?: number; remainingQueue?: Approver[] }, adjustments?: DetailAdjustment[]): Promise<{ success: boolean; error: string | null }> => {
     try {
-        const { error } = await supabase.rpc('handle_request_action', {
-            p_request_id: requestId, p_action: action, p_comments: comments || null, p_signature: signature,
-            p_hod_comments: hodComments || null, p_internal_audit_comments: auditDetails?.internalAuditComments || null,
-            p_final_amount: auditDetails?.finalAmount || null
+        const { error } = await dataAccess.requests.handleAction({
+            requestId, action, comments: comments || null, signature,
+            hodComments: hodComments || null, internalAuditComments: auditDetails?.internalAuditComments || null,
+            finalAmount: auditDetails?.finalAmount || null,
+            remainingQueue: auditDetails?.remainingQueue || null,
+            adjustments: adjustments || null,
         });
 
         if (error) return { success: false, error: parseSupabaseError(error, 'update request status') };
 
-        refreshData();
+        await syncRequest(requestId);
+        await reloadLoadedEvents(requestId);
         return { success: true, error: null };
     } catch (e: any) {
         return { success: false, error: parseNetworkError(e, 'update request status') };
     }
-  }, [refreshData]);
+  }, [syncRequest, reloadLoadedEvents]);
 
   const updateItemRequestStatus = useCallback(async (requestId: string, newStatus: ApprovalStatus): Promise<{ success: boolean; error: string | null }> => {
     try {
-        const { error } = await supabase.rpc('update_item_request_status_as_admin', {
-            p_request_id: requestId, p_new_status: newStatus
-        });
+        const { error } = await dataAccess.requests.updateItemStatusAsAdmin(requestId, newStatus);
 
         if (error) return { success: false, error: parseSupabaseError(error, 'update item request status') };
         
-        refreshData();
+        await syncRequest(requestId);
+        await reloadLoadedEvents(requestId);
         return { success: true, error: null };
     } catch (e: any) {
         return { success: false, error: parseNetworkError(e, 'update item request status') };
     }
-  }, [refreshData]);
+  }, [syncRequest, reloadLoadedEvents]);
+
+  const cancelRequest = useCallback(async (requestId: string, reason: string): Promise<{ success: boolean; error: string | null }> => {
+    try {
+        const { error } = await dataAccess.requests.cancel(requestId, reason);
+
+        if (error) return { success: false, error: parseSupabaseError(error, 'cancel request') };
+
+        await syncRequest(requestId);
+        await reloadLoadedEvents(requestId);
+        return { success: true, error: null };
+    } catch (e: any) {
+        return { success: false, error: parseNetworkError(e, 'cancel request') };
+    }
+  }, [syncRequest, reloadLoadedEvents]);
+
+  const consultReviewer = useCallback(async (requestId: string, reviewerId: string, mode: ConsultationMode, position: ConsultationPosition, question: string): Promise<{ success: boolean; error: string | null }> => {
+    try {
+        const { error } = await dataAccess.requests.consult({ requestId, reviewerId, mode, position, question: question.trim() || null });
+
+        if (error) return { success: false, error: parseSupabaseError(error, 'add reviewer') };
+
+        await syncRequest(requestId);
+        await reloadLoadedEvents(requestId);
+        return { success: true, error: null };
+    } catch (e: any) {
+        return { success: false, error: parseNetworkError(e, 'add reviewer') };
+    }
+  }, [syncRequest, reloadLoadedEvents]);
+
+  const recordFulfilmentStage = useCallback(async (requestId: string, stage: FulfilmentStage, note?: string): Promise<{ success: boolean; error: string | null }> => {
+    try {
+        const { error } = await dataAccess.requests.recordFulfilmentStage(requestId, stage, note);
+
+        if (error) return { success: false, error: parseSupabaseError(error, 'record fulfilment stage') };
+
+        await syncRequest(requestId);
+        await reloadLoadedEvents(requestId);
+        return { success: true, error: null };
+    } catch (e: any) {
+        return { success: false, error: parseNetworkError(e, 'record fulfilment stage') };
+    }
+  }, [syncRequest, reloadLoadedEvents]);
 
   const addPdfComment = useCallback(async (requestId: string, userId: string, userEmail: string, comment: string): Promise<{ success: boolean; error: string | null }> => {
     try {
-        const { error } = await supabase
-            .from('pdf_comments')
-            .insert([{ request_id: requestId, user_id: userId, user_email: userEmail, comment }]);
+        const { data: created, error } = await dataAccess.comments.add({ requestId, userId, userEmail, comment });
 
         if (error) return { success: false, error: parseSupabaseError(error, 'add PDF comment') };
         
-        refreshData();
+        if (created) upsertComment(created, true);
+        await reloadLoadedEvents(requestId);
         return { success: true, error: null };
     } catch (e: any) {
         return { success: false, error: parseNetworkError(e, 'add PDF comment') };
     }
-  }, [refreshData]);
+  }, [upsertComment, reloadLoadedEvents]);
+
+  const setUserWorkflowRoles = useCallback(async (userId: string, roles: WorkflowRole[]): Promise<{ success: boolean; error: string | null }> => {
+    try {
+        const { error } = await dataAccess.profiles.setWorkflowRoles(userId, roles);
+
+        if (error) return { success: false, error: parseSupabaseError(error, 'assign step roles') };
+
+        setUsers(prev => prev.map(u => (u.id === userId ? { ...u, workflowRoles: roles } : u)));
+        return { success: true, error: null };
+    } catch (e: any) {
+        return { success: false, error: parseNetworkError(e, 'assign step roles') };
+    }
+  }, []);
+
+  const queryRequests = useCallback(async (query: RequestQuery, cursor?: string | null): Promise<{ page: RequestPage | null; error: string | null }> => {
+    try {
+        const { data, error } = await dataAccess.requests.query(query, cursor);
+        if (error || !data) return { page: null, error: parseSupabaseError(error || { message: 'No results were returned.' }, 'query requests') };
+        return {
+            page: { ...data, items: data.items.map(req => formatRequest(req, userMapRef.current)) },
+            error: null,
+        };
+    } catch (e: any) {
+        return { page: null, error: parseNetworkError(e, 'query requests') };
+    }
+  }, []);
+
+  const getRequest = useCallback(async (requestId: string): Promise<{ request: Request | null; error: string | null }> => {
+    try {
+        const { data, error } = await dataAccess.requests.getById(requestId);
+        if (error || !data) return { request: null, error: parseSupabaseError(error || { message: 'No request was returned.' }, 'load request') };
+        return { request: formatRequest(data, userMapRef.current), error: null };
+    } catch (e: any) {
+        return { request: null, error: parseNetworkError(e, 'load request') };
+    }
+  }, []);
+
+  const listRevisions = useCallback(async (requestId: string): Promise<{ revisions: RequestRevision[]; error: string | null }> => {
+    try {
+        const { data, error } = await dataAccess.revisions.listForRequest(requestId);
+        if (error || !data) return { revisions: [], error: parseSupabaseError(error || { message: 'No revisions were returned.' }, 'load revisions') };
+        return { revisions: data, error: null };
+    } catch (e: any) {
+        return { revisions: [], error: parseNetworkError(e, 'load revisions') };
+    }
+  }, []);
 
   const value = useMemo(() => ({ 
-    requests, users, approvers, loading, error, 
+    users, approvers, loading, error, 
+    commentSummaries, loadCommentSummary, commentsByRequest, loadComments, eventsByRequest, loadEvents, logRequestEvent,
     addRequest, updateRequest, updateRequestStatus, 
-    updateItemRequestStatus, addPdfComment,
-    getUserById, refreshData,
-  }), [requests, users, approvers, loading, error, addRequest, updateRequest, updateRequestStatus, updateItemRequestStatus, addPdfComment, getUserById, refreshData]);
+    updateItemRequestStatus, cancelRequest, consultReviewer, recordFulfilmentStage, addPdfComment,
+    getUserById, setUserWorkflowRoles, refreshData, queryRequests, getRequest, listRevisions, onRequestChange,
+  }), [users, approvers, loading, error, commentSummaries, loadCommentSummary, commentsByRequest, loadComments, eventsByRequest, loadEvents, logRequestEvent, addRequest, updateRequest, updateRequestStatus, updateItemRequestStatus, cancelRequest, consultReviewer, recordFulfilmentStage, addPdfComment, getUserById, setUserWorkflowRoles, refreshData, queryRequests, getRequest, listRevisions, onRequestChange]);
 
   return (
     <RequestContext.Provider value={value}>
@@ -2,7 +2,7 @@
 
 import React, { createContext, useState, ReactNode, useCallback, useEffect, useMemo } from 'react';
 import { StoreItem } from '../types.ts';
-import { supabase } from '../lib/supabaseClient.ts';
+import { dataAccess } from '../lib/dataAccess.ts';
 import { useAuth } from '../hooks/useAuth.ts';
 
 interface StoreContextType {
@@ -26,21 +26,13 @@ export const StoreProvider = ({ children }: StoreProviderProps) => {
   const fetchStoreItems = useCallback(async () => {
     setError(null);
     try {
-        const { data, error: supabaseError } = await supabase.from('store_items').select('*');
-        if (supabaseError) {
-            const errorMessage = `Supabase error fetching store items: ${supabaseError.message}`;
-            console.error(errorMessage, supabaseError);
+        const { data, error: fetchError } = await dataAccess.storeItems.list();
+        if (fetchError) {
+            const errorMessage = `Database error fetching store items: ${fetchError.message}`;
+            console.error(errorMessage, fetchError);
             setError(errorMessage);
         } else if (data) {
-            const formattedItems = data.map(item => ({
-                id: item.id,
-                name: item.name,
-                purpose: item.purpose,
-                quantityInStock: item.quantity_in_stock,
-                lastPurchaseDate: item.last_purchase_date,
-                unitCost: item.unit_cost,
-            }));
-            setStoreItems(formattedItems as StoreItem[]);
+            setStoreItems(data);
         }
     } catch (e: any) {
         let detailedMessage = `Details: ${e.message}`;
@@ -61,15 +53,7 @@ export const StoreProvider = ({ children }: StoreProviderProps) => {
 
   const addStoreItem = useCallback(async (itemData: Omit<StoreItem, 'id'>): Promise<{ success: boolean; error: string | null }> => {
     try {
-        const itemForDb = {
-            name: itemData.name,
-            purpose: itemData.purpose,
-            quantity_in_stock: itemData.quantityInStock,
-            unit_cost: itemData.unitCost,
-            last_purchase_date: itemData.lastPurchaseDate,
-        };
-
-        const { error: insertError } = await supabase.from('store_items').insert([itemForDb]);
+        const { error: insertError } = await dataAccess.storeItems.create(itemData);
         if (insertError) {
             console.error('Failed to add store item:', insertError);
             return { success: false, error: `Failed to add store item: ${insertError.message}` };
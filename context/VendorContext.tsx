@@ -2,7 +2,7 @@
 
 import React, { createContext, useState, ReactNode, useCallback, useEffect, useMemo } from 'react';
 import { Vendor } from '../types.ts';
-import { supabase } from '../lib/supabaseClient.ts';
+import { dataAccess } from '../lib/dataAccess.ts';
 import { useAuth } from '../hooks/useAuth.ts';
 
 interface VendorContextType {
@@ -26,19 +26,13 @@ export const VendorProvider = ({ children }: VendorProviderProps) => {
   const fetchVendors = useCallback(async () => {
     setError(null);
     try {
-        const { data, error: supabaseError } = await supabase.from('vendors').select('*');
-        if (supabaseError) {
-            const errorMessage = `Supabase error fetching vendors: ${supabaseError.message}`;
-            console.error(errorMessage, supabaseError);
+        const { data, error: fetchError } = await dataAccess.vendors.list();
+        if (fetchError) {
+            const errorMessage = `Database error fetching vendors: ${fetchError.message}`;
+            console.error(errorMessage, fetchError);
             setError(errorMessage);
         } else if (data) {
-            const formattedVendors = data.map(vendor => ({
-                id: vendor.id,
-                name: vendor.name,
-                contactPerson: vendor.contact_person,
-                contactEmail: vendor.contact_email,
-            }));
-            setVendors(formattedVendors as Vendor[]);
+            setVendors(data);
         }
     } catch (e: any) {
         let detailedMessage = `Details: ${e.message}`;
@@ -59,12 +53,7 @@ export const VendorProvider = ({ children }: VendorProviderProps) => {
 
   const addVendor = useCallback(async (vendorData: Omit<Vendor, 'id'>): Promise<{ success: boolean; error: string | null }> => {
     try {
-        const vendorForDb = {
-            name: vendorData.name,
-            contact_person: vendorData.contactPerson,
-            contact_email: vendorData.contactEmail,
-        };
-        const { error: insertError } = await supabase.from('vendors').insert([vendorForDb]);
+        const { error: insertError } = await dataAccess.vendors.create(vendorData);
         if (insertError) {
             console.error('Failed to add vendor:', insertError);
             return { success: false, error: `Failed to add vendor: ${insertError.message}` };
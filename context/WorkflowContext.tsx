@@ -0,0 +1,155 @@
+import React, { createContext, useState, ReactNode, useCallback, useEffect, useMemo } from 'react';
+import { RequestType, RoutingRule, WorkflowTemplate } from '../types.ts';
+import { dataAccess } from '../lib/dataAccess.ts';
+import { useAuth } from '../hooks/useAuth.ts';
+
+interface WorkflowContextType {
+  templates: WorkflowTemplate[];
+  loading: boolean;
+  error: string | null;
+  saveTemplate: (template: Omit<WorkflowTemplate, 'id' | 'updatedAt'>) => Promise<{ success: boolean; error: string | null }>;
+  removeTemplate: (requestType: RequestType) => Promise<{ success: boolean; error: string | null }>;
+  getTemplateForType: (requestType: RequestType) => WorkflowTemplate | undefined;
+  routingRules: RoutingRule[];
+  saveRoutingRule: (rule: Omit<RoutingRule, 'id'> & { id?: string }) => Promise<{ success: boolean; error: string | null }>;
+  removeRoutingRule: (id: string) => Promise<{ success: boolean; error: string | null }>;
+}
+
+export const WorkflowContext = createContext<WorkflowContextType | undefined>(undefined);
+
+interface WorkflowProviderProps {
+  children?: ReactNode;
+}
+
+const describeNetworkError = (e: any) => {
+  if (e.message === 'Failed to fetch' && typeof navigator !== 'undefined' && !navigator.onLine) {
+    return "You appear to be offline. Please check your internet connection.";
+  }
+  return `A network error occurred. Please check your connection. Details: ${e.message}`;
+};
+
+export const WorkflowProvider = ({ children }: WorkflowProviderProps) => {
+  const [templates, setTemplates] = useState<WorkflowTemplate[]>([]);
+  const [routingRules, setRoutingRules] = useState<RoutingRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { currentUser } = useAuth();
+
+  const fetchTemplates = useCallback(async () => {
+    setError(null);
+    try {
+        const [templatesResult, rulesResult] = await Promise.all([
+            dataAccess.workflowTemplates.list(),
+            dataAccess.routingRules.list(),
+        ]);
+        const fetchError = templatesResult.error || rulesResult.error;
+        if (fetchError) {
+            const errorMessage = `Database error fetching approval workflows: ${fetchError.message}`;
+            console.error(errorMessage, fetchError);
+            setError(errorMessage);
+        } else {
+            setTemplates(templatesResult.data || []);
+            setRoutingRules(rulesResult.data || []);
+        }
+    } catch (e: any) {
+        const errorMessage = `Could not load approval workflows. ${describeNetworkError(e)}`;
+        console.error(errorMessage, e);
+        setError(errorMessage);
+    } finally {
+        setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (currentUser) {
+        setLoading(true);
+        fetchTemplates();
+    } else {
+        setTemplates([]);
+        setRoutingRules([]);
+        setLoading(false);
+    }
+  }, [currentUser, fetchTemplates]);
+
+  const saveTemplate = useCallback(async (template: Omit<WorkflowTemplate, 'id' | 'updatedAt'>): Promise<{ success: boolean; error: string | null }> => {
+    try {
+        const { data, error: saveError } = await dataAccess.workflowTemplates.save(template);
+        if (saveError || !data) {
+            console.error('Failed to save workflow template:', saveError);
+            return { success: false, error: `Failed to save workflow template: ${saveError?.message || 'no template returned'}` };
+        }
+        setTemplates(prev => [...prev.filter(t => t.requestType !== data.requestType), data]);
+        return { success: true, error: null };
+    } catch (e: any) {
+        console.error('Network/unknown error saving workflow template:', e);
+        return { success: false, error: describeNetworkError(e) };
+    }
+  }, []);
+
+  const removeTemplate = useCallback(async (requestType: RequestType): Promise<{ success: boolean; error: string | null }> => {
+    try {
+        const { error: removeError } = await dataAccess.workflowTemplates.remove(requestType);
+        if (removeError) {
+            console.error('Failed to remove workflow template:', removeError);
+            return { success: false, error: `Failed to remove workflow template: ${removeError.message}` };
+        }
+        setTemplates(prev => prev.filter(t => t.requestType !== requestType));
+        return { success: true, error: null };
+    } catch (e: any) {
+        console.error('Network/unknown error removing workflow template:', e);
+        return { success: false, error: describeNetworkError(e) };
+    }
+  }, []);
+
+  const saveRoutingRule = useCallback(async (rule: Omit<RoutingRule, 'id'> & { id?: string }): Promise<{ success: boolean; error: string | null }> => {
+    try {
+        const { data, error: saveError } = await dataAccess.routingRules.save(rule);
+        if (saveError || !data) {
+            console.error('Failed to save routing rule:', saveError);
+            return { success: false, error: `Failed to save routing rule: ${saveError?.message || 'no rule returned'}` };
+        }
+        setRoutingRules(prev => (prev.some(r => r.id === data.id) ? prev.map(r => (r.id === data.id ? data : r)) : [...prev, data]));
+        return { success: true, error: null };
+    } catch (e: any) {
+        console.error('Network/unknown error saving routing rule:', e);
+        return { success: false, error: describeNetworkError(e) };
+    }
+  }, []);
+
+  const removeRoutingRule = useCallback(async (id: string): Promise<{ success: boolean; error: string | null }> => {
+    try {
+        const { error: removeError } = await dataAccess.routingRules.remove(id);
+        if (removeError) {
+            console.error('Failed to remove routing rule:', removeError);
+            return { success: false, error: `Failed to remove routing rule: ${removeError.message}` };
+        }
+        setRoutingRules(prev => prev.filter(r => r.id !== id));
+        return { success: true, error: null };
+    } catch (e: any) {
+        console.error('Network/unknown error removing routing rule:', e);
+        return { success: false, error: describeNetworkError(e) };
+    }
+  }, []);
+
+  const getTemplateForType = useCallback((requestType: RequestType) => {
+    return templates.find(t => t.requestType === requestType);
+  }, [templates]);
+
+  const value = useMemo(() => ({
+    templates,
+    loading,
+    error,
+    saveTemplate,
+    removeTemplate,
+    getTemplateForType,
+    routingRules,
+    saveRoutingRule,
+    removeRoutingRule,
+  }), [templates, loading, error, saveTemplate, removeTemplate, getTemplateForType, routingRules, saveRoutingRule, removeRoutingRule]);
+
+  return (
+    <WorkflowContext.Provider value={value}>
+      {children}
+    </WorkflowContext.Provider>
+  );
+};
@@ -0,0 +1,10 @@
+import { useContext } from 'react';
+import { DelegationContext } from '../context/DelegationContext.tsx';
+
+export const useDelegations = () => {
+  const context = useContext(DelegationContext);
+  if (context === undefined) {
+    throw new Error('useDelegations must be used within a DelegationProvider');
+  }
+  return context;
+};
@@ -0,0 +1,10 @@
+import { useContext } from 'react';
+import { DraftContext } from '../context/DraftContext.tsx';
+
+export const useDrafts = () => {
+  const context = useContext(DraftContext);
+  if (context === undefined) {
+    throw new Error('useDrafts must be used within a DraftProvider');
+  }
+  return context;
+};
@@ -0,0 +1,10 @@
+import { useContext } from 'react';
+import { LeaveContext } from '../context/LeaveContext.tsx';
+
+export const useLeave = () => {
+  const context = useContext(LeaveContext);
+  if (context === undefined) {
+    throw new Error('useLeave must be used within a LeaveProvider');
+  }
+  return context;
+};
@@ -0,0 +1,39 @@
+import { useState, useEffect } from 'react';
+import { LeaveCalendarEntry, RequestType } from '../types.ts';
+import { useRequests } from './useRequests.ts';
+import { useLeave } from './useLeave.ts';
+
+// Loads the pending and approved leave overlapping the inclusive ISO dates; nothing is loaded while either is
+// empty. The calendar is fetched again whenever RequestContext passes on a change to a leave request.
+export const useLeaveCalendar = (from: string, to: string) => {
+  const { listLeaveCalendar } = useLeave();
+  const { onRequestChange } = useRequests();
+  const [entries, setEntries] = useState<LeaveCalendarEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [leaveChanges, setLeaveChanges] = useState(0);
+
+  // A deleted row carries no type, so it counts as a possible leave change.
+  useEffect(() => onRequestChange(({ record }) => {
+    if (!record || record.type === RequestType.LEAVE) setLeaveChanges(count => count + 1);
+  }), [onRequestChange]);
+
+  useEffect(() => {
+    if (!from || !to) {
+      setEntries([]);
+      return;
+    }
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    listLeaveCalendar(from, to).then(result => {
+      if (cancelled) return;
+      setEntries(result.entries);
+      setError(result.error);
+      setLoading(false);
+    });
+    return () => { cancelled = true; };
+  }, [from, to, leaveChanges, listLeaveCalendar]);
+
+  return { entries, loading, error };
+};
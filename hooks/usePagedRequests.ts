@@ -0,0 +1,98 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Request } from '../types.ts';
+import { useRequests } from './useRequests.ts';
+import { RequestQuery, matchesRequestQuery, compareRequests } from '../lib/data/requestQuery.ts';
+
+// Loads requests matching `query` one page at a time and keeps the loaded pages in step with
+// realtime changes. Pass `null` to hold off loading (for example while the current user is unknown).
+export const usePagedRequests = (query: RequestQuery | null) => {
+  const { queryRequests, onRequestChange } = useRequests();
+  const [items, setItems] = useState<Request[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [totalCount, setTotalCount] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Queries are usually built inline, so compare them by value; a ref lets stale responses be dropped.
+  const queryKey = JSON.stringify(query);
+  const activeQueryKey = useRef(queryKey);
+  // Realtime changes are applied against the latest items without waiting for a re-render.
+  const itemsRef = useRef<Request[]>([]);
+
+  const updateItems = useCallback((next: Request[]) => {
+    itemsRef.current = next;
+    setItems(next);
+  }, []);
+
+  useEffect(() => {
+    activeQueryKey.current = queryKey;
+    updateItems([]);
+    setNextCursor(null);
+    setTotalCount(0);
+    setError(null);
+    setLoading(false);
+    setLoadingMore(false);
+    if (!query) return;
+
+    const loadFirstPage = async () => {
+      setLoading(true);
+      const { page, error: queryError } = await queryRequests(query);
+      if (activeQueryKey.current !== queryKey) return;
+      if (page) {
+        updateItems(page.items);
+        setNextCursor(page.nextCursor);
+        setTotalCount(page.totalCount);
+      }
+      setError(queryError);
+      setLoading(false);
+    };
+    loadFirstPage();
+  }, [queryKey, queryRequests, updateItems]);
+
+  const loadMore = useCallback(async () => {
+    if (!query || !nextCursor || loading || loadingMore) return;
+    setLoadingMore(true);
+    const { page, error: queryError } = await queryRequests(query, nextCursor);
+    if (activeQueryKey.current !== queryKey) return;
+    if (page) {
+      const loaded = itemsRef.current;
+      updateItems([...loaded, ...page.items.filter(item => !loaded.some(r => r.id === item.id))]);
+      setNextCursor(page.nextCursor);
+      setTotalCount(page.totalCount);
+    }
+    setError(queryError);
+    setLoadingMore(false);
+  }, [queryKey, nextCursor, loading, loadingMore, queryRequests, updateItems]);
+
+  useEffect(() => {
+    if (!query) return;
+    const sort = compareRequests(query.sort);
+
+    return onRequestChange(change => {
+      const changedId = change.record?.id || change.oldRecord?.id;
+      if (!changedId) return;
+
+      const prev = itemsRef.current;
+      const wasLoaded = prev.some(r => r.id === changedId);
+      const remaining = prev.filter(r => r.id !== changedId);
+      const record = change.eventType !== 'DELETE' ? change.record : null;
+
+      if (!record || !matchesRequestQuery(record, query)) {
+        if (!wasLoaded) return;
+        updateItems(remaining);
+        setTotalCount(count => Math.max(0, count - 1));
+        return;
+      }
+
+      // Rows that sort past the last loaded one will arrive with a later page instead.
+      const last = remaining[remaining.length - 1];
+      if (!wasLoaded && nextCursor && last && sort(record, last) > 0) return;
+
+      updateItems([...remaining, record].sort(sort));
+      if (!wasLoaded) setTotalCount(count => count + 1);
+    });
+  }, [queryKey, nextCursor, onRequestChange, updateItems]);
+
+  return { items, totalCount, hasMore: !!nextCursor, loading, loadingMore, error, loadMore };
+};
@@ -0,0 +1,10 @@
+import { useContext } from 'react';
+import { ReminderContext } from '../context/ReminderContext.tsx';
+
+export const useReminders = () => {
+  const context = useContext(ReminderContext);
+  if (context === undefined) {
+    throw new Error('useReminders must be used within a ReminderProvider');
+  }
+  return context;
+};
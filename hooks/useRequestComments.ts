@@ -0,0 +1,20 @@
+import { useState, useEffect } from 'react';
+import { useRequests } from './useRequests.ts';
+
+// Loads a request's PDF comments on first use; they stay cached (and live) in the RequestContext afterwards.
+export const useRequestComments = (requestId: string) => {
+  const { commentsByRequest, loadComments } = useRequests();
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setError(null);
+    loadComments(requestId).then(result => {
+      if (!cancelled) setError(result.error);
+    });
+    return () => { cancelled = true; };
+  }, [requestId, loadComments]);
+
+  const comments = commentsByRequest[requestId];
+  return { comments: comments || [], loading: !comments && !error, error };
+};
@@ -0,0 +1,20 @@
+import { useState, useEffect } from 'react';
+import { useRequests } from './useRequests.ts';
+
+// Loads a request's activity log each time it is opened; entries recorded in this session are appended as they happen.
+export const useRequestEvents = (requestId: string) => {
+  const { eventsByRequest, loadEvents } = useRequests();
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setError(null);
+    loadEvents(requestId).then(result => {
+      if (!cancelled) setError(result.error);
+    });
+    return () => { cancelled = true; };
+  }, [requestId, loadEvents]);
+
+  const events = eventsByRequest[requestId];
+  return { events: events || [], loading: !events && !error, error };
+};
@@ -0,0 +1,27 @@
+import { useState, useEffect } from 'react';
+import { RequestRevision } from '../types.ts';
+import { useRequests } from './useRequests.ts';
+
+// Loads a request's earlier submissions. They only change when the request is resubmitted, so they are
+// fetched again when its status moves rather than kept live.
+export const useRequestRevisions = (requestId: string, status?: string) => {
+  const { listRevisions } = useRequests();
+  const [revisions, setRevisions] = useState<RequestRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    listRevisions(requestId).then(result => {
+      if (cancelled) return;
+      setRevisions(result.revisions);
+      setError(result.error);
+      setLoading(false);
+    });
+    return () => { cancelled = true; };
+  }, [requestId, status, listRevisions]);
+
+  return { revisions, loading, error };
+};
@@ -0,0 +1,10 @@
+import { useContext } from 'react';
+import { WorkflowContext } from '../context/WorkflowContext.tsx';
+
+export const useWorkflows = () => {
+  const context = useContext(WorkflowContext);
+  if (context === undefined) {
+    throw new Error('useWorkflows must be used within a WorkflowProvider');
+  }
+  return context;
+};
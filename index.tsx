@@ -6,6 +6,11 @@ import { AuthProvider } from './context/AuthContext.tsx';
 import { RequestProvider } from './context/RequestContext.tsx';
 import { VendorProvider } from './context/VendorContext.tsx';
 import { StoreProvider } from './context/StoreContext.tsx';
+import { WorkflowProvider } from './context/WorkflowContext.tsx';
+import { DelegationProvider } from './context/DelegationContext.tsx';
+import { ReminderProvider } from './context/ReminderContext.tsx';
+import { LeaveProvider } from './context/LeaveContext.tsx';
+import { DraftProvider } from './context/DraftContext.tsx';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -20,7 +25,17 @@ root.render(
       <RequestProvider>
         <VendorProvider>
           <StoreProvider>
-            <App />
+            <WorkflowProvider>
+              <DelegationProvider>
+                <ReminderProvider>
+                  <LeaveProvider>
+                    <DraftProvider>
+                      <App />
+                    </DraftProvider>
+                  </LeaveProvider>
+                </ReminderProvider>
+              </DelegationProvider>
+            </WorkflowProvider>
           </StoreProvider>
         </VendorProvider>
       </RequestProvider>
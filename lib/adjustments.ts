@@ -0,0 +1,109 @@
+import { Approver, DetailAdjustment, ProcurementLineItem, StoreRequisitionItem, TypedRequestDetails } from '../types.ts';
+import { getRequestTypeDefinition } from './requestTypes.ts';
+import { RawDetails, formatCurrency, toNumber } from './fieldValues.ts';
+import {
+  LineItemRow, describeLineItems, describeRequestDetails, formatDetailField, isLineItemField, normaliseRequestDetails, readDetailField,
+  readLineItems, toLineItemRow,
+} from './requestDetails.ts';
+
+// A value an approver may change as they approve: an adjustable field, or the quantity of one line of an
+// adjustable line-item field.
+export interface AdjustableValue {
+  field: string;
+  itemId?: string;
+  label: string;
+  value: number;
+}
+
+// A detail row, line quantity or line-item total that differs between two versions of a request's details.
+export interface ChangedDetail {
+  label: string;
+  from: string;
+  to: string;
+}
+
+export const lineQuantityLabel = (item: LineItemRow): string => `${item.name} quantity`;
+export const lineTotalLabel = (tableLabel: string): string => `${tableLabel} total`;
+
+export type ProposedAdjustment = Pick<DetailAdjustment, 'field' | 'itemId' | 'to'>;
+
+export const adjustmentKey = ({ field, itemId }: { field: string; itemId?: string }): string => (itemId ? `${field}:${itemId}` : field);
+
+export const adjustableValues = ({ type, details }: TypedRequestDetails): AdjustableValue[] =>
+  getRequestTypeDefinition(type).fields.filter(field => field.adjustable).flatMap((field): AdjustableValue[] => {
+    if (!isLineItemField(field)) return [{ field: field.key, label: field.formLabel || field.label, value: toNumber(readDetailField(details, field.key)) }];
+    return readLineItems(details, field).map(item => ({ field: field.key, itemId: item.id, label: `${item.name} (quantity)`, value: item.quantity }));
+  });
+
+// The details with the adjusted values put in and the computed fields (totals) recomputed.
+export const applyAdjustments = ({ type, details }: TypedRequestDetails, adjustments: ProposedAdjustment[]): TypedRequestDetails => {
+  const fields = getRequestTypeDefinition(type).fields;
+  const raw: RawDetails = { ...details };
+  adjustments.forEach(({ field, itemId, to }) => {
+    const definition = fields.find(f => f.key === field);
+    if (!itemId || !definition) {
+      raw[field] = to;
+      return;
+    }
+    const lines: (StoreRequisitionItem | ProcurementLineItem)[] = raw[field] || [];
+    raw[field] = lines.map(line => (toLineItemRow(definition, line).id === itemId ? { ...line, quantity: to } : line));
+  });
+  return normaliseRequestDetails(type, raw);
+};
+
+// Checks adjustments against the details they were made on; returns one message per problem.
+export const validateAdjustments = (typed: TypedRequestDetails, adjustments: DetailAdjustment[]): string[] => {
+  const values = adjustableValues(typed);
+  return adjustments.flatMap(adjustment => {
+    const current = values.find(v => adjustmentKey(v) === adjustmentKey(adjustment));
+    if (!current) return [`${adjustmentKey(adjustment)} cannot be adjusted.`];
+    if (current.value !== adjustment.from) return [`${current.label} has changed since the request was opened.`];
+    if (!Number.isFinite(adjustment.to) || adjustment.to <= 0) return [`${current.label} must be greater than zero.`];
+    return [];
+  });
+};
+
+// Every adjustment made on the request so far, oldest first.
+export const requestAdjustments = (approvalQueue: Approver[]): DetailAdjustment[] => approvalQueue.flatMap(a => a.adjustments || []);
+
+// The details as submitted, before any approver adjusted them; null when nothing was adjusted.
+export const originalDetails = (typed: TypedRequestDetails, approvalQueue: Approver[]): TypedRequestDetails | null => {
+  const adjustments = requestAdjustments(approvalQueue);
+  if (adjustments.length === 0) return null;
+  // Undone latest first, so each value ends up at what it was before its first adjustment.
+  return applyAdjustments(typed, [...adjustments].reverse().map(a => ({ field: a.field, itemId: a.itemId, to: a.from })));
+};
+
+// A readable label and before/after values for one adjustment.
+export const describeAdjustment = ({ type, details }: TypedRequestDetails, adjustment: DetailAdjustment): ChangedDetail => {
+  const field = getRequestTypeDefinition(type).fields.find(f => f.key === adjustment.field);
+  if (adjustment.itemId) {
+    const item = field ? readLineItems(details, field).find(i => i.id === adjustment.itemId) : undefined;
+    return { label: item ? lineQuantityLabel(item) : `${adjustment.itemId} quantity`, from: String(adjustment.from), to: String(adjustment.to) };
+  }
+  if (!field) return { label: adjustment.field, from: String(adjustment.from), to: String(adjustment.to) };
+  return { label: field.label, from: formatDetailField(field, adjustment.from), to: formatDetailField(field, adjustment.to) };
+};
+
+// What differs between two versions of the same request's details, e.g. as submitted and as approved.
+export const changedDetails = (before: TypedRequestDetails, after: TypedRequestDetails): ChangedDetail[] => {
+  const beforeRows = describeRequestDetails(before);
+  const beforeTables = describeLineItems(before);
+  return [
+    ...describeRequestDetails(after).map((row, index) => ({ label: row.label, from: beforeRows[index]?.value ?? '', to: row.value })),
+    ...describeLineItems(after).flatMap((table, index) => [
+      ...table.items.map(item => ({
+        label: lineQuantityLabel(item),
+        from: String(beforeTables[index]?.items.find(i => i.id === item.id)?.quantity ?? ''),
+        to: String(item.quantity),
+      })),
+      { label: lineTotalLabel(table.label), from: formatCurrency(beforeTables[index]?.total ?? 0), to: formatCurrency(table.total) },
+    ]),
+  ].filter(change => change.from !== change.to);
+};
+
+// The values approvers have adjusted on a request, from as submitted to as they stand now.
+export const describeAdjustedDetails = (typed: TypedRequestDetails, approvalQueue: Approver[]): ChangedDetail[] => {
+  const original = originalDetails(typed, approvalQueue);
+  return original ? changedDetails(original, typed) : [];
+};
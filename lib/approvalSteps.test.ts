@@ -0,0 +1,116 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { ApprovalStatus, Approver, Consultation, RequestType, User, UserRole, WorkflowRole, WorkflowTemplate } from '../types.ts';
+import { DataAccess } from './data/types.ts';
+import { createLocalDataAccess } from './data/localDataAccess.ts';
+import { createLocalSeed } from './data/localSeed.ts';
+import { normaliseRequestDetails } from './requestDetails.ts';
+import { applyStepSlas, currentStepDueAt } from './sla.ts';
+import { QueuedApprover, currentStepRoleOf, groupApprovalSteps, toPendingApprovers, toSubmittedQueue } from './approvalSteps.ts';
+
+const hod: User = { id: 'local-hod', email: 'hod@zankli.local', role: UserRole.APPROVER };
+const finance: User = { id: 'local-finance', email: 'finance@zankli.local', role: UserRole.APPROVER };
+const md: User = { id: 'local-md', email: 'md@zankli.local', role: UserRole.APPROVER };
+
+const emailOf = (id: string) => [hod, finance, md].find(user => user.id === id)?.email;
+
+const parallelStep = { id: 'group-1', mode: 'quorum' as const, required: 1 };
+
+// HOD and Finance decide in parallel (either one is enough), then the Medical Director.
+const formQueue: QueuedApprover[] = [
+  { user: hod, group: parallelStep },
+  { user: finance, group: parallelStep },
+  { user: md },
+];
+
+describe('toSubmittedQueue', () => {
+  let db: DataAccess;
+
+  beforeEach(async () => {
+    db = createLocalDataAccess({ initialState: createLocalSeed() });
+    await db.auth.signInWithPassword('admin@zankli.local', 'zankli-demo');
+  });
+
+  // Submits the queue the way RequestContext.addRequest does and reads the stored request back.
+  const submit = async (queue: Approver[]) => {
+    const details = normaliseRequestDetails(RequestType.PROCUREMENT, { subject: 'Gloves', department: 'Theatre', justification: 'Stock' });
+    const { data: created, error } = await db.requests.create({
+      requesterId: 'local-admin', requesterName: 'Portal Administrator', ...details,
+      approvalQueue: toSubmittedQueue(queue, emailOf),
+    });
+    expect(error).toBeNull();
+    return (await db.requests.getById(created!.id)).data!;
+  };
+
+  // Sends the request back and resubmits it the way RequestContext.updateRequest does.
+  const resubmit = async (requestId: string, queue: Approver[]) => {
+    await db.auth.signInWithPassword('hod@zankli.local', 'zankli-demo');
+    const sentBack = await db.requests.handleAction({
+      requestId, action: ApprovalStatus.SENT_BACK, comments: 'Add a quotation', signature: 'sig',
+      hodComments: null, internalAuditComments: null, finalAmount: null, remainingQueue: null, adjustments: null,
+    });
+    expect(sentBack.error).toBeNull();
+    await db.auth.signInWithPassword('admin@zankli.local', 'zankli-demo');
+    const request = (await db.requests.getById(requestId)).data!;
+    const { error } = await db.requests.resubmitAsAdmin({
+      requestId, requesterName: request.requesterName, details: request.details,
+      approvalQueue: toSubmittedQueue(queue, emailOf), vendorId: null, fileURL: null, fileName: null,
+    });
+    expect(error).toBeNull();
+    return (await db.requests.getById(requestId)).data!;
+  };
+
+  it('fills in missing emails and starts every entry pending', () => {
+    const queue = toSubmittedQueue([{ userId: md.id, status: ApprovalStatus.APPROVED }], emailOf);
+    expect(queue).toEqual([{ userId: md.id, userEmail: md.email, status: ApprovalStatus.PENDING }]);
+  });
+
+  it('keeps parallel groups through submission', async () => {
+    const stored = await submit(toPendingApprovers(formQueue));
+    const steps = groupApprovalSteps(stored.approvalQueue);
+    expect(steps.map(step => step.members.map(a => a.userId))).toEqual([[hod.id, finance.id], [md.id]]);
+    expect(steps[0].group).toEqual(parallelStep);
+  });
+
+  it('keeps parallel groups through resubmission', async () => {
+    const stored = await submit(toPendingApprovers(formQueue));
+    const resubmitted = await resubmit(stored.id, toPendingApprovers(formQueue));
+    expect(groupApprovalSteps(resubmitted.approvalQueue).map(step => step.group)).toEqual([parallelStep, undefined]);
+  });
+
+  it('keeps step SLAs, including the template default, through submission and resubmission', async () => {
+    const withSlas = () => applyStepSlas(toPendingApprovers([{ ...formQueue[0], slaHours: 24 }, formQueue[1], formQueue[2]]), { slaHours: 48 } as WorkflowTemplate);
+    const stored = await submit(withSlas());
+    expect(stored.approvalQueue.map(a => a.slaHours)).toEqual([24, 48, 48]);
+    expect(currentStepDueAt(stored)).not.toBeNull();
+
+    const resubmitted = await resubmit(stored.id, withSlas());
+    expect(resubmitted.approvalQueue.map(a => a.slaHours)).toEqual([24, 48, 48]);
+    expect(currentStepDueAt(resubmitted)).not.toBeNull();
+  });
+
+  it('keeps step roles through submission and resubmission', async () => {
+    const withRoles = () => toPendingApprovers([
+      { ...formQueue[0], stepRole: WorkflowRole.HOD }, { ...formQueue[1], stepRole: WorkflowRole.FINANCE }, { ...formQueue[2], stepRole: WorkflowRole.MEDICAL_DIRECTOR },
+    ]);
+    const stored = await submit(withRoles());
+    expect(stored.approvalQueue.map(a => a.stepRole)).toEqual([WorkflowRole.HOD, WorkflowRole.FINANCE, WorkflowRole.MEDICAL_DIRECTOR]);
+    expect(currentStepRoleOf(stored, hod.id)).toBe(WorkflowRole.HOD);
+
+    const resubmitted = await resubmit(stored.id, withRoles());
+    expect(resubmitted.approvalQueue.map(a => a.stepRole)).toEqual([WorkflowRole.HOD, WorkflowRole.FINANCE, WorkflowRole.MEDICAL_DIRECTOR]);
+    expect(currentStepRoleOf(resubmitted, finance.id)).toBe(WorkflowRole.FINANCE);
+  });
+
+  it('drops consultations through submission and resubmission, keeping the reviewer as a plain step', async () => {
+    const consultation: Consultation = { mode: 'advisory', requestedById: hod.id, requestedByEmail: hod.email, requestedAt: '2026-01-05T09:00:00.000Z' };
+    const withReviewer = () => toPendingApprovers([formQueue[0], formQueue[1], { user: md, consultation }]);
+    expect(toSubmittedQueue(withReviewer(), emailOf)[2]).toEqual({ userId: md.id, userEmail: md.email, status: ApprovalStatus.PENDING });
+
+    const stored = await submit(withReviewer());
+    expect(stored.approvalQueue.map(a => a.consultation)).toEqual([undefined, undefined, undefined]);
+
+    const resubmitted = await resubmit(stored.id, withReviewer());
+    expect(resubmitted.approvalQueue.map(a => a.consultation)).toEqual([undefined, undefined, undefined]);
+    expect(resubmitted.approvalQueue[2].userId).toBe(md.id);
+  });
+});
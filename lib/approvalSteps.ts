@@ -0,0 +1,144 @@
+import { Approver, ApprovalGroup, ApprovalGroupMode, ApprovalStatus, Consultation, Request, User, WorkflowRole } from '../types.ts';
+
+export const APPROVAL_GROUP_MODE_LABELS: Record<ApprovalGroupMode, string> = {
+  all: 'All must approve',
+  any: 'Any one can approve',
+  quorum: 'A set number must approve',
+};
+
+type Groupable = { group?: ApprovalGroup };
+
+// One position in the approval chain: a single approver, or a parallel group.
+export interface ApprovalStep<T extends Groupable = Approver> {
+  startIndex: number;
+  // Exclusive.
+  endIndex: number;
+  members: T[];
+  group?: ApprovalGroup;
+}
+
+export const groupApprovalSteps = <T extends Groupable>(queue: T[]): ApprovalStep<T>[] => {
+  const steps: ApprovalStep<T>[] = [];
+  queue.forEach((entry, index) => {
+    const last = steps[steps.length - 1];
+    if (last && entry.group && last.group?.id === entry.group.id) {
+      last.members.push(entry);
+      last.endIndex = index + 1;
+    } else {
+      steps.push({ startIndex: index, endIndex: index + 1, members: [entry], group: entry.group });
+    }
+  });
+  return steps;
+};
+
+export const requiredApprovals = (step: ApprovalStep<Groupable>): number =>
+  Math.min(step.members.length, Math.max(1, step.group?.required ?? 1));
+
+export const currentApprovalStep = (request: Pick<Request, 'approvalQueue' | 'currentApproverIndex'>): ApprovalStep | undefined =>
+  groupApprovalSteps(request.approvalQueue || []).find(step => step.startIndex <= request.currentApproverIndex && request.currentApproverIndex < step.endIndex);
+
+// The pending current-step entry `approverId` signs.
+export const currentStepEntryOf = (request: Pick<Request, 'approvalQueue' | 'currentApproverIndex'>, approverId: string): Approver | undefined =>
+  currentApprovalStep(request)?.members.find(a => a.userId === approverId && a.status === ApprovalStatus.PENDING);
+
+// The step role of that entry, which decides the approver's extra inputs.
+export const currentStepRoleOf = (request: Pick<Request, 'approvalQueue' | 'currentApproverIndex'>, approverId: string): WorkflowRole | undefined =>
+  currentStepEntryOf(request, approverId)?.stepRole;
+
+// Everyone who can act on the request right now: the members of the current step who have not acted yet,
+// and the backup approvers their overdue entries were escalated to.
+export const currentApproverIds = (request: Pick<Request, 'status' | 'approvalQueue' | 'currentApproverIndex'>): string[] => {
+  if (request.status !== ApprovalStatus.PENDING) return [];
+  const step = currentApprovalStep(request);
+  if (!step) return [];
+  const pending = step.members.filter(a => a.status === ApprovalStatus.PENDING);
+  return Array.from(new Set([...pending.map(a => a.userId), ...pending.flatMap(a => (a.escalatedToId ? [a.escalatedToId] : []))]));
+};
+
+// Where a step stands after its members' actions. A single "sent back" returns the whole request; a step is
+// rejected once too few members are left to reach the required approvals.
+export const resolveStepOutcome = (step: ApprovalStep): ApprovalStatus => {
+  const count = (status: ApprovalStatus) => step.members.filter(a => a.status === status).length;
+  const required = requiredApprovals(step);
+  if (count(ApprovalStatus.SENT_BACK) > 0) return ApprovalStatus.SENT_BACK;
+  if (count(ApprovalStatus.APPROVED) >= required) return ApprovalStatus.APPROVED;
+  if (count(ApprovalStatus.REJECTED) > step.members.length - required) return ApprovalStatus.REJECTED;
+  return ApprovalStatus.PENDING;
+};
+
+// e.g. "2 of 3 must approve"; null for a single approver.
+export const describeStepRequirement = (step: ApprovalStep<Groupable>): string | null => {
+  if (!step.group) return null;
+  const size = step.members.length;
+  switch (step.group.mode) {
+    case 'all': return `All ${size} must approve`;
+    case 'any': return `Any one of ${size} can approve`;
+    default: return `${requiredApprovals(step)} of ${size} must approve`;
+  }
+};
+
+export const newApprovalGroupId = (): string => {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) return crypto.randomUUID();
+  return `group-${Date.now()}-${Math.random().toString(16).slice(2)}`;
+};
+
+// Keeps groups consistent after an edit: every run of consecutive entries sharing a group id becomes one group
+// (a repeated id gets a fresh one), single-member runs lose their group, and `required` is derived from the mode.
+export const normaliseApprovalGroups = <T extends Groupable>(entries: T[]): T[] => {
+  const seenIds = new Set<string>();
+  return groupApprovalSteps(entries).flatMap(({ members, group }): T[] => {
+    if (!group || members.length < 2) {
+      return members.map(({ group: _group, ...rest }) => rest as T);
+    }
+    const id = seenIds.has(group.id) ? newApprovalGroupId() : group.id;
+    seenIds.add(id);
+    const size = members.length;
+    const required = group.mode === 'all' ? size : group.mode === 'any' ? 1 : Math.min(size, Math.max(1, Math.round(group.required) || 1));
+    return members.map(member => ({ ...member, group: { id, mode: group.mode, required } }));
+  });
+};
+
+// Makes the entry at `index` run in parallel with the step above it.
+export const linkWithPrevious = <T extends Groupable>(entries: T[], index: number): T[] => {
+  if (index <= 0 || index >= entries.length) return entries;
+  const target: ApprovalGroup = entries[index - 1].group || { id: newApprovalGroupId(), mode: 'all', required: 2 };
+  const joiningId = entries[index].group?.id;
+  return normaliseApprovalGroups(entries.map((entry, i) => {
+    const joins = i === index - 1 || i === index || (i > index && !!joiningId && entry.group?.id === joiningId);
+    return joins ? { ...entry, group: target } : entry;
+  }));
+};
+
+// Splits the entry at `index`, and the members after it, off the group above.
+export const unlinkFromPrevious = <T extends Groupable>(entries: T[], index: number): T[] => {
+  const groupId = entries[index]?.group?.id;
+  if (!groupId) return entries;
+  const splitGroup: ApprovalGroup = { ...entries[index].group!, id: newApprovalGroupId() };
+  return normaliseApprovalGroups(entries.map((entry, i) => (i >= index && entry.group?.id === groupId ? { ...entry, group: splitGroup } : entry)));
+};
+
+export const updateApprovalGroup = <T extends Groupable>(entries: T[], groupId: string, changes: Partial<Omit<ApprovalGroup, 'id'>>): T[] =>
+  normaliseApprovalGroups(entries.map(entry => (entry.group?.id === groupId ? { ...entry, group: { ...entry.group, ...changes } } : entry)));
+
+// An approval queue entry being put together on the request form.
+export interface QueuedApprover {
+  user: User;
+  group?: ApprovalGroup;
+  slaHours?: number;
+  stepRole?: WorkflowRole;
+  // Kept when routing rules re-run on a queue that already has ad-hoc reviewers.
+  consultation?: Consultation;
+}
+
+export const toPendingApprovers = (queue: QueuedApprover[]): Approver[] =>
+  queue.map(({ user, group, slaHours, stepRole, consultation }) => ({
+    userId: user.id, userEmail: user.email, status: ApprovalStatus.PENDING,
+    ...(group ? { group } : {}), ...(slaHours ? { slaHours } : {}), ...(stepRole ? { stepRole } : {}),
+    ...(consultation ? { consultation } : {}),
+  }));
+
+// The queue as handed to the data layer when a request is submitted or resubmitted: every entry starts pending and
+// keeps its step settings (group, SLA, role); an email missing from an entry is looked up. Consultations belong to
+// the round of review they were asked in, so a reviewer carried over is submitted as a plain step.
+export const toSubmittedQueue = (queue: Approver[], emailOf: (userId: string) => string | undefined): Approver[] =>
+  queue.map(({ consultation, ...approver }) => ({ ...approver, userEmail: approver.userEmail || emailOf(approver.userId), status: ApprovalStatus.PENDING }));
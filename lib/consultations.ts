@@ -0,0 +1,27 @@
+import { Approver, ApprovalStatus, ConsultationMode, ConsultationPosition, Request } from '../types.ts';
+import { currentApprovalStep } from './approvalSteps.ts';
+
+export const CONSULTATION_MODE_LABELS: Record<ConsultationMode, string> = {
+  blocking: 'Blocking review',
+  advisory: 'Advisory review',
+};
+
+export const CONSULTATION_POSITION_LABELS: Record<ConsultationPosition, string> = {
+  before: 'Ask them before I sign',
+  after: 'Have them review after my step',
+};
+
+export const ADVISORY_REVIEW_ERROR = 'Advisory reviewers can only give their review; they cannot reject or send back.';
+
+// The statuses the signer of `entry` may choose from; advisory reviewers can only give their review.
+export const reviewerActions = (entry: Approver | undefined, actions: ApprovalStatus[]): ApprovalStatus[] =>
+  entry?.consultation?.mode === 'advisory' ? actions.filter(action => action === ApprovalStatus.APPROVED) : actions;
+
+// The queue with `entry` put just before or just after the current step. Put before, the reviewer becomes
+// current and the step comes back once they have signed.
+export const insertReviewer = (request: Pick<Request, 'approvalQueue' | 'currentApproverIndex'>, entry: Approver, position: ConsultationPosition): Approver[] => {
+  const step = currentApprovalStep(request);
+  if (!step) return request.approvalQueue;
+  const at = position === 'before' ? step.startIndex : step.endIndex;
+  return [...request.approvalQueue.slice(0, at), entry, ...request.approvalQueue.slice(at)];
+};
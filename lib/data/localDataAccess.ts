@@ -0,0 +1,754 @@
+import { ApprovalStatus, FulfilmentStage, RequestType, UserRole, Request, Approver, PdfComment, PdfCommentSummary, WorkflowTemplate, RoutingRule, Delegation, RequestReminder, RequestRevision, RequestEvent, RequestEventKind, RequestDetails, LeaveLedgerEntry, PublicHoliday, LeaveCalendarEntry, StaffingLimit, RequestDraft } from '../../types.ts';
+import { DataAccess, AuthSession, DataError, RowChange } from './types.ts';
+import { LocalDatabaseState, LOCAL_DEMO_PASSWORD, createLocalSeed } from './localSeed.ts';
+import { DEFAULT_PAGE_SIZE, matchesRequestQuery, compareRequests, encodeCursor, decodeCursor } from './requestQuery.ts';
+import { currentApprovalStep, currentApproverIds, resolveStepOutcome } from '../approvalSteps.ts';
+import { approverToActFor, isDelegationActive } from '../delegations.ts';
+import { entriesDueForEscalation, stepSlaHours } from '../sla.ts';
+import { resolveWorkflowStep } from '../workflows.ts';
+import { isAwaitingDecision, transitionError } from '../requestStatus.ts';
+import { CLIENT_REQUEST_EVENT_KINDS, statusEventKind } from '../requestEvents.ts';
+import { fulfilmentStagesFor, hasFulfilment, nextFulfilmentStage } from '../fulfilment.ts';
+import { applyAdjustments, validateAdjustments } from '../adjustments.ts';
+import { reroutingProblems, routingAmount } from '../routingRules.ts';
+import { ADVISORY_REVIEW_ERROR, CONSULTATION_MODE_LABELS, insertReviewer } from '../consultations.ts';
+import { normaliseRequestDetails, validateRequestDetails } from '../requestDetails.ts';
+import { departmentKey, insufficientLeaveMessage, isOnLeaveCalendar, leaveBalance, leaveCalendarEntry, leaveYear, takenLeaveEntry } from '../leave.ts';
+
+const STORAGE_KEY = 'zmc-local-db';
+
+interface LocalDataAccessOptions {
+  // Starting state; defaults to the demo seed (or the last persisted snapshot when `persist` is on).
+  initialState?: LocalDatabaseState;
+  // Mirror the database into localStorage so a demo survives a page reload.
+  persist?: boolean;
+  // Escalate overdue approval steps periodically, as the pg_cron job does for the Supabase backend.
+  scheduleEscalations?: boolean;
+}
+
+// How often overdue approval steps are escalated; matches the pg_cron schedule in supabase_setup.sql.
+const ESCALATION_INTERVAL_MS = 10 * 60 * 1000;
+
+const clone = <T>(value: T): T => structuredClone(value);
+
+const generateId = (): string => {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) return crypto.randomUUID();
+  return `local-${Date.now()}-${Math.random().toString(16).slice(2)}`;
+};
+
+// Queue entries as they are stored on submission: everything but who they are, their group, SLA and step role is
+// reset, consultations included.
+const toPendingApprover = (a: Approver): Approver => ({
+  userId: a.userId, userEmail: a.userEmail, status: ApprovalStatus.PENDING,
+  ...(a.group ? { group: { ...a.group } } : {}), ...(a.slaHours ? { slaHours: a.slaHours } : {}), ...(a.stepRole ? { stepRole: a.stepRole } : {}),
+});
+
+const permissionDenied = (message: string): DataError => ({ message: `permission denied: ${message}`, code: '42501' });
+
+const byCreatedAtAsc = (a: PdfComment, b: PdfComment) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+
+// Mirrors the `pdf_comment_summaries` view.
+const summariseComments = (comments: PdfComment[]): PdfCommentSummary[] => {
+  const latestByRequest = new Map<string, { count: number; last: PdfComment }>();
+  [...comments].sort(byCreatedAtAsc).forEach(comment => {
+    const entry = latestByRequest.get(comment.requestId);
+    latestByRequest.set(comment.requestId, { count: (entry?.count || 0) + 1, last: comment });
+  });
+  return Array.from(latestByRequest.values()).map(({ count, last }) => ({
+    requestId: last.requestId,
+    count,
+    lastCommentAt: last.createdAt,
+    lastCommentUserId: last.userId,
+    lastCommentUserEmail: last.userEmail,
+    lastComment: last.comment,
+  }));
+};
+
+const loadPersistedState = (): LocalDatabaseState | null => {
+  if (typeof localStorage === 'undefined') return null;
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    // Snapshots written before a collection existed pick it up from the seed.
+    return raw ? { ...createLocalSeed(), ...JSON.parse(raw) } : null;
+  } catch (e) {
+    console.error('Could not read the local database snapshot, starting from the demo seed.', e);
+    return null;
+  }
+};
+
+// A fully in-memory implementation of the data layer. It emulates the database RPCs
+// (handle_request_action, resubmit_request_as_admin, update_item_request_status_as_admin)
+// so the portal can run offline for demos and training, and so logic can be exercised without a live project.
+export const createLocalDataAccess = (options: LocalDataAccessOptions = {}): DataAccess => {
+  const { persist = false, scheduleEscalations = false } = options;
+  const state: LocalDatabaseState = clone(options.initialState || (persist && loadPersistedState()) || createLocalSeed());
+  const authListeners = new Set<(session: AuthSession | null) => void>();
+  const attachmentBlobs = new Map<string, Blob>();
+  const requestListeners = new Set<(change: RowChange<Request>) => void>();
+  const commentListeners = new Set<(change: RowChange<PdfComment>) => void>();
+  const reminderListeners = new Set<(change: RowChange<RequestReminder>) => void>();
+
+  const save = () => {
+    if (!persist || typeof localStorage === 'undefined') return;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+  };
+
+  const currentSession = (): AuthSession | null => {
+    const profile = state.profiles.find(p => p.id === state.sessionUserId);
+    return profile ? { user: { id: profile.id, email: profile.email } } : null;
+  };
+
+  const notifyAuthListeners = () => {
+    const session = currentSession();
+    authListeners.forEach(listener => listener(session));
+  };
+
+  const sessionProfile = () => state.profiles.find(p => p.id === state.sessionUserId);
+
+  const findRequest = (requestId: string): Request | undefined => state.requests.find(r => r.id === requestId);
+
+  // Listeners are called asynchronously, like realtime events arriving from the server.
+  const emit = <T>(listeners: Set<(change: RowChange<T>) => void>, change: RowChange<T>) => {
+    const snapshot = clone(change);
+    listeners.forEach(listener => setTimeout(() => listener(clone(snapshot)), 0));
+  };
+
+  const emitRequestUpdate = (request: Request) => emit(requestListeners, { eventType: 'UPDATE', record: request, oldRecord: { id: request.id } });
+
+  // Mirrors the `enforce_leave_balance` trigger: leave may not be submitted or approved beyond the applicant's balance.
+  const leaveBalanceError = (type: RequestType, details: RequestDetails): DataError | null => {
+    const typed = normaliseRequestDetails(type, details);
+    if (typed.type !== RequestType.LEAVE) return null;
+    const balance = leaveBalance(state.leaveLedger, typed.details.applicantId, typed.details.category, leaveYear(typed.details));
+    return typed.details.leaveDays > balance ? { message: insufficientLeaveMessage(typed.details, balance) } : null;
+  };
+
+  const addReminder = (reminder: Omit<RequestReminder, 'id' | 'createdAt'>) => {
+    const created: RequestReminder = { ...reminder, id: generateId(), createdAt: new Date().toISOString() };
+    state.reminders.push(created);
+    emit(reminderListeners, { eventType: 'INSERT', record: created, oldRecord: null });
+  };
+
+  // Mirrors the database, which logs each change to a request as the signed-in user in the same transaction.
+  const addEvent = (requestId: string, kind: RequestEventKind, detail?: string): RequestEvent => {
+    const actor = sessionProfile();
+    const created: RequestEvent = {
+      id: generateId(), requestId, kind, ...(actor ? { actorId: actor.id, actorEmail: actor.email } : {}),
+      at: new Date().toISOString(), ...(detail ? { detail } : {}),
+    };
+    state.events.push(created);
+    return created;
+  };
+
+  // Mirrors `escalate_overdue_requests`: marks the pending entries of every step past its SLA as escalated, hands them to
+  // the template's backup approver and alerts them (or the administrators). Each entry escalates once.
+  const escalateOverdueRequests = () => {
+    const now = new Date();
+    const approvers = state.profiles.filter(p => p.role === UserRole.APPROVER);
+    const adminIds = state.profiles.filter(p => p.role === UserRole.ADMIN).map(p => p.id);
+    state.requests.forEach(request => {
+      const overdue = entriesDueForEscalation(request, now);
+      if (overdue.length === 0) return;
+      const template = state.workflowTemplates.find(t => t.requestType === request.type);
+      const backup = template?.escalateTo ? resolveWorkflowStep(template.escalateTo, approvers) : undefined;
+      const escalatedAt = now.toISOString();
+      overdue.forEach(a => Object.assign(a, { escalatedAt, ...(backup && backup.id !== a.userId ? { escalatedToId: backup.id } : {}) }));
+
+      const waitingOn = overdue.map(a => a.userEmail || a.userId).join(', ');
+      const slaHours = stepSlaHours(currentApprovalStep(request)!);
+      (backup ? [backup.id] : adminIds).forEach(recipientId => addReminder({
+        requestId: request.id,
+        recipientId,
+        kind: 'escalation',
+        message: backup
+          ? `Request ${request.id} has waited more than ${slaHours}h for ${waitingOn}. You can now approve it as the backup approver.`
+          : `Request ${request.id} has waited more than ${slaHours}h for ${waitingOn}.`,
+      }));
+      emitRequestUpdate(request);
+    });
+    save();
+  };
+
+  if (scheduleEscalations) {
+    escalateOverdueRequests();
+    setInterval(escalateOverdueRequests, ESCALATION_INTERVAL_MS);
+  }
+
+  return {
+    auth: {
+      onAuthStateChange: (callback) => {
+        authListeners.add(callback);
+        // Match Supabase, which reports the initial session asynchronously after subscribing.
+        setTimeout(() => callback(currentSession()), 0);
+        return () => { authListeners.delete(callback); };
+      },
+      signInWithPassword: async (email, password) => {
+        const profile = state.profiles.find(p => p.email.toLowerCase() === email.trim().toLowerCase());
+        if (!profile || password !== LOCAL_DEMO_PASSWORD) {
+          return { error: { message: 'Invalid login credentials' } };
+        }
+        state.sessionUserId = profile.id;
+        save();
+        notifyAuthListeners();
+        return { error: null };
+      },
+      signOut: async () => {
+        state.sessionUserId = null;
+        save();
+        notifyAuthListeners();
+        return { error: null };
+      },
+    },
+
+    profiles: {
+      list: async () => ({ data: clone(state.profiles), error: null }),
+      getById: async (id) => {
+        const profile = state.profiles.find(p => p.id === id);
+        if (!profile) return { data: null, error: { message: 'Profile not found', code: 'PGRST116' } };
+        return { data: clone(profile), error: null };
+      },
+      setWorkflowRoles: async (userId, roles) => {
+        if (sessionProfile()?.role !== UserRole.ADMIN) return { error: permissionDenied('only administrators can assign step roles') };
+        const profile = state.profiles.find(p => p.id === userId);
+        if (!profile) return { error: { message: 'Profile not found', code: 'PGRST116' } };
+        if (profile.role !== UserRole.APPROVER && roles.length > 0) return { error: { message: 'Step roles can only be given to approvers.' } };
+        profile.workflowRoles = Array.from(new Set(roles));
+        save();
+        return { error: null };
+      },
+    },
+
+    requests: {
+      query: async (query, cursor, pageSize = DEFAULT_PAGE_SIZE) => {
+        const matching = state.requests.filter(r => matchesRequestQuery(r, query)).sort(compareRequests(query.sort));
+        const offset = decodeCursor(cursor);
+        const items = matching.slice(offset, offset + pageSize);
+        const nextOffset = offset + items.length;
+        return {
+          data: { items: clone(items), nextCursor: nextOffset < matching.length ? encodeCursor(nextOffset) : null, totalCount: matching.length },
+          error: null,
+        };
+      },
+      getById: async (id) => {
+        const request = findRequest(id);
+        if (!request) return { data: null, error: { message: `Request ${id} not found`, code: 'PGRST116' } };
+        return { data: clone(request), error: null };
+      },
+      create: async (request) => {
+        if (!sessionProfile()) return { data: null, error: permissionDenied('you must be signed in to create a request') };
+        const leaveError = leaveBalanceError(request.type, request.details);
+        if (leaveError) return { data: null, error: leaveError };
+        const created: Request = {
+          ...clone(request),
+          id: generateId(),
+          status: ApprovalStatus.PENDING,
+          approvalQueue: request.approvalQueue.map(toPendingApprover),
+          currentApproverIndex: 0,
+          createdAt: new Date().toISOString(),
+        };
+        created.currentStepStartedAt = created.createdAt;
+        state.requests.push(created);
+        addEvent(created.id, 'created');
+        save();
+        emit(requestListeners, { eventType: 'INSERT', record: created, oldRecord: null });
+        return { data: clone(created), error: null };
+      },
+      handleAction: async (params) => {
+        const request = findRequest(params.requestId);
+        if (!request) return { error: { message: `Request ${params.requestId} not found` } };
+        const illegal = transitionError(request, params.action, 'approver');
+        if (illegal) return { error: { message: illegal } };
+
+        const actor = sessionProfile();
+        const step = currentApprovalStep(request);
+        const actingFor = actor ? approverToActFor(request, state.delegations, actor.id) : null;
+        const currentApprover = step?.members.find(a => a.userId === actingFor && a.status === ApprovalStatus.PENDING);
+        if (!actor || !step || !currentApprover) {
+          return { error: permissionDenied('you are not a current approver for this request') };
+        }
+        if (currentApprover.consultation?.mode === 'advisory' && params.action !== ApprovalStatus.APPROVED) {
+          return { error: { message: ADVISORY_REVIEW_ERROR } };
+        }
+
+        // Restored if the request turns out not to be approvable, e.g. leave beyond the applicant's balance.
+        const unchanged = clone(request);
+        const adjustments = params.adjustments?.length ? params.adjustments : null;
+        if (adjustments) {
+          if (params.action !== ApprovalStatus.APPROVED) return { error: { message: 'Values can only be adjusted when approving.' } };
+          const typed = normaliseRequestDetails(request.type, request.details);
+          const adjusted = applyAdjustments(typed, adjustments);
+          const problems = [...validateAdjustments(typed, adjustments), ...validateRequestDetails(adjusted)];
+          if (problems.length > 0) return { error: { message: problems.join(' ') } };
+          Object.assign(request, adjusted);
+        }
+
+        if (params.remainingQueue && params.action === ApprovalStatus.APPROVED) {
+          request.approvalQueue = [
+            ...request.approvalQueue.slice(0, step.endIndex),
+            ...params.remainingQueue.map(a => ({ ...toPendingApprover(a), ...(a.consultation ? { consultation: a.consultation } : {}) })),
+          ];
+        }
+
+        Object.assign(currentApprover, {
+          status: params.action,
+          comments: params.comments ?? undefined,
+          approvedAt: new Date().toISOString(),
+          signature: params.signature,
+          hodComments: params.hodComments ?? undefined,
+          internalAuditComments: params.internalAuditComments ?? undefined,
+          finalAmount: params.finalAmount ?? undefined,
+          adjustments: adjustments ? clone(adjustments) : undefined,
+          ...(actingFor !== actor.id ? { actedById: actor.id, actedByEmail: actor.email } : {}),
+        });
+
+        // A new route, or a new amount the old route was not checked against, has to follow the routing rules.
+        if (params.action === ApprovalStatus.APPROVED) {
+          const amount = routingAmount(request, request.approvalQueue);
+          if (params.remainingQueue || amount !== routingAmount(unchanged, unchanged.approvalQueue)) {
+            const problems = reroutingProblems(unchanged.approvalQueue, request.approvalQueue, state.routingRules, request, amount, state.profiles, step.endIndex);
+            if (problems.length > 0) {
+              state.requests[state.requests.indexOf(request)] = unchanged;
+              return { error: { message: problems.join(' ') } };
+            }
+          }
+        }
+
+        // A parallel step moves on (or fails) only once enough of its members have acted.
+        const outcome = resolveStepOutcome(step);
+        if (outcome === ApprovalStatus.APPROVED) {
+          if (step.endIndex >= request.approvalQueue.length) {
+            const leaveError = leaveBalanceError(request.type, request.details);
+            if (leaveError) {
+              state.requests[state.requests.indexOf(request)] = unchanged;
+              return { error: leaveError };
+            }
+            request.status = ApprovalStatus.APPROVED;
+            if (request.type === RequestType.LEAVE) {
+              state.leaveLedger.push({ ...takenLeaveEntry(request.id, request.details), id: generateId(), createdAt: new Date().toISOString() });
+            }
+          } else {
+            request.currentApproverIndex = step.endIndex;
+            request.currentStepStartedAt = new Date().toISOString();
+          }
+        } else if (outcome !== ApprovalStatus.PENDING) {
+          request.status = outcome;
+        }
+        addEvent(request.id, statusEventKind(params.action)!, params.comments ?? undefined);
+        save();
+        emitRequestUpdate(request);
+        return { error: null };
+      },
+      consult: async (params) => {
+        const request = findRequest(params.requestId);
+        if (!request) return { error: { message: `Request ${params.requestId} not found` } };
+        if (!isAwaitingDecision(request)) return { error: { message: 'This request is no longer pending approval.' } };
+
+        const actor = sessionProfile();
+        const step = currentApprovalStep(request);
+        const actingFor = actor ? approverToActFor(request, state.delegations, actor.id) : null;
+        if (!actor || !step || !actingFor) {
+          return { error: permissionDenied('you are not a current approver for this request') };
+        }
+        const reviewer = state.profiles.find(p => p.id === params.reviewerId);
+        if (!reviewer || reviewer.role !== UserRole.APPROVER) return { error: { message: 'Reviewers must be approvers.' } };
+        if (step.members.some(a => a.userId === reviewer.id && a.status === ApprovalStatus.PENDING)) {
+          return { error: { message: `${reviewer.email} is already signing this step.` } };
+        }
+        const question = params.question?.trim() || undefined;
+        if (params.position === 'before' && !question) {
+          return { error: { message: 'Please say what you would like the reviewer to look at.' } };
+        }
+
+        const now = new Date().toISOString();
+        request.approvalQueue = insertReviewer(request, {
+          userId: reviewer.id,
+          userEmail: reviewer.email,
+          status: ApprovalStatus.PENDING,
+          consultation: { mode: params.mode, requestedById: actor.id, requestedByEmail: actor.email, requestedAt: now, question },
+        }, params.position);
+        if (params.position === 'before') {
+          request.currentApproverIndex = step.startIndex;
+          request.currentStepStartedAt = now;
+        }
+        addEvent(request.id, 'consulted', `${reviewer.email} (${CONSULTATION_MODE_LABELS[params.mode]})${question ? `: ${question}` : ''}`);
+        save();
+        emitRequestUpdate(request);
+        return { error: null };
+      },
+      resubmitAsAdmin: async (params) => {
+        if (sessionProfile()?.role !== UserRole.ADMIN) return { error: permissionDenied('only administrators can resubmit requests') };
+        const request = findRequest(params.requestId);
+        if (!request) return { error: { message: `Request ${params.requestId} not found` } };
+        const illegal = transitionError(request, ApprovalStatus.PENDING, 'admin');
+        if (illegal) return { error: { message: illegal } };
+        const leaveError = leaveBalanceError(request.type, params.details);
+        if (leaveError) return { error: leaveError };
+
+        const previous = state.revisions.filter(r => r.requestId === request.id);
+        const now = new Date().toISOString();
+        state.revisions.push({
+          id: generateId(),
+          requestId: request.id,
+          revision: previous.length + 1,
+          requesterName: request.requesterName,
+          details: clone(request.details),
+          approvalQueue: clone(request.approvalQueue),
+          vendorId: request.vendorId,
+          fileName: request.fileName,
+          fileURL: request.fileURL,
+          submittedAt: previous.length > 0 ? previous[previous.length - 1].supersededAt : request.createdAt,
+          supersededAt: now,
+          supersededById: state.sessionUserId ?? undefined,
+        });
+
+        Object.assign(request, {
+          requesterName: params.requesterName,
+          details: clone(params.details),
+          approvalQueue: params.approvalQueue.map(toPendingApprover),
+          vendorId: params.vendorId ?? undefined,
+          fileURL: params.fileURL ?? undefined,
+          fileName: params.fileName ?? undefined,
+          requesterSignature: params.requesterSignature,
+          status: ApprovalStatus.PENDING,
+          currentApproverIndex: 0,
+          currentStepStartedAt: now,
+        });
+        addEvent(request.id, 'resubmitted');
+        save();
+        emitRequestUpdate(request);
+        return { error: null };
+      },
+      updateItemStatusAsAdmin: async (requestId, status) => {
+        if (sessionProfile()?.role !== UserRole.ADMIN) return { error: permissionDenied('only administrators can update item requests') };
+        const request = findRequest(requestId);
+        if (!request) return { error: { message: `Request ${requestId} not found` } };
+        if (request.type !== RequestType.ITEM) return { error: { message: 'Only item requests can be updated this way.' } };
+        const illegal = transitionError(request, status, 'admin');
+        if (illegal) return { error: { message: illegal } };
+
+        request.status = status;
+        const kind = statusEventKind(status);
+        if (kind) addEvent(request.id, kind);
+        save();
+        emitRequestUpdate(request);
+        return { error: null };
+      },
+      cancel: async (requestId, reason) => {
+        const actor = sessionProfile();
+        const request = findRequest(requestId);
+        if (!request) return { error: { message: `Request ${requestId} not found` } };
+        const role = actor?.role === UserRole.ADMIN ? 'admin' : actor && request.requesterId === actor.id ? 'requester' : null;
+        if (!actor || !role) return { error: permissionDenied('only the requester or an administrator can cancel a request') };
+        if (!reason.trim()) return { error: { message: 'A reason is required to cancel a request.' } };
+        const illegal = transitionError(request, ApprovalStatus.CANCELLED, role);
+        if (illegal) return { error: { message: illegal } };
+
+        request.status = ApprovalStatus.CANCELLED;
+        request.cancellation = { byId: actor.id, byEmail: actor.email, at: new Date().toISOString(), reason: reason.trim() };
+        addEvent(request.id, 'cancelled', reason.trim());
+        save();
+        emitRequestUpdate(request);
+        return { error: null };
+      },
+      recordFulfilmentStage: async (requestId, stage, note) => {
+        const actor = sessionProfile();
+        if (actor?.role !== UserRole.ADMIN) return { error: permissionDenied('only administrators can record fulfilment') };
+        const request = findRequest(requestId);
+        if (!request) return { error: { message: `Request ${requestId} not found` } };
+        if (!hasFulfilment(request.type)) return { error: { message: `${request.type} requests have no fulfilment stages.` } };
+        if (request.status !== ApprovalStatus.APPROVED) return { error: { message: 'This request is not awaiting fulfilment.' } };
+        const template = state.workflowTemplates.find(t => t.requestType === request.type);
+        const expected = nextFulfilmentStage(request, fulfilmentStagesFor(request.type, template));
+        if (stage !== expected) return { error: { message: `The next fulfilment stage is ${expected}.` } };
+        if (stage === FulfilmentStage.COMPLETED) {
+          const illegal = transitionError(request, ApprovalStatus.COMPLETED, 'admin');
+          if (illegal) return { error: { message: illegal } };
+          request.status = ApprovalStatus.COMPLETED;
+        }
+
+        request.fulfilment = [...(request.fulfilment || []), {
+          stage, byId: actor.id, byEmail: actor.email, at: new Date().toISOString(), ...(note?.trim() ? { note: note.trim() } : {}),
+        }];
+        addEvent(request.id, stage === FulfilmentStage.COMPLETED ? 'completed' : 'fulfilment', note?.trim() ? `${stage}: ${note.trim()}` : stage);
+        save();
+        emitRequestUpdate(request);
+        return { error: null };
+      },
+      subscribe: (onChange) => {
+        requestListeners.add(onChange);
+        return () => { requestListeners.delete(onChange); };
+      },
+    },
+
+    comments: {
+      listForRequest: async (requestId) => ({
+        data: clone(state.comments.filter(c => c.requestId === requestId).sort(byCreatedAtAsc)),
+        error: null,
+      }),
+      listSummaries: async (query) => {
+        const matching = summariseComments(state.comments)
+          .filter(s => (!query.requestIds || query.requestIds.includes(s.requestId)) && (!query.since || s.lastCommentAt >= query.since))
+          .sort((a, b) => b.lastCommentAt.localeCompare(a.lastCommentAt));
+        return { data: clone(query.limit ? matching.slice(0, query.limit) : matching), error: null };
+      },
+      add: async (comment) => {
+        if (!sessionProfile()) return { data: null, error: permissionDenied('you must be signed in to comment') };
+        const nextId = state.comments.reduce((max, c) => Math.max(max, c.id || 0), 0) + 1;
+        const created: PdfComment = { ...comment, id: nextId, createdAt: new Date().toISOString() };
+        state.comments.push(created);
+        addEvent(comment.requestId, 'commented', comment.comment);
+        save();
+        emit(commentListeners, { eventType: 'INSERT', record: created, oldRecord: null });
+        return { data: clone(created), error: null };
+      },
+      subscribe: (onChange) => {
+        commentListeners.add(onChange);
+        return () => { commentListeners.delete(onChange); };
+      },
+    },
+
+    revisions: {
+      listForRequest: async (requestId) => ({
+        data: clone(state.revisions.filter(r => r.requestId === requestId).sort((a, b) => a.revision - b.revision)),
+        error: null,
+      }),
+    },
+
+    events: {
+      listForRequest: async (requestId) => ({
+        data: clone(state.events.filter(e => e.requestId === requestId).sort((a, b) => a.at.localeCompare(b.at))),
+        error: null,
+      }),
+      record: async (event) => {
+        const actor = sessionProfile();
+        if (!actor) return { data: null, error: permissionDenied('you must be signed in to record activity') };
+        if (!CLIENT_REQUEST_EVENT_KINDS.includes(event.kind)) return { data: null, error: permissionDenied(`${event.kind} entries are logged by the backend`) };
+        if (!findRequest(event.requestId)) return { data: null, error: { message: `Request ${event.requestId} not found` } };
+        const created = addEvent(event.requestId, event.kind, event.detail);
+        save();
+        return { data: clone(created), error: null };
+      },
+    },
+
+    reminders: {
+      list: async () => {
+        const mine = state.reminders.filter(r => r.recipientId === state.sessionUserId);
+        return { data: clone(mine.sort((a, b) => b.createdAt.localeCompare(a.createdAt))), error: null };
+      },
+      send: async (requestId) => {
+        const sender = sessionProfile();
+        if (sender?.role !== UserRole.ADMIN) return { error: permissionDenied('only administrators can send reminders') };
+        const request = findRequest(requestId);
+        if (!request) return { error: { message: `Request ${requestId} not found` } };
+        const approverIds = currentApproverIds(request);
+        if (approverIds.length === 0) return { error: { message: 'This request is not waiting on anyone.' } };
+        const coverIds = state.delegations.filter(d => approverIds.includes(d.delegatorId) && isDelegationActive(d)).map(d => d.delegateId);
+        Array.from(new Set([...approverIds, ...coverIds])).forEach(recipientId => addReminder({
+          requestId,
+          recipientId,
+          senderId: sender.id,
+          kind: 'reminder',
+          message: `Reminder from ${sender.email}: request ${requestId} is waiting for your approval.`,
+        }));
+        addEvent(requestId, 'reminded');
+        save();
+        return { error: null };
+      },
+      subscribe: (onChange) => {
+        reminderListeners.add(onChange);
+        return () => { reminderListeners.delete(onChange); };
+      },
+    },
+
+    vendors: {
+      list: async () => ({ data: clone(state.vendors), error: null }),
+      create: async (vendor) => {
+        state.vendors.push({ ...vendor, id: generateId() });
+        save();
+        return { error: null };
+      },
+    },
+
+    storeItems: {
+      list: async () => ({ data: clone(state.storeItems), error: null }),
+      create: async (item) => {
+        state.storeItems.push({ ...item, id: generateId() });
+        save();
+        return { error: null };
+      },
+    },
+
+    workflowTemplates: {
+      list: async () => ({ data: clone(state.workflowTemplates), error: null }),
+      save: async (template) => {
+        if (sessionProfile()?.role !== UserRole.ADMIN) return { data: null, error: permissionDenied('only administrators can manage workflow templates') };
+        const existing = state.workflowTemplates.find(t => t.requestType === template.requestType);
+        const saved: WorkflowTemplate = { ...clone(template), id: existing?.id || generateId(), updatedAt: new Date().toISOString() };
+        state.workflowTemplates = [...state.workflowTemplates.filter(t => t.requestType !== template.requestType), saved];
+        save();
+        return { data: clone(saved), error: null };
+      },
+      remove: async (requestType) => {
+        if (sessionProfile()?.role !== UserRole.ADMIN) return { error: permissionDenied('only administrators can manage workflow templates') };
+        state.workflowTemplates = state.workflowTemplates.filter(t => t.requestType !== requestType);
+        save();
+        return { error: null };
+      },
+    },
+
+    routingRules: {
+      list: async () => ({ data: clone(state.routingRules), error: null }),
+      save: async (rule) => {
+        if (sessionProfile()?.role !== UserRole.ADMIN) return { data: null, error: permissionDenied('only administrators can manage routing rules') };
+        const saved: RoutingRule = { ...clone(rule), id: rule.id || generateId() };
+        const index = state.routingRules.findIndex(r => r.id === saved.id);
+        if (index === -1) state.routingRules.push(saved);
+        else state.routingRules[index] = saved;
+        save();
+        return { data: clone(saved), error: null };
+      },
+      remove: async (id) => {
+        if (sessionProfile()?.role !== UserRole.ADMIN) return { error: permissionDenied('only administrators can manage routing rules') };
+        state.routingRules = state.routingRules.filter(r => r.id !== id);
+        save();
+        return { error: null };
+      },
+    },
+
+    delegations: {
+      list: async () => ({ data: clone(state.delegations), error: null }),
+      save: async (delegation) => {
+        const profile = sessionProfile();
+        if (!profile) return { data: null, error: permissionDenied('you must be signed in to manage cover') };
+        const existing = delegation.id ? state.delegations.find(d => d.id === delegation.id) : undefined;
+        if (profile.role !== UserRole.ADMIN && (delegation.delegatorId !== profile.id || (existing && existing.delegatorId !== profile.id))) {
+          return { data: null, error: permissionDenied('you can only arrange cover for yourself') };
+        }
+        if (delegation.delegateId === delegation.delegatorId) return { data: null, error: { message: 'An approver cannot cover for themselves.' } };
+        if (!state.profiles.some(p => p.id === delegation.delegateId)) return { data: null, error: { message: 'The chosen delegate does not exist.' } };
+        if (delegation.endsOn < delegation.startsOn) return { data: null, error: { message: 'Cover must end on or after the day it starts.' } };
+        const saved: Delegation = { ...clone(delegation), id: delegation.id || generateId() };
+        if (existing) Object.assign(existing, saved);
+        else state.delegations.push(saved);
+        save();
+        return { data: clone(saved), error: null };
+      },
+      remove: async (id) => {
+        const profile = sessionProfile();
+        const existing = state.delegations.find(d => d.id === id);
+        if (!profile || (profile.role !== UserRole.ADMIN && existing && existing.delegatorId !== profile.id)) {
+          return { error: permissionDenied('you can only cancel your own cover') };
+        }
+        state.delegations = state.delegations.filter(d => d.id !== id);
+        save();
+        return { error: null };
+      },
+    },
+
+    leaveLedger: {
+      list: async () => ({ data: clone(state.leaveLedger), error: null }),
+      record: async (entry) => {
+        if (sessionProfile()?.role !== UserRole.ADMIN) return { data: null, error: permissionDenied('only administrators can record leave entitlements') };
+        if (!state.profiles.some(p => p.id === entry.userId)) return { data: null, error: { message: 'The chosen staff member does not exist.' } };
+        if (!Number.isFinite(entry.days) || entry.days === 0) return { data: null, error: { message: 'Please enter a number of days other than zero.' } };
+        const created: LeaveLedgerEntry = { ...clone(entry), id: generateId(), createdAt: new Date().toISOString() };
+        state.leaveLedger.push(created);
+        save();
+        return { data: clone(created), error: null };
+      },
+    },
+
+    publicHolidays: {
+      list: async () => ({ data: clone(state.publicHolidays).sort((a, b) => a.date.localeCompare(b.date)), error: null }),
+      save: async (holiday) => {
+        if (sessionProfile()?.role !== UserRole.ADMIN) return { data: null, error: permissionDenied('only administrators can manage public holidays') };
+        if (state.publicHolidays.some(h => h.date === holiday.date && h.id !== holiday.id)) {
+          return { data: null, error: { message: `There is already a public holiday on ${holiday.date}.`, code: '23505' } };
+        }
+        const saved: PublicHoliday = { ...clone(holiday), id: holiday.id || generateId() };
+        const existing = holiday.id ? state.publicHolidays.find(h => h.id === holiday.id) : undefined;
+        if (existing) Object.assign(existing, saved);
+        else state.publicHolidays.push(saved);
+        save();
+        return { data: clone(saved), error: null };
+      },
+      remove: async (id) => {
+        if (sessionProfile()?.role !== UserRole.ADMIN) return { error: permissionDenied('only administrators can manage public holidays') };
+        state.publicHolidays = state.publicHolidays.filter(h => h.id !== id);
+        save();
+        return { error: null };
+      },
+    },
+
+    leaveCalendar: {
+      list: async (from, to) => {
+        const entries = state.requests.flatMap((request): LeaveCalendarEntry[] => {
+          if (!isOnLeaveCalendar(request.status)) return [];
+          const typed = normaliseRequestDetails(request.type, request.details);
+          if (typed.type !== RequestType.LEAVE || typed.details.startDate > to || typed.details.endDate < from) return [];
+          return [leaveCalendarEntry(request.id, request.status, typed.details)];
+        });
+        return { data: clone(entries), error: null };
+      },
+    },
+
+    staffingLimits: {
+      list: async () => ({ data: clone(state.staffingLimits), error: null }),
+      save: async (limit) => {
+        if (sessionProfile()?.role !== UserRole.ADMIN) return { data: null, error: permissionDenied('only administrators can manage staffing limits') };
+        if (!departmentKey(limit.department)) return { data: null, error: { message: 'Please name the department.' } };
+        if (!Number.isInteger(limit.maxOnLeave) || limit.maxOnLeave < 1) return { data: null, error: { message: 'At least one member of staff must be allowed on leave.' } };
+        if (state.staffingLimits.some(l => departmentKey(l.department) === departmentKey(limit.department) && l.id !== limit.id)) {
+          return { data: null, error: { message: `There is already a staffing limit for ${limit.department.trim()}.`, code: '23505' } };
+        }
+        const saved: StaffingLimit = { ...clone(limit), department: limit.department.trim(), id: limit.id || generateId() };
+        const existing = limit.id ? state.staffingLimits.find(l => l.id === limit.id) : undefined;
+        if (existing) Object.assign(existing, saved);
+        else state.staffingLimits.push(saved);
+        save();
+        return { data: clone(saved), error: null };
+      },
+      remove: async (id) => {
+        if (sessionProfile()?.role !== UserRole.ADMIN) return { error: permissionDenied('only administrators can manage staffing limits') };
+        state.staffingLimits = state.staffingLimits.filter(l => l.id !== id);
+        save();
+        return { error: null };
+      },
+    },
+
+    drafts: {
+      listMine: async () => ({ data: clone(state.drafts.filter(d => d.ownerId === state.sessionUserId)), error: null }),
+      save: async (draft) => {
+        if (!state.sessionUserId || draft.ownerId !== state.sessionUserId) return { data: null, error: permissionDenied('you can only save your own drafts') };
+        const saved: RequestDraft = clone(draft);
+        const index = state.drafts.findIndex(d => d.id === draft.id);
+        if (index !== -1 && state.drafts[index].ownerId !== state.sessionUserId) return { data: null, error: permissionDenied('you can only save your own drafts') };
+        if (index === -1) state.drafts.push(saved);
+        else state.drafts[index] = saved;
+        save();
+        return { data: clone(saved), error: null };
+      },
+      remove: async (id) => {
+        state.drafts = state.drafts.filter(d => d.id !== id || d.ownerId !== state.sessionUserId);
+        save();
+        return { error: null };
+      },
+    },
+
+    // Attachments only live for the lifetime of the page; they are not written to the localStorage snapshot.
+    attachments: {
+      upload: async (ownerId, file) => {
+        const fileURL = typeof URL.createObjectURL === 'function'
+          ? URL.createObjectURL(file)
+          : `local-attachment://${ownerId}/${Date.now()}_${file.name}`;
+        attachmentBlobs.set(fileURL, file);
+        return { data: { fileURL, fileName: file.name }, error: null };
+      },
+      download: async (fileURL) => {
+        const blob = attachmentBlobs.get(fileURL);
+        if (!blob) return { data: null, error: { message: 'Attachment is not available in this local session.' } };
+        return { data: blob, error: null };
+      },
+    },
+  };
+};
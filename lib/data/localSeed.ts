@@ -0,0 +1,104 @@
+import { UserRole, User, Vendor, StoreItem, Request, PdfComment, RequestType, WorkflowRole, WorkflowTemplate, RoutingRule, Delegation, RequestReminder, RequestRevision, RequestEvent, LeaveCategory, LeaveLedgerEntry, PublicHoliday, StaffingLimit, RequestDraft } from '../../types.ts';
+
+export interface LocalDatabaseState {
+  profiles: User[];
+  requests: Request[];
+  comments: PdfComment[];
+  revisions: RequestRevision[];
+  events: RequestEvent[];
+  reminders: RequestReminder[];
+  vendors: Vendor[];
+  storeItems: StoreItem[];
+  workflowTemplates: WorkflowTemplate[];
+  routingRules: RoutingRule[];
+  delegations: Delegation[];
+  leaveLedger: LeaveLedgerEntry[];
+  publicHolidays: PublicHoliday[];
+  staffingLimits: StaffingLimit[];
+  drafts: RequestDraft[];
+  sessionUserId: string | null;
+}
+
+// Every seeded account signs in with this password when the portal runs on the local backend.
+export const LOCAL_DEMO_PASSWORD = 'zankli-demo';
+
+const SEED_YEAR = new Date().getFullYear();
+
+// Every seeded account starts the year with annual and sick leave.
+const seedLeaveEntitlements = (userIds: string[]): LeaveLedgerEntry[] => userIds.flatMap(userId => [
+  { id: `local-leave-${userId}-annual`, userId, category: LeaveCategory.ANNUAL, year: SEED_YEAR, days: 20, kind: 'entitlement' as const, createdAt: `${SEED_YEAR}-01-01T00:00:00.000Z` },
+  { id: `local-leave-${userId}-sick`, userId, category: LeaveCategory.SICK, year: SEED_YEAR, days: 10, kind: 'entitlement' as const, createdAt: `${SEED_YEAR}-01-01T00:00:00.000Z` },
+]);
+
+export const createLocalSeed = (): LocalDatabaseState => ({
+  profiles: [
+    { id: 'local-admin', email: 'admin@zankli.local', role: UserRole.ADMIN, fullName: 'Portal Administrator' },
+    { id: 'local-hod', email: 'hod@zankli.local', role: UserRole.APPROVER, fullName: 'Head of Department', workflowRoles: [WorkflowRole.HOD] },
+    { id: 'local-auditor', email: 'auditorzankli@gmail.com', role: UserRole.APPROVER, fullName: 'Internal Auditor', workflowRoles: [WorkflowRole.INTERNAL_AUDIT] },
+    { id: 'local-finance', email: 'finance@zankli.local', role: UserRole.APPROVER, fullName: 'Head of Finance', workflowRoles: [WorkflowRole.FINANCE] },
+    { id: 'local-md', email: 'md@zankli.local', role: UserRole.APPROVER, fullName: 'Medical Director', workflowRoles: [WorkflowRole.MEDICAL_DIRECTOR] },
+  ],
+  requests: [],
+  comments: [],
+  revisions: [],
+  events: [],
+  reminders: [],
+  vendors: [
+    { id: 'local-vendor-1', name: 'Total Energies Abuja', contactPerson: 'Aisha Bello', contactEmail: 'sales@totalenergies.local' },
+    { id: 'local-vendor-2', name: 'MedSupplies Nigeria Ltd', contactPerson: 'Chinedu Okafor', contactEmail: 'orders@medsupplies.local' },
+  ],
+  storeItems: [
+    { id: 'local-item-1', name: 'Surgical Gloves (box)', purpose: 'Theatre and wards', quantityInStock: 120, lastPurchaseDate: '2024-01-15', unitCost: 4500 },
+    { id: 'local-item-2', name: 'A4 Paper (ream)', purpose: 'Administration', quantityInStock: 40, lastPurchaseDate: '2024-02-02', unitCost: 6000 },
+    { id: 'local-item-3', name: 'Hand Sanitizer (5L)', purpose: 'Infection control', quantityInStock: 25, lastPurchaseDate: '2024-01-28', unitCost: 18000 },
+  ],
+  workflowTemplates: [
+    {
+      id: 'local-workflow-diesel',
+      requestType: RequestType.DIESEL,
+      steps: [{ kind: 'role', role: WorkflowRole.HOD }, { kind: 'role', role: WorkflowRole.INTERNAL_AUDIT }, { kind: 'role', role: WorkflowRole.MEDICAL_DIRECTOR }],
+      allowOverride: true,
+      slaHours: 24,
+    },
+    {
+      id: 'local-workflow-procurement',
+      requestType: RequestType.PROCUREMENT,
+      steps: [
+        { kind: 'role', role: WorkflowRole.HOD }, { kind: 'role', role: WorkflowRole.INTERNAL_AUDIT }, { kind: 'role', role: WorkflowRole.FINANCE },
+      ],
+      allowOverride: false,
+      slaHours: 48,
+      escalateTo: { kind: 'role', role: WorkflowRole.MEDICAL_DIRECTOR },
+    },
+    {
+      id: 'local-workflow-leave',
+      requestType: RequestType.LEAVE,
+      steps: [{ kind: 'role', role: WorkflowRole.HOD }],
+      allowOverride: true,
+    },
+  ],
+  routingRules: [
+    {
+      id: 'local-rule-procurement-md',
+      name: 'Large procurements need the Medical Director',
+      requestTypes: [RequestType.PROCUREMENT],
+      amountOver: 2000000,
+      action: 'require',
+      step: { kind: 'role', role: WorkflowRole.MEDICAL_DIRECTOR },
+      active: true,
+    },
+  ],
+  delegations: [],
+  leaveLedger: seedLeaveEntitlements(['local-admin', 'local-hod', 'local-auditor', 'local-finance', 'local-md']),
+  publicHolidays: [
+    { id: 'local-holiday-new-year', date: `${SEED_YEAR}-01-01`, name: "New Year's Day" },
+    { id: 'local-holiday-workers-day', date: `${SEED_YEAR}-05-01`, name: "Workers' Day" },
+    { id: 'local-holiday-democracy-day', date: `${SEED_YEAR}-06-12`, name: 'Democracy Day' },
+    { id: 'local-holiday-independence-day', date: `${SEED_YEAR}-10-01`, name: 'Independence Day' },
+    { id: 'local-holiday-christmas', date: `${SEED_YEAR}-12-25`, name: 'Christmas Day' },
+    { id: 'local-holiday-boxing-day', date: `${SEED_YEAR}-12-26`, name: 'Boxing Day' },
+  ],
+  staffingLimits: [],
+  drafts: [],
+  sessionUserId: null,
+});
@@ -0,0 +1,88 @@
+import { Request, ApprovalStatus, RequestType } from '../../types.ts';
+import { currentApproverIds } from '../approvalSteps.ts';
+
+export type RequestSortField = 'createdAt' | 'status' | 'type' | 'requesterName';
+
+export interface RequestSort {
+  field: RequestSortField;
+  ascending: boolean;
+}
+
+export interface RequestQuery {
+  statuses?: ApprovalStatus[];
+  types?: RequestType[];
+  excludeTypes?: RequestType[];
+  requesterId?: string;
+  // Requests where this user appears anywhere in the approval queue...
+  approverId?: string;
+  // ...optionally narrowed to the status of that user's own step.
+  approverStatus?: ApprovalStatus;
+  // Requests currently waiting on the action of any of these users, alone or as members of a parallel step
+  // (e.g. an approver and the colleagues they are covering for).
+  currentApproverIds?: string[];
+  // Inclusive ISO date (yyyy-mm-dd) bounds on the submission date.
+  createdFrom?: string;
+  createdTo?: string;
+  // Matched case-insensitively against the request id, subject and requester name.
+  search?: string;
+  sort?: RequestSort;
+}
+
+export interface RequestPage {
+  items: Request[];
+  // Opaque cursor for the following page, or null when this was the last one.
+  nextCursor: string | null;
+  totalCount: number;
+}
+
+export const DEFAULT_PAGE_SIZE = 20;
+
+export const DEFAULT_REQUEST_SORT: RequestSort = { field: 'createdAt', ascending: false };
+
+export const requestSearchText = (request: Request): string =>
+  `${request.id} ${request.details?.subject || ''} ${request.requesterName || ''}`.toLowerCase();
+
+// The end of the day is included so that a `createdTo` of today still matches requests made this afternoon.
+const endOfDay = (date: string) => new Date(`${date}T23:59:59.999`).getTime();
+const startOfDay = (date: string) => new Date(`${date}T00:00:00`).getTime();
+
+// Client-side twin of the filters applied by the database, used by the local backend and to decide
+// whether a realtime change belongs in an already loaded page.
+export const matchesRequestQuery = (request: Request, query: RequestQuery): boolean => {
+  if (query.statuses?.length && !query.statuses.includes(request.status)) return false;
+  if (query.types?.length && !query.types.includes(request.type)) return false;
+  if (query.excludeTypes?.includes(request.type)) return false;
+  if (query.requesterId && request.requesterId !== query.requesterId) return false;
+
+  const queue = request.approvalQueue || [];
+  if (query.approverId && !queue.some(a => a.userId === query.approverId && (!query.approverStatus || a.status === query.approverStatus))) return false;
+  if (query.currentApproverIds && !currentApproverIds(request).some(id => query.currentApproverIds!.includes(id))) return false;
+
+  const createdAt = new Date(request.createdAt).getTime();
+  if (query.createdFrom && createdAt < startOfDay(query.createdFrom)) return false;
+  if (query.createdTo && createdAt > endOfDay(query.createdTo)) return false;
+
+  const search = query.search?.trim().toLowerCase();
+  if (search && !requestSearchText(request).includes(search)) return false;
+
+  return true;
+};
+
+export const compareRequests = (sort: RequestSort = DEFAULT_REQUEST_SORT) => (a: Request, b: Request): number => {
+  let result: number;
+  if (sort.field === 'createdAt') {
+    result = new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+  } else {
+    result = String(a[sort.field] || '').localeCompare(String(b[sort.field] || ''));
+  }
+  if (result === 0) result = a.id.localeCompare(b.id);
+  return sort.ascending ? result : -result;
+};
+
+// Cursors are offsets into the sorted result set; they are opaque to callers.
+export const encodeCursor = (offset: number): string => String(offset);
+
+export const decodeCursor = (cursor: string | null | undefined): number => {
+  const offset = Number(cursor);
+  return Number.isInteger(offset) && offset > 0 ? offset : 0;
+};
@@ -0,0 +1,710 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Request, Approver, ApprovalStatus, FulfilmentRecord, FulfilmentStage, PdfComment, PdfCommentSummary, User, Vendor, StoreItem, WorkflowStep, WorkflowTemplateStep, WorkflowTemplate, RoutingRule, Delegation, RequestReminder, RequestRevision, RequestEvent, DetailAdjustment, Consultation, LeaveLedgerEntry, PublicHoliday, LeaveCalendarEntry, StaffingLimit, RequestDraft } from '../../types.ts';
+import { DataAccess, DataError, DataResult, RowChange, Unsubscribe } from './types.ts';
+import { RequestQuery, RequestSortField, DEFAULT_PAGE_SIZE, DEFAULT_REQUEST_SORT, encodeCursor, decodeCursor } from './requestQuery.ts';
+import { RequestActor, transitionError } from '../requestStatus.ts';
+
+const ATTACHMENTS_BUCKET = 'request_attachments';
+
+const mapProfileRow = (p: any): User => ({
+    id: p.id,
+    email: p.email,
+    role: p.role,
+    fullName: p.full_name,
+    workflowRoles: p.workflow_roles || [],
+});
+
+const PROFILE_COLUMNS = 'id, email, role, full_name, workflow_roles';
+
+const mapAdjustmentRow = (adjustment: any): DetailAdjustment => ({
+    field: adjustment.field,
+    itemId: adjustment.item_id ?? undefined,
+    from: Number(adjustment.from),
+    to: Number(adjustment.to),
+});
+
+const toAdjustmentRow = (adjustment: DetailAdjustment) => ({
+    field: adjustment.field,
+    item_id: adjustment.itemId ?? null,
+    from: adjustment.from,
+    to: adjustment.to,
+});
+
+const mapConsultationRow = (consultation: any): Consultation => ({
+    mode: consultation.mode,
+    requestedById: consultation.requested_by_id,
+    requestedByEmail: consultation.requested_by_email ?? undefined,
+    requestedAt: consultation.requested_at,
+    question: consultation.question ?? undefined,
+});
+
+const toConsultationRow = (consultation: Consultation) => ({
+    mode: consultation.mode,
+    requested_by_id: consultation.requestedById,
+    requested_by_email: consultation.requestedByEmail ?? null,
+    requested_at: consultation.requestedAt,
+    question: consultation.question ?? null,
+});
+
+const mapApproverRow = (approverInDb: any): Approver => ({
+    userId: approverInDb.user_id || approverInDb.userId,
+    userEmail: approverInDb.user_email,
+    status: approverInDb.status,
+    comments: approverInDb.comments,
+    approvedAt: approverInDb.approved_at,
+    signature: approverInDb.signature,
+    hodComments: approverInDb.hod_comments,
+    internalAuditComments: approverInDb.internal_audit_comments,
+    finalAmount: approverInDb.final_amount,
+    adjustments: approverInDb.adjustments ? approverInDb.adjustments.map(mapAdjustmentRow) : undefined,
+    consultation: approverInDb.consultation ? mapConsultationRow(approverInDb.consultation) : undefined,
+    group: approverInDb.group ?? undefined,
+    stepRole: approverInDb.step_role ?? undefined,
+    actedById: approverInDb.acted_by_id ?? undefined,
+    actedByEmail: approverInDb.acted_by_email ?? undefined,
+    slaHours: approverInDb.sla_hours ?? undefined,
+    escalatedAt: approverInDb.escalated_at ?? undefined,
+    escalatedToId: approverInDb.escalated_to_id ?? undefined,
+});
+
+const toApproverRow = (approver: Approver) => ({
+    user_id: approver.userId,
+    user_email: approver.userEmail,
+    status: approver.status,
+    group: approver.group ?? null,
+    sla_hours: approver.slaHours ?? null,
+    step_role: approver.stepRole ?? null,
+    consultation: approver.consultation ? toConsultationRow(approver.consultation) : null,
+});
+
+// Queue entries as stored on submission; like resubmit_request_as_admin, consultations are not carried over.
+const toSubmittedApproverRow = (approver: Approver) => ({ ...toApproverRow(approver), consultation: null });
+
+const mapFulfilmentRow = (record: any): FulfilmentRecord => ({
+    stage: record.stage,
+    byId: record.by_id,
+    byEmail: record.by_email ?? undefined,
+    at: record.at,
+    note: record.note ?? undefined,
+});
+
+const mapRequestRow = (req: any): Request => ({
+    id: req.id,
+    requesterId: req.requester_id,
+    requesterName: req.requester_name,
+    type: req.type,
+    details: req.details,
+    status: req.status,
+    approvalQueue: (req.approval_queue || []).map(mapApproverRow),
+    currentApproverIndex: req.current_approver_index,
+    currentStepStartedAt: req.current_step_started_at ?? undefined,
+    createdAt: req.created_at,
+    cancellation: req.cancelled_at ? {
+        byId: req.cancelled_by_id,
+        byEmail: req.cancelled_by_email ?? undefined,
+        at: req.cancelled_at,
+        reason: req.cancellation_reason,
+    } : undefined,
+    fulfilment: (req.fulfilment || []).map(mapFulfilmentRow),
+    fileName: req.file_name,
+    fileURL: req.file_url,
+    requesterSignature: req.requester_signature,
+    vendorId: req.vendor_id,
+});
+
+const mapCommentRow = (c: any): PdfComment => ({
+    id: c.id,
+    requestId: c.request_id,
+    userId: c.user_id,
+    userEmail: c.user_email,
+    comment: c.comment,
+    createdAt: c.created_at,
+});
+
+const mapCommentSummaryRow = (s: any): PdfCommentSummary => ({
+    requestId: s.request_id,
+    count: s.comment_count,
+    lastCommentAt: s.last_comment_at,
+    lastCommentUserId: s.last_comment_user_id,
+    lastCommentUserEmail: s.last_comment_user_email,
+    lastComment: s.last_comment,
+});
+
+const mapVendorRow = (vendor: any): Vendor => ({
+    id: vendor.id,
+    name: vendor.name,
+    contactPerson: vendor.contact_person,
+    contactEmail: vendor.contact_email,
+});
+
+const mapStoreItemRow = (item: any): StoreItem => ({
+    id: item.id,
+    name: item.name,
+    purpose: item.purpose,
+    quantityInStock: item.quantity_in_stock,
+    lastPurchaseDate: item.last_purchase_date,
+    unitCost: item.unit_cost,
+});
+
+const mapWorkflowStepRow = (step: any): WorkflowStep => (
+    step.kind === 'role' ? { kind: 'role', role: step.role } : { kind: 'user', userId: step.user_id }
+);
+
+const toWorkflowStepRow = (step: WorkflowStep) => (
+    step.kind === 'role' ? { kind: 'role', role: step.role } : { kind: 'user', user_id: step.userId }
+);
+
+const mapWorkflowTemplateStepRow = (step: any): WorkflowTemplateStep => ({
+    ...mapWorkflowStepRow(step),
+    ...(step.group ? { group: step.group } : {}),
+    ...(step.sla_hours ? { slaHours: step.sla_hours } : {}),
+});
+
+const toWorkflowTemplateStepRow = (step: WorkflowTemplateStep) => ({
+    ...toWorkflowStepRow(step),
+    ...(step.group ? { group: step.group } : {}),
+    ...(step.slaHours ? { sla_hours: step.slaHours } : {}),
+});
+
+const mapWorkflowTemplateRow = (template: any): WorkflowTemplate => ({
+    id: template.id,
+    requestType: template.request_type,
+    steps: (template.steps || []).map(mapWorkflowTemplateStepRow),
+    allowOverride: template.allow_override,
+    slaHours: template.sla_hours ?? undefined,
+    escalateTo: template.escalate_to ? mapWorkflowStepRow(template.escalate_to) : undefined,
+    fulfilmentStages: template.fulfilment_stages ?? undefined,
+    updatedAt: template.updated_at,
+});
+
+const mapRevisionRow = (r: any): RequestRevision => ({
+    id: r.id,
+    requestId: r.request_id,
+    revision: r.revision,
+    requesterName: r.requester_name,
+    details: r.details,
+    approvalQueue: (r.approval_queue || []).map(mapApproverRow),
+    vendorId: r.vendor_id ?? undefined,
+    fileName: r.file_name ?? undefined,
+    fileURL: r.file_url ?? undefined,
+    submittedAt: r.submitted_at,
+    supersededAt: r.superseded_at,
+    supersededById: r.superseded_by_id ?? undefined,
+});
+
+const mapEventRow = (e: any): RequestEvent => ({
+    id: e.id,
+    requestId: e.request_id,
+    kind: e.kind,
+    actorId: e.actor_id ?? undefined,
+    actorEmail: e.actor_email ?? undefined,
+    at: e.at,
+    detail: e.detail ?? undefined,
+});
+
+const mapReminderRow = (r: any): RequestReminder => ({
+    id: r.id,
+    requestId: r.request_id,
+    recipientId: r.recipient_id,
+    senderId: r.sender_id ?? undefined,
+    kind: r.kind,
+    message: r.message,
+    createdAt: r.created_at,
+});
+
+const mapRoutingRuleRow = (rule: any): RoutingRule => ({
+    id: rule.id,
+    name: rule.name,
+    requestTypes: rule.request_types || [],
+    department: rule.department ?? undefined,
+    amountOver: rule.amount_over ?? undefined,
+    amountUpTo: rule.amount_up_to ?? undefined,
+    action: rule.action,
+    step: mapWorkflowStepRow(rule.step),
+    active: rule.active,
+});
+
+const mapDelegationRow = (d: any): Delegation => ({
+    id: d.id,
+    delegatorId: d.delegator_id,
+    delegateId: d.delegate_id,
+    startsOn: d.starts_on,
+    endsOn: d.ends_on,
+    reason: d.reason ?? undefined,
+});
+
+const mapLeaveLedgerRow = (e: any): LeaveLedgerEntry => ({
+    id: e.id,
+    userId: e.user_id,
+    category: e.category,
+    year: e.year,
+    days: Number(e.days),
+    kind: e.kind,
+    requestId: e.request_id ?? undefined,
+    note: e.note ?? undefined,
+    createdAt: e.created_at,
+});
+
+const mapPublicHolidayRow = (h: any): PublicHoliday => ({
+    id: h.id,
+    date: h.date,
+    name: h.name,
+});
+
+const mapLeaveCalendarRow = (e: any): LeaveCalendarEntry => ({
+    requestId: e.request_id,
+    applicantId: e.applicant_id,
+    applicantName: e.applicant_name ?? '',
+    department: e.department ?? '',
+    category: e.category,
+    startDate: e.start_date,
+    endDate: e.end_date,
+    publicHolidays: e.public_holidays || [],
+    status: e.status,
+});
+
+const mapStaffingLimitRow = (l: any): StaffingLimit => ({
+    id: l.id,
+    department: l.department,
+    maxOnLeave: l.max_on_leave,
+});
+
+const mapDraftRow = (d: any): RequestDraft => ({
+    id: d.id,
+    ownerId: d.owner_id,
+    requestType: d.request_type,
+    details: d.details || {},
+    requesterName: d.requester_name ?? '',
+    approvalQueue: d.approval_queue || [],
+    vendorId: d.vendor_id ?? undefined,
+    pendingFiles: d.pending_files || {},
+    updatedAt: d.updated_at,
+});
+
+const mapRows = <T>(response: { data: any[] | null; error: any }, mapRow: (row: any) => T): DataResult<T[]> => {
+    if (response.error) return { data: null, error: response.error };
+    return { data: (response.data || []).map(mapRow), error: null };
+};
+
+const mapSingle = <T>(response: { data: any | null; error: any }, mapRow: (row: any) => T): DataResult<T> => {
+    if (response.error) return { data: null, error: response.error };
+    return { data: response.data ? mapRow(response.data) : null, error: null };
+};
+
+const REQUEST_SORT_COLUMNS: Record<RequestSortField, string> = {
+    createdAt: 'created_at',
+    status: 'status',
+    type: 'type',
+    requesterName: 'requester_name',
+};
+
+// Quote a value for use inside a PostgREST `in` / `not.in` list.
+const quoteFilterValue = (value: string) => `"${value.replace(/"/g, '\\"')}"`;
+
+// Escape LIKE wildcards so a search for "50%" matches literally.
+const escapeLikePattern = (value: string) => value.replace(/[\\%_]/g, match => `\\${match}`);
+
+// `current_approver_ids` and `search_text` are generated columns on `requests` (see supabase_setup.sql)
+// so that "awaiting my approval" and free-text search can be answered by the database.
+// A filtered select on the requests table; every filter keeps the builder's type.
+type RequestFilterBuilder = ReturnType<ReturnType<SupabaseClient['from']>['select']>;
+
+const applyRequestQuery = <Builder extends RequestFilterBuilder>(builder: Builder, query: RequestQuery): Builder => {
+    let filtered = builder;
+    if (query.statuses?.length) filtered = filtered.in('status', query.statuses);
+    if (query.types?.length) filtered = filtered.in('type', query.types);
+    if (query.excludeTypes?.length) filtered = filtered.not('type', 'in', `(${query.excludeTypes.map(quoteFilterValue).join(',')})`);
+    if (query.requesterId) filtered = filtered.eq('requester_id', query.requesterId);
+    if (query.approverId) {
+        const step = query.approverStatus ? { user_id: query.approverId, status: query.approverStatus } : { user_id: query.approverId };
+        filtered = filtered.contains('approval_queue', [step]);
+    }
+    if (query.currentApproverIds?.length) filtered = filtered.overlaps('current_approver_ids', query.currentApproverIds);
+    if (query.createdFrom) filtered = filtered.gte('created_at', new Date(`${query.createdFrom}T00:00:00`).toISOString());
+    if (query.createdTo) filtered = filtered.lte('created_at', new Date(`${query.createdTo}T23:59:59.999`).toISOString());
+    const search = query.search?.trim().toLowerCase();
+    if (search) filtered = filtered.ilike('search_text', `%${escapeLikePattern(search)}%`);
+    return filtered;
+};
+
+let channelCounter = 0;
+
+// Streams row-level changes of one table through Supabase realtime. The table must be part of the
+// `supabase_realtime` publication (see supabase_setup.sql).
+const subscribeToTable = <T>(supabase: SupabaseClient, table: string, mapRow: (row: any) => T, onChange: (change: RowChange<T>) => void): Unsubscribe => {
+    channelCounter += 1;
+    const channel = supabase
+        .channel(`${table}-changes-${channelCounter}`)
+        .on('postgres_changes', { event: '*', schema: 'public', table }, (payload: any) => {
+            const hasNewRow = payload.eventType !== 'DELETE' && payload.new && Object.keys(payload.new).length > 0;
+            onChange({
+                eventType: payload.eventType,
+                record: hasNewRow ? mapRow(payload.new) : null,
+                oldRecord: payload.old && Object.keys(payload.old).length > 0 ? mapRow(payload.old) : null,
+            });
+        })
+        .subscribe();
+    return () => { supabase.removeChannel(channel); };
+};
+
+// Rejects status changes the request state machine does not allow before calling the RPC; the
+// requests_status_transition trigger enforces the same table in the database.
+const checkTransition = async (supabase: SupabaseClient, requestId: string, to: ApprovalStatus, actor: RequestActor): Promise<DataError | null> => {
+    const { data, error } = await supabase.from('requests').select('status, type').eq('id', requestId).single();
+    if (error) return error;
+    const illegal = transitionError(data, to, actor);
+    return illegal ? { message: illegal } : null;
+};
+
+// Robustly parse the storage path from the full public Supabase URL.
+const parseAttachmentPath = (fileURL: string): string | null => {
+    const url = new URL(fileURL);
+    const pathSegments = url.pathname.split('/');
+    const bucketIndex = pathSegments.findIndex(segment => segment === ATTACHMENTS_BUCKET);
+    if (bucketIndex === -1 || bucketIndex + 1 >= pathSegments.length) return null;
+    return pathSegments.slice(bucketIndex + 1).join('/');
+};
+
+export const createSupabaseDataAccess = (supabase: SupabaseClient): DataAccess => ({
+    auth: {
+        onAuthStateChange: (callback) => {
+            const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+                callback(session?.user ? { user: { id: session.user.id, email: session.user.email! } } : null);
+            });
+            return () => subscription?.unsubscribe();
+        },
+        signInWithPassword: async (email, password) => {
+            const { error } = await supabase.auth.signInWithPassword({ email, password });
+            return { error };
+        },
+        signOut: async () => {
+            const { error } = await supabase.auth.signOut();
+            return { error };
+        },
+    },
+
+    profiles: {
+        list: async () => mapRows(await supabase.from('profiles').select(PROFILE_COLUMNS), mapProfileRow),
+        getById: async (id) => mapSingle(await supabase.from('profiles').select(PROFILE_COLUMNS).eq('id', id).single(), mapProfileRow),
+        setWorkflowRoles: async (userId, roles) => {
+            const { error } = await supabase.rpc('set_workflow_roles', { p_user_id: userId, p_roles: roles });
+            return { error };
+        },
+    },
+
+    requests: {
+        query: async (query, cursor, pageSize = DEFAULT_PAGE_SIZE) => {
+            const sort = query.sort || DEFAULT_REQUEST_SORT;
+            const offset = decodeCursor(cursor);
+            const { data, error, count } = await applyRequestQuery(supabase.from('requests').select('*', { count: 'exact' }), query)
+                .order(REQUEST_SORT_COLUMNS[sort.field], { ascending: sort.ascending })
+                .order('id', { ascending: sort.ascending })
+                .range(offset, offset + pageSize - 1);
+            if (error) return { data: null, error };
+
+            const items = (data || []).map(mapRequestRow);
+            const totalCount = count ?? items.length;
+            const nextOffset = offset + items.length;
+            return { data: { items, nextCursor: nextOffset < totalCount ? encodeCursor(nextOffset) : null, totalCount }, error: null };
+        },
+        getById: async (id) => mapSingle(await supabase.from('requests').select('*').eq('id', id).single(), mapRequestRow),
+        create: async (request) => {
+            const response = await supabase.from('requests').insert([{
+                requester_id: request.requesterId, requester_name: request.requesterName, type: request.type,
+                details: request.details, status: ApprovalStatus.PENDING, approval_queue: request.approvalQueue.map(toSubmittedApproverRow),
+                current_approver_index: 0, file_url: request.fileURL, file_name: request.fileName,
+                requester_signature: request.requesterSignature, vendor_id: request.vendorId,
+            }]).select().single();
+            return mapSingle(response, mapRequestRow);
+        },
+        handleAction: async (params) => {
+            const illegal = await checkTransition(supabase, params.requestId, params.action, 'approver');
+            if (illegal) return { error: illegal };
+            const { error } = await supabase.rpc('handle_request_action', {
+                p_request_id: params.requestId, p_action: params.action, p_comments: params.comments, p_signature: params.signature,
+                p_hod_comments: params.hodComments, p_internal_audit_comments: params.internalAuditComments,
+                p_final_amount: params.finalAmount,
+                p_remaining_queue: params.remainingQueue?.map(toApproverRow) ?? null,
+                p_adjustments: params.adjustments?.map(toAdjustmentRow) ?? null,
+            });
+            return { error };
+        },
+        resubmitAsAdmin: async (params) => {
+            const illegal = await checkTransition(supabase, params.requestId, ApprovalStatus.PENDING, 'admin');
+            if (illegal) return { error: illegal };
+            const { error } = await supabase.rpc('resubmit_request_as_admin', {
+                p_request_id: params.requestId, p_requester_name: params.requesterName,
+                p_details: params.details, p_approval_queue: params.approvalQueue.map(toSubmittedApproverRow),
+                p_vendor_id: params.vendorId, p_file_url: params.fileURL, p_file_name: params.fileName,
+                p_requester_signature: params.requesterSignature,
+            });
+            return { error };
+        },
+        updateItemStatusAsAdmin: async (requestId, status) => {
+            const illegal = await checkTransition(supabase, requestId, status, 'admin');
+            if (illegal) return { error: illegal };
+            const { error } = await supabase.rpc('update_item_request_status_as_admin', {
+                p_request_id: requestId, p_new_status: status,
+            });
+            return { error };
+        },
+        consult: async (params) => {
+            const { error } = await supabase.rpc('consult_reviewer', {
+                p_request_id: params.requestId, p_reviewer_id: params.reviewerId, p_mode: params.mode,
+                p_position: params.position, p_question: params.question?.trim() || null,
+            });
+            return { error };
+        },
+        cancel: async (requestId, reason) => {
+            // Requesters and administrators may cancel from the same statuses; cancel_request checks who the caller is.
+            const illegal = await checkTransition(supabase, requestId, ApprovalStatus.CANCELLED, 'requester');
+            if (illegal) return { error: illegal };
+            const { error } = await supabase.rpc('cancel_request', { p_request_id: requestId, p_reason: reason });
+            return { error };
+        },
+        recordFulfilmentStage: async (requestId, stage, note) => {
+            if (stage === FulfilmentStage.COMPLETED) {
+                const illegal = await checkTransition(supabase, requestId, ApprovalStatus.COMPLETED, 'admin');
+                if (illegal) return { error: illegal };
+            }
+            const { error } = await supabase.rpc('record_fulfilment_stage', {
+                p_request_id: requestId, p_stage: stage, p_note: note?.trim() || null,
+            });
+            return { error };
+        },
+        subscribe: (onChange) => subscribeToTable(supabase, 'requests', mapRequestRow, onChange),
+    },
+
+    comments: {
+        listForRequest: async (requestId) => mapRows(
+            await supabase.from('pdf_comments').select('*').eq('request_id', requestId).order('created_at', { ascending: true }),
+            mapCommentRow,
+        ),
+        listSummaries: async (query) => {
+            let builder = supabase.from('pdf_comment_summaries').select('*');
+            if (query.requestIds) builder = builder.in('request_id', query.requestIds);
+            if (query.since) builder = builder.gte('last_comment_at', query.since);
+            const ordered = builder.order('last_comment_at', { ascending: false });
+            return mapRows(await (query.limit ? ordered.limit(query.limit) : ordered), mapCommentSummaryRow);
+        },
+        add: async (comment) => {
+            const response = await supabase
+                .from('pdf_comments')
+                .insert([{ request_id: comment.requestId, user_id: comment.userId, user_email: comment.userEmail, comment: comment.comment }])
+                .select()
+                .single();
+            return mapSingle(response, mapCommentRow);
+        },
+        subscribe: (onChange) => subscribeToTable(supabase, 'pdf_comments', mapCommentRow, onChange),
+    },
+
+    // Revisions are written only by the `resubmit_request_as_admin` RPC; row level security lets users read those
+    // of the requests they can see.
+    revisions: {
+        listForRequest: async (requestId) => mapRows(
+            await supabase.from('request_revisions').select('*').eq('request_id', requestId).order('revision', { ascending: true }),
+            mapRevisionRow,
+        ),
+    },
+
+    events: {
+        listForRequest: async (requestId) => mapRows(
+            await supabase.from('request_events').select('*').eq('request_id', requestId).order('at', { ascending: true }),
+            mapEventRow,
+        ),
+        record: async (event) => mapSingle(
+            await supabase.from('request_events').insert({
+                request_id: event.requestId, kind: event.kind, detail: event.detail ?? null,
+            }).select().single(),
+            mapEventRow,
+        ),
+    },
+
+    reminders: {
+        list: async () => mapRows(
+            await supabase.from('request_reminders').select('*').order('created_at', { ascending: false }),
+            mapReminderRow,
+        ),
+        send: async (requestId) => {
+            const { error } = await supabase.rpc('send_request_reminder', { p_request_id: requestId });
+            return { error };
+        },
+        subscribe: (onChange) => subscribeToTable(supabase, 'request_reminders', mapReminderRow, onChange),
+    },
+
+    vendors: {
+        list: async () => mapRows(await supabase.from('vendors').select('*'), mapVendorRow),
+        create: async (vendor) => {
+            const { error } = await supabase.from('vendors').insert([{
+                name: vendor.name,
+                contact_person: vendor.contactPerson,
+                contact_email: vendor.contactEmail,
+            }]);
+            return { error };
+        },
+    },
+
+    storeItems: {
+        list: async () => mapRows(await supabase.from('store_items').select('*'), mapStoreItemRow),
+        create: async (item) => {
+            const { error } = await supabase.from('store_items').insert([{
+                name: item.name,
+                purpose: item.purpose,
+                quantity_in_stock: item.quantityInStock,
+                unit_cost: item.unitCost,
+                last_purchase_date: item.lastPurchaseDate,
+            }]);
+            return { error };
+        },
+    },
+
+    workflowTemplates: {
+        list: async () => mapRows(await supabase.from('workflow_templates').select('*'), mapWorkflowTemplateRow),
+        save: async (template) => {
+            const response = await supabase.from('workflow_templates').upsert({
+                request_type: template.requestType,
+                steps: template.steps.map(toWorkflowTemplateStepRow),
+                allow_override: template.allowOverride,
+                sla_hours: template.slaHours ?? null,
+                escalate_to: template.escalateTo ? toWorkflowStepRow(template.escalateTo) : null,
+                fulfilment_stages: template.fulfilmentStages ?? null,
+                updated_at: new Date().toISOString(),
+            }, { onConflict: 'request_type' }).select().single();
+            return mapSingle(response, mapWorkflowTemplateRow);
+        },
+        remove: async (requestType) => {
+            const { error } = await supabase.from('workflow_templates').delete().eq('request_type', requestType);
+            return { error };
+        },
+    },
+
+    routingRules: {
+        list: async () => mapRows(await supabase.from('routing_rules').select('*'), mapRoutingRuleRow),
+        save: async (rule) => {
+            const row = {
+                name: rule.name,
+                request_types: rule.requestTypes,
+                department: rule.department || null,
+                amount_over: rule.amountOver ?? null,
+                amount_up_to: rule.amountUpTo ?? null,
+                action: rule.action,
+                step: toWorkflowStepRow(rule.step),
+                active: rule.active,
+            };
+            const response = rule.id
+                ? await supabase.from('routing_rules').update(row).eq('id', rule.id).select().single()
+                : await supabase.from('routing_rules').insert([row]).select().single();
+            return mapSingle(response, mapRoutingRuleRow);
+        },
+        remove: async (id) => {
+            const { error } = await supabase.from('routing_rules').delete().eq('id', id);
+            return { error };
+        },
+    },
+
+    delegations: {
+        list: async () => mapRows(await supabase.from('approval_delegations').select('*').order('starts_on'), mapDelegationRow),
+        save: async (delegation) => {
+            const row = {
+                delegator_id: delegation.delegatorId,
+                delegate_id: delegation.delegateId,
+                starts_on: delegation.startsOn,
+                ends_on: delegation.endsOn,
+                reason: delegation.reason || null,
+            };
+            const response = delegation.id
+                ? await supabase.from('approval_delegations').update(row).eq('id', delegation.id).select().single()
+                : await supabase.from('approval_delegations').insert([row]).select().single();
+            return mapSingle(response, mapDelegationRow);
+        },
+        remove: async (id) => {
+            const { error } = await supabase.from('approval_delegations').delete().eq('id', id);
+            return { error };
+        },
+    },
+
+    leaveLedger: {
+        list: async () => mapRows(await supabase.from('leave_ledger').select('*').order('created_at'), mapLeaveLedgerRow),
+        record: async (entry) => mapSingle(await supabase.from('leave_ledger').insert([{
+            user_id: entry.userId,
+            category: entry.category,
+            year: entry.year,
+            days: entry.days,
+            kind: entry.kind,
+            note: entry.note || null,
+        }]).select().single(), mapLeaveLedgerRow),
+    },
+
+    publicHolidays: {
+        list: async () => mapRows(await supabase.from('public_holidays').select('*').order('date'), mapPublicHolidayRow),
+        save: async (holiday) => {
+            const row = { date: holiday.date, name: holiday.name };
+            const response = holiday.id
+                ? await supabase.from('public_holidays').update(row).eq('id', holiday.id).select().single()
+                : await supabase.from('public_holidays').insert([row]).select().single();
+            return mapSingle(response, mapPublicHolidayRow);
+        },
+        remove: async (id) => {
+            const { error } = await supabase.from('public_holidays').delete().eq('id', id);
+            return { error };
+        },
+    },
+
+    leaveCalendar: {
+        list: async (from, to) => mapRows(await supabase.rpc('leave_calendar', { p_from: from, p_to: to }), mapLeaveCalendarRow),
+    },
+
+    staffingLimits: {
+        list: async () => mapRows(await supabase.from('leave_staffing_limits').select('*').order('department'), mapStaffingLimitRow),
+        save: async (limit) => {
+            const row = { department: limit.department.trim(), max_on_leave: limit.maxOnLeave };
+            const response = limit.id
+                ? await supabase.from('leave_staffing_limits').update(row).eq('id', limit.id).select().single()
+                : await supabase.from('leave_staffing_limits').insert([row]).select().single();
+            return mapSingle(response, mapStaffingLimitRow);
+        },
+        remove: async (id) => {
+            const { error } = await supabase.from('leave_staffing_limits').delete().eq('id', id);
+            return { error };
+        },
+    },
+
+    drafts: {
+        listMine: async () => mapRows(await supabase.from('request_drafts').select('*').order('updated_at', { ascending: false }), mapDraftRow),
+        save: async (draft) => mapSingle(await supabase.from('request_drafts').upsert({
+            id: draft.id,
+            owner_id: draft.ownerId,
+            request_type: draft.requestType,
+            details: draft.details,
+            requester_name: draft.requesterName,
+            approval_queue: draft.approvalQueue,
+            vendor_id: draft.vendorId || null,
+            pending_files: draft.pendingFiles,
+            updated_at: draft.updatedAt,
+        }).select().single(), mapDraftRow),
+        remove: async (id) => {
+            const { error } = await supabase.from('request_drafts').delete().eq('id', id);
+            return { error };
+        },
+    },
+
+    attachments: {
+        upload: async (ownerId, file) => {
+            const filePath = `${ownerId}/${Date.now()}_${file.name}`;
+            const { error } = await supabase.storage.from(ATTACHMENTS_BUCKET).upload(filePath, file);
+            if (error) return { data: null, error };
+
+            const { data: urlData } = supabase.storage.from(ATTACHMENTS_BUCKET).getPublicUrl(filePath);
+            return { data: { fileURL: urlData.publicUrl, fileName: file.name }, error: null };
+        },
+        download: async (fileURL) => {
+            const filePath = parseAttachmentPath(fileURL);
+            if (!filePath) return { data: null, error: { message: 'Could not parse file path from URL' } };
+
+            // Use the authenticated Supabase client to download the file, bypassing CORS issues.
+            const { data, error } = await supabase.storage.from(ATTACHMENTS_BUCKET).download(filePath);
+            if (error) return { data: null, error };
+            return { data, error: null };
+        },
+    },
+});
@@ -0,0 +1,243 @@
+import { Request, RequestType, ApprovalStatus, FulfilmentStage, PdfComment, PdfCommentSummary, User, Vendor, StoreItem, WorkflowTemplate, RoutingRule, Delegation, RequestReminder, RequestRevision, RequestEvent, ClientRequestEventKind, WorkflowRole, DistributivePick, DetailAdjustment, ConsultationMode, ConsultationPosition, LeaveLedgerEntry, PublicHoliday, LeaveCalendarEntry, StaffingLimit, RequestDraft } from '../../types.ts';
+import { RequestQuery, RequestPage } from './requestQuery.ts';
+
+// Errors coming out of the data layer mirror the shape of Supabase errors so the
+// contexts can keep inspecting `error.message` regardless of the backend in use.
+export interface DataError {
+  message: string;
+  code?: string;
+}
+
+export interface DataResult<T> {
+  data: T | null;
+  error: DataError | null;
+}
+
+export interface MutationResult {
+  error: DataError | null;
+}
+
+// A row-level change pushed by the backend, shaped after Supabase realtime payloads.
+export interface RowChange<T> {
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+  record: T | null;
+  oldRecord: Partial<T> | null;
+}
+
+export type Unsubscribe = () => void;
+
+export interface AuthSession {
+  user: {
+    id: string;
+    email: string;
+  };
+}
+
+export interface AuthRepository {
+  // Calls back immediately with the current session, then on every sign in / sign out.
+  onAuthStateChange: (callback: (session: AuthSession | null) => void) => Unsubscribe;
+  signInWithPassword: (email: string, password: string) => Promise<MutationResult>;
+  signOut: () => Promise<MutationResult>;
+}
+
+export interface ProfileRepository {
+  list: () => Promise<DataResult<User[]>>;
+  getById: (id: string) => Promise<DataResult<User>>;
+  // Admin only: the step roles (HOD, Internal Audit, ...) an approver holds.
+  setWorkflowRoles: (userId: string, roles: WorkflowRole[]) => Promise<MutationResult>;
+}
+
+export type NewRequestRecord = DistributivePick<Request, 'requesterId' | 'requesterName' | 'type' | 'details' | 'approvalQueue' | 'fileURL' | 'fileName' | 'requesterSignature' | 'vendorId'>;
+
+export interface RequestActionParams {
+  requestId: string;
+  action: ApprovalStatus;
+  comments: string | null;
+  signature: string;
+  hodComments: string | null;
+  internalAuditComments: string | null;
+  finalAmount: number | null;
+  // Replaces the steps after the current one when approving, e.g. after routing rules are re-run on a new final amount.
+  // Refused unless it still follows the rules (reroutingProblems in lib/routingRules.ts).
+  remainingQueue: Request['approvalQueue'] | null;
+  // Values changed when approving (lib/adjustments.ts); the backend checks them against the stored details,
+  // puts them in and recomputes the totals.
+  adjustments: DetailAdjustment[] | null;
+}
+
+export interface ConsultReviewerParams {
+  requestId: string;
+  reviewerId: string;
+  mode: ConsultationMode;
+  position: ConsultationPosition;
+  question: string | null;
+}
+
+export interface ResubmitRequestParams {
+  requestId: string;
+  requesterName: string;
+  details: Request['details'];
+  approvalQueue: Request['approvalQueue'];
+  vendorId: string | null;
+  fileURL: string | null;
+  fileName: string | null;
+  requesterSignature?: string;
+}
+
+export interface RequestRepository {
+  // Filtered, sorted and paged on the server; pass the previous page's `nextCursor` to continue. Approvers come
+  // back with whatever email was stored alongside them.
+  query: (query: RequestQuery, cursor?: string | null, pageSize?: number) => Promise<DataResult<RequestPage>>;
+  getById: (id: string) => Promise<DataResult<Request>>;
+  create: (request: NewRequestRecord) => Promise<DataResult<Request>>;
+  // Backed by the `handle_request_action` RPC: acts as the signed-in user on the current approval step, or on
+  // behalf of an approver on it whom they are covering for (see DelegationRepository).
+  // Adjustments and a `remainingQueue` are saved in the same call, only if the decision is.
+  handleAction: (params: RequestActionParams) => Promise<MutationResult>;
+  // Backed by the `consult_reviewer` RPC: a current approver adds an ad-hoc reviewer just before or after
+  // their step (see lib/consultations.ts).
+  consult: (params: ConsultReviewerParams) => Promise<MutationResult>;
+  // Backed by the `resubmit_request_as_admin` RPC: keeps the current submission as a revision, replaces it and
+  // restarts the queue.
+  resubmitAsAdmin: (params: ResubmitRequestParams) => Promise<MutationResult>;
+  // Backed by the `update_item_request_status_as_admin` RPC.
+  updateItemStatusAsAdmin: (requestId: string, status: ApprovalStatus) => Promise<MutationResult>;
+  // Backed by the `cancel_request` RPC: the requester or an administrator withdraws a pending or sent back request.
+  cancel: (requestId: string, reason: string) => Promise<MutationResult>;
+  // Backed by the `record_fulfilment_stage` RPC: an administrator records the next fulfilment stage of an approved
+  // request (see lib/fulfilment.ts). Recording Completed completes the request.
+  recordFulfilmentStage: (requestId: string, stage: FulfilmentStage, note?: string) => Promise<MutationResult>;
+  subscribe: (onChange: (change: RowChange<Request>) => void) => Unsubscribe;
+}
+
+// Which comment summaries to load: those of the given requests and/or of requests last commented on since an
+// ISO timestamp, latest comment first, at most `limit` of them.
+export interface CommentSummaryQuery {
+  requestIds?: string[];
+  since?: string;
+  limit?: number;
+}
+
+export interface CommentRepository {
+  // Comments on a single request, oldest first.
+  listForRequest: (requestId: string) => Promise<DataResult<PdfComment[]>>;
+  // One row per matching request that has comments; backed by the `pdf_comment_summaries` view.
+  listSummaries: (query: CommentSummaryQuery) => Promise<DataResult<PdfCommentSummary[]>>;
+  add: (comment: Omit<PdfComment, 'id' | 'createdAt'>) => Promise<DataResult<PdfComment>>;
+  subscribe: (onChange: (change: RowChange<PdfComment>) => void) => Unsubscribe;
+}
+
+export interface RevisionRepository {
+  // Earlier submissions of a request, oldest first. Written by the `resubmit_request_as_admin` RPC only.
+  listForRequest: (requestId: string) => Promise<DataResult<RequestRevision[]>>;
+}
+
+export interface EventRepository {
+  // A request's activity log, oldest first.
+  listForRequest: (requestId: string) => Promise<DataResult<RequestEvent[]>>;
+  // Appends a viewed or downloaded entry as the signed-in user. Every other entry is written by the backend in the
+  // same transaction as the change it records. Entries cannot be changed or removed.
+  record: (event: { requestId: string; kind: ClientRequestEventKind; detail?: string }) => Promise<DataResult<RequestEvent>>;
+}
+
+export interface ReminderRepository {
+  // Reminders addressed to the signed-in user, newest first.
+  list: () => Promise<DataResult<RequestReminder[]>>;
+  // Backed by the `send_request_reminder` RPC: reminds everyone who can act on the current step,
+  // and whoever is covering for them. Administrators only.
+  send: (requestId: string) => Promise<MutationResult>;
+  subscribe: (onChange: (change: RowChange<RequestReminder>) => void) => Unsubscribe;
+}
+
+export interface VendorRepository {
+  list: () => Promise<DataResult<Vendor[]>>;
+  create: (vendor: Omit<Vendor, 'id'>) => Promise<MutationResult>;
+}
+
+export interface StoreItemRepository {
+  list: () => Promise<DataResult<StoreItem[]>>;
+  create: (item: Omit<StoreItem, 'id'>) => Promise<MutationResult>;
+}
+
+export interface WorkflowTemplateRepository {
+  list: () => Promise<DataResult<WorkflowTemplate[]>>;
+  // There is at most one template per request type; saving replaces the existing one. Administrators only.
+  save: (template: Omit<WorkflowTemplate, 'id' | 'updatedAt'>) => Promise<DataResult<WorkflowTemplate>>;
+  remove: (requestType: RequestType) => Promise<MutationResult>;
+}
+
+export interface RoutingRuleRepository {
+  list: () => Promise<DataResult<RoutingRule[]>>;
+  // Inserts when `id` is omitted, otherwise updates. Administrators only.
+  save: (rule: Omit<RoutingRule, 'id'> & { id?: string }) => Promise<DataResult<RoutingRule>>;
+  remove: (id: string) => Promise<MutationResult>;
+}
+
+export interface DelegationRepository {
+  list: () => Promise<DataResult<Delegation[]>>;
+  // Inserts when `id` is omitted, otherwise updates. Approvers manage their own cover; administrators anyone's.
+  save: (delegation: Omit<Delegation, 'id'> & { id?: string }) => Promise<DataResult<Delegation>>;
+  remove: (id: string) => Promise<MutationResult>;
+}
+
+export interface LeaveLedgerRepository {
+  list: () => Promise<DataResult<LeaveLedgerEntry[]>>;
+  // Administrators only. 'taken' entries are written by the database when a leave request is approved, which is
+  // refused if the applicant no longer has enough leave left.
+  record: (entry: Omit<LeaveLedgerEntry, 'id' | 'createdAt' | 'requestId' | 'kind'> & { kind: 'entitlement' | 'adjustment' }) => Promise<DataResult<LeaveLedgerEntry>>;
+}
+
+export interface PublicHolidayRepository {
+  list: () => Promise<DataResult<PublicHoliday[]>>;
+  // Inserts when `id` is omitted, otherwise updates. There is at most one holiday per date. Administrators only.
+  save: (holiday: Omit<PublicHoliday, 'id'> & { id?: string }) => Promise<DataResult<PublicHoliday>>;
+  remove: (id: string) => Promise<MutationResult>;
+}
+
+export interface LeaveCalendarRepository {
+  // Backed by the `leave_calendar` RPC: pending and approved leave overlapping the inclusive ISO dates, for every
+  // department, so approvers can see who else is away without reading the requests themselves.
+  list: (from: string, to: string) => Promise<DataResult<LeaveCalendarEntry[]>>;
+}
+
+export interface StaffingLimitRepository {
+  list: () => Promise<DataResult<StaffingLimit[]>>;
+  // Inserts when `id` is omitted, otherwise updates. There is at most one limit per department, compared
+  // case-insensitively. Administrators only.
+  save: (limit: Omit<StaffingLimit, 'id'> & { id?: string }) => Promise<DataResult<StaffingLimit>>;
+  remove: (id: string) => Promise<MutationResult>;
+}
+
+export interface DraftRepository {
+  // The signed-in user's own drafts; nobody else can read them.
+  listMine: () => Promise<DataResult<RequestDraft[]>>;
+  // Inserts the draft, or replaces the one with the same id.
+  save: (draft: RequestDraft) => Promise<DataResult<RequestDraft>>;
+  remove: (id: string) => Promise<MutationResult>;
+}
+
+export interface AttachmentRepository {
+  upload: (ownerId: string, file: File) => Promise<DataResult<{ fileURL: string; fileName: string }>>;
+  download: (fileURL: string) => Promise<DataResult<Blob>>;
+}
+
+export interface DataAccess {
+  auth: AuthRepository;
+  profiles: ProfileRepository;
+  requests: RequestRepository;
+  comments: CommentRepository;
+  revisions: RevisionRepository;
+  events: EventRepository;
+  reminders: ReminderRepository;
+  vendors: VendorRepository;
+  storeItems: StoreItemRepository;
+  workflowTemplates: WorkflowTemplateRepository;
+  routingRules: RoutingRuleRepository;
+  delegations: DelegationRepository;
+  leaveLedger: LeaveLedgerRepository;
+  publicHolidays: PublicHolidayRepository;
+  leaveCalendar: LeaveCalendarRepository;
+  staffingLimits: StaffingLimitRepository;
+  drafts: DraftRepository;
+  attachments: AttachmentRepository;
+}
@@ -0,0 +1,9 @@
+import { supabase } from './supabaseClient.ts';
+import { DataAccess } from './data/types.ts';
+import { createSupabaseDataAccess } from './data/supabaseDataAccess.ts';
+import { createLocalDataAccess } from './data/localDataAccess.ts';
+
+// Set DATA_BACKEND=local in .env.local to run the portal against the in-browser demo database.
+export const dataAccess: DataAccess = process.env.DATA_BACKEND === 'local'
+  ? createLocalDataAccess({ persist: true, scheduleEscalations: true })
+  : createSupabaseDataAccess(supabase);
@@ -0,0 +1,37 @@
+import { Approver, ApprovalStatus, Delegation, Request } from '../types.ts';
+import { currentApprovalStep } from './approvalSteps.ts';
+
+export const todayIsoDate = (): string => new Date().toISOString().split('T')[0];
+
+export const isDelegationActive = (delegation: Delegation, on: string = todayIsoDate()): boolean =>
+  delegation.startsOn <= on && on <= delegation.endsOn;
+
+// The approvers `userId` is currently covering for. Cover is not passed on: a delegate's own delegations don't apply.
+export const coveredApproverIds = (delegations: Delegation[], userId: string, on?: string): string[] =>
+  Array.from(new Set(delegations.filter(d => d.delegateId === userId && isDelegationActive(d, on)).map(d => d.delegatorId)));
+
+// Everyone whose approval steps `userId` may act on today: themselves first, then the approvers they cover.
+export const actingApproverIds = (delegations: Delegation[], userId: string, on?: string): string[] =>
+  [userId, ...coveredApproverIds(delegations, userId, on).filter(id => id !== userId)];
+
+// The queue entry `userId` would sign for on the request's current step: their own when they have one,
+// otherwise that of an approver they are covering for, or one escalated to them as the backup approver.
+// Null when they cannot act, including when they already acted on this step, so that one person never
+// casts two votes in a parallel step.
+export const approverToActFor = (request: Pick<Request, 'status' | 'approvalQueue' | 'currentApproverIndex'>, delegations: Delegation[], userId: string): string | null => {
+  const step = currentApprovalStep(request);
+  if (!step || request.status !== ApprovalStatus.PENDING) return null;
+  if (step.members.some(a => a.actedById === userId || (a.userId === userId && a.status !== ApprovalStatus.PENDING))) return null;
+  const pending = step.members.filter(a => a.status === ApprovalStatus.PENDING);
+  const covered = coveredApproverIds(delegations, userId);
+  const entry = pending.find(a => a.userId === userId)
+    || pending.find(a => covered.includes(a.userId))
+    || pending.find(a => a.escalatedToId === userId);
+  return entry ? entry.userId : null;
+};
+
+// e.g. "finance@zankli.local on behalf of md@zankli.local".
+export const describeSignatory = (approver: Approver, approverEmail?: string): string => {
+  const email = approverEmail || approver.userEmail || approver.userId;
+  return approver.actedById ? `${approver.actedByEmail || approver.actedById} on behalf of ${email}` : email;
+};
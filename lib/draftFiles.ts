@@ -0,0 +1,40 @@
+// Files picked while filling in a draft, by slot: ATTACHMENT_SLOT for the request's document, otherwise the
+// quotation id. They are kept in IndexedDB, which unlike localStorage can hold files, and never leave the browser
+// until the request is submitted.
+export type DraftFiles = { [slot: string]: File };
+
+export const ATTACHMENT_SLOT = 'attachment';
+
+const DATABASE_NAME = 'zmc-draft-files';
+const STORE_NAME = 'files';
+
+// Resolves to null where IndexedDB is unavailable (private browsing in some browsers); drafts then keep
+// only the names of their files.
+const openDatabase = (): Promise<IDBDatabase | null> => new Promise(resolve => {
+  if (typeof indexedDB === 'undefined') return resolve(null);
+  const request = indexedDB.open(DATABASE_NAME, 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => resolve(null);
+});
+
+const runInStore = async <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest): Promise<T | undefined> => {
+  const database = await openDatabase();
+  if (!database) return undefined;
+  return new Promise((resolve, reject) => {
+    const request = operation(database.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => { database.close(); resolve(request.result as T); };
+    request.onerror = () => { database.close(); reject(request.error); };
+  });
+};
+
+export const storeDraftFiles = async (draftId: string, files: DraftFiles): Promise<void> => {
+  await runInStore('readwrite', store => (Object.keys(files).length > 0 ? store.put(files, draftId) : store.delete(draftId)));
+};
+
+export const readDraftFiles = async (draftId: string): Promise<DraftFiles> =>
+  (await runInStore<DraftFiles>('readonly', store => store.get(draftId))) || {};
+
+export const deleteDraftFiles = async (draftId: string): Promise<void> => {
+  await runInStore('readwrite', store => store.delete(draftId));
+};
@@ -0,0 +1,60 @@
+import { RequestDraft } from '../types.ts';
+import { QueuedApprover } from './approvalSteps.ts';
+import { DraftFiles } from './draftFiles.ts';
+
+// How long RequestForm waits after the last change before saving the draft.
+export const DRAFT_AUTOSAVE_DELAY_MS = 1000;
+
+export const newDraftId = (): string => {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) return crypto.randomUUID();
+  return `draft-${Date.now()}-${Math.random().toString(16).slice(2)}`;
+};
+
+export const toDraftQueue = (queue: QueuedApprover[]): RequestDraft['approvalQueue'] =>
+  queue.map(({ user, group, slaHours, stepRole }) => ({
+    userId: user.id,
+    ...(group ? { group } : {}),
+    ...(slaHours !== undefined ? { slaHours } : {}),
+    ...(stepRole ? { stepRole } : {}),
+  }));
+
+export const pendingFileNames = (files: DraftFiles): RequestDraft['pendingFiles'] =>
+  Object.fromEntries(Object.entries(files).map(([slot, file]) => [slot, file.name]));
+
+export const sortDrafts = (drafts: RequestDraft[]): RequestDraft[] => [...drafts].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+
+// Drafts saved in this browser and on the account, by id; the copy saved last wins.
+export const mergeDrafts = (local: RequestDraft[], remote: RequestDraft[]): RequestDraft[] => {
+  const merged = new Map(local.map(draft => [draft.id, draft]));
+  remote.forEach(draft => {
+    const existing = merged.get(draft.id);
+    if (!existing || draft.updatedAt > existing.updatedAt) merged.set(draft.id, draft);
+  });
+  return sortDrafts(Array.from(merged.values()));
+};
+
+// Drafts are always kept in this browser, per user, like the notification read state.
+const localDraftsKey = (userId: string) => `zmc-drafts-${userId}`;
+const keepOnServerKey = (userId: string) => `zmc-drafts-on-server-${userId}`;
+
+export const readLocalDrafts = (userId: string): RequestDraft[] => {
+  if (typeof localStorage === 'undefined') return [];
+  try {
+    return JSON.parse(localStorage.getItem(localDraftsKey(userId)) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+export const writeLocalDrafts = (userId: string, drafts: RequestDraft[]) => {
+  if (typeof localStorage === 'undefined') return;
+  localStorage.setItem(localDraftsKey(userId), JSON.stringify(drafts));
+};
+
+export const readKeepDraftsOnServer = (userId: string): boolean =>
+  typeof localStorage !== 'undefined' && localStorage.getItem(keepOnServerKey(userId)) === 'true';
+
+export const writeKeepDraftsOnServer = (userId: string, keep: boolean) => {
+  if (typeof localStorage === 'undefined') return;
+  localStorage.setItem(keepOnServerKey(userId), String(keep));
+};
@@ -0,0 +1,19 @@
+// Helpers for reading loosely typed request detail values (form state, or rows saved before details were typed).
+
+export type RawDetails = { [key: string]: any };
+
+export const asRecord = (value: unknown): RawDetails => (value && typeof value === 'object' && !Array.isArray(value) ? value as RawDetails : {});
+
+// Form inputs hold numbers as strings such as "1500" or "1,500.00".
+export const toNumber = (value: unknown): number => {
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value ?? '').replace(/,/g, ''));
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+export const toText = (value: unknown): string => (value === null || value === undefined ? '' : String(value));
+
+export const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+export const isValidDate = (value: string): boolean => !!value && !isNaN(new Date(value).getTime());
+
+export const formatCurrency = (amount: number): string => amount.toLocaleString('en-NG', { style: 'currency', currency: 'NGN' });
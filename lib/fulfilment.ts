@@ -0,0 +1,30 @@
+import { ApprovalStatus, FulfilmentStage, Request, RequestType, WorkflowTemplate } from '../types.ts';
+import { getRequestTypeDefinition } from './requestTypes.ts';
+
+// The stages a template may choose from, in the order they happen. Completed always follows them.
+export const OPTIONAL_FULFILMENT_STAGES: FulfilmentStage[] = [
+  FulfilmentStage.PO_ISSUED,
+  FulfilmentStage.GOODS_RECEIVED,
+  FulfilmentStage.INVOICE_RECEIVED,
+  FulfilmentStage.PAID,
+];
+
+export const hasFulfilment = (type: RequestType): boolean => !!getRequestTypeDefinition(type).fulfilmentStages;
+
+// The stages an approved request of this type goes through, ending with Completed; empty for types without fulfilment.
+export const fulfilmentStagesFor = (type: RequestType, template?: Pick<WorkflowTemplate, 'fulfilmentStages'>): FulfilmentStage[] => {
+  const defaults = getRequestTypeDefinition(type).fulfilmentStages;
+  if (!defaults) return [];
+  const chosen = template?.fulfilmentStages ?? defaults;
+  return [...OPTIONAL_FULFILMENT_STAGES.filter(stage => chosen.includes(stage)), FulfilmentStage.COMPLETED];
+};
+
+// Approved and waiting on the fulfilment stages to be recorded.
+export const isAwaitingFulfilment = (request: Pick<Request, 'status' | 'type'>): boolean =>
+  request.status === ApprovalStatus.APPROVED && hasFulfilment(request.type);
+
+// The stage to record next, or null when the request is not awaiting fulfilment.
+export const nextFulfilmentStage = (request: Pick<Request, 'status' | 'type' | 'fulfilment'>, stages: FulfilmentStage[]): FulfilmentStage | null => {
+  if (!isAwaitingFulfilment(request)) return null;
+  return stages.find(stage => !request.fulfilment?.some(record => record.stage === stage)) ?? null;
+};
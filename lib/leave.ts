@@ -0,0 +1,122 @@
+import { ApprovalStatus, LeaveCalendarEntry, LeaveCategory, LeaveDetails, LeaveLedgerEntry, LeaveLedgerKind, PublicHoliday, StaffingLimit } from '../types.ts';
+import { isValidDate } from './fieldValues.ts';
+
+export const LEAVE_CATEGORY_LABELS: Record<LeaveCategory, string> = {
+  [LeaveCategory.ANNUAL]: 'Annual leave',
+  [LeaveCategory.SICK]: 'Sick leave',
+  [LeaveCategory.MATERNITY]: 'Maternity leave',
+  [LeaveCategory.COMPASSIONATE]: 'Compassionate leave',
+};
+
+export const LEAVE_LEDGER_KIND_LABELS: Record<LeaveLedgerKind, string> = {
+  entitlement: 'Entitlement',
+  adjustment: 'Adjustment',
+  taken: 'Leave taken',
+};
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// ISO dates are read as UTC midnight so that day arithmetic is not thrown off by time zones.
+const toUtcDay = (date: string): number => Date.parse(`${date}T00:00:00Z`);
+const fromUtcDay = (time: number): string => new Date(time).toISOString().split('T')[0];
+
+export const isWeekend = (date: string): boolean => {
+  const day = new Date(toUtcDay(date)).getUTCDay();
+  return day === 0 || day === 6;
+};
+
+export const shiftDate = (date: string, days: number): string => fromUtcDay(toUtcDay(date) + days * DAY_MS);
+
+// Every date from start to end inclusive; empty when either is invalid or the end comes first.
+export const datesBetween = (startDate: string, endDate: string): string[] => {
+  if (!isValidDate(startDate) || !isValidDate(endDate)) return [];
+  const dates: string[] = [];
+  for (let time = toUtcDay(startDate); time <= toUtcDay(endDate); time += DAY_MS) dates.push(fromUtcDay(time));
+  return dates;
+};
+
+// The holidays (ISO dates) that fall on working days between start and end inclusive, in date order.
+export const holidaysWithin = (holidays: string[], startDate: string, endDate: string): string[] =>
+  Array.from(new Set(holidays)).filter(date => isValidDate(date) && date >= startDate && date <= endDate && !isWeekend(date)).sort();
+
+// Inclusive count of days between two ISO dates that are neither weekends nor in `holidays`.
+export const countWorkingDays = (startDate: string, endDate: string, holidays: string[] = []): number => {
+  const skipped = new Set(holidays);
+  return datesBetween(startDate, endDate).filter(date => !isWeekend(date) && !skipped.has(date)).length;
+};
+
+// Leave is charged to the year it starts in.
+export const leaveYear = (details: Pick<LeaveDetails, 'startDate'>): number =>
+  isValidDate(details.startDate) ? Number(details.startDate.slice(0, 4)) : new Date().getFullYear();
+
+export const leaveBalance = (ledger: LeaveLedgerEntry[], userId: string, category: LeaveCategory, year: number): number =>
+  ledger
+    .filter(entry => entry.userId === userId && entry.category === category && entry.year === year)
+    .reduce((total, entry) => total + entry.days, 0);
+
+export const insufficientLeaveMessage = (details: Pick<LeaveDetails, 'applicantName' | 'category' | 'leaveDays'>, balance: number): string =>
+  `${details.applicantName || 'The applicant'} has ${balance} day(s) of ${LEAVE_CATEGORY_LABELS[details.category].toLowerCase()} left, fewer than the ${details.leaveDays} requested.`;
+
+// The ledger entry charging an approved leave request to the applicant's balance.
+export const takenLeaveEntry = (requestId: string, details: LeaveDetails): Omit<LeaveLedgerEntry, 'id' | 'createdAt'> => ({
+  userId: details.applicantId,
+  category: details.category,
+  year: leaveYear(details),
+  days: -details.leaveDays,
+  kind: 'taken',
+  requestId,
+});
+
+export const holidayDates = (holidays: PublicHoliday[]): string[] => holidays.map(holiday => holiday.date);
+
+// Departments without a staffing limit flag any colleague on leave the same day.
+export const LEAVE_OVERLAP_POLICY = { defaultMaxOnLeave: 1 };
+
+export const departmentKey = (department: string): string => department.trim().toLowerCase();
+
+export const staffingLimitFor = (limits: StaffingLimit[], department: string): number =>
+  limits.find(limit => departmentKey(limit.department) === departmentKey(department))?.maxOnLeave ?? LEAVE_OVERLAP_POLICY.defaultMaxOnLeave;
+
+export const leaveCalendarEntry = (requestId: string, status: LeaveCalendarEntry['status'], details: LeaveDetails): LeaveCalendarEntry => ({
+  requestId,
+  applicantId: details.applicantId,
+  applicantName: details.applicantName,
+  department: details.department,
+  category: details.category,
+  startDate: details.startDate,
+  endDate: details.endDate,
+  publicHolidays: details.publicHolidays,
+  status,
+});
+
+export const isOnLeaveCalendar = (status: ApprovalStatus): status is LeaveCalendarEntry['status'] =>
+  status === ApprovalStatus.PENDING || status === ApprovalStatus.APPROVED;
+
+// The working days a calendar entry keeps its applicant away.
+export const leaveDatesOff = (entry: Pick<LeaveCalendarEntry, 'startDate' | 'endDate' | 'publicHolidays'>): string[] => {
+  const holidays = new Set(entry.publicHolidays);
+  return datesBetween(entry.startDate, entry.endDate).filter(date => !isWeekend(date) && !holidays.has(date));
+};
+
+export interface LeaveClash {
+  date: string;
+  // Other staff of the department off that day, one entry each.
+  colleagues: LeaveCalendarEntry[];
+}
+
+// The working days of `entry` on which it would put more than `maxOnLeave` staff of its department on leave
+// at once. Requests without a department are not compared.
+export const findLeaveClashes = (entry: LeaveCalendarEntry, calendar: LeaveCalendarEntry[], maxOnLeave: number): LeaveClash[] => {
+  const department = departmentKey(entry.department);
+  if (!department) return [];
+  const colleagues = calendar
+    .filter(other => other.applicantId !== entry.applicantId && departmentKey(other.department) === department)
+    .map(other => ({ other, dates: new Set(leaveDatesOff(other)) }));
+  return leaveDatesOff(entry)
+    .map(date => {
+      const off = new Map<string, LeaveCalendarEntry>();
+      colleagues.forEach(({ other, dates }) => { if (dates.has(date) && !off.has(other.applicantId)) off.set(other.applicantId, other); });
+      return { date, colleagues: Array.from(off.values()) };
+    })
+    .filter(clash => clash.colleagues.length + 1 > maxOnLeave);
+};
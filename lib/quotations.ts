@@ -0,0 +1,72 @@
+import { ProcurementDetails, Quotation } from '../types.ts';
+import { formatCurrency, isValidDate, roundCurrency } from './fieldValues.ts';
+
+// Purchases from this amount should be backed by at least this many quotations. Requests with fewer are
+// flagged to approvers rather than refused.
+export const QUOTATION_POLICY = { minimumQuotations: 3, fromAmount: 500000 };
+
+// Quote documents picked in the form, keyed by quotation id; uploaded when the request is saved.
+export type QuotationFiles = { [quotationId: string]: File };
+
+export const newQuotationId = (): string => {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) return crypto.randomUUID();
+  return `quotation-${Date.now()}-${Math.random().toString(16).slice(2)}`;
+};
+
+export const cheapestQuotationAmount = (quotations: Quotation[]): number | null =>
+  quotations.length > 0 ? Math.min(...quotations.map(q => q.amount)) : null;
+
+export const isCheapestQuotation = (quotation: Quotation, quotations: Quotation[]): boolean =>
+  quotation.amount === cheapestQuotationAmount(quotations);
+
+export const selectedQuotation = (details: Pick<ProcurementDetails, 'quotations' | 'selectedQuotationId'>): Quotation | undefined =>
+  details.quotations.find(q => q.id === details.selectedQuotationId);
+
+// Expired quotations are shown as such but not refused; the vendor may still honour them.
+export const isQuotationExpired = (quotation: Quotation, on: Date = new Date()): boolean =>
+  isValidDate(quotation.validUntil) && quotation.validUntil < on.toISOString().split('T')[0];
+
+export const needsMoreQuotations = (details: Pick<ProcurementDetails, 'quotations' | 'grandTotal'>): boolean =>
+  details.grandTotal >= QUOTATION_POLICY.fromAmount && details.quotations.length < QUOTATION_POLICY.minimumQuotations;
+
+export const validateQuotations = (details: ProcurementDetails): string[] => {
+  const { quotations } = details;
+  if (quotations.length === 0) return [];
+  const selected = selectedQuotation(details);
+  const problems: [boolean, string][] = [
+    [quotations.every(q => !!q.vendorId), 'Every quotation needs a vendor.'],
+    [new Set(quotations.map(q => q.vendorId)).size === quotations.length, 'Each quotation must come from a different vendor.'],
+    [quotations.every(q => q.amount > 0), 'Every quotation needs an amount greater than zero.'],
+    [quotations.every(q => isValidDate(q.validUntil)), 'Every quotation needs a valid "valid until" date.'],
+    [!!selected, 'Please select the recommended quotation.'],
+    [!selected || isCheapestQuotation(selected, quotations) || !!details.selectionJustification.trim(),
+      'Please explain why the recommended quotation is not the cheapest.'],
+  ];
+  return problems.filter(([ok]) => !ok).map(([, message]) => message);
+};
+
+// A column of the comparison approvers see: how far each quotation is above the cheapest one.
+export interface QuotationComparison {
+  quotation: Quotation;
+  aboveCheapest: number;
+  isCheapest: boolean;
+  isRecommended: boolean;
+  isExpired: boolean;
+}
+
+export const compareQuotations = (details: Pick<ProcurementDetails, 'quotations' | 'selectedQuotationId'>, on: Date = new Date()): QuotationComparison[] => {
+  const cheapest = cheapestQuotationAmount(details.quotations) ?? 0;
+  return details.quotations.map(quotation => ({
+    quotation,
+    aboveCheapest: roundCurrency(quotation.amount - cheapest),
+    isCheapest: quotation.amount === cheapest,
+    isRecommended: quotation.id === details.selectedQuotationId,
+    isExpired: isQuotationExpired(quotation, on),
+  }));
+};
+
+// One line for revision diffs, e.g. "Acme ₦1,200,000.00 (recommended), Bolt ₦1,150,000.00".
+export const describeQuotations = (details: Pick<ProcurementDetails, 'quotations' | 'selectedQuotationId'>, vendorName: (id: string) => string | undefined): string =>
+  details.quotations
+    .map(q => `${vendorName(q.vendorId) || q.vendorId} ${formatCurrency(q.amount)}${q.id === details.selectedQuotationId ? ' (recommended)' : ''}`)
+    .join(', ');
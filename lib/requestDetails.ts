@@ -0,0 +1,90 @@
+import { Request, RequestType, RequestDetails, TypedRequestDetails, StoreRequisitionItem, ProcurementLineItem } from '../types.ts';
+import { RawDetails, asRecord, toNumber, toText, roundCurrency, isValidDate, formatCurrency } from './fieldValues.ts';
+import { RequestFieldDefinition, getRequestTypeDefinition } from './requestTypes.ts';
+
+// Coerces loosely shaped details (form state or a database row) into the typed details for `type`.
+export const normaliseRequestDetails = (type: RequestType, details: unknown): TypedRequestDetails =>
+  // The registry is keyed by type, so the definition's details always belong with `type`.
+  ({ type, details: getRequestTypeDefinition(type).normalise(asRecord(details)) }) as TypedRequestDetails;
+
+// Returns a readable message for every rule the (already normalised) details break; empty when valid.
+export const validateRequestDetails = ({ type, details }: TypedRequestDetails): string[] => {
+  const problems: string[] = [];
+  if (!details.subject.trim()) problems.push('Subject is required.');
+  if (!isValidDate(details.dateOfRequisition)) problems.push('Date of requisition must be a valid date.');
+  return [...problems, ...getRequestTypeDefinition(type).validate(details)];
+};
+
+// Replaces a request's details with their normalised form, warning about (but keeping) rows that fail validation
+// so that one bad record never hides the rest of the list.
+export const normaliseRequest = (request: Request): Request => {
+  const typed = normaliseRequestDetails(request.type, request.details);
+  const problems = validateRequestDetails(typed);
+  if (problems.length > 0) {
+    console.warn(`Request ${request.id} has invalid ${request.type} details:`, problems);
+  }
+  return { ...request, ...typed };
+};
+
+export const readDetailField = (details: RequestDetails | RawDetails, key: string): any => (details as RawDetails)[key];
+
+export const formatDetailField = (field: RequestFieldDefinition<any>, value: unknown): string => {
+  switch (field.kind) {
+    case 'currency': return formatCurrency(toNumber(value));
+    case 'number':
+    case 'leaveBalance': return `${toNumber(value).toLocaleString()}${field.unit ? ` ${field.unit}` : ''}`;
+    case 'select': return field.options?.find(option => option.value === value)?.label || toText(value);
+    case 'holidays': return Array.isArray(value) && value.length > 0 ? value.join(', ') : 'None';
+    default: return toText(value);
+  }
+};
+
+// The detail rows shown in the details modal and the exported PDF. Subject is rendered separately,
+// as are line-item tables.
+export const describeRequestDetails = ({ type, details }: TypedRequestDetails): { label: string; value: string }[] => [
+  { label: 'Date of Requisition', value: details.dateOfRequisition },
+  ...getRequestTypeDefinition(type).fields
+    .filter(field => !field.hideInDetails && !isLineItemField(field))
+    .map(field => ({ label: field.label, value: formatDetailField(field, readDetailField(details, field.key)) })),
+];
+
+// One line of a line-item field as the tables, adjustments and revision diffs read it, whichever kind of
+// field it belongs to. Only procurement lines have a unit, a link to the store item they restock, or a vendor.
+export interface LineItemRow {
+  id: string;
+  name: string;
+  unit: string;
+  quantity: number;
+  unitCost: number;
+  totalCost: number;
+  storeItemId?: string;
+  vendorId?: string;
+}
+
+export const isLineItemField = (field: RequestFieldDefinition<any>): boolean => field.kind === 'storeItems' || field.kind === 'procurementItems';
+
+export const toLineItemRow = (field: RequestFieldDefinition<any>, line: StoreRequisitionItem | ProcurementLineItem): LineItemRow => {
+  if (field.kind === 'storeItems') {
+    const { itemId, itemName, quantity, unitCost, totalCost } = line as StoreRequisitionItem;
+    return { id: itemId, name: itemName, unit: '', quantity, unitCost, totalCost };
+  }
+  const { id, description, unit, quantity, unitCost, totalCost, storeItemId, vendorId } = line as ProcurementLineItem;
+  return { id, name: description, unit, quantity, unitCost, totalCost, storeItemId, vendorId };
+};
+
+export const readLineItems = (details: RequestDetails | RawDetails, field: RequestFieldDefinition<any>): LineItemRow[] =>
+  ((readDetailField(details, field.key) || []) as (StoreRequisitionItem | ProcurementLineItem)[]).map(line => toLineItemRow(field, line));
+
+// The line-item tables of a request, with their totals.
+export const describeLineItems = ({ type, details }: TypedRequestDetails): { label: string; items: LineItemRow[]; total: number }[] =>
+  getRequestTypeDefinition(type).fields
+    .filter(isLineItemField)
+    .map(field => {
+      const items = readLineItems(details, field);
+      return { label: field.label, items, total: roundCurrency(items.reduce((total, item) => total + item.totalCost, 0)) };
+    });
+
+export const newLineItemId = (): string => {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) return crypto.randomUUID();
+  return `line-${Date.now()}-${Math.random().toString(16).slice(2)}`;
+};
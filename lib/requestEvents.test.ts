@@ -0,0 +1,58 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { ApprovalStatus, RequestEventKind, RequestType } from '../types.ts';
+import { DataAccess } from './data/types.ts';
+import { createLocalDataAccess } from './data/localDataAccess.ts';
+import { createLocalSeed } from './data/localSeed.ts';
+import { normaliseRequestDetails } from './requestDetails.ts';
+
+describe('request events', () => {
+  let db: DataAccess;
+  let requestId: string;
+
+  beforeEach(async () => {
+    db = createLocalDataAccess({ initialState: createLocalSeed() });
+    await db.auth.signInWithPassword('admin@zankli.local', 'zankli-demo');
+    const details = normaliseRequestDetails(RequestType.PROCUREMENT, { subject: 'Gloves', department: 'Theatre', justification: 'Stock' });
+    const { data: created } = await db.requests.create({
+      requesterId: 'local-admin', requesterName: 'Portal Administrator', ...details,
+      approvalQueue: [{ userId: 'local-hod', userEmail: 'hod@zankli.local', status: ApprovalStatus.PENDING }],
+    });
+    requestId = created!.id;
+  });
+
+  const logged = async () => (await db.events.listForRequest(requestId)).data!.map(e => [e.kind, e.actorEmail, e.detail]);
+
+  it('are written by the backend with each change, as whoever made it', async () => {
+    await db.auth.signInWithPassword('hod@zankli.local', 'zankli-demo');
+    await db.requests.handleAction({
+      requestId, action: ApprovalStatus.SENT_BACK, comments: 'Add a quotation', signature: 'sig',
+      hodComments: null, internalAuditComments: null, finalAmount: null, remainingQueue: null, adjustments: null,
+    });
+    await db.auth.signInWithPassword('admin@zankli.local', 'zankli-demo');
+    await db.requests.cancel(requestId, ' No longer needed ');
+
+    expect(await logged()).toEqual([
+      ['created', 'admin@zankli.local', undefined],
+      ['sentBack', 'hod@zankli.local', 'Add a quotation'],
+      ['cancelled', 'admin@zankli.local', 'No longer needed'],
+    ]);
+  });
+
+  it('are not written when the change is refused', async () => {
+    await db.auth.signInWithPassword('md@zankli.local', 'zankli-demo');
+    const { error } = await db.requests.handleAction({
+      requestId, action: ApprovalStatus.APPROVED, comments: null, signature: 'sig',
+      hodComments: null, internalAuditComments: null, finalAmount: null, remainingQueue: null, adjustments: null,
+    });
+    expect(error).not.toBeNull();
+    expect((await logged()).map(([kind]) => kind)).toEqual(['created']);
+  });
+
+  it('can only be recorded by the portal for viewing and downloading', async () => {
+    expect((await db.events.record({ requestId, kind: 'viewed' })).error).toBeNull();
+    expect((await db.events.record({ requestId, kind: 'downloaded' })).error).toBeNull();
+    const forged = await db.events.record({ requestId, kind: 'approved' as RequestEventKind as 'viewed' });
+    expect(forged.error?.message).toMatch(/^permission denied/);
+    expect((await logged()).map(([kind]) => kind)).toEqual(['created', 'viewed', 'downloaded']);
+  });
+});
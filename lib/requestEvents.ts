@@ -0,0 +1,31 @@
+import { ApprovalStatus, ClientRequestEventKind, RequestEventKind } from '../types.ts';
+
+export const REQUEST_EVENT_LABELS: Record<RequestEventKind, string> = {
+  created: 'Submitted',
+  resubmitted: 'Edited and resubmitted',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  sentBack: 'Sent back for correction',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+  fulfilment: 'Fulfilment recorded',
+  consulted: 'Added a reviewer',
+  commented: 'Commented on the document',
+  reminded: 'Reminded the approvers',
+  viewed: 'Viewed',
+  downloaded: 'Downloaded as PDF',
+};
+
+export const CLIENT_REQUEST_EVENT_KINDS: ClientRequestEventKind[] = ['viewed', 'downloaded'];
+
+// The log entry for a status an approver or administrator moved the request to.
+export const statusEventKind = (status: ApprovalStatus): RequestEventKind | null => {
+  switch (status) {
+    case ApprovalStatus.APPROVED: return 'approved';
+    case ApprovalStatus.REJECTED: return 'rejected';
+    case ApprovalStatus.SENT_BACK: return 'sentBack';
+    case ApprovalStatus.COMPLETED: return 'completed';
+    case ApprovalStatus.CANCELLED: return 'cancelled';
+    default: return null;
+  }
+};
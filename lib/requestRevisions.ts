@@ -0,0 +1,46 @@
+import { Approver, ApprovalStatus, RequestRevision, RequestType } from '../types.ts';
+import { describeRequestDetails, describeLineItems, normaliseRequestDetails } from './requestDetails.ts';
+import { formatCurrency } from './fieldValues.ts';
+import { describeQuotations } from './quotations.ts';
+
+// The parts of a submission a resubmission may change; both revisions and the request itself have them.
+export type Submission = Pick<RequestRevision, 'requesterName' | 'details' | 'approvalQueue' | 'vendorId' | 'fileName' | 'fileURL'>;
+
+export interface SubmissionChange {
+  label: string;
+  before: string;
+  after: string;
+}
+
+// One row per field, in the same order for every submission of a type, so two submissions can be compared row by row.
+const describeSubmission = (type: RequestType, submission: Submission, vendorName: (id: string) => string | undefined): { label: string; value: string }[] => {
+  const typed = normaliseRequestDetails(type, submission.details);
+  return [
+    { label: 'Requester', value: submission.requesterName },
+    { label: 'Subject', value: typed.details.subject },
+    ...describeRequestDetails(typed),
+    ...describeLineItems(typed).map(table => ({
+      label: table.label,
+      value: `${table.items.map(item => `${item.quantity} × ${item.name}`).join(', ')} (${formatCurrency(table.total)})`,
+    })),
+    ...(typed.type === RequestType.PROCUREMENT ? [
+      { label: 'Quotations', value: describeQuotations(typed.details, vendorName) },
+      { label: 'Reason for Recommended Quotation', value: typed.details.selectionJustification },
+    ] : []),
+    { label: 'Vendor', value: submission.vendorId ? vendorName(submission.vendorId) || submission.vendorId : '' },
+    { label: 'Attachment', value: submission.fileURL ? submission.fileName || submission.fileURL : '' },
+    { label: 'Approvers', value: submission.approvalQueue.map(a => a.userEmail || a.userId).join(' → ') },
+  ];
+};
+
+// The fields that differ between two submissions of the same request.
+export const diffSubmissions = (type: RequestType, before: Submission, after: Submission, vendorName: (id: string) => string | undefined): SubmissionChange[] => {
+  const beforeRows = describeSubmission(type, before, vendorName);
+  return describeSubmission(type, after, vendorName)
+    .map((row, index) => ({ label: row.label, before: beforeRows[index].value, after: row.value }))
+    .filter(change => change.before !== change.after);
+};
+
+// The approver who sent a revision back, with the comment the next submission answered.
+export const sentBackEntry = (revision: RequestRevision): Approver | undefined =>
+  revision.approvalQueue.find(a => a.status === ApprovalStatus.SENT_BACK);
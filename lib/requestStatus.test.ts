@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { ApprovalStatus, RequestType } from '../types.ts';
+import { RequestActor, allowedTransitions, canCreateProcurementFrom, canTransition, isAwaitingDecision, transitionError } from './requestStatus.ts';
+
+const STATUSES = Object.values(ApprovalStatus);
+const TYPES = Object.values(RequestType);
+const ACTORS: RequestActor[] = ['approver', 'requester', 'admin'];
+
+// The expected table, written out independently of TRANSITIONS: `from -> to` keys per actor.
+const APPROVAL_QUEUE_FLOW: Record<RequestActor, string[]> = {
+  approver: [
+    `${ApprovalStatus.PENDING} -> ${ApprovalStatus.APPROVED}`,
+    `${ApprovalStatus.PENDING} -> ${ApprovalStatus.REJECTED}`,
+    `${ApprovalStatus.PENDING} -> ${ApprovalStatus.SENT_BACK}`,
+  ],
+  requester: [
+    `${ApprovalStatus.PENDING} -> ${ApprovalStatus.CANCELLED}`,
+    `${ApprovalStatus.SENT_BACK} -> ${ApprovalStatus.CANCELLED}`,
+  ],
+  admin: [
+    `${ApprovalStatus.SENT_BACK} -> ${ApprovalStatus.PENDING}`,
+    `${ApprovalStatus.APPROVED} -> ${ApprovalStatus.COMPLETED}`,
+    `${ApprovalStatus.PENDING} -> ${ApprovalStatus.CANCELLED}`,
+    `${ApprovalStatus.SENT_BACK} -> ${ApprovalStatus.CANCELLED}`,
+  ],
+};
+
+const INBOX_FLOW: Record<RequestActor, string[]> = {
+  approver: [],
+  requester: [`${ApprovalStatus.PENDING} -> ${ApprovalStatus.CANCELLED}`],
+  admin: [
+    `${ApprovalStatus.PENDING} -> ${ApprovalStatus.COMPLETED}`,
+    `${ApprovalStatus.PENDING} -> ${ApprovalStatus.CANCELLED}`,
+  ],
+};
+
+// Only these types record fulfilment stages, the one way an approved request is completed.
+const FULFILLED_TYPES = [RequestType.DIESEL, RequestType.PROCUREMENT];
+const COMPLETED_AFTER_APPROVAL = `${ApprovalStatus.APPROVED} -> ${ApprovalStatus.COMPLETED}`;
+
+// Item requests are the only type worked from the admin inbox.
+const expectedFlow = (type: RequestType): Record<RequestActor, string[]> => {
+  if (type === RequestType.ITEM) return INBOX_FLOW;
+  if (FULFILLED_TYPES.includes(type)) return APPROVAL_QUEUE_FLOW;
+  return { ...APPROVAL_QUEUE_FLOW, admin: APPROVAL_QUEUE_FLOW.admin.filter(key => key !== COMPLETED_AFTER_APPROVAL) };
+};
+
+const cases = TYPES.flatMap(type => STATUSES.flatMap(from => STATUSES.flatMap(to => ACTORS.map(actor => ({
+  type, from, to, actor, allowed: expectedFlow(type)[actor].includes(`${from} -> ${to}`),
+})))));
+
+describe('request status transitions', () => {
+  it.each(cases)('$type: $actor moving $from -> $to is allowed: $allowed', ({ type, from, to, actor, allowed }) => {
+    const request = { type, status: from };
+    expect(canTransition(request, to, actor)).toBe(allowed);
+    expect(allowedTransitions(request, actor).includes(to)).toBe(allowed);
+    if (allowed) {
+      expect(transitionError(request, to, actor)).toBeNull();
+    } else {
+      expect(transitionError(request, to, actor)).toEqual(expect.any(String));
+    }
+  });
+
+  it.each(TYPES)('%s: lists exactly the expected transitions for each status and actor', type => {
+    STATUSES.forEach(from => ACTORS.forEach(actor => {
+      const expected = expectedFlow(type)[actor].filter(key => key.startsWith(`${from} -> `)).map(key => key.split(' -> ')[1]);
+      expect([...allowedTransitions({ type, status: from }, actor)].sort()).toEqual([...expected].sort());
+    }));
+  });
+});
+
+describe('transitionError', () => {
+  it('says a request is no longer pending when a decision comes after one was reached', () => {
+    [ApprovalStatus.APPROVED, ApprovalStatus.REJECTED, ApprovalStatus.COMPLETED, ApprovalStatus.CANCELLED].forEach(status => {
+      [ApprovalStatus.APPROVED, ApprovalStatus.REJECTED, ApprovalStatus.SENT_BACK].forEach(to => {
+        expect(transitionError({ type: RequestType.PROCUREMENT, status }, to, 'approver')).toBe('This request is no longer pending approval.');
+      });
+    });
+  });
+
+  it('says a cancellation comes too late once the request is decided', () => {
+    expect(transitionError({ type: RequestType.LEAVE, status: ApprovalStatus.APPROVED }, ApprovalStatus.CANCELLED, 'requester'))
+      .toBe('This request is no longer pending approval.');
+    expect(transitionError({ type: RequestType.ITEM, status: ApprovalStatus.COMPLETED }, ApprovalStatus.CANCELLED, 'admin'))
+      .toBe('This request is no longer pending approval.');
+  });
+
+  it('names the request type and both statuses for any other illegal move', () => {
+    expect(transitionError({ type: RequestType.DIESEL, status: ApprovalStatus.PENDING }, ApprovalStatus.COMPLETED, 'admin'))
+      .toBe(`Cannot move this ${RequestType.DIESEL} from ${ApprovalStatus.PENDING} to ${ApprovalStatus.COMPLETED}.`);
+    expect(transitionError({ type: RequestType.ITEM, status: ApprovalStatus.PENDING }, ApprovalStatus.APPROVED, 'approver'))
+      .toBe(`Cannot move this ${RequestType.ITEM} from ${ApprovalStatus.PENDING} to ${ApprovalStatus.APPROVED}.`);
+    expect(transitionError({ type: RequestType.STORE, status: ApprovalStatus.PENDING }, ApprovalStatus.APPROVED, 'requester'))
+      .toBe(`Cannot move this ${RequestType.STORE} from ${ApprovalStatus.PENDING} to ${ApprovalStatus.APPROVED}.`);
+  });
+});
+
+describe('isAwaitingDecision', () => {
+  it.each(STATUSES)('%s', status => {
+    expect(isAwaitingDecision({ status })).toBe(status === ApprovalStatus.PENDING);
+  });
+});
+
+describe('canCreateProcurementFrom', () => {
+  it('offers a procurement request for a pending item request only', () => {
+    expect(canCreateProcurementFrom({ type: RequestType.ITEM, status: ApprovalStatus.PENDING })).toBe(true);
+    expect(canCreateProcurementFrom({ type: RequestType.ITEM, status: ApprovalStatus.COMPLETED })).toBe(false);
+  });
+
+  it.each(TYPES.filter(type => type !== RequestType.ITEM))('never offers one for an approved %s', type => {
+    expect(canCreateProcurementFrom({ type, status: ApprovalStatus.APPROVED })).toBe(false);
+  });
+});
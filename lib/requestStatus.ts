@@ -0,0 +1,72 @@
+import { ApprovalStatus, Request, RequestType } from '../types.ts';
+import { getRequestTypeDefinition } from './requestTypes.ts';
+import { hasFulfilment } from './fulfilment.ts';
+
+// Who moves a request between statuses:
+//  - 'approver' is whoever may sign the current approval step (themselves, on cover, or as backup);
+//  - 'requester' is the user who raised the request;
+//  - 'admin' is an administrator.
+export type RequestActor = 'approver' | 'requester' | 'admin';
+
+// Requests with an approval queue go through it; the others (item requests) are worked from the admin inbox.
+type RequestFlow = 'approvalQueue' | 'inbox';
+
+interface RequestTransition {
+  flow: RequestFlow;
+  from: ApprovalStatus;
+  to: ApprovalStatus;
+  actor: RequestActor;
+  // Only for request types with fulfilment stages.
+  needsFulfilment?: boolean;
+}
+
+// Every status change the portal allows. An approver's action is checked as the transition to that status,
+// even when the request stays pending because other steps, or other members of a parallel step, follow.
+const TRANSITIONS: RequestTransition[] = [
+  { flow: 'approvalQueue', from: ApprovalStatus.PENDING, to: ApprovalStatus.APPROVED, actor: 'approver' },
+  { flow: 'approvalQueue', from: ApprovalStatus.PENDING, to: ApprovalStatus.REJECTED, actor: 'approver' },
+  { flow: 'approvalQueue', from: ApprovalStatus.PENDING, to: ApprovalStatus.SENT_BACK, actor: 'approver' },
+  // Resubmitted after correction; the queue starts again from the first step.
+  { flow: 'approvalQueue', from: ApprovalStatus.SENT_BACK, to: ApprovalStatus.PENDING, actor: 'admin' },
+  // Fulfilment stages recorded (procurement and diesel, see lib/fulfilment.ts).
+  { flow: 'approvalQueue', from: ApprovalStatus.APPROVED, to: ApprovalStatus.COMPLETED, actor: 'admin', needsFulfilment: true },
+  // Fulfilled by raising a procurement request.
+  { flow: 'inbox', from: ApprovalStatus.PENDING, to: ApprovalStatus.COMPLETED, actor: 'admin' },
+  // Withdrawn, with a reason, before a decision was reached.
+  { flow: 'approvalQueue', from: ApprovalStatus.PENDING, to: ApprovalStatus.CANCELLED, actor: 'requester' },
+  { flow: 'approvalQueue', from: ApprovalStatus.PENDING, to: ApprovalStatus.CANCELLED, actor: 'admin' },
+  { flow: 'approvalQueue', from: ApprovalStatus.SENT_BACK, to: ApprovalStatus.CANCELLED, actor: 'requester' },
+  { flow: 'approvalQueue', from: ApprovalStatus.SENT_BACK, to: ApprovalStatus.CANCELLED, actor: 'admin' },
+  { flow: 'inbox', from: ApprovalStatus.PENDING, to: ApprovalStatus.CANCELLED, actor: 'requester' },
+  { flow: 'inbox', from: ApprovalStatus.PENDING, to: ApprovalStatus.CANCELLED, actor: 'admin' },
+];
+
+const requestFlow = (type: RequestType): RequestFlow => (getRequestTypeDefinition(type).needsApprovalQueue ? 'approvalQueue' : 'inbox');
+
+type StatusSubject = Pick<Request, 'status' | 'type'>;
+
+export const allowedTransitions = (request: StatusSubject, actor: RequestActor): ApprovalStatus[] => {
+  const flow = requestFlow(request.type);
+  return TRANSITIONS
+    .filter(t => t.flow === flow && t.from === request.status && t.actor === actor && (!t.needsFulfilment || hasFulfilment(request.type)))
+    .map(t => t.to);
+};
+
+export const canTransition = (request: StatusSubject, to: ApprovalStatus, actor: RequestActor): boolean =>
+  allowedTransitions(request, actor).includes(to);
+
+// The error message for an illegal transition, or null when it is allowed.
+export const transitionError = (request: StatusSubject, to: ApprovalStatus, actor: RequestActor): string | null => {
+  if (canTransition(request, to, actor)) return null;
+  if (request.status !== ApprovalStatus.PENDING && TRANSITIONS.some(t => t.from === ApprovalStatus.PENDING && t.to === to && t.actor === actor)) {
+    return 'This request is no longer pending approval.';
+  }
+  return `Cannot move this ${request.type} from ${request.status} to ${to}.`;
+};
+
+// An item request still in the admin inbox, which an administrator fulfils by raising a procurement request.
+export const canCreateProcurementFrom = (request: StatusSubject): boolean =>
+  requestFlow(request.type) === 'inbox' && canTransition(request, ApprovalStatus.COMPLETED, 'admin');
+
+// Still waiting on a decision: approvers can act, and comments and reminders make sense.
+export const isAwaitingDecision = (request: Pick<Request, 'status'>): boolean => request.status === ApprovalStatus.PENDING;
@@ -0,0 +1,352 @@
+import { Droplets, ShoppingCart, CalendarOff, PackagePlus, Warehouse, Coins, Hash, User, CalendarDays, LucideIcon } from 'lucide-react';
+import {
+  RequestType, UserRole, WorkflowRole, FulfilmentStage, RequestDetailsByType, StoreRequisitionItem, ProcurementLineItem, Quotation,
+  DieselDetails, ProcurementDetails, LeaveDetails, ItemDetails, StoreDetails, LeaveCategory,
+} from '../types.ts';
+import { RawDetails, asRecord, toNumber, toText, roundCurrency, isValidDate, formatCurrency } from './fieldValues.ts';
+import { validateQuotations } from './quotations.ts';
+import { LEAVE_CATEGORY_LABELS, countWorkingDays, holidaysWithin, insufficientLeaveMessage } from './leave.ts';
+
+// How a field is edited in RequestForm and shown in RequestDetailsModal / RequestPDFLayout.
+//  - 'storeItems' is the store requisition line-item table.
+//  - 'procurementItems' is the procurement line-item table; lines are typed in rather than picked from the store.
+//  - 'quotations' is the vendor quotation list (lib/quotations.ts), edited and compared in a table of its own.
+//  - 'select' offers the field's `options`.
+//  - 'staff' picks a portal user by id; the form copies their name into the field's `nameField`.
+//  - 'holidays' and 'leaveBalance' are filled in by the form from the holiday calendar and the leave ledger
+//    (lib/leave.ts); the balance is that of the request's `applicantId` and `category`.
+export type RequestFieldKind =
+  | 'text' | 'textarea' | 'number' | 'currency' | 'date' | 'select' | 'staff'
+  | 'storeItems' | 'procurementItems' | 'quotations' | 'holidays' | 'leaveBalance';
+
+export interface RequestFieldDefinition<D> {
+  key: Extract<keyof D, string>;
+  label: string;
+  kind: RequestFieldKind;
+  // Form label when the input needs more context than the details view, e.g. the unit being entered.
+  formLabel?: string;
+  // Suffix for number fields in the details view, e.g. 'L'.
+  unit?: string;
+  required?: boolean;
+  // Derived by the definition's `normalise` from other fields; shown read-only in the form.
+  computed?: boolean;
+  // Left out of the detail rows: internal ids, or values another field already renders.
+  hideInDetails?: boolean;
+  // Choices for 'select' fields.
+  options?: { value: string; label: string }[];
+  // For 'staff' fields, the text field that takes the chosen user's name.
+  nameField?: Extract<keyof D, string>;
+  // Approvers may change it as they approve (see lib/adjustments.ts); for line-item fields, the line quantities.
+  adjustable?: boolean;
+}
+
+export interface RequestSummaryItem {
+  icon: LucideIcon;
+  label: string;
+  value: string;
+}
+
+// Everything the portal needs to know about a request type. Subject and date of requisition are shared
+// by every type and are handled outside the definitions.
+export interface RequestTypeDefinition<T extends RequestType = RequestType> {
+  type: T;
+  icon: LucideIcon;
+  // Roles offered this type under "Create Request".
+  creatableBy: UserRole[];
+  // Types without an approval queue (item requests) are handled from the admin inbox instead.
+  needsApprovalQueue: boolean;
+  // Step roles the approval queue must include, e.g. a Head of Department for leave.
+  requiredStepRoles?: WorkflowRole[];
+  // Stages tracked between approval and completion; workflow templates may drop some. Types without
+  // them stop at Approved.
+  fulfilmentStages?: FulfilmentStage[];
+  needsVendor: boolean;
+  allowsAttachment: boolean;
+  fields: RequestFieldDefinition<RequestDetailsByType[T]>[];
+  // Coerces raw details into the typed shape, dropping unknown keys and recomputing computed fields.
+  normalise(raw: RawDetails): RequestDetailsByType[T];
+  // Type-specific rules for already normalised details; returns one message per broken rule.
+  validate(details: RequestDetailsByType[T]): string[];
+  // Key facts shown on the request cards in RequestList.
+  summarise(details: RequestDetailsByType[T]): RequestSummaryItem[];
+  // The amount and department approval routing rules match on; types without them only match rules
+  // that do not filter by amount or department.
+  amount?(details: RequestDetailsByType[T]): number;
+  department?(details: RequestDetailsByType[T]): string;
+}
+
+const normaliseBase = (raw: RawDetails) => ({
+  subject: toText(raw.subject),
+  dateOfRequisition: toText(raw.dateOfRequisition),
+});
+
+const PURCHASE_FULFILMENT_STAGES = [FulfilmentStage.PO_ISSUED, FulfilmentStage.GOODS_RECEIVED, FulfilmentStage.INVOICE_RECEIVED, FulfilmentStage.PAID];
+
+const collectProblems = (rules: [boolean, string][]): string[] => rules.filter(([ok]) => !ok).map(([, message]) => message);
+
+const dieselDefinition: RequestTypeDefinition<RequestType.DIESEL> = {
+  type: RequestType.DIESEL,
+  icon: Droplets,
+  creatableBy: [UserRole.ADMIN],
+  needsApprovalQueue: true,
+  fulfilmentStages: PURCHASE_FULFILMENT_STAGES,
+  needsVendor: true,
+  allowsAttachment: false,
+  fields: [
+    { key: 'volume', label: 'Volume', formLabel: 'Volume (in Liters)', kind: 'number', unit: 'L', required: true, adjustable: true },
+    { key: 'dieselRemaining', label: 'Diesel Remaining', formLabel: 'Diesel Remaining (in Liters)', kind: 'number', unit: 'L', required: true },
+    { key: 'costPerLiter', label: 'Cost per Liter', kind: 'currency', required: true, adjustable: true },
+    { key: 'totalCost', label: 'Total Cost', kind: 'currency', computed: true },
+    { key: 'reason', label: 'Reason', kind: 'textarea', required: true },
+  ],
+  normalise: (raw): DieselDetails => {
+    const volume = toNumber(raw.volume);
+    const costPerLiter = toNumber(raw.costPerLiter);
+    return {
+      ...normaliseBase(raw),
+      volume,
+      dieselRemaining: toNumber(raw.dieselRemaining),
+      costPerLiter,
+      totalCost: roundCurrency(volume * costPerLiter),
+      reason: toText(raw.reason),
+    };
+  },
+  validate: (details) => collectProblems([
+    [details.volume > 0, 'Volume must be greater than zero.'],
+    [details.dieselRemaining >= 0, 'Diesel remaining cannot be negative.'],
+    [details.costPerLiter > 0, 'Cost per liter must be greater than zero.'],
+    [!!details.reason.trim(), 'A reason is required.'],
+  ]),
+  summarise: (details) => [
+    { icon: Droplets, label: 'Volume', value: `${details.volume} L` },
+    ...(details.totalCost > 0 ? [{ icon: Coins, label: 'Total Cost', value: formatCurrency(details.totalCost) }] : []),
+  ],
+  amount: (details) => details.totalCost,
+};
+
+// Lines saved without an id get one from their position, so adjustments keep pointing at the same line.
+const normaliseProcurementLine = (raw: RawDetails, index: number): ProcurementLineItem => {
+  const quantity = toNumber(raw.quantity);
+  const unitCost = toNumber(raw.unitCost);
+  return {
+    id: toText(raw.id) || `line-${index + 1}`,
+    description: toText(raw.description),
+    unit: toText(raw.unit),
+    quantity,
+    unitCost,
+    totalCost: roundCurrency(quantity * unitCost),
+    ...(raw.storeItemId ? { storeItemId: toText(raw.storeItemId) } : {}),
+    ...(raw.vendorId ? { vendorId: toText(raw.vendorId) } : {}),
+  };
+};
+
+const normaliseQuotation = (raw: RawDetails, index: number): Quotation => ({
+  id: toText(raw.id) || `quotation-${index + 1}`,
+  vendorId: toText(raw.vendorId),
+  amount: toNumber(raw.amount),
+  validUntil: toText(raw.validUntil),
+  ...(raw.fileURL ? { fileURL: toText(raw.fileURL), fileName: toText(raw.fileName) } : {}),
+});
+
+// Procurement requests saved before line items kept a single quantity and unit cost; they become one line.
+const rawProcurementLines = (raw: RawDetails): RawDetails[] => {
+  if (Array.isArray(raw.items)) return raw.items.map(asRecord);
+  if (raw.quantity === undefined && raw.unitCost === undefined) return [];
+  return [{ description: raw.subject, quantity: raw.quantity, unitCost: raw.unitCost }];
+};
+
+const procurementDefinition: RequestTypeDefinition<RequestType.PROCUREMENT> = {
+  type: RequestType.PROCUREMENT,
+  icon: ShoppingCart,
+  creatableBy: [UserRole.ADMIN],
+  needsApprovalQueue: true,
+  fulfilmentStages: PURCHASE_FULFILMENT_STAGES,
+  needsVendor: true,
+  allowsAttachment: true,
+  fields: [
+    { key: 'department', label: 'Department', kind: 'text', required: true },
+    { key: 'items', label: 'Line Items', kind: 'procurementItems', required: true, adjustable: true },
+    { key: 'grandTotal', label: 'Grand Total', kind: 'currency', computed: true, hideInDetails: true },
+    { key: 'justification', label: 'Justification', kind: 'textarea', required: true },
+    { key: 'quotations', label: 'Quotations', kind: 'quotations', hideInDetails: true },
+  ],
+  normalise: (raw): ProcurementDetails => {
+    const items = rawProcurementLines(raw).map(normaliseProcurementLine);
+    const quotations = (Array.isArray(raw.quotations) ? raw.quotations : []).map((quotation, index) => normaliseQuotation(asRecord(quotation), index));
+    return {
+      ...normaliseBase(raw),
+      department: toText(raw.department),
+      items,
+      grandTotal: roundCurrency(items.reduce((total, item) => total + item.totalCost, 0)),
+      justification: toText(raw.justification),
+      quotations,
+      selectedQuotationId: toText(raw.selectedQuotationId),
+      selectionJustification: toText(raw.selectionJustification),
+    };
+  },
+  validate: (details) => [...collectProblems([
+    [!!details.department.trim(), 'Department is required.'],
+    [details.items.length > 0, 'Please add at least one line item.'],
+    [details.items.every(item => !!item.description.trim()), 'Every line item needs a description.'],
+    [details.items.every(item => item.quantity > 0), 'Every line item needs a quantity greater than zero.'],
+    [details.items.every(item => item.unitCost > 0), 'Every line item needs a unit cost greater than zero.'],
+    [!!details.justification.trim(), 'A justification is required.'],
+  ]), ...validateQuotations(details)],
+  summarise: (details) => [
+    { icon: Hash, label: 'Items', value: details.items.map(item => `${item.quantity} × ${item.description}`).join(', ') },
+    ...(details.grandTotal > 0 ? [{ icon: Coins, label: 'Total Cost', value: formatCurrency(details.grandTotal) }] : []),
+  ],
+  amount: (details) => details.grandTotal,
+  department: (details) => details.department,
+};
+
+const leaveDefinition: RequestTypeDefinition<RequestType.LEAVE> = {
+  type: RequestType.LEAVE,
+  icon: CalendarOff,
+  creatableBy: [UserRole.ADMIN],
+  needsApprovalQueue: true,
+  requiredStepRoles: [WorkflowRole.HOD],
+  needsVendor: false,
+  allowsAttachment: true,
+  fields: [
+    { key: 'applicantId', label: 'Staff Member', kind: 'staff', nameField: 'applicantName', required: true, hideInDetails: true },
+    { key: 'applicantName', label: 'Applicant Name', kind: 'text', required: true },
+    { key: 'department', label: 'Department', kind: 'text', required: true },
+    { key: 'category', label: 'Leave Category', kind: 'select', required: true, options: Object.values(LeaveCategory).map(value => ({ value, label: LEAVE_CATEGORY_LABELS[value] })) },
+    { key: 'startDate', label: 'Start Date', kind: 'date', required: true },
+    { key: 'endDate', label: 'End Date', kind: 'date', required: true },
+    { key: 'publicHolidays', label: 'Public Holidays', formLabel: 'Public Holidays Not Counted', kind: 'holidays', computed: true },
+    { key: 'leaveDays', label: 'Leave Days', formLabel: 'Number of Working Days', kind: 'number', computed: true },
+    { key: 'daysRemaining', label: 'Days Remaining', formLabel: 'Leave Balance', kind: 'leaveBalance', computed: true },
+    { key: 'reason', label: 'Reason', kind: 'textarea', required: true },
+  ],
+  normalise: (raw): LeaveDetails => {
+    const startDate = toText(raw.startDate);
+    const endDate = toText(raw.endDate);
+    const publicHolidays = holidaysWithin((Array.isArray(raw.publicHolidays) ? raw.publicHolidays : []).map(toText), startDate, endDate);
+    return {
+      ...normaliseBase(raw),
+      applicantId: toText(raw.applicantId),
+      applicantName: toText(raw.applicantName),
+      department: toText(raw.department),
+      // Requests saved before leave categories were all annual leave.
+      category: Object.values(LeaveCategory).includes(raw.category) ? raw.category : LeaveCategory.ANNUAL,
+      startDate,
+      endDate,
+      publicHolidays,
+      leaveDays: countWorkingDays(startDate, endDate, publicHolidays),
+      daysRemaining: toNumber(raw.daysRemaining),
+      reason: toText(raw.reason),
+    };
+  },
+  validate: (details) => {
+    const datesValid = isValidDate(details.startDate) && isValidDate(details.endDate);
+    return collectProblems([
+      [!!details.applicantId, 'Please choose the staff member taking leave.'],
+      [!!details.applicantName.trim(), 'Applicant name is required.'],
+      [!!details.department.trim(), 'Department is required.'],
+      [datesValid, 'Start and end dates must be valid dates.'],
+      [!datesValid || details.endDate >= details.startDate, 'End date cannot be before start date.'],
+      [!datesValid || details.endDate < details.startDate || details.leaveDays > 0, 'The leave must include at least one working day.'],
+      [details.leaveDays <= details.daysRemaining, insufficientLeaveMessage(details, details.daysRemaining)],
+    ]);
+  },
+  summarise: (details) => [
+    { icon: User, label: 'Applicant', value: details.applicantName },
+    { icon: CalendarOff, label: 'Category', value: LEAVE_CATEGORY_LABELS[details.category] },
+    { icon: CalendarDays, label: 'Duration', value: `${details.leaveDays} working day(s)` },
+  ],
+  department: (details) => details.department,
+};
+
+const itemDefinition: RequestTypeDefinition<RequestType.ITEM> = {
+  type: RequestType.ITEM,
+  icon: PackagePlus,
+  creatableBy: [UserRole.APPROVER],
+  needsApprovalQueue: false,
+  needsVendor: false,
+  allowsAttachment: false,
+  fields: [
+    { key: 'item', label: 'Item', formLabel: 'Item Name', kind: 'text', required: true },
+    { key: 'quantity', label: 'Quantity', kind: 'number', required: true },
+    { key: 'justification', label: 'Justification', kind: 'textarea', required: true },
+  ],
+  normalise: (raw): ItemDetails => ({
+    ...normaliseBase(raw),
+    item: toText(raw.item),
+    quantity: toNumber(raw.quantity),
+    justification: toText(raw.justification),
+  }),
+  validate: (details) => collectProblems([
+    [!!details.item.trim(), 'Item name is required.'],
+    [details.quantity > 0, 'Quantity must be greater than zero.'],
+    [!!details.justification.trim(), 'A justification is required.'],
+  ]),
+  summarise: (details) => [
+    { icon: PackagePlus, label: 'Item', value: details.item },
+    { icon: Hash, label: 'Quantity', value: String(details.quantity) },
+  ],
+};
+
+const normaliseStoreLine = (raw: RawDetails): StoreRequisitionItem => {
+  const quantity = toNumber(raw.quantity);
+  const unitCost = toNumber(raw.unitCost);
+  return {
+    itemId: toText(raw.itemId),
+    itemName: toText(raw.itemName),
+    quantity,
+    unitCost,
+    totalCost: roundCurrency(quantity * unitCost),
+  };
+};
+
+const storeDefinition: RequestTypeDefinition<RequestType.STORE> = {
+  type: RequestType.STORE,
+  icon: Warehouse,
+  creatableBy: [UserRole.ADMIN],
+  needsApprovalQueue: true,
+  needsVendor: false,
+  allowsAttachment: false,
+  fields: [
+    { key: 'items', label: 'Requested Items', formLabel: 'Selected Items', kind: 'storeItems', required: true, adjustable: true },
+    { key: 'grandTotal', label: 'Grand Total', kind: 'currency', computed: true, hideInDetails: true },
+  ],
+  normalise: (raw): StoreDetails => {
+    const items = (Array.isArray(raw.items) ? raw.items : []).map(item => normaliseStoreLine(asRecord(item)));
+    return {
+      ...normaliseBase(raw),
+      items,
+      grandTotal: roundCurrency(items.reduce((total, item) => total + item.totalCost, 0)),
+    };
+  },
+  validate: (details) => collectProblems([
+    [details.items.length > 0, 'Please select at least one item and specify a quantity.'],
+    [details.items.every(item => item.quantity > 0), 'Every selected item needs a quantity greater than zero.'],
+  ]),
+  summarise: (details) => [
+    { icon: Warehouse, label: 'Items', value: `${details.items.length} type(s)` },
+    ...(details.grandTotal > 0 ? [{ icon: Coins, label: 'Total Value', value: formatCurrency(details.grandTotal) }] : []),
+  ],
+  amount: (details) => details.grandTotal,
+};
+
+// Adding a request type means adding it to the RequestType enum, its details interface to
+// RequestDetailsByType, and a definition here.
+export const REQUEST_TYPES: { [T in RequestType]: RequestTypeDefinition<T> } = {
+  [RequestType.DIESEL]: dieselDefinition,
+  [RequestType.PROCUREMENT]: procurementDefinition,
+  [RequestType.LEAVE]: leaveDefinition,
+  [RequestType.ITEM]: itemDefinition,
+  [RequestType.STORE]: storeDefinition,
+};
+
+export const getRequestTypeDefinition = <T extends RequestType>(type: T): RequestTypeDefinition<T> => REQUEST_TYPES[type];
+
+export const requestTypesCreatableBy = (role: UserRole): RequestType[] =>
+  Object.values(RequestType).filter(type => REQUEST_TYPES[type].creatableBy.includes(role));
+
+export const requestTypesWithoutApprovalQueue = (): RequestType[] =>
+  Object.values(RequestType).filter(type => !REQUEST_TYPES[type].needsApprovalQueue);
+
+export const requestTypesWithoutFulfilment = (): RequestType[] =>
+  Object.values(RequestType).filter(type => !REQUEST_TYPES[type].fulfilmentStages);
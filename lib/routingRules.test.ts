@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { ApprovalStatus, Approver, RequestType, RoutingRule, User, UserRole, WorkflowRole } from '../types.ts';
+import { createLocalDataAccess } from './data/localDataAccess.ts';
+import { createLocalSeed } from './data/localSeed.ts';
+import { normaliseRequestDetails } from './requestDetails.ts';
+import { reroutingProblems } from './routingRules.ts';
+
+const hod: User = { id: 'local-hod', email: 'hod@zankli.local', role: UserRole.APPROVER };
+const finance: User = { id: 'local-finance', email: 'finance@zankli.local', role: UserRole.APPROVER, workflowRoles: [WorkflowRole.FINANCE] };
+const md: User = { id: 'local-md', email: 'md@zankli.local', role: UserRole.APPROVER };
+
+const pending = (user: User): Approver => ({ userId: user.id, userEmail: user.email, status: ApprovalStatus.PENDING });
+
+const rule = (overrides: Partial<RoutingRule>): RoutingRule => ({
+  id: 'rule', name: 'Rule', requestTypes: [RequestType.PROCUREMENT], action: 'require',
+  step: { kind: 'user', userId: md.id }, active: true, ...overrides,
+});
+
+const typed = normaliseRequestDetails(RequestType.PROCUREMENT, { subject: 'Gloves', department: 'Theatre', justification: 'Stock' });
+
+describe('reroutingProblems', () => {
+  const previous = [pending(hod), pending(md)];
+
+  it('accepts a route that keeps every later step and adds more', () => {
+    expect(reroutingProblems(previous, [pending(hod), pending(finance), pending(md)], [], typed, 500, [], 1)).toEqual([]);
+  });
+
+  it('refuses a route that drops a later step no rule skips', () => {
+    expect(reroutingProblems(previous, [pending(hod)], [], typed, 500, [], 1))
+      .toEqual(['The approval route can only drop steps a routing rule skips: md@zankli.local.']);
+  });
+
+  it('lets a matching skip rule take a step out', () => {
+    const skip = rule({ action: 'skip', amountUpTo: 1000 });
+    expect(reroutingProblems(previous, [pending(hod)], [skip], typed, 500, [], 1)).toEqual([]);
+    expect(reroutingProblems(previous, [pending(hod)], [skip], typed, 5000, [], 1)).toHaveLength(1);
+  });
+
+  it('needs someone for each matching require rule, by user or by step role', () => {
+    const financeRule = rule({ name: 'Finance', amountOver: 1000, step: { kind: 'role', role: WorkflowRole.FINANCE } });
+    expect(reroutingProblems(previous, previous, [financeRule], typed, 5000, [hod, finance, md], 1))
+      .toEqual(['The approval route is missing the steps required by: Finance.']);
+    expect(reroutingProblems(previous, [...previous, pending(finance)], [financeRule], typed, 5000, [hod, finance, md], 1)).toEqual([]);
+    expect(reroutingProblems(previous, previous, [financeRule], typed, 500, [hod, finance, md], 1)).toEqual([]);
+  });
+
+  it('is enforced by the local backend when approving', async () => {
+    const db = createLocalDataAccess({ initialState: createLocalSeed() });
+    await db.auth.signInWithPassword('admin@zankli.local', 'zankli-demo');
+    const { data: created } = await db.requests.create({
+      requesterId: 'local-admin', requesterName: 'Portal Administrator', ...typed, approvalQueue: previous,
+    });
+    await db.auth.signInWithPassword('hod@zankli.local', 'zankli-demo');
+    const approve = (remainingQueue: Approver[]) => db.requests.handleAction({
+      requestId: created!.id, action: ApprovalStatus.APPROVED, comments: null, signature: 'sig',
+      hodComments: null, internalAuditComments: null, finalAmount: null, remainingQueue, adjustments: null,
+    });
+
+    expect((await approve([])).error?.message).toBe('The approval route can only drop steps a routing rule skips: md@zankli.local.');
+    const unchanged = (await db.requests.getById(created!.id)).data!;
+    expect(unchanged.approvalQueue.map(a => a.status)).toEqual([ApprovalStatus.PENDING, ApprovalStatus.PENDING]);
+
+    expect((await approve([pending(md)])).error).toBeNull();
+    const approved = (await db.requests.getById(created!.id)).data!;
+    expect(approved.currentApproverIndex).toBe(1);
+  });
+});
@@ -0,0 +1,122 @@
+import { Approver, RoutingRule, TypedRequestDetails, User, WorkflowStep } from '../types.ts';
+import { getRequestTypeDefinition } from './requestTypes.ts';
+import { resolveWorkflowSteps } from './workflows.ts';
+import { QueuedApprover, normaliseApprovalGroups } from './approvalSteps.ts';
+
+// The amount rules compare against: the latest final amount set during approval, otherwise the
+// request's own total. Null for types without an amount.
+export const routingAmount = ({ type, details }: TypedRequestDetails, approvalQueue: Approver[] = []): number | null => {
+  const withFinalAmount = [...approvalQueue].reverse().find(a => a.finalAmount !== undefined && a.finalAmount !== null);
+  if (withFinalAmount) return withFinalAmount.finalAmount!;
+  const definition = getRequestTypeDefinition(type);
+  return definition.amount ? definition.amount(details) : null;
+};
+
+export const routingRuleMatches = (rule: RoutingRule, { type, details }: TypedRequestDetails, amount: number | null): boolean => {
+  if (!rule.active) return false;
+  if (rule.requestTypes.length > 0 && !rule.requestTypes.includes(type)) return false;
+
+  const ruleDepartment = rule.department?.trim().toLowerCase();
+  if (ruleDepartment) {
+    const definition = getRequestTypeDefinition(type);
+    const department = definition.department ? definition.department(details).trim().toLowerCase() : '';
+    if (department !== ruleDepartment) return false;
+  }
+
+  const hasAmountBounds = rule.amountOver !== undefined || rule.amountUpTo !== undefined;
+  if (hasAmountBounds) {
+    if (amount === null) return false;
+    if (rule.amountOver !== undefined && amount <= rule.amountOver) return false;
+    if (rule.amountUpTo !== undefined && amount > rule.amountUpTo) return false;
+  }
+  return true;
+};
+
+const stepMatchesUser = (step: WorkflowStep, user: User): boolean =>
+  step.kind === 'role' ? !!user.workflowRoles?.includes(step.role) : user.id === step.userId;
+
+export interface RoutingAdjustment {
+  rule: RoutingRule;
+  user: User;
+}
+
+export interface RoutedQueue {
+  queue: QueuedApprover[];
+  added: RoutingAdjustment[];
+  skipped: RoutingAdjustment[];
+  // Matching "require" rules whose step nobody can take.
+  unresolved: RoutingRule[];
+}
+
+// Applies every matching rule to an approval queue. The first `fixedCount` entries (steps already acted on)
+// are never skipped. Skips run before requirements, so a step that is both skipped and required stays in,
+// and required steps that are missing are appended to the end of the queue as single-approver steps.
+export const applyRoutingRules = (
+  queue: QueuedApprover[],
+  rules: RoutingRule[],
+  typed: TypedRequestDetails,
+  amount: number | null,
+  approvers: User[],
+  fixedCount = 0,
+): RoutedQueue => {
+  const matching = rules.filter(rule => routingRuleMatches(rule, typed, amount));
+  const routed: RoutedQueue = { queue: [...queue], added: [], skipped: [], unresolved: [] };
+
+  matching.filter(rule => rule.action === 'skip').forEach(rule => {
+    routed.queue = routed.queue.filter(({ user }, index) => {
+      if (index < fixedCount || !stepMatchesUser(rule.step, user)) return true;
+      routed.skipped.push({ rule, user });
+      return false;
+    });
+  });
+
+  matching.filter(rule => rule.action === 'require').forEach(rule => {
+    if (routed.queue.some(({ user }) => stepMatchesUser(rule.step, user))) return;
+    const [entry] = resolveWorkflowSteps([rule.step], approvers).queue;
+    if (!entry) {
+      routed.unresolved.push(rule);
+      return;
+    }
+    routed.queue.push({ user: entry.user, ...(entry.stepRole ? { stepRole: entry.stepRole } : {}) });
+    routed.added.push({ rule, user: entry.user });
+  });
+
+  routed.queue = normaliseApprovalGroups(routed.queue);
+  return routed;
+};
+
+const approverMatchesStep = (step: WorkflowStep, userId: string, users: User[]): boolean => {
+  const user = users.find(u => u.id === userId);
+  return user ? stepMatchesUser(step, user) : step.kind === 'user' && step.userId === userId;
+};
+
+// Why a queue whose steps from `fromIndex` on were replaced no longer follows the rules, checked by both backends
+// before saving it: a later step of `previous` was dropped without a matching "skip" rule, or nobody in the queue
+// takes the step of a matching "require" rule. Adding steps is always allowed.
+export const reroutingProblems = (
+  previous: Approver[],
+  queue: Approver[],
+  rules: RoutingRule[],
+  typed: TypedRequestDetails,
+  amount: number | null,
+  users: User[],
+  fromIndex: number,
+): string[] => {
+  const matching = rules.filter(rule => routingRuleMatches(rule, typed, amount));
+  const problems: string[] = [];
+
+  const dropped = previous.slice(fromIndex).filter(({ userId }) =>
+    !queue.slice(fromIndex).some(a => a.userId === userId)
+    && !matching.some(rule => rule.action === 'skip' && approverMatchesStep(rule.step, userId, users)));
+  if (dropped.length > 0) {
+    const names = [...new Set(dropped.map(a => a.userEmail || a.userId))].sort();
+    problems.push(`The approval route can only drop steps a routing rule skips: ${names.join(', ')}.`);
+  }
+
+  const missing = matching.filter(rule =>
+    rule.action === 'require' && !queue.some(({ userId }) => approverMatchesStep(rule.step, userId, users)));
+  if (missing.length > 0) {
+    problems.push(`The approval route is missing the steps required by: ${missing.map(rule => rule.name).sort().join(', ')}.`);
+  }
+  return problems;
+};
@@ -0,0 +1,31 @@
+import { Approver, ApprovalStatus, Request, WorkflowTemplate } from '../types.ts';
+import { ApprovalStep, currentApprovalStep } from './approvalSteps.ts';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Members of a parallel step share one SLA; the first one set wins.
+export const stepSlaHours = (step: ApprovalStep): number | undefined => step.members.find(a => a.slaHours)?.slaHours;
+
+// Fills in the template's default SLA on entries that don't carry their own, e.g. approvers added by hand or by a routing rule.
+export const applyStepSlas = (queue: Approver[], template?: WorkflowTemplate): Approver[] =>
+  template?.slaHours ? queue.map(a => (a.slaHours ? a : { ...a, slaHours: template.slaHours })) : queue;
+
+// When the current step is due, or null when the request is not pending or the step has no SLA.
+export const currentStepDueAt = (request: Pick<Request, 'status' | 'approvalQueue' | 'currentApproverIndex' | 'currentStepStartedAt' | 'createdAt'>): Date | null => {
+  if (request.status !== ApprovalStatus.PENDING) return null;
+  const step = currentApprovalStep(request);
+  const slaHours = step && stepSlaHours(step);
+  if (!slaHours) return null;
+  return new Date(new Date(request.currentStepStartedAt || request.createdAt).getTime() + slaHours * HOUR_MS);
+};
+
+export const isRequestOverdue = (request: Parameters<typeof currentStepDueAt>[0], now: Date = new Date()): boolean => {
+  const dueAt = currentStepDueAt(request);
+  return !!dueAt && dueAt.getTime() < now.getTime();
+};
+
+// Pending entries of the current step that ran past the SLA and have not been escalated yet.
+export const entriesDueForEscalation = (request: Request, now: Date = new Date()): Approver[] => {
+  if (!isRequestOverdue(request, now)) return [];
+  return currentApprovalStep(request)!.members.filter(a => a.status === ApprovalStatus.PENDING && !a.escalatedAt);
+};
@@ -0,0 +1,53 @@
+import { User, WorkflowRole, WorkflowStep, WorkflowTemplateStep } from '../types.ts';
+import { QueuedApprover, normaliseApprovalGroups } from './approvalSteps.ts';
+
+export const WORKFLOW_ROLE_LABELS: Record<WorkflowRole, string> = {
+  [WorkflowRole.HOD]: 'Head of Department',
+  [WorkflowRole.INTERNAL_AUDIT]: 'Internal Audit',
+  [WorkflowRole.FINANCE]: 'Finance',
+  [WorkflowRole.MEDICAL_DIRECTOR]: 'Medical Director',
+};
+
+// Steps taken in these roles ask for more than a signature (HOD comments, the audit final amount), so they
+// are signed one request at a time rather than in bulk.
+export const ROLES_WITH_STEP_INPUT: WorkflowRole[] = [WorkflowRole.HOD, WorkflowRole.INTERNAL_AUDIT];
+
+export const describeWorkflowStep = (step: WorkflowStep, getUserById: (id: string) => User | undefined): string => {
+  if (step.kind === 'role') return WORKFLOW_ROLE_LABELS[step.role];
+  return getUserById(step.userId)?.email || 'Unknown user';
+};
+
+export interface ResolvedWorkflow {
+  queue: QueuedApprover[];
+  // Steps nobody could be found for, e.g. a role no approver holds yet.
+  unresolved: WorkflowStep[];
+}
+
+// Turns template steps into the ordered approval queue, keeping parallel groups. A role step goes to the
+// first approver (by email) holding that role and is taken in that role; a user who would appear twice keeps
+// only their earliest position.
+export const resolveWorkflowSteps = (steps: WorkflowTemplateStep[], approvers: User[]): ResolvedWorkflow => {
+  const byEmail = [...approvers].sort((a, b) => a.email.localeCompare(b.email));
+  const queue: QueuedApprover[] = [];
+  const unresolved: WorkflowStep[] = [];
+  steps.forEach(({ group, slaHours, ...step }) => {
+    const user = step.kind === 'role'
+      ? byEmail.find(u => u.workflowRoles?.includes(step.role))
+      : byEmail.find(u => u.id === step.userId);
+    if (!user) {
+      unresolved.push(step);
+    } else if (!queue.some(entry => entry.user.id === user.id)) {
+      queue.push({
+        user,
+        ...(group ? { group } : {}),
+        ...(slaHours ? { slaHours } : {}),
+        ...(step.kind === 'role' ? { stepRole: step.role } : {}),
+      });
+    }
+  });
+  return { queue: normaliseApprovalGroups(queue), unresolved };
+};
+
+// The user a single step resolves to, e.g. a template's backup approver; the same rules as above apply.
+export const resolveWorkflowStep = (step: WorkflowStep, approvers: User[]): User | undefined =>
+  resolveWorkflowSteps([step], approvers).queue[0]?.user;
@@ -1 +1,1454 @@
-
\ No newline at end of file
+-- Realtime: stream row-level changes on requests and PDF comments to the portal
+-- (consumed by RequestContext through dataAccess.requests/comments.subscribe).
+-- Tables already in the publication are skipped, so the script can run again.
+do $$
+begin
+  if not exists (select 1 from pg_publication_tables where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'requests') then
+    alter publication supabase_realtime add table public.requests;
+  end if;
+  if not exists (select 1 from pg_publication_tables where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'pdf_comments') then
+    alter publication supabase_realtime add table public.pdf_comments;
+  end if;
+end;
+$$;
+
+-- Server-side request queries (dataAccess.requests.query).
+-- "Awaiting my approval" matches on current_approver_ids (see the approval steps below), which replaced the
+-- single current_approver_id column.
+drop index if exists public.requests_current_approver_idx;
+alter table public.requests drop column if exists current_approver_id;
+
+-- Free-text search over id, subject and requester name.
+alter table public.requests
+  add column if not exists search_text text
+  generated always as (lower(id::text || ' ' || coalesce(details ->> 'subject', '') || ' ' || coalesce(requester_name, ''))) stored;
+
+create index if not exists requests_created_at_idx on public.requests (created_at desc);
+create index if not exists requests_status_type_idx on public.requests (status, type);
+create index if not exists requests_approval_queue_idx on public.requests using gin (approval_queue jsonb_path_ops);
+create extension if not exists pg_trgm;
+create index if not exists requests_search_text_idx on public.requests using gin (search_text gin_trgm_ops);
+
+-- Per-request comment counts (dataAccess.comments.listSummaries), so sessions no longer load every comment up front.
+-- security_invoker keeps the pdf_comments row level security policies in force for readers of the view.
+create or replace view public.pdf_comment_summaries
+with (security_invoker = true) as
+select
+  request_id,
+  count(*)::int as comment_count,
+  max(created_at) as last_comment_at,
+  (array_agg(user_id order by created_at desc))[1] as last_comment_user_id,
+  (array_agg(user_email order by created_at desc))[1] as last_comment_user_email,
+  (array_agg(comment order by created_at desc))[1] as last_comment
+from public.pdf_comments
+group by request_id;
+
+create index if not exists pdf_comments_request_id_created_at_idx on public.pdf_comments (request_id, created_at);
+
+-- Workflow templates (dataAccess.workflowTemplates): the default approval chain per request type.
+-- Steps are an ordered jsonb array of {"kind": "user", "user_id": ...} or {"kind": "role", "role": ...}.
+alter table public.profiles
+  add column if not exists workflow_roles text[] not null default '{}';
+
+create table if not exists public.workflow_templates (
+  id uuid primary key default gen_random_uuid(),
+  request_type text not null unique,
+  steps jsonb not null default '[]'::jsonb,
+  allow_override boolean not null default true,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.workflow_templates enable row level security;
+
+drop policy if exists "Signed in users can read workflow templates" on public.workflow_templates;
+create policy "Signed in users can read workflow templates"
+  on public.workflow_templates for select
+  to authenticated
+  using (true);
+
+drop policy if exists "Admins can manage workflow templates" on public.workflow_templates;
+create policy "Admins can manage workflow templates"
+  on public.workflow_templates for all
+  to authenticated
+  using (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'))
+  with check (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'));
+
+-- Amount-based routing rules (dataAccess.routingRules): add or skip a step on top of the workflow template.
+create table if not exists public.routing_rules (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  request_types text[] not null default '{}',
+  department text,
+  amount_over numeric,
+  amount_up_to numeric,
+  action text not null check (action in ('require', 'skip')),
+  step jsonb not null,
+  active boolean not null default true
+);
+
+alter table public.routing_rules enable row level security;
+
+drop policy if exists "Signed in users can read routing rules" on public.routing_rules;
+create policy "Signed in users can read routing rules"
+  on public.routing_rules for select
+  to authenticated
+  using (true);
+
+drop policy if exists "Admins can manage routing rules" on public.routing_rules;
+create policy "Admins can manage routing rules"
+  on public.routing_rules for all
+  to authenticated
+  using (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'))
+  with check (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'));
+
+-- Approvers re-run the rules against the final amount they set and send the new later steps with their decision
+-- (handle_request_action's p_remaining_queue); that used to be a separate call.
+drop function if exists public.reroute_pending_steps(uuid, jsonb);
+
+-- The routing rules as lib/routingRules.ts applies them, so handle_request_action can check the route an approver
+-- sends. The amount is the latest final amount set during approval, otherwise the request's own total.
+create or replace function public.request_routing_amount(p_type text, p_details jsonb, p_queue jsonb)
+returns numeric
+language sql
+immutable
+as $$
+  select coalesce(
+    (select (q.step ->> 'final_amount')::numeric
+     from jsonb_array_elements(coalesce(p_queue, '[]'::jsonb)) with ordinality as q(step, ord)
+     where q.step ->> 'final_amount' is not null
+     order by q.ord desc
+     limit 1),
+    case p_type
+      when 'Diesel Requisition' then (p_details ->> 'totalCost')::numeric
+      when 'Product Procurement' then (p_details ->> 'grandTotal')::numeric
+      when 'Store Requisition' then (p_details ->> 'grandTotal')::numeric
+    end
+  );
+$$;
+
+create or replace function public.routing_rule_matches(p_rule public.routing_rules, p_type text, p_details jsonb, p_amount numeric)
+returns boolean
+language sql
+immutable
+as $$
+  select p_rule.active
+    and (cardinality(p_rule.request_types) = 0 or p_type = any (p_rule.request_types))
+    and (coalesce(trim(p_rule.department), '') = ''
+      or lower(trim(p_rule.department)) = case when p_type in ('Product Procurement', 'Leave Request')
+        then lower(trim(coalesce(p_details ->> 'department', ''))) else '' end)
+    and ((p_rule.amount_over is null and p_rule.amount_up_to is null)
+      or (p_amount is not null
+        and (p_rule.amount_over is null or p_amount > p_rule.amount_over)
+        and (p_rule.amount_up_to is null or p_amount <= p_rule.amount_up_to)));
+$$;
+
+-- A user step ({"kind": "user", "user_id"}) matches that user, a role step ({"kind": "role", "role"}) anyone
+-- holding the role.
+create or replace function public.routing_step_matches(p_step jsonb, p_user_id text)
+returns boolean
+language sql
+stable
+set search_path = public
+as $$
+  select case p_step ->> 'kind'
+    when 'role' then exists (select 1 from public.profiles where id::text = p_user_id and (p_step ->> 'role') = any (workflow_roles))
+    else (p_step ->> 'user_id') = p_user_id
+  end;
+$$;
+
+-- Raises unless a queue whose steps from p_from on were replaced still follows the rules: every later step of
+-- p_previous is kept unless a matching "skip" rule takes it out, and someone in the queue takes the step of each
+-- matching "require" rule. Adding steps is always allowed.
+create or replace function public.check_request_route(p_type text, p_details jsonb, p_amount numeric, p_previous jsonb, p_queue jsonb, p_from int)
+returns void
+language plpgsql
+stable
+set search_path = public
+as $$
+declare
+  v_missing text;
+begin
+  select string_agg(distinct coalesce(prev.step ->> 'user_email', prev.step ->> 'user_id'), ', ') into v_missing
+  from jsonb_array_elements(p_previous) with ordinality as prev(step, ord)
+  where prev.ord > p_from
+    and not exists (
+      select 1 from jsonb_array_elements(p_queue) with ordinality as kept(step, ord)
+      where kept.ord > p_from and (kept.step ->> 'user_id') = (prev.step ->> 'user_id')
+    )
+    and not exists (
+      select 1 from public.routing_rules r
+      where r.action = 'skip'
+        and public.routing_rule_matches(r, p_type, p_details, p_amount)
+        and public.routing_step_matches(r.step, prev.step ->> 'user_id')
+    );
+  if v_missing is not null then
+    raise exception 'The approval route can only drop steps a routing rule skips: %.', v_missing;
+  end if;
+
+  select string_agg(r.name, ', ' order by r.name) into v_missing
+  from public.routing_rules r
+  where r.action = 'require'
+    and public.routing_rule_matches(r, p_type, p_details, p_amount)
+    and not exists (
+      select 1 from jsonb_array_elements(p_queue) as q(step)
+      where public.routing_step_matches(r.step, q.step ->> 'user_id')
+    );
+  if v_missing is not null then
+    raise exception 'The approval route is missing the steps required by: %.', v_missing;
+  end if;
+end;
+$$;
+
+-- Parallel and quorum approval steps. Consecutive approval_queue entries with the same "group" id
+-- ({"id", "mode": all | any | quorum, "required"}) form one step; current_approver_index points at its first entry.
+
+-- Exclusive end index of the step that starts at p_index.
+create or replace function public.request_step_end(p_queue jsonb, p_index int)
+returns int
+language plpgsql
+immutable
+as $$
+declare
+  v_group_id text := p_queue -> p_index -> 'group' ->> 'id';
+  v_end int := p_index + 1;
+begin
+  if v_group_id is null then
+    return v_end;
+  end if;
+  while v_end < jsonb_array_length(p_queue) and (p_queue -> v_end -> 'group' ->> 'id') = v_group_id loop
+    v_end := v_end + 1;
+  end loop;
+  return v_end;
+end;
+$$;
+
+-- Members of the current step who have not acted yet, followed by the backup approvers their overdue entries
+-- were escalated to; empty once the request is no longer pending.
+create or replace function public.request_current_approver_ids(p_queue jsonb, p_index int, p_status text)
+returns text[]
+language sql
+immutable
+as $$
+  select coalesce(array_agg(ids.id order by ids.ord, ids.backup), '{}')
+  from (
+    select q.step ->> 'user_id' as id, q.ord, false as backup
+    from jsonb_array_elements(coalesce(p_queue, '[]'::jsonb)) with ordinality as q(step, ord)
+    where p_status = 'Pending'
+      and q.ord - 1 >= p_index
+      and q.ord - 1 < public.request_step_end(p_queue, p_index)
+      and q.step ->> 'status' = 'Pending'
+    union all
+    select q.step ->> 'escalated_to_id', q.ord, true
+    from jsonb_array_elements(coalesce(p_queue, '[]'::jsonb)) with ordinality as q(step, ord)
+    where p_status = 'Pending'
+      and q.ord - 1 >= p_index
+      and q.ord - 1 < public.request_step_end(p_queue, p_index)
+      and q.step ->> 'status' = 'Pending'
+      and q.step ? 'escalated_to_id'
+  ) as ids;
+$$;
+
+alter table public.requests
+  add column if not exists current_approver_ids text[]
+  generated always as (public.request_current_approver_ids(approval_queue, current_approver_index, status)) stored;
+
+create index if not exists requests_current_approver_ids_idx on public.requests using gin (current_approver_ids);
+
+-- Stored generated columns are only recomputed on update, so pending requests saved before the function
+-- last changed are touched once; rows already in step are left alone.
+update public.requests set approval_queue = approval_queue
+where status = 'Pending'
+  and current_approver_ids is distinct from public.request_current_approver_ids(approval_queue, current_approver_index, status);
+
+-- Any pending member of the current step may act: the approver, a colleague covering for them (see
+-- acting_approver_ids) or the backup approver an overdue entry was escalated to; their own entry is signed
+-- first. Nobody acts twice on one step, whether for themselves or on someone's behalf. The step completes once
+-- "required" members approved (1 for a single approver), fails once too few members are left to get there, and
+-- a single "sent back" returns the whole request. The decision is logged in request_events.
+-- An approval may also carry the approver's adjustments (see apply_request_adjustments), merged into the details
+-- and kept on their entry, and p_remaining_queue, which replaces every step after the current one (e.g. after
+-- the routing rules are re-run against the final amount they set). New entries keep their group, SLA and step
+-- role, and reviewers after the current step stay reviewers. A new route, or a new amount the old route was not
+-- checked against, has to pass check_request_route. Everything is saved together or not at all.
+drop function if exists public.handle_request_action(uuid, text, text, text, text, text, numeric);
+create or replace function public.handle_request_action(
+  p_request_id uuid,
+  p_action text,
+  p_comments text,
+  p_signature text,
+  p_hod_comments text,
+  p_internal_audit_comments text,
+  p_final_amount numeric,
+  p_remaining_queue jsonb default null,
+  p_adjustments jsonb default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_request public.requests%rowtype;
+  v_queue jsonb;
+  v_caller text := auth.uid()::text;
+  v_acting text[] := public.acting_approver_ids();
+  v_start int;
+  v_end int;
+  v_member int;
+  v_size int;
+  v_required int;
+  v_approvals int := 0;
+  v_rejections int := 0;
+  v_sent_back int := 0;
+  v_details jsonb;
+  v_adjustments jsonb;
+  v_amount numeric;
+  i int;
+begin
+  select * into v_request from public.requests where id = p_request_id for update;
+  if not found then
+    raise exception 'Request % not found', p_request_id;
+  end if;
+  if v_request.status <> 'Pending' then
+    raise exception 'This request is no longer pending approval.';
+  end if;
+  if p_action not in ('Approved', 'Rejected', 'Sent Back for Correction') then
+    raise exception 'Invalid action: %', p_action;
+  end if;
+  if jsonb_array_length(coalesce(p_adjustments, '[]'::jsonb)) > 0 and p_action <> 'Approved' then
+    raise exception 'Values can only be adjusted when approving.';
+  end if;
+
+  v_queue := v_request.approval_queue;
+  v_start := v_request.current_approver_index;
+  v_end := public.request_step_end(v_queue, v_start);
+
+  for i in v_start .. v_end - 1 loop
+    if (v_queue -> i ->> 'acted_by_id') = v_caller
+      or ((v_queue -> i ->> 'user_id') = v_caller and (v_queue -> i ->> 'status') <> 'Pending') then
+      raise exception 'permission denied: you have already acted on this approval step';
+    end if;
+  end loop;
+
+  for i in v_start .. v_end - 1 loop
+    if (v_queue -> i ->> 'status') = 'Pending' and (v_queue -> i ->> 'user_id') = v_caller then
+      v_member := i;
+    end if;
+  end loop;
+  if v_member is null then
+    for i in v_start .. v_end - 1 loop
+      if v_member is null and (v_queue -> i ->> 'status') = 'Pending'
+        and ((v_queue -> i ->> 'user_id') = any (v_acting) or (v_queue -> i ->> 'escalated_to_id') = v_caller) then
+        v_member := i;
+      end if;
+    end loop;
+  end if;
+  if v_member is null then
+    raise exception 'permission denied: you are not a current approver for this request';
+  end if;
+
+  if jsonb_array_length(coalesce(p_adjustments, '[]'::jsonb)) > 0 then
+    select adjusted.details, adjusted.adjustments into v_details, v_adjustments
+    from public.apply_request_adjustments(v_request.type, v_request.details, p_adjustments) as adjusted;
+    update public.requests set details = v_details where id = p_request_id;
+  end if;
+
+  if p_remaining_queue is not null and p_action = 'Approved' then
+    v_queue := (
+      select coalesce(jsonb_agg(kept.step order by kept.ord), '[]'::jsonb)
+      from jsonb_array_elements(v_queue) with ordinality as kept(step, ord)
+      where kept.ord <= v_end
+    ) || (
+      select coalesce(jsonb_agg(jsonb_strip_nulls(jsonb_build_object(
+        'user_id', added.step ->> 'user_id',
+        'user_email', added.step ->> 'user_email',
+        'status', 'Pending',
+        'group', added.step -> 'group',
+        'sla_hours', added.step -> 'sla_hours',
+        'step_role', added.step ->> 'step_role',
+        'consultation', added.step -> 'consultation'
+      )) order by added.ord), '[]'::jsonb)
+      from jsonb_array_elements(p_remaining_queue) with ordinality as added(step, ord)
+    );
+  end if;
+
+  v_queue := jsonb_set(v_queue, array[v_member::text], (v_queue -> v_member) || jsonb_strip_nulls(jsonb_build_object(
+    'status', p_action,
+    'comments', p_comments,
+    'approved_at', now(),
+    'signature', p_signature,
+    'hod_comments', p_hod_comments,
+    'internal_audit_comments', p_internal_audit_comments,
+    'final_amount', p_final_amount,
+    'adjustments', v_adjustments,
+    'acted_by_id', case when (v_queue -> v_member ->> 'user_id') <> v_caller then v_caller end,
+    'acted_by_email', case when (v_queue -> v_member ->> 'user_id') <> v_caller then (select email from public.profiles where id = auth.uid()) end
+  )));
+
+  if p_action = 'Approved' then
+    v_amount := public.request_routing_amount(v_request.type, coalesce(v_details, v_request.details), v_queue);
+    if p_remaining_queue is not null
+      or v_amount is distinct from public.request_routing_amount(v_request.type, v_request.details, v_request.approval_queue) then
+      perform public.check_request_route(v_request.type, coalesce(v_details, v_request.details), v_amount, v_request.approval_queue, v_queue, v_end);
+    end if;
+  end if;
+
+  for i in v_start .. v_end - 1 loop
+    case v_queue -> i ->> 'status'
+      when 'Approved' then v_approvals := v_approvals + 1;
+      when 'Rejected' then v_rejections := v_rejections + 1;
+      when 'Sent Back for Correction' then v_sent_back := v_sent_back + 1;
+      else null;
+    end case;
+  end loop;
+  v_size := v_end - v_start;
+  v_required := least(v_size, greatest(1, coalesce((v_queue -> v_start -> 'group' ->> 'required')::int, 1)));
+
+  if v_sent_back > 0 then
+    update public.requests set approval_queue = v_queue, status = 'Sent Back for Correction' where id = p_request_id;
+  elsif v_approvals >= v_required then
+    if v_end >= jsonb_array_length(v_queue) then
+      update public.requests set approval_queue = v_queue, status = 'Approved' where id = p_request_id;
+    else
+      update public.requests set approval_queue = v_queue, current_approver_index = v_end where id = p_request_id;
+    end if;
+  elsif v_rejections > v_size - v_required then
+    update public.requests set approval_queue = v_queue, status = 'Rejected' where id = p_request_id;
+  else
+    update public.requests set approval_queue = v_queue where id = p_request_id;
+  end if;
+
+  insert into public.request_events (request_id, kind, detail)
+  values (
+    p_request_id,
+    case p_action when 'Approved' then 'approved' when 'Rejected' then 'rejected' else 'sentBack' end,
+    nullif(p_comments, '')
+  );
+end;
+$$;
+
+-- Out-of-office cover (dataAccess.delegations): while a delegation is active, the delegate may act on the
+-- delegator's approval steps. Entries signed that way record the delegate in "acted_by_id" / "acted_by_email".
+create table if not exists public.approval_delegations (
+  id uuid primary key default gen_random_uuid(),
+  delegator_id uuid not null references public.profiles (id) on delete cascade,
+  delegate_id uuid not null references public.profiles (id) on delete cascade,
+  starts_on date not null,
+  ends_on date not null,
+  reason text,
+  created_at timestamptz not null default now(),
+  check (ends_on >= starts_on),
+  check (delegator_id <> delegate_id)
+);
+
+alter table public.approval_delegations enable row level security;
+
+drop policy if exists "Signed in users can read approver cover" on public.approval_delegations;
+create policy "Signed in users can read approver cover"
+  on public.approval_delegations for select
+  to authenticated
+  using (true);
+
+drop policy if exists "Approvers manage their own cover, admins anyone's" on public.approval_delegations;
+create policy "Approvers manage their own cover, admins anyone's"
+  on public.approval_delegations for all
+  to authenticated
+  using (delegator_id = auth.uid() or exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'))
+  with check (delegator_id = auth.uid() or exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'));
+
+-- The caller followed by the approvers they are covering for today. Cover is not passed on.
+create or replace function public.acting_approver_ids()
+returns text[]
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select array[auth.uid()::text] || coalesce(array_agg(distinct d.delegator_id::text), '{}')
+  from public.approval_delegations d
+  where d.delegate_id = auth.uid() and current_date between d.starts_on and d.ends_on;
+$$;
+
+drop policy if exists "Delegates can read requests awaiting the approvers they cover" on public.requests;
+create policy "Delegates can read requests awaiting the approvers they cover"
+  on public.requests for select
+  to authenticated
+  using (current_approver_ids && public.acting_approver_ids());
+
+-- Approval SLAs and reminders (dataAccess.reminders; escalation runs as a scheduled job, see below).
+-- Queue entries may carry "sla_hours"; workflow templates add a default for every step and the backup
+-- approver ({"kind": "role" | "user", ...}) overdue steps go to. Administrators are alerted when there is none.
+alter table public.workflow_templates
+  add column if not exists sla_hours int check (sla_hours > 0),
+  add column if not exists escalate_to jsonb;
+
+alter table public.requests
+  add column if not exists current_step_started_at timestamptz not null default now();
+
+create or replace function public.touch_current_step_started_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.current_approver_index is distinct from old.current_approver_index
+    or (new.status = 'Pending' and old.status is distinct from 'Pending') then
+    new.current_step_started_at := now();
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists requests_touch_current_step_started_at on public.requests;
+create trigger requests_touch_current_step_started_at
+  before update on public.requests
+  for each row execute function public.touch_current_step_started_at();
+
+create table if not exists public.request_reminders (
+  id uuid primary key default gen_random_uuid(),
+  request_id uuid not null references public.requests (id) on delete cascade,
+  recipient_id uuid not null references public.profiles (id) on delete cascade,
+  sender_id uuid references public.profiles (id) on delete set null,
+  kind text not null check (kind in ('reminder', 'escalation')),
+  message text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists request_reminders_recipient_idx on public.request_reminders (recipient_id, created_at desc);
+
+alter table public.request_reminders enable row level security;
+
+-- Reminders are only written by the functions below.
+drop policy if exists "Users can read their own reminders" on public.request_reminders;
+create policy "Users can read their own reminders"
+  on public.request_reminders for select
+  to authenticated
+  using (recipient_id = auth.uid());
+
+do $$
+begin
+  if not exists (select 1 from pg_publication_tables where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'request_reminders') then
+    alter publication supabase_realtime add table public.request_reminders;
+  end if;
+end;
+$$;
+
+-- Admins nudge whoever the current step waits on, including colleagues covering for them.
+create or replace function public.send_request_reminder(p_request_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_request public.requests%rowtype;
+  v_sender public.profiles%rowtype;
+begin
+  select * into v_sender from public.profiles where id = auth.uid();
+  if v_sender.role is distinct from 'admin' then
+    raise exception 'permission denied: only administrators can send reminders';
+  end if;
+  select * into v_request from public.requests where id = p_request_id;
+  if not found then
+    raise exception 'Request % not found', p_request_id;
+  end if;
+  if cardinality(v_request.current_approver_ids) = 0 then
+    raise exception 'This request is not waiting on anyone.';
+  end if;
+
+  insert into public.request_reminders (request_id, recipient_id, sender_id, kind, message)
+  select p_request_id, recipients.id::uuid, v_sender.id, 'reminder',
+    format('Reminder from %s: request %s is waiting for your approval.', v_sender.email, p_request_id)
+  from (
+    select unnest(v_request.current_approver_ids) as id
+    union
+    select d.delegate_id::text
+    from public.approval_delegations d
+    where d.delegator_id::text = any (v_request.current_approver_ids)
+      and current_date between d.starts_on and d.ends_on
+  ) as recipients;
+
+  insert into public.request_events (request_id, kind) values (p_request_id, 'reminded');
+end;
+$$;
+
+-- Marks the pending entries of every step past its SLA as escalated, hands them to the template's backup
+-- approver and alerts them (or the administrators). Each entry escalates once. Runs every 10 minutes from
+-- pg_cron, never from the portal.
+create or replace function public.escalate_overdue_requests()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_request public.requests%rowtype;
+  v_template public.workflow_templates%rowtype;
+  v_queue jsonb;
+  v_end int;
+  v_sla int;
+  v_backup public.profiles%rowtype;
+  v_waiting_on text;
+  i int;
+begin
+  for v_request in select * from public.requests where status = 'Pending' for update loop
+    v_queue := v_request.approval_queue;
+    v_end := public.request_step_end(v_queue, v_request.current_approver_index);
+    v_sla := null;
+    for i in v_request.current_approver_index .. v_end - 1 loop
+      v_sla := coalesce(v_sla, (v_queue -> i ->> 'sla_hours')::int);
+    end loop;
+    continue when v_sla is null or v_request.current_step_started_at + make_interval(hours => v_sla) > now();
+
+    v_waiting_on := null;
+    for i in v_request.current_approver_index .. v_end - 1 loop
+      if (v_queue -> i ->> 'status') = 'Pending' and not (v_queue -> i ? 'escalated_at') then
+        v_waiting_on := concat_ws(', ', v_waiting_on, coalesce(v_queue -> i ->> 'user_email', v_queue -> i ->> 'user_id'));
+      end if;
+    end loop;
+    continue when v_waiting_on is null;
+
+    select * into v_template from public.workflow_templates where request_type = v_request.type;
+    v_backup := null;
+    if v_template.escalate_to ->> 'kind' = 'role' then
+      select * into v_backup from public.profiles
+      where role = 'approver' and (v_template.escalate_to ->> 'role') = any (workflow_roles)
+      order by email limit 1;
+    elsif v_template.escalate_to ->> 'kind' = 'user' then
+      select * into v_backup from public.profiles
+      where role = 'approver' and id::text = v_template.escalate_to ->> 'user_id';
+    end if;
+
+    for i in v_request.current_approver_index .. v_end - 1 loop
+      if (v_queue -> i ->> 'status') = 'Pending' and not (v_queue -> i ? 'escalated_at') then
+        v_queue := jsonb_set(v_queue, array[i::text], (v_queue -> i) || jsonb_strip_nulls(jsonb_build_object(
+          'escalated_at', now(),
+          'escalated_to_id', case when v_backup.id::text <> (v_queue -> i ->> 'user_id') then v_backup.id::text end
+        )));
+      end if;
+    end loop;
+    update public.requests set approval_queue = v_queue where id = v_request.id;
+
+    insert into public.request_reminders (request_id, recipient_id, kind, message)
+    select v_request.id, recipients.id, 'escalation',
+      case when v_backup.id is not null
+        then format('Request %s has waited more than %sh for %s. You can now approve it as the backup approver.', v_request.id, v_sla, v_waiting_on)
+        else format('Request %s has waited more than %sh for %s.', v_request.id, v_sla, v_waiting_on)
+      end
+    from (
+      select v_backup.id where v_backup.id is not null
+      union all
+      select p.id from public.profiles p where v_backup.id is null and p.role = 'admin'
+    ) as recipients(id);
+  end loop;
+end;
+$$;
+
+-- The database owner (pg_cron) and the service role only.
+revoke execute on function public.escalate_overdue_requests() from public, anon, authenticated;
+grant execute on function public.escalate_overdue_requests() to service_role;
+
+-- Scheduling under an existing job name replaces that job.
+create extension if not exists pg_cron;
+select cron.schedule('escalate-overdue-approvals', '*/10 * * * *', 'select public.escalate_overdue_requests()');
+
+-- Step roles (dataAccess.profiles.setWorkflowRoles): queue entries carry the role the step is taken in
+-- ("step_role": hod | internal_audit | finance | medical_director), which replaces the hard-coded auditor
+-- email and the leave form's details.selectedHODId. Administrators assign roles to approvers.
+create or replace function public.set_workflow_roles(p_user_id uuid, p_roles text[])
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_profile public.profiles%rowtype;
+begin
+  if not exists (select 1 from public.profiles where id = auth.uid() and role = 'admin') then
+    raise exception 'permission denied: only administrators can assign step roles';
+  end if;
+  select * into v_profile from public.profiles where id = p_user_id;
+  if not found then
+    raise exception 'Profile % not found', p_user_id;
+  end if;
+  if v_profile.role <> 'approver' and cardinality(p_roles) > 0 then
+    raise exception 'Step roles can only be given to approvers.';
+  end if;
+  if exists (select 1 from unnest(p_roles) as r where r not in ('hod', 'internal_audit', 'finance', 'medical_director')) then
+    raise exception 'Unknown step role in %', p_roles;
+  end if;
+
+  update public.profiles
+  set workflow_roles = array(select distinct unnest(p_roles))
+  where id = p_user_id;
+end;
+$$;
+
+-- The auditor used to be recognised by email alone.
+update public.profiles
+set workflow_roles = workflow_roles || array['internal_audit']
+where email = 'auditorzankli@gmail.com' and not ('internal_audit' = any (workflow_roles));
+
+-- Backfill existing queues with the roles the portal used to infer. Only entries still without a role are
+-- touched, so once every queue is backfilled a re-run updates no rows.
+update public.requests r
+set approval_queue = (
+  select jsonb_agg(
+    case
+      when q.step ? 'step_role' then q.step
+      when r.type = 'Leave Request' and q.step ->> 'user_id' = r.details ->> 'selectedHODId'
+        then q.step || '{"step_role": "hod"}'
+      when q.step ->> 'user_id' in (select id::text from public.profiles where email = 'auditorzankli@gmail.com')
+        then q.step || '{"step_role": "internal_audit"}'
+      else q.step
+    end order by q.ord)
+  from jsonb_array_elements(r.approval_queue) with ordinality as q(step, ord)
+)
+where exists (
+  select 1
+  from jsonb_array_elements(r.approval_queue) as q(step)
+  where not q.step ? 'step_role'
+    and ((r.type = 'Leave Request' and q.step ->> 'user_id' = r.details ->> 'selectedHODId')
+      or q.step ->> 'user_id' in (select id::text from public.profiles where email = 'auditorzankli@gmail.com'))
+);
+
+-- Request state machine (lib/requestStatus.ts): the status changes any RPC may make. Requests with an
+-- approval queue go Pending -> Approved / Rejected / Sent Back for Correction, back to Pending when
+-- resubmitted, and Approved -> Completed once their fulfilment is recorded; item requests go Pending ->
+-- Completed. Either may be cancelled before a decision. Keep in step with TRANSITIONS in the portal.
+create or replace function public.enforce_request_status_transition()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_flow text := case when new.type = 'Item Request' then 'inbox' else 'approvalQueue' end;
+begin
+  if new.status is not distinct from old.status then
+    return new;
+  end if;
+  if (v_flow, old.status, new.status) in (
+    ('approvalQueue', 'Pending', 'Approved'),
+    ('approvalQueue', 'Pending', 'Rejected'),
+    ('approvalQueue', 'Pending', 'Sent Back for Correction'),
+    ('approvalQueue', 'Sent Back for Correction', 'Pending'),
+    ('approvalQueue', 'Pending', 'Cancelled'),
+    ('approvalQueue', 'Sent Back for Correction', 'Cancelled'),
+    ('inbox', 'Pending', 'Completed'),
+    ('inbox', 'Pending', 'Cancelled')
+  ) then
+    return new;
+  end if;
+  -- Completed after approval only by recording the fulfilment stages, which these types alone have
+  -- (see record_fulfilment_stage).
+  if (old.status, new.status) = ('Approved', 'Completed') and new.type in ('Product Procurement', 'Diesel Requisition') then
+    return new;
+  end if;
+  raise exception 'Cannot move this % from % to %.', new.type, old.status, new.status;
+end;
+$$;
+
+drop trigger if exists requests_status_transition on public.requests;
+create trigger requests_status_transition
+  before update of status on public.requests
+  for each row execute function public.enforce_request_status_transition();
+
+-- Cancellation (dataAccess.requests.cancel): the requester or an administrator withdraws a pending or
+-- sent back request, with a reason. Cancelled requests drop out of every approver's queue.
+alter table public.requests
+  add column if not exists cancelled_by_id uuid references public.profiles (id),
+  add column if not exists cancelled_by_email text,
+  add column if not exists cancelled_at timestamptz,
+  add column if not exists cancellation_reason text;
+
+create or replace function public.cancel_request(p_request_id uuid, p_reason text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_request public.requests%rowtype;
+begin
+  select * into v_request from public.requests where id = p_request_id for update;
+  if not found then
+    raise exception 'Request % not found', p_request_id;
+  end if;
+  if v_request.requester_id is distinct from auth.uid()
+    and not exists (select 1 from public.profiles where id = auth.uid() and role = 'admin') then
+    raise exception 'permission denied: only the requester or an administrator can cancel this request';
+  end if;
+  if coalesce(trim(p_reason), '') = '' then
+    raise exception 'A reason is required to cancel a request.';
+  end if;
+
+  -- requests_status_transition rejects anything but Pending / Sent Back for Correction.
+  update public.requests
+  set status = 'Cancelled',
+      cancelled_by_id = auth.uid(),
+      cancelled_by_email = (select email from public.profiles where id = auth.uid()),
+      cancelled_at = now(),
+      cancellation_reason = trim(p_reason)
+  where id = p_request_id;
+
+  insert into public.request_events (request_id, kind, detail) values (p_request_id, 'cancelled', trim(p_reason));
+end;
+$$;
+
+-- Fulfilment (dataAccess.requests.recordFulfilmentStage, lib/fulfilment.ts): after approval, procurement and
+-- diesel requisitions go through PO Issued -> Goods Received -> Invoice Received -> Paid, then Completed.
+-- A workflow template may keep only some of the stages before Completed. Each stage is recorded once, in
+-- order, as {"stage", "by_id", "by_email", "at", "note"}.
+alter table public.requests
+  add column if not exists fulfilment jsonb not null default '[]'::jsonb;
+
+alter table public.workflow_templates
+  add column if not exists fulfilment_stages text[];
+
+create or replace function public.record_fulfilment_stage(p_request_id uuid, p_stage text, p_note text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_request public.requests%rowtype;
+  v_stages text[];
+  v_next text;
+begin
+  if not exists (select 1 from public.profiles where id = auth.uid() and role = 'admin') then
+    raise exception 'permission denied: only administrators can record fulfilment';
+  end if;
+  select * into v_request from public.requests where id = p_request_id for update;
+  if not found then
+    raise exception 'Request % not found', p_request_id;
+  end if;
+  if v_request.type not in ('Product Procurement', 'Diesel Requisition') then
+    raise exception '% requests have no fulfilment stages.', v_request.type;
+  end if;
+  if v_request.status <> 'Approved' then
+    raise exception 'This request is not awaiting fulfilment.';
+  end if;
+
+  select array(
+    select s.stage
+    from unnest(array['PO Issued', 'Goods Received', 'Invoice Received', 'Paid']) with ordinality as s(stage, ord)
+    where s.stage = any(coalesce(
+      (select t.fulfilment_stages from public.workflow_templates t where t.request_type = v_request.type),
+      array['PO Issued', 'Goods Received', 'Invoice Received', 'Paid']
+    ))
+    order by s.ord
+  ) || array['Completed'] into v_stages;
+
+  select s.stage into v_next
+  from unnest(v_stages) with ordinality as s(stage, ord)
+  where not exists (select 1 from jsonb_array_elements(v_request.fulfilment) as r(record) where r.record ->> 'stage' = s.stage)
+  order by s.ord
+  limit 1;
+  if p_stage is distinct from v_next then
+    raise exception 'The next fulfilment stage is %.', v_next;
+  end if;
+
+  update public.requests
+  set fulfilment = fulfilment || jsonb_build_array(jsonb_strip_nulls(jsonb_build_object(
+        'stage', p_stage,
+        'by_id', auth.uid(),
+        'by_email', (select email from public.profiles where id = auth.uid()),
+        'at', now(),
+        'note', nullif(trim(p_note), '')
+      ))),
+      status = case when p_stage = 'Completed' then 'Completed' else status end
+  where id = p_request_id;
+
+  insert into public.request_events (request_id, kind, detail)
+  values (
+    p_request_id,
+    case when p_stage = 'Completed' then 'completed' else 'fulfilment' end,
+    p_stage || coalesce(': ' || nullif(trim(p_note), ''), '')
+  );
+end;
+$$;
+
+-- Revisions (dataAccess.revisions): every submission a resubmission replaces is kept, with the approvers'
+-- decisions on it, so the portal can show what changed after a request was sent back. Rows are written by
+-- resubmit_request_as_admin only and never change.
+create table if not exists public.request_revisions (
+  id uuid primary key default gen_random_uuid(),
+  request_id uuid not null references public.requests (id) on delete cascade,
+  revision int not null,
+  requester_name text not null,
+  details jsonb not null,
+  approval_queue jsonb not null,
+  vendor_id uuid,
+  file_name text,
+  file_url text,
+  submitted_at timestamptz not null,
+  superseded_at timestamptz not null default now(),
+  superseded_by_id uuid references public.profiles (id) on delete set null,
+  unique (request_id, revision)
+);
+
+alter table public.request_revisions enable row level security;
+
+-- Readable by whoever can read the request itself; the subquery runs under the requests policies.
+drop policy if exists "Users can read revisions of requests they can see" on public.request_revisions;
+create policy "Users can read revisions of requests they can see"
+  on public.request_revisions for select
+  to authenticated
+  using (exists (select 1 from public.requests r where r.id = request_id));
+
+-- Replaces the earlier resubmit_request_as_admin: the submission being replaced is stored as a revision first.
+-- The new queue starts pending with each entry's group, SLA and step role; consultations are not carried over.
+create or replace function public.resubmit_request_as_admin(
+  p_request_id uuid,
+  p_requester_name text,
+  p_details jsonb,
+  p_approval_queue jsonb,
+  p_vendor_id uuid,
+  p_file_url text,
+  p_file_name text,
+  p_requester_signature text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_request public.requests%rowtype;
+  v_last public.request_revisions%rowtype;
+begin
+  if not exists (select 1 from public.profiles where id = auth.uid() and role = 'admin') then
+    raise exception 'permission denied: only administrators can resubmit requests';
+  end if;
+  select * into v_request from public.requests where id = p_request_id for update;
+  if not found then
+    raise exception 'Request % not found', p_request_id;
+  end if;
+
+  select * into v_last from public.request_revisions
+  where request_id = p_request_id
+  order by revision desc
+  limit 1;
+
+  insert into public.request_revisions (
+    request_id, revision, requester_name, details, approval_queue, vendor_id, file_name, file_url,
+    submitted_at, superseded_by_id
+  ) values (
+    p_request_id, coalesce(v_last.revision, 0) + 1, v_request.requester_name, v_request.details,
+    v_request.approval_queue, v_request.vendor_id, v_request.file_name, v_request.file_url,
+    coalesce(v_last.superseded_at, v_request.created_at), auth.uid()
+  );
+
+  -- requests_status_transition rejects anything but a sent back request.
+  update public.requests
+  set requester_name = p_requester_name,
+      details = p_details,
+      approval_queue = (
+        select coalesce(jsonb_agg(jsonb_strip_nulls(jsonb_build_object(
+          'user_id', q.step ->> 'user_id',
+          'user_email', q.step ->> 'user_email',
+          'status', 'Pending',
+          'group', q.step -> 'group',
+          'sla_hours', q.step -> 'sla_hours',
+          'step_role', q.step ->> 'step_role'
+        )) order by q.ord), '[]'::jsonb)
+        from jsonb_array_elements(p_approval_queue) with ordinality as q(step, ord)
+      ),
+      vendor_id = p_vendor_id,
+      file_url = p_file_url,
+      file_name = p_file_name,
+      requester_signature = p_requester_signature,
+      status = 'Pending',
+      current_approver_index = 0
+  where id = p_request_id;
+
+  insert into public.request_events (request_id, kind) values (p_request_id, 'resubmitted');
+end;
+$$;
+
+-- Activity log (dataAccess.events): an append-only record of who did what to a request. Every change is logged
+-- in the same transaction as the change itself, by the function or trigger that makes it; the portal only logs
+-- viewing and downloading a request. The actor and time are set here, not by the client, and rows can never be
+-- changed or removed.
+create table if not exists public.request_events (
+  id uuid primary key default gen_random_uuid(),
+  request_id uuid not null references public.requests (id) on delete cascade,
+  kind text not null check (kind in (
+    'created', 'resubmitted', 'approved', 'rejected', 'sentBack', 'completed', 'cancelled',
+    'fulfilment', 'commented', 'reminded', 'viewed', 'downloaded'
+  )),
+  actor_id uuid references public.profiles (id) on delete set null,
+  actor_email text,
+  at timestamptz not null default now(),
+  detail text
+);
+
+create index if not exists request_events_request_idx on public.request_events (request_id, at);
+
+create or replace function public.stamp_request_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  new.actor_id := auth.uid();
+  new.actor_email := (select email from public.profiles where id = auth.uid());
+  new.at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists request_events_stamp on public.request_events;
+create trigger request_events_stamp
+  before insert on public.request_events
+  for each row execute function public.stamp_request_event();
+
+alter table public.request_events enable row level security;
+
+drop policy if exists "Users can read the activity of requests they can see" on public.request_events;
+create policy "Users can read the activity of requests they can see"
+  on public.request_events for select
+  to authenticated
+  using (exists (select 1 from public.requests r where r.id = request_id));
+
+-- No update or delete policies: the log is append-only. actor_id has been stamped by the time this is checked.
+drop policy if exists "Users can log activity on requests they can see" on public.request_events;
+drop policy if exists "Users can log viewing and downloading requests they can see" on public.request_events;
+create policy "Users can log viewing and downloading requests they can see"
+  on public.request_events for insert
+  to authenticated
+  with check (
+    kind in ('viewed', 'downloaded')
+    and actor_id = auth.uid()
+    and exists (select 1 from public.requests r where r.id = request_id)
+  );
+
+-- Submissions and comments are inserted by the portal directly, and item requests are completed by
+-- update_item_request_status_as_admin, so these are logged by triggers.
+create or replace function public.log_request_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    insert into public.request_events (request_id, kind) values (new.id, 'created');
+  elsif new.type = 'Item Request' and old.status = 'Pending' and new.status = 'Completed' then
+    insert into public.request_events (request_id, kind) values (new.id, 'completed');
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists requests_log_change on public.requests;
+create trigger requests_log_change
+  after insert or update of status on public.requests
+  for each row execute function public.log_request_change();
+
+create or replace function public.log_pdf_comment()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.request_events (request_id, kind, detail) values (new.request_id, 'commented', new.comment);
+  return null;
+end;
+$$;
+
+drop trigger if exists pdf_comments_log on public.pdf_comments;
+create trigger pdf_comments_log
+  after insert on public.pdf_comments
+  for each row execute function public.log_pdf_comment();
+
+-- Approving with adjustments (RequestActionParams.adjustments, lib/adjustments.ts): as they approve, an
+-- approver may change the adjustable values (diesel volume and cost per liter, procurement and store requisition
+-- line quantities). handle_request_action passes on the changes they asked for, [{"field", "item_id", "from",
+-- "to"}]; this checks each against the request type and the stored details, rejects a "from" that no longer
+-- matches (someone else adjusted it first), puts the new values in and recomputes the totals. The adjustments
+-- come back with "from" taken from the stored details, as kept on the approver's queue entry.
+drop function if exists public.adjust_request_details(uuid, jsonb, jsonb);
+create or replace function public.apply_request_adjustments(
+  p_type text,
+  p_details jsonb,
+  p_adjustments jsonb,
+  out details jsonb,
+  out adjustments jsonb
+)
+language plpgsql
+immutable
+as $$
+declare
+  v_adjustment jsonb;
+  v_field text;
+  v_item_id text;
+  v_key text;
+  v_from numeric;
+  v_to numeric;
+  v_line int;
+  -- Store requisition lines are identified by their store item, procurement lines by their own id.
+  v_line_id text := case when p_type = 'Store Requisition' then 'itemId' else 'id' end;
+begin
+  details := p_details;
+  adjustments := '[]'::jsonb;
+
+  for v_adjustment in select a.value from jsonb_array_elements(p_adjustments) as a loop
+    v_field := v_adjustment ->> 'field';
+    v_item_id := v_adjustment ->> 'item_id';
+    v_key := case when v_item_id is null then v_field else v_field || ':' || v_item_id end;
+    if jsonb_typeof(v_adjustment -> 'to') <> 'number' or (v_adjustment ->> 'to')::numeric <= 0 then
+      raise exception 'Adjusted values must be greater than zero.';
+    end if;
+    v_to := (v_adjustment ->> 'to')::numeric;
+
+    if p_type = 'Diesel Requisition' and v_field in ('volume', 'costPerLiter') and v_item_id is null then
+      v_from := coalesce((details ->> v_field)::numeric, 0);
+      details := jsonb_set(details, array[v_field], to_jsonb(v_to));
+    elsif p_type in ('Product Procurement', 'Store Requisition') and v_field = 'items' and v_item_id is not null then
+      -- Procurement lines saved without an id are numbered by position, as the portal does.
+      select line.ord - 1, coalesce((line.item ->> 'quantity')::numeric, 0) into v_line, v_from
+      from jsonb_array_elements(coalesce(details -> 'items', '[]'::jsonb)) with ordinality as line(item, ord)
+      where coalesce(line.item ->> v_line_id, case when p_type = 'Product Procurement' then 'line-' || line.ord end) = v_item_id;
+      if v_line is null then
+        raise exception '% cannot be adjusted.', v_key;
+      end if;
+      details := jsonb_set(details, array['items', v_line::text], (details -> 'items' -> v_line) || jsonb_build_object(
+        'quantity', v_to,
+        'totalCost', round(v_to * coalesce((details -> 'items' -> v_line ->> 'unitCost')::numeric, 0), 2)
+      ));
+    else
+      raise exception '% cannot be adjusted.', v_key;
+    end if;
+
+    if v_adjustment ? 'from' and jsonb_typeof(v_adjustment -> 'from') = 'number' and (v_adjustment ->> 'from')::numeric <> v_from then
+      raise exception '% has changed since the request was opened.', v_key;
+    end if;
+    adjustments := adjustments || jsonb_build_array(jsonb_strip_nulls(jsonb_build_object(
+      'field', v_field, 'item_id', v_item_id, 'from', v_from, 'to', v_to
+    )));
+  end loop;
+
+  if p_type = 'Diesel Requisition' then
+    details := details || jsonb_build_object('totalCost',
+      round(coalesce((details ->> 'volume')::numeric, 0) * coalesce((details ->> 'costPerLiter')::numeric, 0), 2));
+  else
+    details := details || jsonb_build_object('grandTotal', (
+      select round(coalesce(sum((line.item ->> 'totalCost')::numeric), 0), 2)
+      from jsonb_array_elements(coalesce(details -> 'items', '[]'::jsonb)) as line(item)
+    ));
+  end if;
+end;
+$$;
+
+-- Ad-hoc reviewers (dataAccess.requests.consult, lib/consultations.ts): a current approver may add a colleague
+-- to the queue, just before their step (the question goes to the reviewer first and the step comes back
+-- afterwards) or just after it. The entry carries "consultation": {"mode": blocking | advisory,
+-- "requested_by_id", "requested_by_email", "requested_at", "question"}.
+create or replace function public.consult_reviewer(p_request_id uuid, p_reviewer_id uuid, p_mode text, p_position text, p_question text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_request public.requests%rowtype;
+  v_reviewer public.profiles%rowtype;
+  v_start int;
+  v_end int;
+  v_at int;
+  v_entry jsonb;
+begin
+  select * into v_request from public.requests where id = p_request_id for update;
+  if not found then
+    raise exception 'Request % not found', p_request_id;
+  end if;
+  if v_request.status <> 'Pending' then
+    raise exception 'This request is no longer pending approval.';
+  end if;
+  if not (v_request.current_approver_ids && public.acting_approver_ids()) then
+    raise exception 'permission denied: you are not a current approver for this request';
+  end if;
+  if p_mode not in ('blocking', 'advisory') or p_position not in ('before', 'after') then
+    raise exception 'Invalid review: % %', p_mode, p_position;
+  end if;
+  if p_position = 'before' and coalesce(trim(p_question), '') = '' then
+    raise exception 'Please say what you would like the reviewer to look at.';
+  end if;
+
+  select * into v_reviewer from public.profiles where id = p_reviewer_id;
+  if not found or v_reviewer.role <> 'approver' then
+    raise exception 'Reviewers must be approvers.';
+  end if;
+
+  v_start := v_request.current_approver_index;
+  v_end := public.request_step_end(v_request.approval_queue, v_start);
+  if exists (
+    select 1 from jsonb_array_elements(v_request.approval_queue) with ordinality as e(step, ord)
+    where e.ord > v_start and e.ord <= v_end and e.step ->> 'user_id' = p_reviewer_id::text and e.step ->> 'status' = 'Pending'
+  ) then
+    raise exception '% is already signing this step.', v_reviewer.email;
+  end if;
+
+  v_at := case when p_position = 'before' then v_start else v_end end;
+  v_entry := jsonb_build_object(
+    'user_id', v_reviewer.id,
+    'user_email', v_reviewer.email,
+    'status', 'Pending',
+    'consultation', jsonb_strip_nulls(jsonb_build_object(
+      'mode', p_mode,
+      'requested_by_id', auth.uid(),
+      'requested_by_email', (select email from public.profiles where id = auth.uid()),
+      'requested_at', now(),
+      'question', nullif(trim(p_question), '')
+    ))
+  );
+
+  update public.requests
+  set approval_queue = (
+    select coalesce(jsonb_agg(e.step order by e.ord), '[]'::jsonb)
+    from jsonb_array_elements(v_request.approval_queue) with ordinality as e(step, ord)
+    where e.ord <= v_at
+  ) || jsonb_build_array(v_entry) || (
+    select coalesce(jsonb_agg(e.step order by e.ord), '[]'::jsonb)
+    from jsonb_array_elements(v_request.approval_queue) with ordinality as e(step, ord)
+    where e.ord > v_at
+  ),
+  current_step_started_at = case when p_position = 'before' then now() else current_step_started_at end
+  where id = p_request_id;
+
+  insert into public.request_events (request_id, kind, detail)
+  values (
+    p_request_id,
+    'consulted',
+    format('%s (%s)', v_reviewer.email, case p_mode when 'blocking' then 'Blocking review' else 'Advisory review' end)
+      || coalesce(': ' || nullif(trim(p_question), ''), '')
+  );
+end;
+$$;
+
+-- Advisory reviewers give their review but cannot reject the request or send it back.
+create or replace function public.enforce_advisory_reviews()
+returns trigger
+language plpgsql
+as $$
+begin
+  if exists (
+    select 1 from jsonb_array_elements(new.approval_queue) as e(step)
+    where e.step -> 'consultation' ->> 'mode' = 'advisory' and e.step ->> 'status' in ('Rejected', 'Sent Back for Correction')
+  ) then
+    raise exception 'Advisory reviewers can only give their review; they cannot reject or send back.';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists requests_enforce_advisory_reviews on public.requests;
+create trigger requests_enforce_advisory_reviews
+  before update of approval_queue on public.requests
+  for each row execute function public.enforce_advisory_reviews();
+
+-- Adding a reviewer is logged too.
+alter table public.request_events drop constraint if exists request_events_kind_check;
+alter table public.request_events add constraint request_events_kind_check check (kind in (
+  'created', 'resubmitted', 'approved', 'rejected', 'sentBack', 'completed', 'cancelled',
+  'fulfilment', 'consulted', 'commented', 'reminded', 'viewed', 'downloaded'
+));
+
+-- Leave balances (dataAccess.leaveLedger, lib/leave.ts): one row per movement on a staff member's balance for a
+-- leave category and year. Administrators record entitlements and adjustments; "taken" rows are written by
+-- enforce_leave_balance below when a leave request is approved.
+create table if not exists public.leave_ledger (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  category text not null check (category in ('Annual', 'Sick', 'Maternity', 'Compassionate')),
+  year int not null,
+  days numeric not null check (days <> 0),
+  kind text not null check (kind in ('entitlement', 'adjustment', 'taken')),
+  request_id uuid references public.requests (id) on delete set null,
+  note text,
+  created_by uuid references public.profiles (id) default auth.uid(),
+  created_at timestamptz not null default now()
+);
+
+alter table public.leave_ledger enable row level security;
+
+drop policy if exists "Signed in users can read leave balances" on public.leave_ledger;
+create policy "Signed in users can read leave balances"
+  on public.leave_ledger for select
+  to authenticated
+  using (true);
+
+drop policy if exists "Admins record leave entitlements and adjustments" on public.leave_ledger;
+create policy "Admins record leave entitlements and adjustments"
+  on public.leave_ledger for insert
+  to authenticated
+  with check (kind in ('entitlement', 'adjustment') and exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'));
+
+-- The public holiday calendar (dataAccess.publicHolidays). Leave requests record the holidays they skip when
+-- they are submitted, so later changes to the calendar do not alter them.
+create table if not exists public.public_holidays (
+  id uuid primary key default gen_random_uuid(),
+  date date not null unique,
+  name text not null
+);
+
+alter table public.public_holidays enable row level security;
+
+drop policy if exists "Signed in users can read public holidays" on public.public_holidays;
+create policy "Signed in users can read public holidays"
+  on public.public_holidays for select
+  to authenticated
+  using (true);
+
+drop policy if exists "Admins manage public holidays" on public.public_holidays;
+create policy "Admins manage public holidays"
+  on public.public_holidays for all
+  to authenticated
+  using (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'))
+  with check (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'));
+
+create or replace function public.leave_balance(p_user_id uuid, p_category text, p_year int)
+returns numeric
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(sum(days), 0) from public.leave_ledger
+  where user_id = p_user_id and category = p_category and year = p_year;
+$$;
+
+-- Leave may not be submitted, resubmitted or approved beyond the applicant's balance for the year it starts in;
+-- approving it charges the balance. The working days are those counted by the portal ("leaveDays").
+-- Requests saved before leave had an applicant are left alone.
+create or replace function public.enforce_leave_balance()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid;
+  v_category text;
+  v_year int;
+  v_days numeric;
+  v_balance numeric;
+begin
+  if new.type <> 'Leave Request' or new.status not in ('Pending', 'Approved') or coalesce(new.details ->> 'applicantId', '') = '' then
+    return new;
+  end if;
+  if tg_op = 'UPDATE' and new.status = old.status and new.details = old.details then
+    return new;
+  end if;
+
+  v_user_id := (new.details ->> 'applicantId')::uuid;
+  v_category := coalesce(new.details ->> 'category', 'Annual');
+  v_year := extract(year from (new.details ->> 'startDate')::date);
+  v_days := coalesce((new.details ->> 'leaveDays')::numeric, 0);
+  v_balance := public.leave_balance(v_user_id, v_category, v_year);
+
+  if v_days > v_balance then
+    raise exception '% has % day(s) of % leave left, fewer than the % requested.',
+      coalesce(nullif(new.details ->> 'applicantName', ''), 'The applicant'), v_balance, lower(v_category), v_days;
+  end if;
+
+  if new.status = 'Approved' and tg_op = 'UPDATE' and old.status <> 'Approved' then
+    insert into public.leave_ledger (user_id, category, year, days, kind, request_id)
+    values (v_user_id, v_category, v_year, -v_days, 'taken', new.id);
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists requests_enforce_leave_balance on public.requests;
+create trigger requests_enforce_leave_balance
+  before insert or update of status, details on public.requests
+  for each row execute function public.enforce_leave_balance();
+
+-- Departmental leave calendar (dataAccess.leaveCalendar): pending and approved leave overlapping a date range,
+-- readable by every signed-in user without opening up the requests themselves.
+create or replace function public.leave_calendar(p_from date, p_to date)
+returns table (
+  request_id uuid,
+  applicant_id text,
+  applicant_name text,
+  department text,
+  category text,
+  start_date date,
+  end_date date,
+  public_holidays jsonb,
+  status text
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select r.id,
+    r.details ->> 'applicantId',
+    coalesce(r.details ->> 'applicantName', ''),
+    coalesce(r.details ->> 'department', ''),
+    coalesce(r.details ->> 'category', 'Annual'),
+    (r.details ->> 'startDate')::date,
+    (r.details ->> 'endDate')::date,
+    coalesce(r.details -> 'publicHolidays', '[]'::jsonb),
+    r.status
+  from public.requests r
+  where auth.uid() is not null
+    and r.type = 'Leave Request'
+    and r.status in ('Pending', 'Approved')
+    and coalesce(r.details ->> 'applicantId', '') <> ''
+    and (r.details ->> 'startDate')::date <= p_to
+    and (r.details ->> 'endDate')::date >= p_from;
+$$;
+
+-- How many staff of a department may be on leave on the same working day before the portal flags a clash
+-- (dataAccess.staffingLimits). Departments without a row flag any overlap.
+create table if not exists public.leave_staffing_limits (
+  id uuid primary key default gen_random_uuid(),
+  department text not null,
+  max_on_leave int not null check (max_on_leave >= 1)
+);
+
+create unique index if not exists leave_staffing_limits_department_key
+  on public.leave_staffing_limits (lower(trim(department)));
+
+alter table public.leave_staffing_limits enable row level security;
+
+drop policy if exists "Signed in users can read staffing limits" on public.leave_staffing_limits;
+create policy "Signed in users can read staffing limits"
+  on public.leave_staffing_limits for select
+  to authenticated
+  using (true);
+
+drop policy if exists "Admins manage staffing limits" on public.leave_staffing_limits;
+create policy "Admins manage staffing limits"
+  on public.leave_staffing_limits for all
+  to authenticated
+  using (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'))
+  with check (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'));
+
+-- Unsubmitted requests kept on the account (dataAccess.drafts), for users who choose to; drafts are otherwise
+-- only kept in the browser. The form values are stored as typed, and files picked for a draft are not uploaded.
+create table if not exists public.request_drafts (
+  id uuid primary key,
+  owner_id uuid not null default auth.uid() references public.profiles (id) on delete cascade,
+  request_type text not null,
+  details jsonb not null default '{}'::jsonb,
+  requester_name text not null default '',
+  approval_queue jsonb not null default '[]'::jsonb,
+  vendor_id text,
+  pending_files jsonb not null default '{}'::jsonb,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.request_drafts enable row level security;
+
+drop policy if exists "Users manage their own drafts" on public.request_drafts;
+create policy "Users manage their own drafts"
+  on public.request_drafts for all
+  to authenticated
+  using (owner_id = auth.uid())
+  with check (owner_id = auth.uid());
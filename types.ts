@@ -10,6 +10,15 @@ export interface User {
   email: string;
   role: UserRole;
   fullName?: string; // Add a full name for display purposes
+  workflowRoles?: WorkflowRole[];
+}
+
+// Organisational roles an approval step can be bound to instead of a named user.
+export enum WorkflowRole {
+  HOD = 'hod',
+  INTERNAL_AUDIT = 'internal_audit',
+  FINANCE = 'finance',
+  MEDICAL_DIRECTOR = 'medical_director',
 }
 
 export interface Vendor {
@@ -33,6 +42,18 @@ export enum ApprovalStatus {
   REJECTED = 'Rejected',
   SENT_BACK = 'Sent Back for Correction',
   COMPLETED = 'Completed',
+  CANCELLED = 'Cancelled',
+}
+
+// How many members of a parallel approval group have to approve before the request moves on.
+export type ApprovalGroupMode = 'all' | 'any' | 'quorum';
+
+// Consecutive approval queue entries carrying the same group form one parallel step: every member can act
+// while the step is current, and the step completes once `required` members have approved.
+export interface ApprovalGroup {
+  id: string;
+  mode: ApprovalGroupMode;
+  required: number;
 }
 
 export interface Approver {
@@ -45,6 +66,48 @@ export interface Approver {
   hodComments?: string;
   internalAuditComments?: string;
   finalAmount?: number;
+  // Values this approver changed as they approved; the request's details hold the adjusted values.
+  adjustments?: DetailAdjustment[];
+  // Set on entries a current approver added mid-chain to consult a colleague.
+  consultation?: Consultation;
+  group?: ApprovalGroup;
+  // The organisational role this step is taken in; decides which inputs (HOD comments, audit amount) the approver gets.
+  stepRole?: WorkflowRole;
+  // Set when a delegate acted on this step on the approver's behalf.
+  actedById?: string;
+  actedByEmail?: string;
+  // How long this step may stay pending before it is escalated.
+  slaHours?: number;
+  // Set once the step ran past its SLA; `escalatedToId` is the backup approver who may now act on it
+  // (absent when administrators were alerted instead).
+  escalatedAt?: string;
+  escalatedToId?: string;
+}
+
+// A value changed during approval, e.g. a diesel volume cut. `itemId` names the line when the field is a
+// line-item table, in which case the line's quantity was changed.
+export interface DetailAdjustment {
+  field: string;
+  itemId?: string;
+  from: number;
+  to: number;
+}
+
+// Ad-hoc reviewers added mid-chain. Blocking reviewers sign like any approver; advisory ones give their
+// review but cannot reject the request or send it back.
+export type ConsultationMode = 'blocking' | 'advisory';
+
+// 'before': the reviewer is asked first and the step then returns to the approver who asked;
+// 'after': the reviewer follows the current step.
+export type ConsultationPosition = 'before' | 'after';
+
+export interface Consultation {
+  mode: ConsultationMode;
+  requestedById: string;
+  requestedByEmail?: string;
+  requestedAt: string;
+  // What the reviewer is asked to look at.
+  question?: string;
 }
 
 export interface PdfComment {
@@ -56,6 +119,17 @@ export interface PdfComment {
   createdAt: string;
 }
 
+// Aggregated per request so comment counts (and the latest comment, for notifications) can be shown
+// without loading every comment up front.
+export interface PdfCommentSummary {
+  requestId: string;
+  count: number;
+  lastCommentAt: string;
+  lastCommentUserId: string;
+  lastCommentUserEmail?: string;
+  lastComment: string;
+}
+
 export interface StoreItem {
   id: string;
   name: string;
@@ -73,6 +147,29 @@ export interface StoreRequisitionItem {
     totalCost: number;
 }
 
+// One line of a procurement request. Lines may point at the store item being restocked and at the vendor
+// it is bought from when that differs from the request's vendor.
+export interface ProcurementLineItem {
+  id: string;
+  description: string;
+  unit: string;
+  quantity: number;
+  unitCost: number;
+  totalCost: number;
+  storeItemId?: string;
+  vendorId?: string;
+}
+
+// A vendor's quote for a procurement request, with the quote document when one was attached.
+export interface Quotation {
+  id: string;
+  vendorId: string;
+  amount: number;
+  validUntil: string;
+  fileURL?: string;
+  fileName?: string;
+}
+
 // FIX: Added Annotation interface to support PDF annotations.
 export interface Annotation {
   id: string;
@@ -85,26 +182,180 @@ export interface Annotation {
   points?: { x: number; y: number }[];
 }
 
-export interface Request {
+// Fields shared by every request type.
+interface BaseRequestDetails {
+  subject: string;
+  dateOfRequisition: string;
+}
+
+export interface DieselDetails extends BaseRequestDetails {
+  volume: number;
+  dieselRemaining: number;
+  costPerLiter: number;
+  totalCost: number;
+  reason: string;
+}
+
+export interface ProcurementDetails extends BaseRequestDetails {
+  department: string;
+  items: ProcurementLineItem[];
+  grandTotal: number;
+  justification: string;
+  quotations: Quotation[];
+  // The quotation recommended to approvers; a reason is required when it is not the cheapest.
+  selectedQuotationId: string;
+  selectionJustification: string;
+}
+
+export enum LeaveCategory {
+  ANNUAL = 'Annual',
+  SICK = 'Sick',
+  MATERNITY = 'Maternity',
+  COMPASSIONATE = 'Compassionate',
+}
+
+export interface LeaveDetails extends BaseRequestDetails {
+  // The staff member taking leave; their ledger is checked and charged.
+  applicantId: string;
+  applicantName: string;
+  // Free text, like a procurement request's; compared case-insensitively when looking for clashing leave.
+  department: string;
+  category: LeaveCategory;
+  startDate: string;
+  endDate: string;
+  // Public holidays on working days within the leave, as the calendar stood when the request was submitted.
+  publicHolidays: string[];
+  // Working days: weekends and public holidays are not counted.
+  leaveDays: number;
+  // The applicant's balance for the category when the request was submitted.
+  daysRemaining: number;
+  reason: string;
+}
+
+export interface ItemDetails extends BaseRequestDetails {
+  item: string;
+  quantity: number;
+  justification: string;
+}
+
+export interface StoreDetails extends BaseRequestDetails {
+  items: StoreRequisitionItem[];
+  grandTotal: number;
+}
+
+export interface RequestDetailsByType {
+  [RequestType.DIESEL]: DieselDetails;
+  [RequestType.PROCUREMENT]: ProcurementDetails;
+  [RequestType.LEAVE]: LeaveDetails;
+  [RequestType.ITEM]: ItemDetails;
+  [RequestType.STORE]: StoreDetails;
+}
+
+export type RequestDetails = RequestDetailsByType[RequestType];
+
+// Who withdrew a request, when and why.
+export interface RequestCancellation {
+  byId: string;
+  byEmail?: string;
+  at: string;
+  reason: string;
+}
+
+// Everything that can happen to a request, as recorded in its activity log.
+export type RequestEventKind =
+  | 'created' | 'resubmitted' | 'approved' | 'rejected' | 'sentBack' | 'completed' | 'cancelled'
+  | 'fulfilment' | 'consulted' | 'commented' | 'reminded' | 'viewed' | 'downloaded';
+
+// The only entries the portal writes itself; the backend logs every other kind together with the change.
+export type ClientRequestEventKind = Extract<RequestEventKind, 'viewed' | 'downloaded'>;
+
+// One entry of a request's append-only activity log. Who and when are filled in by the backend.
+export interface RequestEvent {
+  id: string;
+  requestId: string;
+  kind: RequestEventKind;
+  actorId?: string;
+  actorEmail?: string;
+  at: string;
+  // e.g. the comment given, the cancellation reason or the fulfilment stage.
+  detail?: string;
+}
+
+// A request as it was submitted, kept when an administrator resubmits it after it was sent back, together
+// with the approvers' decisions on it. Revisions are never changed afterwards.
+export interface RequestRevision {
+  id: string;
+  requestId: string;
+  // 1 for the original submission; the request itself is the revision after the last one stored.
+  revision: number;
+  requesterName: string;
+  details: RequestDetails;
+  approvalQueue: Approver[];
+  vendorId?: string;
+  fileName?: string;
+  fileURL?: string;
+  submittedAt: string;
+  // When the resubmission replaced it, and by whom.
+  supersededAt: string;
+  supersededById?: string;
+}
+
+// What happens to an approved procurement or diesel requisition, in order. Recording Completed closes
+// the request; the stages before it can be chosen per workflow template.
+export enum FulfilmentStage {
+  PO_ISSUED = 'PO Issued',
+  GOODS_RECEIVED = 'Goods Received',
+  INVOICE_RECEIVED = 'Invoice Received',
+  PAID = 'Paid',
+  COMPLETED = 'Completed',
+}
+
+// A fulfilment stage reached, who recorded it and when.
+export interface FulfilmentRecord {
+  stage: FulfilmentStage;
+  byId: string;
+  byEmail?: string;
+  at: string;
+  note?: string;
+}
+
+interface RequestFields {
   id: string;
   requesterId: string;
   requesterName: string;
-  type: RequestType;
-  details: { [key: string]: any };
   status: ApprovalStatus;
   approvalQueue: Approver[];
   currentApproverIndex: number;
+  // When the current approval step became current, for SLA tracking.
+  currentStepStartedAt?: string;
   createdAt: string;
+  // Set once the request is Cancelled.
+  cancellation?: RequestCancellation;
+  // Fulfilment stages recorded since approval, oldest first.
+  fulfilment?: FulfilmentRecord[];
   file?: File; // Only for frontend state before upload
   fileName?: string;
   fileURL?: string;
-  pdfComments?: PdfComment[];
   requesterSignature?: string;
   vendorId?: string;
   // FIX: Added optional annotations property to the Request interface.
   annotations?: Annotation[];
 }
 
+export type RequestOfType<T extends RequestType> = RequestFields & {
+  type: T;
+  details: RequestDetailsByType[T];
+};
+
+// Discriminated on `type`, so checking `request.type` narrows `request.details`.
+export type Request = { [T in RequestType]: RequestOfType<T> }[RequestType];
+
+// Pick/Omit applied to each Request variant separately, so `type` and `details` stay paired.
+export type DistributivePick<T, K extends keyof T> = T extends unknown ? Pick<T, K> : never;
+export type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+export type TypedRequestDetails = DistributivePick<Request, 'type' | 'details'>;
+
 export interface Notification {
   id: string;
   message: string;
@@ -112,3 +363,128 @@ export interface Notification {
   isRead: boolean;
   createdAt: string;
 }
+
+// A step of a workflow template, bound either to a named user or to whoever holds a workflow role.
+export type WorkflowStep =
+  | { kind: 'user'; userId: string }
+  | { kind: 'role'; role: WorkflowRole };
+
+export type WorkflowTemplateStep = WorkflowStep & { group?: ApprovalGroup; slaHours?: number };
+
+// The default approval chain for one request type, maintained by administrators.
+export interface WorkflowTemplate {
+  id: string;
+  requestType: RequestType;
+  steps: WorkflowTemplateStep[];
+  // When false the chain is fixed and requesters cannot change it on the form.
+  allowOverride: boolean;
+  // Default SLA for every step of the chain; a step's own `slaHours` takes precedence.
+  slaHours?: number;
+  // The backup approver for overdue steps; administrators are alerted when unset.
+  escalateTo?: WorkflowStep;
+  // Fulfilment stages tracked after approval, for types that have them; the type's defaults when unset.
+  fulfilmentStages?: FulfilmentStage[];
+  updatedAt?: string;
+}
+
+// Adds or skips an approval step on requests that match, on top of the workflow template.
+export interface RoutingRule {
+  id: string;
+  name: string;
+  // Empty applies the rule to every request type.
+  requestTypes: RequestType[];
+  // Compared case-insensitively with the request's department; empty matches any department.
+  department?: string;
+  // The rule matches amounts above `amountOver` and up to (including) `amountUpTo`.
+  amountOver?: number;
+  amountUpTo?: number;
+  action: 'require' | 'skip';
+  step: WorkflowStep;
+  active: boolean;
+}
+
+// Out-of-office cover: while active, the delegate may act on the delegator's approval steps.
+export interface Delegation {
+  id: string;
+  delegatorId: string;
+  delegateId: string;
+  // Inclusive ISO dates (yyyy-mm-dd).
+  startsOn: string;
+  endsOn: string;
+  reason?: string;
+}
+
+// One movement on a staff member's leave balance for a category and year. Administrators record
+// entitlements and adjustments; 'taken' entries are written when a leave request is approved.
+export type LeaveLedgerKind = 'entitlement' | 'adjustment' | 'taken';
+
+export interface LeaveLedgerEntry {
+  id: string;
+  userId: string;
+  category: LeaveCategory;
+  year: number;
+  // Positive for days granted, negative for days taken or withdrawn.
+  days: number;
+  kind: LeaveLedgerKind;
+  requestId?: string;
+  note?: string;
+  createdAt: string;
+}
+
+// A day off for everyone; leave spanning it is not charged for it.
+export interface PublicHoliday {
+  id: string;
+  // ISO date (yyyy-mm-dd).
+  date: string;
+  name: string;
+}
+
+// The parts of a pending or approved leave request shown on the departmental leave calendar; the reason and
+// approval trail stay with the request.
+export interface LeaveCalendarEntry {
+  requestId: string;
+  applicantId: string;
+  applicantName: string;
+  department: string;
+  category: LeaveCategory;
+  startDate: string;
+  endDate: string;
+  publicHolidays: string[];
+  status: ApprovalStatus.PENDING | ApprovalStatus.APPROVED;
+}
+
+// How many staff of a department may be on leave on the same working day before clashes are flagged.
+export interface StaffingLimit {
+  id: string;
+  department: string;
+  maxOnLeave: number;
+}
+
+// A request being filled in but not yet submitted, saved as the requester types. It keeps the raw form values
+// rather than normalised details, so resuming it shows exactly what was typed.
+export interface RequestDraft {
+  id: string;
+  ownerId: string;
+  requestType: RequestType;
+  details: { [key: string]: any };
+  requesterName: string;
+  // The approval queue as chosen so far, without any approval state.
+  approvalQueue: Pick<Approver, 'userId' | 'group' | 'slaHours' | 'stepRole'>[];
+  vendorId?: string;
+  // Names of files picked but not uploaded yet, by slot: 'attachment' for the request's document, otherwise the
+  // quotation id. The files themselves stay in the browser they were picked in (lib/draftFiles.ts).
+  pendingFiles: { [slot: string]: string };
+  updatedAt: string;
+}
+
+// A persisted nudge about a request, delivered to its recipient through the notification bell.
+export interface RequestReminder {
+  id: string;
+  requestId: string;
+  recipientId: string;
+  // Absent for automatic escalations.
+  senderId?: string;
+  kind: 'reminder' | 'escalation';
+  message: string;
+  createdAt: string;
+}